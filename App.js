@@ -1,8 +1,7 @@
 import React, { useEffect, useState } from 'react';
-import { StyleSheet, StatusBar, View, Text } from 'react-native';
+import { StyleSheet, StatusBar, View, Text, TouchableOpacity } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
-import NetInfo from '@react-native-community/netinfo';
 
 // Import components
 import OfflineIndicator from './src/components/OfflineIndicator';
@@ -16,92 +15,122 @@ import CustomerRegistrationScreen from './src/screens/CustomerRegistrationScreen
 import BalanceScreen from './src/screens/BalanceScreen';
 import ReloadScreen from './src/screens/ReloadScreen';
 import PaymentResultScreen from './src/screens/PaymentResultScreen';
+import RefundScreen from './src/screens/RefundScreen';
 import CustomerLookupScreen from './src/screens/CustomerLookupScreen';
+import OfflineSettingsScreen from './src/screens/OfflineSettingsScreen';
+import ShiftReportScreen from './src/screens/ShiftReportScreen';
+import LoginScreen from './src/screens/LoginScreen';
+import UnlockScreen from './src/screens/UnlockScreen';
 
 // Import utilities
-import { saveNetworkStatus } from './src/utils/storage';
-import { syncPendingTransactions } from './src/utils/sync';
+import { startSyncEngine } from './src/utils/syncEngine';
+import { startConnectivityMonitoring } from './src/utils/network';
+import { useOperator } from './src/hooks/useOperator';
+import { useVaultStatus } from './src/hooks/useVaultStatus';
+import { openVault, VAULT_STATUS } from './src/utils/vault';
+import { encryptSensitiveData } from './src/utils/storage';
+import { openDatabase } from './src/utils/database';
+import { enforceDataRetention } from './src/utils/dataProtection';
 
 // Create a stack navigator
 const Stack = createStackNavigator();
 
+// How often the data retention limit is checked while the app is running
+const RETENTION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
 // Check if we're using simulated API
 const USE_SIMULATE_API = false;
 
 export default function App() {
-  const [isOffline, setIsOffline] = useState(false);
-  const [pendingTransactions, setPendingTransactions] = useState(0);
-  const [isSyncing, setIsSyncing] = useState(false);
+  const operator = useOperator();
+  const vaultStatus = useVaultStatus();
+  // Why the local database couldn't be opened, and a counter bumped to try again
+  const [databaseError, setDatabaseError] = useState(null);
+  const [databaseAttempt, setDatabaseAttempt] = useState(0);
   
   // Set up network monitoring
   useEffect(() => {
-    // Subscribe to network state changes
-    const unsubscribe = NetInfo.addEventListener(state => {
-      const networkIsConnected = state.isConnected && state.isInternetReachable;
-      setIsOffline(!networkIsConnected);
-      
-      // Persist the network status for other components to use
-      saveNetworkStatus(networkIsConnected);
-      
-      // If we're coming back online and have pending transactions, try to sync
-      if (networkIsConnected && pendingTransactions > 0) {
-        handleSync();
-      }
-    });
+    // Feed device network changes into the shared connectivity state
+    const stopMonitoring = startConnectivityMonitoring();
     
-    // Check pending transactions on mount
-    checkPendingTransactions();
+    // Open encrypted storage (on web this waits for the passphrase)
+    openVault().catch(error => console.error('Error opening encrypted storage:', error));
     
     // Clean up on unmount
     return () => {
-      unsubscribe();
+      stopMonitoring();
     };
-  }, [pendingTransactions]);
+  }, []);
   
-  // Function to check for pending transactions
-  const checkPendingTransactions = async () => {
-    try {
-      // This would be implemented in a real app - for now use a mock value
-      // const pendingTx = await loadPendingTransactions();
-      // setPendingTransactions(pendingTx.length);
-      setPendingTransactions(2); // Mock value for demonstration
-    } catch (error) {
-      console.error('Error checking pending transactions:', error);
+  // Once storage is open, bring data saved by earlier versions up to date
+  // (database migrations, then encryption of anything saved before it was
+  // introduced), start the sync engine and purge cached data the terminal
+  // has kept too long. Sync and retention only start once the migrations
+  // have finished, so they never work on data still in the old format.
+  useEffect(() => {
+    if (vaultStatus !== VAULT_STATUS.OPEN) {
+      return;
     }
-  };
-  
-  // Function to handle syncing pending transactions
-  const handleSync = async () => {
-    if (isSyncing) return;
     
-    try {
-      setIsSyncing(true);
-      // In a real app, this would sync the transactions
-      await syncPendingTransactions();
-      
-      // For this demo, simulate success after a delay
-      setTimeout(() => {
-        setPendingTransactions(0);
-        setIsSyncing(false);
-      }, 3000);
-    } catch (error) {
-      console.error('Error syncing transactions:', error);
-      setIsSyncing(false);
-    }
-  };
+    let stopSyncEngine = null;
+    let retentionTimer = null;
+    let stopped = false;
+    setDatabaseError(null);
+    openDatabase()
+      .then(async () => {
+        await encryptSensitiveData().catch(error => console.error('Error encrypting stored data:', error));
+        if (stopped) {
+          return;
+        }
+        stopSyncEngine = startSyncEngine();
+        enforceDataRetention();
+        retentionTimer = setInterval(enforceDataRetention, RETENTION_CHECK_INTERVAL_MS);
+      })
+      .catch(error => {
+        console.error('Error opening the local database:', error);
+        if (!stopped) {
+          setDatabaseError(error);
+        }
+      });
+    
+    return () => {
+      stopped = true;
+      if (stopSyncEngine) {
+        stopSyncEngine();
+      }
+      if (retentionTimer) {
+        clearInterval(retentionTimer);
+      }
+    };
+  }, [vaultStatus, databaseAttempt]);
+  
+  // Nothing else can run until encrypted storage is open
+  if (vaultStatus !== VAULT_STATUS.OPEN) {
+    return <UnlockScreen status={vaultStatus} />;
+  }
+  
+  // Or if the data on the device couldn't be brought up to date
+  if (databaseError) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorTitle}>Local data could not be opened</Text>
+        <Text style={styles.errorMessage}>{databaseError.message}</Text>
+        <TouchableOpacity
+          style={styles.retryButton}
+          onPress={() => setDatabaseAttempt(attempt => attempt + 1)}
+        >
+          <Text style={styles.retryButtonText}>Try Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
   
   return (
     <NavigationContainer>
       <StatusBar barStyle="dark-content" backgroundColor="#f5f5f5" />
       
-      {/* Network status indicator - always visible */}
-      <OfflineIndicator 
-        isOffline={isOffline} 
-        syncing={isSyncing}
-        pendingTransactions={pendingTransactions}
-        onSyncPress={handleSync}
-        simulatedMode={USE_SIMULATE_API}
-      />
+      {/* Network and sync status indicator - always visible */}
+      <OfflineIndicator simulatedMode={USE_SIMULATE_API} />
       
       <Stack.Navigator
         initialRouteName="Home"
@@ -110,16 +139,59 @@ export default function App() {
           cardStyle: { backgroundColor: '#f5f5f5' },
         }}
       >
-        <Stack.Screen name="Home" component={HomeScreen} />
-        <Stack.Screen name="NFCScan" component={NFCScanScreen} />
-        <Stack.Screen name="PaymentDetails" component={PaymentDetailsScreen} />
-        <Stack.Screen name="CustomerDetails" component={CustomerDetailsScreen} />
-        <Stack.Screen name="CustomerRegistration" component={CustomerRegistrationScreen} />
-        <Stack.Screen name="Balance" component={BalanceScreen} />
-        <Stack.Screen name="Reload" component={ReloadScreen} />
-        <Stack.Screen name="PaymentResult" component={PaymentResultScreen} />
-        <Stack.Screen name="CustomerLookup" component={CustomerLookupScreen} />
+        {!operator ? (
+          // Nothing but the sign-in screen until an operator signs in
+          <Stack.Screen name="Login" component={LoginScreen} />
+        ) : (
+          <>
+            <Stack.Screen name="Home" component={HomeScreen} />
+            <Stack.Screen name="NFCScan" component={NFCScanScreen} />
+            <Stack.Screen name="PaymentDetails" component={PaymentDetailsScreen} />
+            <Stack.Screen name="CustomerDetails" component={CustomerDetailsScreen} />
+            <Stack.Screen name="CustomerRegistration" component={CustomerRegistrationScreen} />
+            <Stack.Screen name="Balance" component={BalanceScreen} />
+            <Stack.Screen name="Reload" component={ReloadScreen} />
+            <Stack.Screen name="PaymentResult" component={PaymentResultScreen} />
+            <Stack.Screen name="Refund" component={RefundScreen} />
+            <Stack.Screen name="CustomerLookup" component={CustomerLookupScreen} />
+            <Stack.Screen name="OfflineSettings" component={OfflineSettingsScreen} />
+            <Stack.Screen name="ShiftReport" component={ShiftReportScreen} />
+          </>
+        )}
       </Stack.Navigator>
     </NavigationContainer>
   );
-}
\ No newline at end of file
+}
+
+const styles = StyleSheet.create({
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#f5f5f5',
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  errorMessage: {
+    fontSize: 14,
+    color: '#f44336',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  retryButton: {
+    backgroundColor: '#5046e5',
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useLocation } from "wouter";
 import { Header } from "@/components/Header";
 import { NFCScanner } from "@/components/NFCScanner";
@@ -20,12 +20,51 @@ interface ScanResult {
 }
 import { PaymentFormData, AppSettings } from "@/types";
 import { APP_STATES } from "@/lib/constants";
+import { createUsbScanner, ReaderError, type ReaderStatus } from "@/lib/acr122u";
+import { createApiClient, NotFoundError, type Customer } from "@shared/api";
+import { decimalToMinorUnits } from "@shared/money";
+
+// Version of the settings saved in localStorage. Version 1 (and settings
+// saved before there was a version) kept payment description amounts in
+// decimal pesos; from version 2 they are minor units (centavos).
+const SETTINGS_VERSION = 2;
+const SETTINGS_VERSION_KEY = "settings_version";
+
+// Convert payment description amounts saved as decimals to minor units of
+// the saved currency, once, wherever they were saved, and record the new
+// version
+const migrateSavedSettings = () => {
+  if (Number(localStorage.getItem(SETTINGS_VERSION_KEY)) >= SETTINGS_VERSION) {
+    return;
+  }
+  
+  const savedSettings = localStorage.getItem('appSettings');
+  const parsedSettings = savedSettings ? JSON.parse(savedSettings) : null;
+  const currency: string | undefined = parsedSettings?.currency || undefined;
+  const toMinorUnits = (descriptions: AppSettings["paymentDescriptions"]) =>
+    descriptions.map(item => ({ ...item, amount: decimalToMinorUnits(item.amount, currency) }));
+  
+  if (Array.isArray(parsedSettings?.paymentDescriptions)) {
+    parsedSettings.paymentDescriptions = toMinorUnits(parsedSettings.paymentDescriptions);
+    localStorage.setItem('appSettings', JSON.stringify(parsedSettings));
+  }
+  
+  const savedDescriptions = localStorage.getItem('settings_paymentDescriptions');
+  if (savedDescriptions) {
+    const parsed = JSON.parse(savedDescriptions);
+    if (Array.isArray(parsed)) {
+      localStorage.setItem('settings_paymentDescriptions', JSON.stringify(toMinorUnits(parsed)));
+    }
+  }
+  
+  localStorage.setItem(SETTINGS_VERSION_KEY, String(SETTINGS_VERSION));
+};
 
 export default function Home() {
   // App state
   const [appState, setAppState] = useState<string>(APP_STATES.READY);
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
-  const [customer, setCustomer] = useState<any>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isReportsOpen, setIsReportsOpen] = useState(false);
@@ -35,6 +74,9 @@ export default function Home() {
   // Initialize settings from localStorage or use defaults
   const [settings, setSettings] = useState<AppSettings>(() => {
     try {
+      // Bring settings saved by older versions up to date first
+      migrateSavedSettings();
+      
       // Try to get settings from localStorage
       const savedSettings = localStorage.getItem('appSettings');
       if (savedSettings) {
@@ -49,16 +91,23 @@ export default function Home() {
       apiUrl: "/api",
       scannerMode: "manual",
       scanTimeout: 30,
+      // Amounts in minor units (centavos), like every amount the API takes
       paymentDescriptions: [
-        { description: "Products", amount: 500 },
-        { description: "Services", amount: 1000 },
-        { description: "Membership fee", amount: 2500 },
-        { description: "Subscription", amount: 1500 },
-        { description: "Event ticket", amount: 800 }
+        { description: "Products", amount: 50000 },
+        { description: "Services", amount: 100000 },
+        { description: "Membership fee", amount: 250000 },
+        { description: "Subscription", amount: 150000 },
+        { description: "Event ticket", amount: 80000 }
       ],
     };
   });
   
+  // Typed API client shared with the mobile app
+  const apiClient = useMemo(
+    () => createApiClient({ baseUrl: settings.apiUrl || "/api" }),
+    [settings.apiUrl]
+  );
+  
   // Hooks - must be defined in a consistent order to prevent React errors
   const nfcHook = useNFC();
   const paymentHook = usePayment();
@@ -68,44 +117,84 @@ export default function Home() {
   const { startScan, cancelScan, resetScan } = nfcHook;
   const { processing, result, processPayment, resetPayment } = paymentHook;
   
-  // Handle NFC scan completion
-  const handleScanComplete = async (result: ScanResult) => {
+  // ACR122U reader on USB, for Chromebooks and browsers without Web NFC
+  const [readerStatus, setReaderStatus] = useState<ReaderStatus>("disconnected");
+  const [readerName, setReaderName] = useState<string | null>(null);
+  const [readerError, setReaderError] = useState<string | null>(null);
+  // Bumped to scan again after a USB scan failed
+  const [usbScanAttempt, setUsbScanAttempt] = useState(0);
+  const usbScanner = useMemo(
+    () => createUsbScanner({
+      scanTimeout: settings.scanTimeout,
+      onStatusChange: (status, name) => {
+        setReaderStatus(status);
+        setReaderName(name);
+      },
+    }),
+    []
+  );
+  const isReaderConnected = readerStatus === "ready" || readerStatus === "scanning";
+  
+  // Show the scanned card under the given state and look up its customer.
+  // Resolves to the customer, or null when the card has none or the lookup failed.
+  const lookupCustomerForScan = async (result: ScanResult, nextState: string) => {
     // Ensure the cardId has the CARD- prefix
     let normalizedCardId = result.cardId;
     if (!normalizedCardId.startsWith("CARD-")) {
       normalizedCardId = "CARD-" + normalizedCardId;
     }
     
-    // Update result with normalized cardId
-    const normalizedResult: ScanResult = {
-      cardId: normalizedCardId
-    };
-    
-    setScanResult(normalizedResult);
-    setAppState(APP_STATES.LOOKING_UP_CUSTOMER);
+    setScanResult({ cardId: normalizedCardId });
+    setAppState(nextState);
     setIsLoading(true);
     
     try {
-      // Look up customer by card ID
-      const response = await fetch(`/api/customers/byCardId/${normalizedResult.cardId}`);
-      
-      if (response.ok) {
-        const customerData = await response.json();
-        setCustomer(customerData);
-        setAppState(APP_STATES.CUSTOMER_FOUND);
-      } else {
-        setAppState(APP_STATES.CUSTOMER_NOT_FOUND);
-      }
+      const customerData = await apiClient.getCustomerByCardId(normalizedCardId);
+      setCustomer(customerData);
+      return customerData;
     } catch (error) {
-      console.error("Error looking up customer:", error);
-      setAppState(APP_STATES.CUSTOMER_NOT_FOUND);
+      if (!(error instanceof NotFoundError)) {
+        console.error("Error looking up customer:", error);
+      }
+      setCustomer(null);
+      return null;
     } finally {
       setIsLoading(false);
     }
   };
   
+  // Handle NFC scan completion
+  const handleScanComplete = async (result: ScanResult) => {
+    const customerData = await lookupCustomerForScan(result, APP_STATES.LOOKING_UP_CUSTOMER);
+    setAppState(customerData ? APP_STATES.CUSTOMER_FOUND : APP_STATES.CUSTOMER_NOT_FOUND);
+  };
+  
+  // Handle a card scanned to check its balance
+  const handleBalanceScanComplete = (result: ScanResult) => {
+    lookupCustomerForScan(result, APP_STATES.CHECK_BALANCE);
+  };
+  
+  // Handle a card scanned to reload its account
+  const handleReloadScanComplete = (result: ScanResult) => {
+    lookupCustomerForScan(result, APP_STATES.RELOAD_ACCOUNT);
+  };
+  
+  // Ask for a USB reader and open it. Browsers only show the device
+  // picker from a click, so this runs from the Connect button.
+  const handleConnectReader = async () => {
+    setReaderError(null);
+    try {
+      await usbScanner.connect();
+    } catch (error) {
+      if (!(error instanceof ReaderError && error.code === "NO_READER")) {
+        console.error("Error connecting the USB reader:", error);
+      }
+      setReaderError(error instanceof Error ? error.message : "The reader could not be connected");
+    }
+  };
+  
   // Handle customer registration
-  const handleRegistrationComplete = (newCustomer: any) => {
+  const handleRegistrationComplete = (newCustomer: Customer) => {
     setCustomer(newCustomer);
     setAppState(APP_STATES.CUSTOMER_FOUND);
   };
@@ -116,7 +205,7 @@ export default function Home() {
   };
   
   // Handle customer selection to proceed to payment
-  const handleContinueToPayment = (selectedCustomer: any) => {
+  const handleContinueToPayment = (selectedCustomer: Customer) => {
     if (!selectedCustomer) {
       console.error("Cannot continue to payment: Customer is missing");
       return;
@@ -243,6 +332,59 @@ export default function Home() {
     }
   }, [result, processing]);
   
+  // Open a USB reader the page already has permission for, and close it
+  // when the page goes away
+  useEffect(() => {
+    usbScanner.reconnect().catch(error => console.warn("Could not open the USB reader:", error));
+    return () => {
+      usbScanner.dispose().catch(error => console.warn("Error closing the USB reader:", error));
+    };
+  }, [usbScanner]);
+  
+  useEffect(() => {
+    usbScanner.setScanTimeout(settings.scanTimeout);
+  }, [usbScanner, settings.scanTimeout]);
+  
+  // What a USB scan does with the card in each state that wants one. Kept
+  // in a ref so the scan below calls the handlers of the latest render
+  // (current settings and customer) without restarting on every render.
+  const usbScanHandlers = useRef<Record<string, (result: ScanResult) => void>>({});
+  usbScanHandlers.current = {
+    [APP_STATES.READY]: handleScanComplete,
+    [APP_STATES.SCANNING_FOR_BALANCE]: handleBalanceScanComplete,
+    [APP_STATES.SCANNING_FOR_RELOAD]: handleReloadScanComplete,
+  };
+  
+  // While a card is wanted, read it from the USB reader as well
+  useEffect(() => {
+    if (!usbScanHandlers.current[appState] || !isReaderConnected) {
+      return;
+    }
+    
+    let cancelled = false;
+    setReaderError(null);
+    // The idle home screen waits for a card as long as it takes
+    const scanTimeout = appState === APP_STATES.READY ? 0 : settings.scanTimeout;
+    usbScanner.startScan({ scanTimeout })
+      .then(({ cardId }) => {
+        if (!cancelled) {
+          usbScanHandlers.current[appState]?.({ cardId });
+        }
+      })
+      .catch(error => {
+        if (cancelled || (error instanceof ReaderError && error.code === "CANCELLED")) {
+          return;
+        }
+        console.error("USB reader scan failed:", error);
+        setReaderError(error.message);
+      });
+    
+    return () => {
+      cancelled = true;
+      usbScanner.cancelScan();
+    };
+  }, [appState, isReaderConnected, usbScanner, usbScanAttempt, settings.scanTimeout]);
+  
   // Automatically start scanning if set to automatic
   useEffect(() => {
     if (settings.scannerMode === "automatic" && appState === APP_STATES.READY) {
@@ -250,6 +392,39 @@ export default function Home() {
     }
   }, [settings.scannerMode, appState, startScan]);
 
+  // USB reader status, with a Connect button while none is open
+  const usbReaderPanel = readerStatus !== "unsupported" && (
+    <div className="px-6 pt-2 text-sm w-full">
+      {isReaderConnected ? (
+        <p className="text-center text-muted-foreground">
+          {readerName || "USB reader"} {readerStatus === "scanning" ? "is waiting for a card" : "is ready"}
+        </p>
+      ) : readerStatus === "connecting" ? (
+        <p className="text-center text-muted-foreground">Connecting to the USB reader...</p>
+      ) : (
+        <button 
+          className="w-full border border-primary text-primary rounded-md py-2 font-medium"
+          onClick={handleConnectReader}
+        >
+          Connect USB Reader
+        </button>
+      )}
+      {readerError && (
+        <div className="mt-2 text-center">
+          <p className="text-red-600">{readerError}</p>
+          {isReaderConnected && (
+            <button 
+              className="mt-1 text-primary underline"
+              onClick={() => setUsbScanAttempt(attempt => attempt + 1)}
+            >
+              Scan Again
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-screen max-w-md mx-auto bg-white shadow-lg">
       <Header 
@@ -265,6 +440,7 @@ export default function Home() {
             <NFCScanner 
               onScanComplete={handleScanComplete}
             />
+            {usbReaderPanel}
             <div className="px-6 pb-6 mt-2 space-y-2">
               <button 
                 className="w-full bg-indigo-600 text-white rounded-md py-2 font-medium mb-2"
@@ -297,39 +473,12 @@ export default function Home() {
                     if (manualCardId && manualCardId.trim()) {
                       // Use the manual card ID with special handling for Android Chrome
                       // First, normalize it by removing colons, spaces, dashes, etc.
-                      let normalizedCardId = manualCardId.trim().replace(/[^a-zA-Z0-9]/g, "").toUpperCase();
-                      
-                      // Ensure the "CARD-" prefix is present
-                      if (!normalizedCardId.startsWith("CARD-")) {
-                        normalizedCardId = "CARD-" + normalizedCardId;
-                      }
+                      const normalizedCardId = manualCardId.trim().replace(/[^a-zA-Z0-9]/g, "").toUpperCase();
                       
                       console.log(`Manual entry for balance check: "${manualCardId}" normalized to "${normalizedCardId}"`);
                       
-                      const manualResult: ScanResult = {
-                        cardId: normalizedCardId
-                      };
-                      setScanResult(manualResult);
-                      setAppState(APP_STATES.CHECK_BALANCE);
-                      setIsLoading(true);
-                      
                       // Look up customer by manually entered card ID
-                      fetch(`/api/customers/byCardId/${manualResult.cardId}`)
-                        .then(response => {
-                          if (response.ok) {
-                            return response.json();
-                          }
-                          return null;
-                        })
-                        .then(customerData => {
-                          setCustomer(customerData);
-                          setIsLoading(false);
-                        })
-                        .catch(error => {
-                          console.error("Error looking up customer for balance:", error);
-                          setCustomer(null);
-                          setIsLoading(false);
-                        });
+                      lookupCustomerForScan({ cardId: normalizedCardId }, APP_STATES.CHECK_BALANCE);
                     }
                   } else {
                     // Switch to balance check scanning mode
@@ -351,39 +500,12 @@ export default function Home() {
                     if (manualCardId && manualCardId.trim()) {
                       // Use the manual card ID with special handling for Android Chrome
                       // First, normalize it by removing colons, spaces, dashes, etc.
-                      let normalizedCardId = manualCardId.trim().replace(/[^a-zA-Z0-9]/g, "").toUpperCase();
-                      
-                      // Ensure the "CARD-" prefix is present
-                      if (!normalizedCardId.startsWith("CARD-")) {
-                        normalizedCardId = "CARD-" + normalizedCardId;
-                      }
+                      const normalizedCardId = manualCardId.trim().replace(/[^a-zA-Z0-9]/g, "").toUpperCase();
                       
                       console.log(`Manual entry for reload: "${manualCardId}" normalized to "${normalizedCardId}"`);
                       
-                      const manualResult: ScanResult = {
-                        cardId: normalizedCardId
-                      };
-                      setScanResult(manualResult);
-                      setAppState(APP_STATES.RELOAD_ACCOUNT);
-                      setIsLoading(true);
-                      
                       // Look up customer by manually entered card ID
-                      fetch(`/api/customers/byCardId/${manualResult.cardId}`)
-                        .then(response => {
-                          if (response.ok) {
-                            return response.json();
-                          }
-                          return null;
-                        })
-                        .then(customerData => {
-                          setCustomer(customerData);
-                          setIsLoading(false);
-                        })
-                        .catch(error => {
-                          console.error("Error looking up customer for reload:", error);
-                          setCustomer(null);
-                          setIsLoading(false);
-                        });
+                      lookupCustomerForScan({ cardId: normalizedCardId }, APP_STATES.RELOAD_ACCOUNT);
                     }
                   } else {
                     // Switch to reload account scanning mode
@@ -542,44 +664,12 @@ export default function Home() {
         {appState === APP_STATES.SCANNING_FOR_BALANCE && (
           <div className="p-6 flex flex-col items-center justify-center h-full">
             <NFCScanner 
-              onScanComplete={(result: ScanResult) => {
-                // Ensure the cardId has the CARD- prefix
-                let normalizedCardId = result.cardId;
-                if (!normalizedCardId.startsWith("CARD-")) {
-                  normalizedCardId = "CARD-" + normalizedCardId;
-                }
-                
-                // Update result with normalized cardId
-                const normalizedResult: ScanResult = {
-                  cardId: normalizedCardId
-                };
-                
-                setScanResult(normalizedResult);
-                setAppState(APP_STATES.CHECK_BALANCE);
-                setIsLoading(true);
-                
-                // Look up customer by card ID for balance check
-                fetch(`/api/customers/byCardId/${normalizedResult.cardId}`)
-                  .then(response => {
-                    if (response.ok) {
-                      return response.json();
-                    }
-                    return null;
-                  })
-                  .then(customerData => {
-                    setCustomer(customerData);
-                    setIsLoading(false);
-                  })
-                  .catch(error => {
-                    console.error("Error looking up customer for balance:", error);
-                    setCustomer(null);
-                    setIsLoading(false);
-                  });
-              }} 
+              onScanComplete={handleBalanceScanComplete}
               onBack={() => {
                 setAppState(APP_STATES.READY);
               }}
             />
+            {usbReaderPanel}
           </div>
         )}
         
@@ -587,44 +677,12 @@ export default function Home() {
         {appState === APP_STATES.SCANNING_FOR_RELOAD && (
           <div className="p-6 flex flex-col items-center justify-center h-full">
             <NFCScanner 
-              onScanComplete={(result: ScanResult) => {
-                // Ensure the cardId has the CARD- prefix
-                let normalizedCardId = result.cardId;
-                if (!normalizedCardId.startsWith("CARD-")) {
-                  normalizedCardId = "CARD-" + normalizedCardId;
-                }
-                
-                // Update result with normalized cardId
-                const normalizedResult: ScanResult = {
-                  cardId: normalizedCardId
-                };
-                
-                setScanResult(normalizedResult);
-                setAppState(APP_STATES.RELOAD_ACCOUNT);
-                setIsLoading(true);
-                
-                // Look up customer by card ID for reload
-                fetch(`/api/customers/byCardId/${normalizedResult.cardId}`)
-                  .then(response => {
-                    if (response.ok) {
-                      return response.json();
-                    }
-                    return null;
-                  })
-                  .then(customerData => {
-                    setCustomer(customerData);
-                    setIsLoading(false);
-                  })
-                  .catch(error => {
-                    console.error("Error looking up customer for reload:", error);
-                    setCustomer(null);
-                    setIsLoading(false);
-                  });
-              }} 
+              onScanComplete={handleReloadScanComplete}
               onBack={() => {
                 setAppState(APP_STATES.READY);
               }}
             />
+            {usbReaderPanel}
           </div>
         )}
         
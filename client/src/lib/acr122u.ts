@@ -0,0 +1,925 @@
+/**
+ * WebUSB driver for ACR122U-class NFC readers (web / Chromebook build).
+ *
+ * The ACR122U is a USB CCID smart-card reader. The host sends it CCID
+ * messages over its bulk endpoints; inside those go PC/SC-style APDUs for
+ * the card on the reader (FF CA 00 00 00 returns the card's UID) and ACS
+ * pseudo-APDUs for the reader itself (LED and buzzer), which are sent as
+ * CCID escape commands so they work with no card present.
+ *
+ * Scanning polls the reader's slot status until a card is present, reads
+ * its UID, and gives up after the scan timeout. Only a newly placed card
+ * counts: the card a scan last read has to be taken off the reader (or
+ * another card put on instead) before it is read again, so one left lying
+ * there after a payment doesn't start the next one.
+ *
+ * Unplugging the reader ends any scan with a DISCONNECTED error; plugging a
+ * reader the page already has permission for back in reconnects to it
+ * without asking again. A reader that stops answering in the middle of a
+ * command is reset after a few seconds, and cancelling a scan abandons the
+ * command it is waiting on, so a stuck reader can't hold up the next one.
+ *
+ * Chrome treats smart-card readers as a protected USB class, so websites
+ * can only claim one where policy allows it (WebUsbAllowDevicesForUrls on
+ * managed Chromebooks, or an isolated web app). Elsewhere opening the
+ * reader fails with READER_BLOCKED and the app keeps to manual entry.
+ *
+ * The driver only uses the small UsbDeviceLike / UsbLike surface below, so
+ * it runs the same against navigator.usb and against the replaying
+ * simulated reader in mockUsbReader.ts.
+ *
+ * Home.tsx creates one scanner for the page and scans with it while a
+ * screen waits for a card:
+ *
+ *   const scanner = createUsbScanner({ scanTimeout: settings.scanTimeout });
+ *   scanner.startScan().then(({ cardId }) => onScanComplete({ cardId }));
+ *   scanner.cancelScan(); // when the screen stops waiting
+ */
+
+// ---------------------------------------------------------------------------
+// WebUSB surface
+// ---------------------------------------------------------------------------
+
+export interface UsbEndpointLike {
+  endpointNumber: number;
+  direction: "in" | "out";
+  type: "bulk" | "interrupt" | "isochronous";
+  packetSize: number;
+}
+
+export interface UsbInterfaceLike {
+  interfaceNumber: number;
+  alternate: {
+    interfaceClass: number;
+    endpoints: UsbEndpointLike[];
+  };
+}
+
+export interface UsbTransferInResult {
+  status: "ok" | "stall" | "babble";
+  data?: DataView;
+}
+
+export interface UsbTransferOutResult {
+  status: "ok" | "stall" | "babble";
+  bytesWritten: number;
+}
+
+/** The parts of a WebUSB USBDevice the driver uses */
+export interface UsbDeviceLike {
+  vendorId: number;
+  productId: number;
+  productName?: string;
+  serialNumber?: string;
+  opened: boolean;
+  configuration: { interfaces: UsbInterfaceLike[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<UsbTransferOutResult>;
+  transferIn(endpointNumber: number, length: number): Promise<UsbTransferInResult>;
+  /** Reset the device, ending any transfer in progress */
+  reset(): Promise<void>;
+}
+
+export interface UsbDeviceFilter {
+  vendorId?: number;
+  productId?: number;
+  classCode?: number;
+}
+
+export interface UsbConnectionEvent {
+  device: UsbDeviceLike;
+}
+
+/** The parts of navigator.usb the driver uses */
+export interface UsbLike {
+  requestDevice(options: { filters: UsbDeviceFilter[] }): Promise<UsbDeviceLike>;
+  getDevices(): Promise<UsbDeviceLike[]>;
+  addEventListener(type: "connect" | "disconnect", listener: (event: UsbConnectionEvent) => void): void;
+  removeEventListener(type: "connect" | "disconnect", listener: (event: UsbConnectionEvent) => void): void;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const ACS_VENDOR_ID = 0x072f;
+const ACR122U_PRODUCT_ID = 0x2200;
+const CCID_INTERFACE_CLASS = 0x0b;
+
+/** What the device chooser offers: ACR122U readers, then any CCID reader */
+export const READER_FILTERS: UsbDeviceFilter[] = [
+  { vendorId: ACS_VENDOR_ID, productId: ACR122U_PRODUCT_ID },
+  { classCode: CCID_INTERFACE_CLASS },
+];
+
+// CCID message types (USB CCID spec, section 6)
+const CCID = {
+  ICC_POWER_ON: 0x62,
+  ICC_POWER_OFF: 0x63,
+  GET_SLOT_STATUS: 0x65,
+  ESCAPE: 0x6b,
+  XFR_BLOCK: 0x6f,
+  DATA_BLOCK: 0x80,
+  SLOT_STATUS: 0x81,
+  ESCAPE_RESPONSE: 0x83,
+} as const;
+
+const CCID_HEADER_LENGTH = 10;
+
+// Most a single read asks for; a CCID message from the reader is at most
+// the header plus a short APDU response
+const MAX_TRANSFER_LENGTH = 512;
+
+// How long the reader gets to take or answer one transfer before it is
+// reset. Slow cards ask for more time with a time extension, which is a
+// transfer of its own.
+const TRANSFER_TIMEOUT_MS = 5000;
+
+// bmCommandStatus: the reader wants more time and will answer again
+const COMMAND_TIME_EXTENSION = 2;
+const COMMAND_FAILED = 1;
+
+// bmICCStatus
+const ICC_ABSENT = 2;
+
+const GET_UID_APDU = [0xff, 0xca, 0x00, 0x00, 0x00];
+const GET_FIRMWARE_APDU = [0xff, 0x00, 0x48, 0x00, 0x00];
+// Stop the reader beeping by itself whenever a card arrives
+const SILENCE_DETECTION_BEEP_APDU = [0xff, 0x00, 0x52, 0x00, 0x00];
+
+/** How often a scan checks whether a card is on the reader */
+export const DEFAULT_POLL_INTERVAL_MS = 250;
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export type ReaderErrorCode =
+  | "UNSUPPORTED"
+  | "NO_READER"
+  | "READER_BLOCKED"
+  | "DISCONNECTED"
+  | "TIMEOUT"
+  | "CANCELLED"
+  | "TRANSFER_FAILED"
+  | "CARD_ERROR";
+
+/** Anything that goes wrong talking to the reader or the card on it */
+export class ReaderError extends Error {
+  code: ReaderErrorCode;
+
+  constructor(message: string, code: ReaderErrorCode) {
+    super(message);
+    this.name = "ReaderError";
+    this.code = code;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// Turn what WebUSB rejects with into a ReaderError
+function toReaderError(error: unknown, action: string): ReaderError {
+  if (error instanceof ReaderError) {
+    return error;
+  }
+
+  const name = error instanceof Error || error instanceof DOMException ? error.name : "";
+  const detail = error instanceof Error || error instanceof DOMException ? error.message : String(error);
+  switch (name) {
+    case "NotFoundError":
+      return new ReaderError("The reader was unplugged", "DISCONNECTED");
+    case "SecurityError":
+      return new ReaderError(
+        "Chrome does not let this site use the reader. Ask your administrator to allow it " +
+          "(WebUsbAllowDevicesForUrls), or enter card IDs manually.",
+        "READER_BLOCKED"
+      );
+    default:
+      return new ReaderError(`${action}: ${detail}`, "TRANSFER_FAILED");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Write bytes as uppercase hex without separators (e.g. "04A22C5A") */
+export function bytesToHex(bytes: ArrayLike<number>): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("").toUpperCase();
+}
+
+/** Read hex, with or without spaces, into bytes */
+export function hexToBytes(hex: string): Uint8Array {
+  const digits = hex.replace(/[^0-9a-fA-F]/g, "");
+  if (digits.length % 2 !== 0) {
+    throw new Error(`Odd number of hex digits: ${hex}`);
+  }
+  return Uint8Array.from(digits.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+}
+
+/** The card ID the rest of the app uses for a UID, as on the mobile app */
+export function toCardId(uid: string): string {
+  return `CARD-${uid.toUpperCase()}`;
+}
+
+/** Check whether a device is one the driver can talk to */
+export function isSupportedReader(device: UsbDeviceLike): boolean {
+  return (
+    (device.vendorId === ACS_VENDOR_ID && device.productId === ACR122U_PRODUCT_ID) ||
+    (device.configuration?.interfaces ?? []).some((iface) => iface.alternate.interfaceClass === CCID_INTERFACE_CLASS)
+  );
+}
+
+/** navigator.usb, or null where the browser has no WebUSB */
+export function getWebUsb(): UsbLike | null {
+  const nav = typeof navigator === "undefined" ? undefined : (navigator as Navigator & { usb?: UsbLike });
+  return nav?.usb ?? null;
+}
+
+// Wait, ending early with CANCELLED when any of the signals aborts
+function sleep(ms: number, signals: Array<AbortSignal | undefined>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const active = signals.filter((signal): signal is AbortSignal => !!signal);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ReaderError("Scan cancelled", "CANCELLED"));
+    };
+    const timer = setTimeout(() => {
+      active.forEach((signal) => signal.removeEventListener("abort", onAbort));
+      resolve();
+    }, ms);
+
+    if (active.some((signal) => signal.aborted)) {
+      onAbort();
+      return;
+    }
+    active.forEach((signal) => signal.addEventListener("abort", onAbort, { once: true }));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+// ---------------------------------------------------------------------------
+
+export type CardPresence = "active" | "inactive" | "absent";
+
+/** A card's answer to an APDU: the data and the status word */
+export interface ApduResponse {
+  data: Uint8Array;
+  sw1: number;
+  sw2: number;
+}
+
+/** An LED and buzzer pattern (ACR122U "Bi-Color LED and Buzzer Control") */
+export interface ReaderSignal {
+  /** LEDs left on afterwards */
+  red?: boolean;
+  green?: boolean;
+  /** LEDs blinked first, `times` times, each on for onMs and off for offMs */
+  blink?: { red?: boolean; green?: boolean; onMs: number; offMs: number; times: number };
+  /** Sound the buzzer while the blinking LEDs are on */
+  beep?: boolean;
+}
+
+/** The signals the scanner shows */
+export const READER_SIGNALS: Record<"ready" | "success" | "error", ReaderSignal> = {
+  ready: { green: true },
+  success: { green: true, blink: { green: true, onMs: 100, offMs: 100, times: 1 }, beep: true },
+  error: { red: true, green: false, blink: { red: true, onMs: 200, offMs: 200, times: 3 }, beep: true },
+};
+
+// Pseudo-APDU for a signal: FF 00 40 P2 04 T1 T2 repetitions buzzer-link
+function signalApdu(signal: ReaderSignal): number[] {
+  // Bits 2 and 3 let the final states of both LEDs be set
+  let ledState = 0x0c;
+  if (signal.red) {
+    ledState |= 0x01;
+  }
+  if (signal.green) {
+    ledState |= 0x02;
+  }
+
+  const blink = signal.blink;
+  if (blink?.red) {
+    ledState |= 0x10 | 0x40;
+  }
+  if (blink?.green) {
+    ledState |= 0x20 | 0x80;
+  }
+
+  const toUnits = (ms: number) => Math.min(0xff, Math.max(0, Math.round(ms / 100)));
+  return [
+    0xff, 0x00, 0x40, ledState, 0x04,
+    toUnits(blink?.onMs ?? 0),
+    toUnits(blink?.offMs ?? 0),
+    Math.min(0xff, Math.max(0, blink?.times ?? 0)),
+    signal.beep ? 0x01 : 0x00,
+  ];
+}
+
+/**
+ * An open reader. Commands that take a signal are abandoned with CANCELLED
+ * when it aborts, and the reader is reset to end the transfer.
+ */
+export interface Acr122uReader {
+  device: UsbDeviceLike;
+  /** Product name for display */
+  name: string;
+  isConnected(): boolean;
+  getCardPresence(signal?: AbortSignal): Promise<CardPresence>;
+  /** Power the card and return its ATR */
+  powerOnCard(signal?: AbortSignal): Promise<Uint8Array>;
+  powerOffCard(signal?: AbortSignal): Promise<void>;
+  /** Send an APDU to the card */
+  transmit(apdu: ArrayLike<number>, signal?: AbortSignal): Promise<ApduResponse>;
+  /** Send a pseudo-APDU to the reader itself */
+  control(apdu: ArrayLike<number>, signal?: AbortSignal): Promise<ApduResponse>;
+  /** Read the UID of the card on the reader, as hex */
+  readUid(signal?: AbortSignal): Promise<string>;
+  getFirmwareVersion(): Promise<string>;
+  signal(signal: ReaderSignal): Promise<void>;
+  /**
+   * Poll until a card is placed on the reader and return its UID. The card
+   * last returned doesn't count again until it has been taken off.
+   */
+  waitForCard(options?: { timeoutMs?: number; signal?: AbortSignal; pollIntervalMs?: number }): Promise<string>;
+  close(): Promise<void>;
+}
+
+interface CcidResponse {
+  type: number;
+  seq: number;
+  status: number;
+  error: number;
+  data: Uint8Array;
+}
+
+// The reader's CCID interface and its bulk endpoints
+function findCcidEndpoints(device: UsbDeviceLike) {
+  const interfaces = device.configuration?.interfaces ?? [];
+  const withBulk = interfaces
+    .map((iface) => ({
+      iface,
+      bulkIn: iface.alternate.endpoints.find((e) => e.type === "bulk" && e.direction === "in"),
+      bulkOut: iface.alternate.endpoints.find((e) => e.type === "bulk" && e.direction === "out"),
+    }))
+    .filter(({ bulkIn, bulkOut }) => bulkIn && bulkOut);
+  // Some ACR122U firmware reports a vendor-specific class instead of CCID
+  const match = withBulk.find(({ iface }) => iface.alternate.interfaceClass === CCID_INTERFACE_CLASS) ?? withBulk[0];
+
+  if (!match) {
+    throw new ReaderError("The device is not a supported NFC reader", "NO_READER");
+  }
+  return { interfaceNumber: match.iface.interfaceNumber, bulkIn: match.bulkIn!, bulkOut: match.bulkOut! };
+}
+
+/**
+ * Open a reader and claim its CCID interface
+ * @param device The reader (from requestReader or findPermittedReader)
+ * @param options.usb Where unplug events come from (defaults to navigator.usb)
+ * @param options.onDisconnect Called once if the reader is unplugged
+ */
+export async function openReader(
+  device: UsbDeviceLike,
+  options: { usb?: UsbLike | null; onDisconnect?: () => void } = {}
+): Promise<Acr122uReader> {
+  const usb = options.usb === undefined ? getWebUsb() : options.usb;
+
+  let endpoints: ReturnType<typeof findCcidEndpoints>;
+  try {
+    if (!device.opened) {
+      await device.open();
+    }
+    if (!device.configuration) {
+      await device.selectConfiguration(1);
+    }
+    endpoints = findCcidEndpoints(device);
+    await device.claimInterface(endpoints.interfaceNumber);
+  } catch (error) {
+    throw toReaderError(error, "The reader could not be opened");
+  }
+
+  let sequence = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+  let connected = true;
+  // The card waitForCard last returned, until it leaves the reader
+  let lastUid: string | null = null;
+  // Aborted when the reader goes away, ending any wait
+  const lifetime = new AbortController();
+
+  const markDisconnected = () => {
+    if (!connected) {
+      return;
+    }
+    connected = false;
+    lifetime.abort();
+    usb?.removeEventListener("disconnect", handleUnplug);
+    options.onDisconnect?.();
+  };
+
+  const handleUnplug = (event: UsbConnectionEvent) => {
+    if (event.device === device) {
+      markDisconnected();
+    }
+  };
+  usb?.addEventListener("disconnect", handleUnplug);
+
+  // Reset a reader that is stuck on a transfer, which ends the transfer,
+  // and give up on the reader if even that fails
+  const resetDevice = () => {
+    device.reset().catch((error) => {
+      console.warn("Could not reset the reader:", error);
+      markDisconnected();
+    });
+  };
+
+  // Wait for a transfer until the reader takes too long, the command's
+  // signal aborts or the reader goes away
+  const limitTransfer = <T>(transfer: Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const signals = [signal, lifetime.signal].filter((active): active is AbortSignal => !!active);
+      const cleanUp = () => {
+        clearTimeout(timer);
+        signals.forEach((active) => active.removeEventListener("abort", onAbort));
+      };
+      const giveUp = (error: ReaderError) => {
+        cleanUp();
+        // Closing the device ends the transfer when the reader goes away
+        if (connected) {
+          resetDevice();
+        }
+        reject(error);
+      };
+      const onAbort = () =>
+        giveUp(
+          connected
+            ? new ReaderError("Scan cancelled", "CANCELLED")
+            : new ReaderError("The reader was unplugged", "DISCONNECTED")
+        );
+      const timer = setTimeout(
+        () => giveUp(new ReaderError("The reader stopped answering", "TRANSFER_FAILED")),
+        TRANSFER_TIMEOUT_MS
+      );
+
+      transfer.then(
+        (result) => {
+          cleanUp();
+          resolve(result);
+        },
+        (error) => {
+          cleanUp();
+          reject(error);
+        }
+      );
+      if (signals.some((active) => active.aborted)) {
+        onAbort();
+        return;
+      }
+      signals.forEach((active) => active.addEventListener("abort", onAbort, { once: true }));
+    });
+
+  // Read one whole CCID message, across as many transfers as it takes
+  const readMessage = async (signal?: AbortSignal): Promise<CcidResponse> => {
+    let bytes = new Uint8Array(0);
+    let expected = CCID_HEADER_LENGTH;
+
+    while (bytes.length < expected) {
+      const result = await limitTransfer(
+        device.transferIn(endpoints.bulkIn.endpointNumber, MAX_TRANSFER_LENGTH),
+        signal
+      );
+      if (result.status !== "ok" || !result.data) {
+        throw new ReaderError(`The reader did not answer (${result.status})`, "TRANSFER_FAILED");
+      }
+
+      const chunk = new Uint8Array(result.data.buffer, result.data.byteOffset, result.data.byteLength);
+      const joined = new Uint8Array(bytes.length + chunk.length);
+      joined.set(bytes);
+      joined.set(chunk, bytes.length);
+      bytes = joined;
+
+      if (bytes.length >= CCID_HEADER_LENGTH) {
+        expected = CCID_HEADER_LENGTH + new DataView(bytes.buffer).getUint32(1, true);
+      }
+    }
+
+    return {
+      type: bytes[0],
+      seq: bytes[6],
+      status: bytes[7],
+      error: bytes[8],
+      data: bytes.slice(CCID_HEADER_LENGTH, expected),
+    };
+  };
+
+  // Send a CCID command and wait for its answer
+  const sendCommand = async (
+    type: number,
+    payload: Uint8Array,
+    params: number[],
+    signal?: AbortSignal
+  ): Promise<CcidResponse> => {
+    if (!connected) {
+      throw new ReaderError("The reader was unplugged", "DISCONNECTED");
+    }
+    if (signal?.aborted) {
+      throw new ReaderError("Scan cancelled", "CANCELLED");
+    }
+
+    const seq = sequence;
+    sequence = (sequence + 1) & 0xff;
+
+    const message = new Uint8Array(CCID_HEADER_LENGTH + payload.length);
+    message[0] = type;
+    new DataView(message.buffer).setUint32(1, payload.length, true);
+    message[5] = 0; // slot
+    message[6] = seq;
+    message.set(params, 7);
+    message.set(payload, CCID_HEADER_LENGTH);
+
+    try {
+      const sent = await limitTransfer(device.transferOut(endpoints.bulkOut.endpointNumber, message), signal);
+      if (sent.status !== "ok") {
+        throw new ReaderError(`The reader refused the command (${sent.status})`, "TRANSFER_FAILED");
+      }
+
+      for (;;) {
+        const response = await readMessage(signal);
+        // Answers to an earlier command that was given up on are skipped
+        if (response.seq !== seq) {
+          continue;
+        }
+        if (response.status >> 6 === COMMAND_TIME_EXTENSION) {
+          continue;
+        }
+        return response;
+      }
+    } catch (error) {
+      const readerError = toReaderError(error, "Reader command failed");
+      if (readerError.code === "DISCONNECTED") {
+        markDisconnected();
+      }
+      throw readerError;
+    }
+  };
+
+  // Commands go one at a time; the reader has a single slot and sequence
+  const exchange = (
+    type: number,
+    payload: ArrayLike<number> = [],
+    params = [0, 0, 0],
+    signal?: AbortSignal
+  ): Promise<CcidResponse> => {
+    const run = queue.then(() => sendCommand(type, Uint8Array.from(payload), params, signal));
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  const assertSucceeded = (response: CcidResponse, what: string) => {
+    if (response.status >> 6 === COMMAND_FAILED) {
+      const reason = (response.status & 0x03) === ICC_ABSENT ? "no card on the reader" : `error 0x${bytesToHex([response.error])}`;
+      throw new ReaderError(`${what}: ${reason}`, "CARD_ERROR");
+    }
+  };
+
+  const toApduResponse = (data: Uint8Array, what: string): ApduResponse => {
+    if (data.length < 2) {
+      throw new ReaderError(`${what}: no status word in the response`, "CARD_ERROR");
+    }
+    return { data: data.slice(0, -2), sw1: data[data.length - 2], sw2: data[data.length - 1] };
+  };
+
+  const reader: Acr122uReader = {
+    device,
+    name: device.productName || "ACR122U",
+
+    isConnected: () => connected,
+
+    getCardPresence: async (signal) => {
+      const response = await exchange(CCID.GET_SLOT_STATUS, [], undefined, signal);
+      switch (response.status & 0x03) {
+        case 0:
+          return "active";
+        case 1:
+          return "inactive";
+        default:
+          return "absent";
+      }
+    },
+
+    powerOnCard: async (signal) => {
+      // bPowerSelect 0: let the reader choose the voltage
+      const response = await exchange(CCID.ICC_POWER_ON, [], [0x00, 0, 0], signal);
+      assertSucceeded(response, "The card could not be powered");
+      return response.data;
+    },
+
+    powerOffCard: async (signal) => {
+      await exchange(CCID.ICC_POWER_OFF, [], undefined, signal);
+    },
+
+    transmit: async (apdu, signal) => {
+      const response = await exchange(CCID.XFR_BLOCK, apdu, undefined, signal);
+      assertSucceeded(response, "The card did not answer");
+      return toApduResponse(response.data, "The card did not answer");
+    },
+
+    control: async (apdu, signal) => {
+      const response = await exchange(CCID.ESCAPE, apdu, undefined, signal);
+      assertSucceeded(response, "The reader did not answer");
+      return toApduResponse(response.data, "The reader did not answer");
+    },
+
+    readUid: async (signal) => {
+      await reader.powerOnCard(signal);
+      try {
+        const response = await reader.transmit(GET_UID_APDU, signal);
+        if (response.sw1 !== 0x90 || response.sw2 !== 0x00 || response.data.length === 0) {
+          throw new ReaderError(`The card did not return its UID (${bytesToHex([response.sw1, response.sw2])})`, "CARD_ERROR");
+        }
+        return bytesToHex(response.data);
+      } finally {
+        await reader.powerOffCard().catch(() => {});
+      }
+    },
+
+    getFirmwareVersion: async () => {
+      // Answered with the version as ASCII and no status word
+      const response = await exchange(CCID.ESCAPE, GET_FIRMWARE_APDU);
+      assertSucceeded(response, "The reader did not answer");
+      return String.fromCharCode(...response.data);
+    },
+
+    signal: async (signal) => {
+      const response = await reader.control(signalApdu(signal));
+      // The second status byte is the resulting LED state
+      if (response.sw1 !== 0x90) {
+        throw new ReaderError(`The reader refused the LED command (${bytesToHex([response.sw1, response.sw2])})`, "TRANSFER_FAILED");
+      }
+    },
+
+    waitForCard: async ({ timeoutMs = 0, signal, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS } = {}) => {
+      const deadline = timeoutMs > 0 ? Date.now() + timeoutMs : Infinity;
+
+      for (;;) {
+        if (signal?.aborted) {
+          throw new ReaderError("Scan cancelled", "CANCELLED");
+        }
+        if (!connected) {
+          throw new ReaderError("The reader was unplugged", "DISCONNECTED");
+        }
+        if (Date.now() >= deadline) {
+          throw new ReaderError("No card was presented in time", "TIMEOUT");
+        }
+
+        if ((await reader.getCardPresence(signal)) === "absent") {
+          lastUid = null;
+        } else {
+          try {
+            const uid = await reader.readUid(signal);
+            // The same card still lying there since the last read is skipped
+            if (uid !== lastUid) {
+              lastUid = uid;
+              return uid;
+            }
+          } catch (error) {
+            // The card was pulled away mid-read; keep waiting for one
+            if (!(error instanceof ReaderError && error.code === "CARD_ERROR")) {
+              throw error;
+            }
+          }
+        }
+
+        try {
+          await sleep(Math.min(pollIntervalMs, deadline - Date.now()), [signal, lifetime.signal]);
+        } catch (error) {
+          if (!connected) {
+            throw new ReaderError("The reader was unplugged", "DISCONNECTED");
+          }
+          throw error;
+        }
+      }
+    },
+
+    close: async () => {
+      const wasConnected = connected;
+      connected = false;
+      lifetime.abort();
+      usb?.removeEventListener("disconnect", handleUnplug);
+      if (wasConnected) {
+        await device.releaseInterface(endpoints.interfaceNumber).catch(() => {});
+        await device.close().catch(() => {});
+      }
+    },
+  };
+
+  // The app signals successful reads itself
+  await reader.control(SILENCE_DETECTION_BEEP_APDU).catch((error) => {
+    console.warn("Could not turn off the reader's detection beep:", error);
+  });
+
+  return reader;
+}
+
+/**
+ * Ask the user to pick a reader. Must be called from a click handler.
+ * @throws {ReaderError} NO_READER if the user closes the chooser
+ */
+export async function requestReader(usb: UsbLike | null = getWebUsb()): Promise<UsbDeviceLike> {
+  if (!usb) {
+    throw new ReaderError("This browser does not support USB readers", "UNSUPPORTED");
+  }
+  try {
+    return await usb.requestDevice({ filters: READER_FILTERS });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "NotFoundError") {
+      throw new ReaderError("No reader was selected", "NO_READER");
+    }
+    throw toReaderError(error, "The reader could not be selected");
+  }
+}
+
+/** A connected reader the page already has permission for, if any */
+export async function findPermittedReader(usb: UsbLike | null = getWebUsb()): Promise<UsbDeviceLike | null> {
+  if (!usb) {
+    return null;
+  }
+  const devices = await usb.getDevices();
+  return devices.find(isSupportedReader) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Scanner
+// ---------------------------------------------------------------------------
+
+export type ReaderStatus = "unsupported" | "disconnected" | "connecting" | "ready" | "scanning";
+
+export interface UsbScanResult {
+  cardId: string;
+  uid: string;
+}
+
+export interface UsbScannerOptions {
+  /** Defaults to navigator.usb */
+  usb?: UsbLike | null;
+  /** Seconds a scan waits for a card (settings.scanTimeout); 0 waits until cancelled */
+  scanTimeout?: number;
+  pollIntervalMs?: number;
+  onStatusChange?: (status: ReaderStatus, readerName: string | null) => void;
+}
+
+export interface UsbScanner {
+  getStatus(): ReaderStatus;
+  /** Ask the user to pick a reader and open it. Call from a click handler. */
+  connect(): Promise<void>;
+  /** Open a reader the page already has permission for, without asking */
+  reconnect(): Promise<boolean>;
+  /**
+   * Wait for a card and read it; rejects with a ReaderError. options.scanTimeout
+   * overrides the configured timeout for this scan (0 waits until cancelled).
+   */
+  startScan(options?: { scanTimeout?: number }): Promise<UsbScanResult>;
+  cancelScan(): void;
+  setScanTimeout(seconds: number): void;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Create the scanner behind the web app's startScan / cancelScan. It finds
+ * and opens the reader, runs one scan at a time with the configured
+ * timeout, signals the result on the reader's LED and buzzer, and follows
+ * the reader being unplugged and plugged back in.
+ */
+export function createUsbScanner(options: UsbScannerOptions = {}): UsbScanner {
+  const usb = options.usb === undefined ? getWebUsb() : options.usb;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  let scanTimeout = options.scanTimeout ?? 30;
+  let reader: Acr122uReader | null = null;
+  let opening: Promise<Acr122uReader> | null = null;
+  let scan: AbortController | null = null;
+  let status: ReaderStatus = usb ? "disconnected" : "unsupported";
+
+  const setStatus = (next: ReaderStatus) => {
+    status = next;
+    options.onStatusChange?.(next, reader?.name ?? null);
+  };
+
+  const open = (device: UsbDeviceLike): Promise<Acr122uReader> => {
+    if (!opening) {
+      setStatus("connecting");
+      opening = openReader(device, {
+        usb,
+        onDisconnect: () => {
+          reader = null;
+          scan?.abort();
+          setStatus("disconnected");
+        },
+      })
+        .then((opened) => {
+          reader = opened;
+          setStatus("ready");
+          reader.signal(READER_SIGNALS.ready).catch(() => {});
+          return opened;
+        })
+        .catch((error) => {
+          setStatus("disconnected");
+          throw error;
+        })
+        .finally(() => {
+          opening = null;
+        });
+    }
+    return opening;
+  };
+
+  // A reader the page may use was plugged (back) in
+  const handleConnect = (event: UsbConnectionEvent) => {
+    if (!reader && isSupportedReader(event.device)) {
+      open(event.device).catch((error) => console.warn("Could not reopen the reader:", error));
+    }
+  };
+  usb?.addEventListener("connect", handleConnect);
+
+  const reconnect = async (): Promise<boolean> => {
+    if (reader) {
+      return true;
+    }
+    const device = await findPermittedReader(usb);
+    if (!device) {
+      return false;
+    }
+    await open(device);
+    return true;
+  };
+
+  return {
+    getStatus: () => status,
+
+    connect: async () => {
+      if (!reader) {
+        await open(await requestReader(usb));
+      }
+    },
+
+    reconnect,
+
+    startScan: async ({ scanTimeout: timeout = scanTimeout } = {}) => {
+      if (!usb) {
+        throw new ReaderError("This browser does not support USB readers", "UNSUPPORTED");
+      }
+      if (!reader && !(await reconnect())) {
+        throw new ReaderError("No NFC reader is connected", "NO_READER");
+      }
+
+      // A new scan replaces one still running
+      scan?.abort();
+      const controller = new AbortController();
+      scan = controller;
+      const current = reader!;
+      setStatus("scanning");
+
+      try {
+        const uid = await current.waitForCard({
+          timeoutMs: timeout * 1000,
+          signal: controller.signal,
+          pollIntervalMs,
+        });
+        current.signal(READER_SIGNALS.success).catch(() => {});
+        return { cardId: toCardId(uid), uid };
+      } catch (error) {
+        if (error instanceof ReaderError && error.code !== "CANCELLED" && current.isConnected()) {
+          current.signal(READER_SIGNALS.error).catch(() => {});
+        }
+        throw error;
+      } finally {
+        if (scan === controller) {
+          scan = null;
+          if (current.isConnected()) {
+            setStatus("ready");
+          }
+        }
+      }
+    },
+
+    cancelScan: () => {
+      scan?.abort();
+    },
+
+    setScanTimeout: (seconds) => {
+      scanTimeout = seconds;
+    },
+
+    dispose: async () => {
+      scan?.abort();
+      usb?.removeEventListener("connect", handleConnect);
+      const current = reader;
+      reader = null;
+      await current?.close();
+      setStatus(usb ? "disconnected" : "unsupported");
+    },
+  };
+}
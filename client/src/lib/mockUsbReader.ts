@@ -0,0 +1,366 @@
+/**
+ * Simulated ACR122U for running the WebUSB driver without hardware
+ *
+ * createReplayUsbDevice speaks CCID on its bulk endpoints like a real
+ * reader, answering each command from a recording: the steps are what a
+ * reader said, in order, with APDUs and responses as hex. A command that
+ * doesn't match the next step rejects, naming the step the driver was
+ * expected to send. Once the steps run out the reader sits idle with no
+ * card. An "unplug" step pulls the reader out mid-conversation, and a
+ * "stall" step leaves the next command unanswered until the driver resets
+ * the reader, as a reader that has stopped responding does.
+ *
+ * createReplayUsb wraps simulated readers in a navigator.usb stand-in with
+ * the device chooser, permissions and connect / disconnect events.
+ */
+import {
+  bytesToHex,
+  hexToBytes,
+  type UsbConnectionEvent,
+  type UsbDeviceLike,
+  type UsbLike,
+} from "./acr122u";
+
+export type RecordedStep =
+  | { command: "slotStatus"; card: "present" | "absent"; times?: number }
+  | { command: "powerOn"; atr: string }
+  | { command: "powerOn"; error: "absent" | "mute" }
+  | { command: "powerOff" }
+  | { command: "transmit"; apdu: string; response: string }
+  | { command: "control"; apdu: string; response: string }
+  | { command: "unplug" }
+  | { command: "stall" };
+
+export interface ReplayDeviceOptions {
+  productName?: string;
+  serialNumber?: string;
+  /** Max bytes per bulk-in packet; longer answers are split */
+  packetSize?: number;
+  /** Refuse to claim the interface, as Chrome does for protected classes */
+  blocked?: boolean;
+}
+
+export interface ReplayUsbDevice extends UsbDeviceLike {
+  /** Commands received so far, e.g. "slotStatus", "transmit FFCA000000" */
+  readonly sent: string[];
+  /** Steps not yet replayed */
+  remainingSteps(): number;
+  /** Pull the reader out now */
+  unplug(): void;
+  /** Called when the reader is pulled out */
+  onUnplug?: () => void;
+}
+
+const COMMAND_NAMES: Record<number, RecordedStep["command"]> = {
+  0x62: "powerOn",
+  0x63: "powerOff",
+  0x65: "slotStatus",
+  0x6b: "control",
+  0x6f: "transmit",
+};
+
+// ICC status in bStatus
+const ICC_ACTIVE = 0x00;
+const ICC_INACTIVE = 0x01;
+const ICC_ABSENT = 0x02;
+const COMMAND_FAILED = 0x40;
+
+// bError values for failed commands
+const ERROR_ICC_MUTE = 0xfe;
+
+/** A card tapped after two empty polls: a MIFARE Ultralight with a 7-byte UID */
+export const SAMPLE_TAP_RECORDING: RecordedStep[] = [
+  { command: "control", apdu: "FF 00 52 00 00", response: "90 00" },
+  { command: "control", apdu: "FF 00 40 0E 04 00 00 00 00", response: "90 02" },
+  { command: "slotStatus", card: "absent", times: 2 },
+  { command: "slotStatus", card: "present" },
+  { command: "powerOn", atr: "3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 03 00 00 00 00 68" },
+  { command: "transmit", apdu: "FF CA 00 00 00", response: "04 A2 2C 5A 8B 5E 80 90 00" },
+  { command: "powerOff" },
+  { command: "control", apdu: "FF 00 40 AE 04 01 01 01 01", response: "90 02" },
+];
+
+/**
+ * Create a simulated reader that replays a recording
+ * @param recording Steps in the order the reader answered
+ */
+export function createReplayUsbDevice(recording: RecordedStep[], options: ReplayDeviceOptions = {}): ReplayUsbDevice {
+  const steps = recording.map((step) => ({ ...step }));
+  const packetSize = options.packetSize ?? 64;
+  const pending: Uint8Array[] = [];
+  const sent: string[] = [];
+  let present = true;
+  let claimed = false;
+  let iccStatus = ICC_ABSENT;
+  let stalled = false;
+  // Ends the read a stalled reader is holding up
+  let abortTransfer: ((error: DOMException) => void) | null = null;
+
+  const unplugged = () => new DOMException("The device was disconnected.", "NotFoundError");
+
+  // Queue a CCID answer, split into packets like the real endpoint
+  const answer = (type: number, seq: number, status: number, error = 0, data: Uint8Array = new Uint8Array(0)) => {
+    const message = new Uint8Array(10 + data.length);
+    message[0] = type;
+    new DataView(message.buffer).setUint32(1, data.length, true);
+    message[6] = seq;
+    message[7] = status;
+    message[8] = error;
+    message.set(data, 10);
+    for (let offset = 0; offset < message.length; offset += packetSize) {
+      pending.push(message.slice(offset, offset + packetSize));
+    }
+  };
+
+  // Take the next step, which has to be for this command
+  const nextStep = (command: RecordedStep["command"], apdu: string) => {
+    if (steps[0]?.command === "unplug") {
+      steps.shift();
+      device.unplug();
+      throw unplugged();
+    }
+
+    const step = steps[0];
+    if (!step) {
+      return null;
+    }
+
+    const expected = "apdu" in step ? hexToBytes(step.apdu) : null;
+    if (step.command !== command || (expected && bytesToHex(expected) !== apdu)) {
+      const wanted = expected ? `${step.command} ${bytesToHex(expected)}` : step.command;
+      throw new Error(`Recording expected ${wanted}, got ${command}${apdu ? ` ${apdu}` : ""}`);
+    }
+
+    if (step.command === "slotStatus" && (step.times ?? 1) > 1) {
+      step.times = (step.times ?? 1) - 1;
+    } else {
+      steps.shift();
+    }
+    return step;
+  };
+
+  const device: ReplayUsbDevice = {
+    vendorId: 0x072f,
+    productId: 0x2200,
+    productName: options.productName ?? "ACR122U PICC Interface",
+    serialNumber: options.serialNumber,
+    opened: false,
+    configuration: null,
+    sent,
+
+    remainingSteps: () => steps.length,
+
+    unplug: () => {
+      if (!present) {
+        return;
+      }
+      present = false;
+      device.opened = false;
+      abortTransfer?.(unplugged());
+      abortTransfer = null;
+      device.onUnplug?.();
+    },
+
+    open: async () => {
+      if (!present) {
+        throw unplugged();
+      }
+      device.opened = true;
+    },
+
+    close: async () => {
+      device.opened = false;
+      claimed = false;
+      abortTransfer?.(new DOMException("The device was closed.", "AbortError"));
+      abortTransfer = null;
+    },
+
+    reset: async () => {
+      if (!present) {
+        throw unplugged();
+      }
+      stalled = false;
+      pending.length = 0;
+      iccStatus = ICC_ABSENT;
+      abortTransfer?.(new DOMException("The transfer was cancelled.", "AbortError"));
+      abortTransfer = null;
+    },
+
+    selectConfiguration: async () => {
+      if (!present) {
+        throw unplugged();
+      }
+      device.configuration = {
+        interfaces: [
+          {
+            interfaceNumber: 0,
+            alternate: {
+              interfaceClass: 0x0b,
+              endpoints: [
+                { endpointNumber: 1, direction: "in", type: "interrupt", packetSize: 8 },
+                { endpointNumber: 2, direction: "out", type: "bulk", packetSize },
+                { endpointNumber: 2, direction: "in", type: "bulk", packetSize },
+              ],
+            },
+          },
+        ],
+      };
+    },
+
+    claimInterface: async () => {
+      if (!present) {
+        throw unplugged();
+      }
+      if (options.blocked) {
+        throw new DOMException("The requested interface implements a protected class.", "SecurityError");
+      }
+      claimed = true;
+    },
+
+    releaseInterface: async () => {
+      claimed = false;
+    },
+
+    transferOut: async (_endpointNumber, data) => {
+      if (!present) {
+        throw unplugged();
+      }
+      if (!claimed) {
+        throw new DOMException("The specified endpoint is not part of a claimed interface.", "InvalidStateError");
+      }
+
+      const command = COMMAND_NAMES[data[0]];
+      if (!command) {
+        throw new Error(`Unsupported CCID message 0x${bytesToHex([data[0]])}`);
+      }
+      const seq = data[6];
+      const apdu = command === "transmit" || command === "control" ? bytesToHex(data.slice(10)) : "";
+      sent.push(apdu ? `${command} ${apdu}` : command);
+
+      // The reader takes the command and never answers it
+      if (steps[0]?.command === "stall") {
+        steps.shift();
+        stalled = true;
+        return { status: "ok", bytesWritten: data.length };
+      }
+
+      const step = nextStep(command, apdu);
+
+      switch (command) {
+        case "slotStatus": {
+          if (step?.command === "slotStatus") {
+            iccStatus = step.card === "absent" ? ICC_ABSENT : iccStatus === ICC_ACTIVE ? ICC_ACTIVE : ICC_INACTIVE;
+          } else {
+            iccStatus = ICC_ABSENT;
+          }
+          answer(0x81, seq, iccStatus);
+          break;
+        }
+        case "powerOn": {
+          if (step?.command === "powerOn" && "atr" in step) {
+            iccStatus = ICC_ACTIVE;
+            answer(0x80, seq, ICC_ACTIVE, 0, hexToBytes(step.atr));
+          } else {
+            const mute = step?.command === "powerOn" && "error" in step && step.error === "mute";
+            iccStatus = ICC_ABSENT;
+            answer(0x80, seq, COMMAND_FAILED | (mute ? ICC_INACTIVE : ICC_ABSENT), ERROR_ICC_MUTE);
+          }
+          break;
+        }
+        case "powerOff": {
+          iccStatus = iccStatus === ICC_ABSENT ? ICC_ABSENT : ICC_INACTIVE;
+          answer(0x81, seq, iccStatus);
+          break;
+        }
+        case "transmit": {
+          if (step?.command === "transmit") {
+            answer(0x80, seq, iccStatus, 0, hexToBytes(step.response));
+          } else {
+            answer(0x80, seq, COMMAND_FAILED | ICC_ABSENT, ERROR_ICC_MUTE);
+          }
+          break;
+        }
+        case "control": {
+          // An idle reader acknowledges LED and buzzer commands
+          answer(0x83, seq, iccStatus, 0, hexToBytes(step?.command === "control" ? step.response : "90 00"));
+          break;
+        }
+      }
+
+      return { status: "ok", bytesWritten: data.length };
+    },
+
+    transferIn: async () => {
+      if (!present) {
+        throw unplugged();
+      }
+      const packet = pending.shift();
+      if (!packet && stalled) {
+        return new Promise((_resolve, reject) => {
+          abortTransfer = reject;
+        });
+      }
+      if (!packet) {
+        throw new Error("The driver read with no answer pending");
+      }
+      return { status: "ok", data: new DataView(packet.buffer) };
+    },
+  };
+
+  return device;
+}
+
+export interface ReplayUsb extends UsbLike {
+  /** Plug a reader in; readers plugged in already granted stay granted */
+  plug(device: ReplayUsbDevice, options?: { granted?: boolean }): void;
+}
+
+/**
+ * A navigator.usb stand-in for simulated readers. The device chooser picks
+ * the first reader plugged in, or is closed when there is none.
+ * @param devices Readers plugged in, and already granted, from the start
+ */
+export function createReplayUsb(devices: ReplayUsbDevice[] = []): ReplayUsb {
+  const connected = new Set<ReplayUsbDevice>();
+  const granted = new Set<UsbDeviceLike>();
+  const listeners = {
+    connect: new Set<(event: UsbConnectionEvent) => void>(),
+    disconnect: new Set<(event: UsbConnectionEvent) => void>(),
+  };
+
+  const usb: ReplayUsb = {
+    plug: (device, { granted: grant = true } = {}) => {
+      connected.add(device);
+      if (grant) {
+        granted.add(device);
+      }
+      device.onUnplug = () => {
+        connected.delete(device);
+        listeners.disconnect.forEach((listener) => listener({ device }));
+      };
+      listeners.connect.forEach((listener) => listener({ device }));
+    },
+
+    requestDevice: async () => {
+      const [device] = connected;
+      if (!device) {
+        throw new DOMException("No device selected.", "NotFoundError");
+      }
+      granted.add(device);
+      return device;
+    },
+
+    getDevices: async () => [...connected].filter((device) => granted.has(device)),
+
+    addEventListener: (type, listener) => {
+      listeners[type].add(listener);
+    },
+
+    removeEventListener: (type, listener) => {
+      listeners[type].delete(listener);
+    },
+  };
+
+  devices.forEach((device) => usb.plug(device));
+  return usb;
+}
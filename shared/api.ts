@@ -0,0 +1,997 @@
+/**
+ * Typed API client shared by the mobile app and the web Home page.
+ *
+ * Every customer, transaction, payment and reload response passes through
+ * the zod schemas below, whether it came from the server, the offline cache
+ * or the simulator, so both UIs can rely on one shape:
+ *
+ *   PaymentResponse / ReloadResponse / RefundResponse =
+ *     { success, transaction, customer? }
+ *
+ * Failures are reported with the typed error classes below instead of
+ * generic Errors, so callers can tell "card not registered" from
+ * "insufficient balance" from "no connection".
+ */
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+// Customers registered offline carry a provisional string ID until sync
+const IdSchema = z.union([z.number(), z.string()]);
+
+// Amounts are integer minor units of the terminal's currency (centavos for
+// PHP), never decimals. Responses may send them as numeric strings.
+export const MoneySchema = z.number().int();
+const CoercedMoneySchema = z.coerce.number().int();
+
+// Optional per-card PIN and spending limits. The PIN is only ever stored
+// as a salted hash, so terminals can check it offline.
+export const CardSecuritySchema = z
+  .object({
+    pinHash: z.string().nullish(),
+    pinSalt: z.string().nullish(),
+    // Payments above this amount need the PIN (0 or unset: all payments)
+    pinThreshold: CoercedMoneySchema.nonnegative().nullish(),
+    transactionLimit: CoercedMoneySchema.positive().nullish(),
+    dailyLimit: CoercedMoneySchema.positive().nullish(),
+  })
+  .passthrough();
+
+// Lifecycle of a customer's card. Lost or stolen cards are blocked; a card
+// that has been swapped for a new one is replaced.
+export const CardStatusSchema = z.enum(["active", "blocked", "replaced"]);
+
+export const CustomerSchema = z
+  .object({
+    id: IdSchema,
+    firstName: z.string(),
+    lastName: z.string(),
+    email: z.string().nullish(),
+    phone: z.string().nullish(),
+    cardId: z.string().nullish(),
+    balance: CoercedMoneySchema,
+    createdAt: z.string().nullish(),
+    // Present when the balance was projected from the offline ledger
+    confirmedBalance: MoneySchema.optional(),
+    pendingDelta: MoneySchema.optional(),
+    provisional: z.boolean().optional(),
+    security: CardSecuritySchema.nullish(),
+    // Absent means active
+    cardStatus: CardStatusSchema.optional(),
+  })
+  .passthrough();
+
+// A card that must no longer be accepted. Terminals keep a copy of the
+// blocklist so they can refuse these cards offline.
+export const BlockedCardSchema = z
+  .object({
+    cardId: z.string(),
+    customerId: IdSchema.nullish(),
+    status: z.enum(["blocked", "replaced"]),
+    reason: z.string().nullish(),
+    blockedAt: z.string(),
+    // The card that took over a replaced card's balance
+    replacedBy: z.string().nullish(),
+  })
+  .passthrough();
+
+export const ProductSchema = z
+  .object({
+    id: IdSchema,
+    sku: z.string(),
+    name: z.string(),
+    price: CoercedMoneySchema,
+    category: z.string().nullish(),
+    // null means the product doesn't track stock
+    stock: z.number().int().nullable().default(null),
+    active: z.boolean().default(true),
+  })
+  .passthrough();
+
+export const TransactionItemSchema = z
+  .object({
+    description: z.string(),
+    amount: CoercedMoneySchema,
+    quantity: z.coerce.number().int().positive().default(1),
+    // Set when the line was picked from the product catalog
+    productId: IdSchema.optional(),
+    sku: z.string().optional(),
+  })
+  .passthrough();
+
+// Roles are ranked: supervisors can do everything cashiers can, admins
+// everything supervisors can
+export const OperatorRoleSchema = z.enum(["cashier", "supervisor", "admin"]);
+
+// A staff account that signs in to terminals. Like card PINs, the PIN is
+// only ever stored as a salted hash, so operators can sign in offline.
+export const OperatorSchema = z
+  .object({
+    id: IdSchema,
+    name: z.string(),
+    role: OperatorRoleSchema,
+    pinHash: z.string(),
+    pinSalt: z.string(),
+    // Absent means active
+    active: z.boolean().optional(),
+  })
+  .passthrough();
+
+// Who took a transaction and on which terminal
+const AttributionSchema = z.object({
+  operatorId: IdSchema.optional(),
+  terminalId: z.string().optional(),
+});
+
+export const TransactionTypeSchema = z.enum(["payment", "reload", "refund", "void"]);
+
+export const TransactionSchema = z
+  .object({
+    id: IdSchema,
+    transactionId: z.string(),
+    customerId: IdSchema.nullish(),
+    cardId: z.string().nullish(),
+    amount: CoercedMoneySchema,
+    type: TransactionTypeSchema.optional(),
+    description: z.string().nullish(),
+    status: z.string(),
+    createdAt: z.string(),
+    customerName: z.string().nullish(),
+    items: z.array(TransactionItemSchema).optional(),
+    pendingSync: z.boolean().optional(),
+    // Refunds and voids point at the transaction they reverse
+    originalTransactionId: z.string().nullish(),
+    reason: z.string().nullish(),
+    operatorId: IdSchema.nullish(),
+    terminalId: z.string().nullish(),
+  })
+  .passthrough();
+
+export const PaymentRequestSchema = AttributionSchema.extend({
+  cardId: z.string().min(1),
+  amount: MoneySchema.positive(),
+  description: z.string().min(1),
+  customerId: IdSchema.optional(),
+  items: z.array(TransactionItemSchema).optional(),
+  // Entered by the customer when the card's settings ask for it
+  pin: z.string().optional(),
+  // The card QR code paid with, so the server can refuse one already used
+  cardToken: z.object({
+    nonce: z.string().min(1),
+    expiresAt: z.number().int(),
+  }).optional(),
+});
+
+export const PaymentResponseSchema = z.object({
+  success: z.boolean(),
+  transaction: TransactionSchema,
+  customer: CustomerSchema.optional(),
+  // True when the transaction was recorded locally and is waiting for sync
+  offline: z.boolean().optional(),
+});
+
+export const ReloadRequestSchema = AttributionSchema.extend({
+  cardId: z.string().min(1),
+  amount: MoneySchema.positive(),
+  description: z.string().optional(),
+  customerId: IdSchema.optional(),
+});
+
+export const ReloadResponseSchema = PaymentResponseSchema;
+
+export const RefundRequestSchema = AttributionSchema.extend({
+  transactionId: z.string().min(1),
+  // Omitted for a full refund of whatever is left
+  amount: MoneySchema.positive().optional(),
+  reason: z.string().optional(),
+});
+
+export const RefundResponseSchema = PaymentResponseSchema;
+
+export const CustomerRegistrationRequestSchema = z
+  .object({
+    firstName: z.string().min(1),
+    lastName: z.string().min(1),
+    email: z.string().nullish(),
+    phone: z.string().nullish(),
+    cardId: z.string().min(1),
+    initialBalance: MoneySchema.nonnegative().optional(),
+    // Already hashed: the plain PIN never leaves the terminal
+    security: CardSecuritySchema.nullish(),
+  })
+  .passthrough();
+
+// Fields left out keep their current values
+export const CustomerUpdateRequestSchema = CustomerRegistrationRequestSchema.omit({
+  cardId: true,
+  initialBalance: true,
+}).partial();
+
+export const ReplaceCardRequestSchema = z.object({
+  newCardId: z.string().min(1),
+});
+
+export const ReplaceCardResponseSchema = z.object({
+  success: z.boolean(),
+  // The customer, now on the new card
+  customer: CustomerSchema,
+  // The old card's blocklist entry
+  blockedCard: BlockedCardSchema,
+  offline: z.boolean().optional(),
+});
+
+export const ShiftTotalSchema = z.object({
+  count: z.number().int().nonnegative(),
+  amount: MoneySchema,
+});
+
+export const ShiftReportSchema = z.object({
+  // "<terminalId>-Z<number>", unique across terminals
+  reportId: z.string(),
+  // Counts up from 1 on each terminal
+  reportNumber: z.number().int().positive(),
+  terminalId: z.string(),
+  // Close of the previous shift (null for the terminal's first shift)
+  openedAt: z.string().nullable(),
+  closedAt: z.string(),
+  // Last time the terminal had a fresh copy of the server's history
+  lastSyncAt: z.string().nullable(),
+  payments: ShiftTotalSchema,
+  // Cash taken in
+  reloads: ShiftTotalSchema,
+  refunds: ShiftTotalSchema,
+  voids: ShiftTotalSchema,
+  // Payments less refunds
+  netSales: MoneySchema,
+  // Transactions already on the server vs still in the offline queue
+  onlineCount: z.number().int().nonnegative(),
+  pendingCount: z.number().int().nonnegative(),
+  openConflicts: z.number().int().nonnegative(),
+  // Operator who closed the shift
+  closedBy: z
+    .object({
+      operatorId: IdSchema,
+      name: z.string(),
+    })
+    .nullish(),
+  // Set when a supervisor closed the shift with conflicts still open
+  supervisorOverride: z
+    .object({
+      supervisorId: IdSchema.nullish(),
+      supervisorName: z.string().min(1),
+      reason: z.string().nullish(),
+    })
+    .nullable(),
+});
+
+export const TerminalStatusSchema = z.object({
+  terminalId: z.string(),
+  // The terminal has been reported lost or stolen: erase its local data
+  wipe: z.boolean(),
+  reason: z.string().nullish(),
+});
+
+// A terminal announces its stable ID to the server once, before its first
+// sync. Offline transactions carry the ID with a per-terminal sequence
+// number, which lets the server tell terminals' offline sales apart.
+export const TerminalRegistrationRequestSchema = z.object({
+  terminalId: z.string().min(1),
+  platform: z.string().optional(),
+});
+
+export const TerminalRegistrationSchema = z.object({
+  terminalId: z.string(),
+  registeredAt: z.string(),
+});
+
+// The most a card may spend offline on one terminal until the terminal
+// syncs again. The server splits what a card can spend between terminals,
+// so offline sales across all of them can't add up to more than the card holds.
+export const OfflineAllowanceSchema = z
+  .object({
+    cardId: z.string(),
+    customerId: IdSchema.nullish(),
+    amount: CoercedMoneySchema.nonnegative(),
+    issuedAt: z.string(),
+    expiresAt: z.string().nullish(),
+    // Flagged cards may not be used offline at all
+    flagged: z.boolean().optional(),
+  })
+  .passthrough();
+
+// Offline payments on one card, from several terminals, that together spent
+// more than the card held. Reported in the sync response of the transaction
+// that tipped it over.
+export const OverspendSchema = z.object({
+  cardId: z.string(),
+  customerId: IdSchema.nullish(),
+  overdrawnBy: CoercedMoneySchema,
+  transactions: z.array(
+    z.object({
+      transactionId: z.string(),
+      terminalId: z.string().nullish(),
+      sequenceNumber: z.number().int().nullish(),
+      amount: CoercedMoneySchema,
+      createdAt: z.string().nullish(),
+    })
+  ),
+});
+
+// One page of a change feed: the records created, updated or deleted since
+// a sync token. Pages are followed through nextCursor until it is null; the
+// last page's syncToken is where the next sync starts from.
+const changesPageSchema = <T extends z.ZodTypeAny>(recordSchema: T) =>
+  z.object({
+    changes: z.array(recordSchema),
+    // Keys of records deleted on the server (customer ID, transactionId)
+    deleted: z.array(IdSchema),
+    nextCursor: z.string().nullish(),
+    syncToken: z.string(),
+  });
+
+export const CustomerChangesSchema = changesPageSchema(CustomerSchema);
+
+export const TransactionChangesSchema = changesPageSchema(TransactionSchema);
+
+// A filtered transaction search. Every filter is optional; results come
+// newest first, a page at a time.
+export const TransactionQuerySchema = z.object({
+  // Inclusive range of createdAt (ISO timestamps)
+  from: z.string().optional(),
+  to: z.string().optional(),
+  types: z.array(TransactionTypeSchema).optional(),
+  customerId: IdSchema.optional(),
+  cardId: z.string().optional(),
+  // Inclusive amount range
+  minAmount: MoneySchema.nonnegative().optional(),
+  maxAmount: MoneySchema.nonnegative().optional(),
+  // Matched against the description, customer name, card and transaction ID
+  search: z.string().optional(),
+  // nextCursor of the previous page
+  cursor: z.string().optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+export const TransactionPageSchema = z.object({
+  transactions: z.array(TransactionSchema),
+  // Null on the last page
+  nextCursor: z.string().nullish(),
+});
+
+export const JournalEntryTypeSchema = z.enum([
+  "payment",
+  "reload",
+  "refund",
+  "void",
+  "sync_ack",
+  "sync_reject",
+  "write_off",
+]);
+
+export const JournalEntrySchema = z.object({
+  // Counts up from 1 on each terminal, with no gaps
+  seq: z.number().int().positive(),
+  type: JournalEntryTypeSchema,
+  terminalId: z.string(),
+  recordedAt: z.string(),
+  operatorId: IdSchema.nullish(),
+  data: z.record(z.unknown()),
+  // Hash of the entry before (64 zeros for the first entry)
+  prevHash: z.string(),
+  // SHA-256 of the fields above
+  hash: z.string(),
+  // HMAC-SHA256 of the hash, keyed with the terminal's device key
+  signature: z.string(),
+});
+
+export const JournalUploadRequestSchema = z.object({
+  terminalId: z.string(),
+  // Sent until the server has registered the terminal's key
+  deviceKey: z.string().optional(),
+  entries: z.array(JournalEntrySchema).min(1),
+});
+
+export const JournalUploadResponseSchema = z.object({
+  // Last entry the server holds for the terminal
+  headSeq: z.number().int().nonnegative(),
+  headHash: z.string(),
+});
+
+export type CardSecurity = z.infer<typeof CardSecuritySchema>;
+export type CardStatus = z.infer<typeof CardStatusSchema>;
+export type Customer = z.infer<typeof CustomerSchema>;
+export type OperatorRole = z.infer<typeof OperatorRoleSchema>;
+export type Operator = z.infer<typeof OperatorSchema>;
+export type BlockedCard = z.infer<typeof BlockedCardSchema>;
+export type Product = z.infer<typeof ProductSchema>;
+export type TransactionItem = z.infer<typeof TransactionItemSchema>;
+export type Transaction = z.infer<typeof TransactionSchema>;
+export type PaymentRequest = z.infer<typeof PaymentRequestSchema>;
+export type PaymentResponse = z.infer<typeof PaymentResponseSchema>;
+export type ReloadRequest = z.infer<typeof ReloadRequestSchema>;
+export type ReloadResponse = z.infer<typeof ReloadResponseSchema>;
+export type RefundRequest = z.infer<typeof RefundRequestSchema>;
+export type RefundResponse = z.infer<typeof RefundResponseSchema>;
+export type CustomerRegistrationRequest = z.infer<typeof CustomerRegistrationRequestSchema>;
+export type CustomerUpdateRequest = z.infer<typeof CustomerUpdateRequestSchema>;
+export type ReplaceCardRequest = z.infer<typeof ReplaceCardRequestSchema>;
+export type ReplaceCardResponse = z.infer<typeof ReplaceCardResponseSchema>;
+export type ShiftTotal = z.infer<typeof ShiftTotalSchema>;
+export type ShiftReport = z.infer<typeof ShiftReportSchema>;
+export type TerminalStatus = z.infer<typeof TerminalStatusSchema>;
+export type TerminalRegistrationRequest = z.infer<typeof TerminalRegistrationRequestSchema>;
+export type TerminalRegistration = z.infer<typeof TerminalRegistrationSchema>;
+export type OfflineAllowance = z.infer<typeof OfflineAllowanceSchema>;
+export type Overspend = z.infer<typeof OverspendSchema>;
+export type CustomerChanges = z.infer<typeof CustomerChangesSchema>;
+export type TransactionChanges = z.infer<typeof TransactionChangesSchema>;
+export type TransactionType = z.infer<typeof TransactionTypeSchema>;
+export type TransactionQuery = z.infer<typeof TransactionQuerySchema>;
+export type TransactionPage = z.infer<typeof TransactionPageSchema>;
+export type JournalEntryType = z.infer<typeof JournalEntryTypeSchema>;
+export type JournalEntry = z.infer<typeof JournalEntrySchema>;
+export type JournalUploadRequest = z.infer<typeof JournalUploadRequestSchema>;
+export type JournalUploadResponse = z.infer<typeof JournalUploadResponseSchema>;
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Base class for every error the API client raises */
+export class ApiError extends Error {
+  status?: number;
+  code?: string;
+
+  constructor(message: string, options: { status?: number; code?: string } = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = options.status;
+    this.code = options.code;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/** The customer, card or transaction does not exist */
+export class NotFoundError extends ApiError {
+  constructor(message = "Not found", options: { status?: number; code?: string } = {}) {
+    super(message, { status: 404, code: "NOT_FOUND", ...options });
+    this.name = "NotFoundError";
+  }
+}
+
+/** The customer's balance cannot cover the requested amount */
+export class InsufficientBalanceError extends ApiError {
+  constructor(message = "Insufficient balance", options: { status?: number; code?: string } = {}) {
+    super(message, { code: "INSUFFICIENT_BALANCE", ...options });
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+/** The operation needs the server and the app is offline */
+export class OfflineError extends ApiError {
+  constructor(message = "This operation is not available in offline mode") {
+    super(message, { code: "OFFLINE" });
+    this.name = "OfflineError";
+  }
+}
+
+/** A product in the cart has fewer units in stock than requested */
+export class OutOfStockError extends ApiError {
+  constructor(message = "Not enough stock", options: { status?: number; code?: string } = {}) {
+    super(message, { code: "OUT_OF_STOCK", ...options });
+    this.name = "OutOfStockError";
+  }
+}
+
+/** The payment needs the card's PIN and none was given */
+export class PinRequiredError extends ApiError {
+  constructor(message = "PIN required", options: { status?: number; code?: string } = {}) {
+    super(message, { code: "PIN_REQUIRED", ...options });
+    this.name = "PinRequiredError";
+  }
+}
+
+/** The PIN given does not match the card's */
+export class InvalidPinError extends ApiError {
+  attemptsRemaining?: number;
+
+  constructor(
+    message = "Incorrect PIN",
+    options: { status?: number; code?: string; attemptsRemaining?: number } = {}
+  ) {
+    const { attemptsRemaining, ...rest } = options;
+    super(message, { code: "INVALID_PIN", ...rest });
+    this.name = "InvalidPinError";
+    this.attemptsRemaining = attemptsRemaining;
+  }
+}
+
+/** The card is locked after too many wrong PINs */
+export class CardLockedError extends ApiError {
+  lockedUntil?: string;
+
+  constructor(
+    message = "Card locked after too many incorrect PINs",
+    options: { status?: number; code?: string; lockedUntil?: string } = {}
+  ) {
+    const { lockedUntil, ...rest } = options;
+    super(message, { code: "CARD_LOCKED", ...rest });
+    this.name = "CardLockedError";
+    this.lockedUntil = lockedUntil;
+  }
+}
+
+/** The payment is over the card's per-transaction or daily spending limit */
+export class SpendingLimitError extends ApiError {
+  constructor(message = "Spending limit exceeded", options: { status?: number; code?: string } = {}) {
+    super(message, { code: "SPENDING_LIMIT_EXCEEDED", ...options });
+    this.name = "SpendingLimitError";
+  }
+}
+
+/** An offline payment is over what the card may still spend offline on this terminal */
+export class OfflineAllowanceError extends ApiError {
+  remaining?: number;
+
+  constructor(
+    message = "Offline allowance exceeded",
+    options: { status?: number; code?: string; remaining?: number } = {}
+  ) {
+    const { remaining, ...rest } = options;
+    super(message, { code: "OFFLINE_ALLOWANCE_EXCEEDED", ...rest });
+    this.name = "OfflineAllowanceError";
+    this.remaining = remaining;
+  }
+}
+
+/** The card is on the blocklist (reported lost or stolen, or replaced) */
+export class CardBlockedError extends ApiError {
+  cardStatus?: "blocked" | "replaced";
+  replacedBy?: string;
+
+  constructor(
+    message = "This card has been blocked",
+    options: { status?: number; code?: string; cardStatus?: "blocked" | "replaced"; replacedBy?: string } = {}
+  ) {
+    const { cardStatus, replacedBy, ...rest } = options;
+    super(message, { status: 403, code: "CARD_BLOCKED", ...rest });
+    this.name = "CardBlockedError";
+    this.cardStatus = cardStatus;
+    this.replacedBy = replacedBy;
+  }
+}
+
+/** The signed-in operator's role doesn't allow the action (or nobody is signed in) */
+export class PermissionDeniedError extends ApiError {
+  requiredRole?: OperatorRole;
+
+  constructor(
+    message = "You don't have permission to do this",
+    options: { status?: number; code?: string; requiredRole?: OperatorRole } = {}
+  ) {
+    const { requiredRole, ...rest } = options;
+    super(message, { status: 403, code: "PERMISSION_DENIED", ...rest });
+    this.name = "PermissionDeniedError";
+    this.requiredRole = requiredRole;
+  }
+}
+
+/** The shift can't be closed while sync conflicts are waiting for a decision */
+export class UnresolvedConflictsError extends ApiError {
+  conflictCount?: number;
+
+  constructor(
+    message = "Resolve the open sync conflicts before closing the shift",
+    options: { status?: number; code?: string; conflictCount?: number } = {}
+  ) {
+    const { conflictCount, ...rest } = options;
+    super(message, { status: 409, code: "UNRESOLVED_CONFLICTS", ...rest });
+    this.name = "UnresolvedConflictsError";
+    this.conflictCount = conflictCount;
+  }
+}
+
+/** The server refused a journal upload: an entry doesn't continue its chain or isn't signed with the terminal's key */
+export class JournalChainError extends ApiError {
+  brokenAtSeq?: number;
+
+  constructor(
+    message = "The transaction journal doesn't match the server's copy",
+    options: { status?: number; code?: string; brokenAtSeq?: number } = {}
+  ) {
+    const { brokenAtSeq, ...rest } = options;
+    super(message, { status: 422, code: "JOURNAL_CHAIN_BROKEN", ...rest });
+    this.name = "JournalChainError";
+    this.brokenAtSeq = brokenAtSeq;
+  }
+}
+
+/** The server no longer keeps the changes since a sync token; the feed has to start again from the beginning */
+export class SyncTokenExpiredError extends ApiError {
+  constructor(message = "The sync token has expired", options: { status?: number; code?: string } = {}) {
+    super(message, { status: 410, code: "SYNC_TOKEN_EXPIRED", ...options });
+    this.name = "SyncTokenExpiredError";
+  }
+}
+
+/** The request never got a response (connection dropped, DNS, timeout) */
+export class NetworkError extends ApiError {
+  constructor(message = "Network request failed") {
+    super(message, { code: "NETWORK" });
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Build the matching typed error for a failed HTTP response
+ * @param response The failed response
+ */
+export async function errorFromResponse(response: Response): Promise<ApiError> {
+  let body: {
+    message?: string;
+    code?: string;
+    attemptsRemaining?: number;
+    lockedUntil?: string;
+    cardStatus?: "blocked" | "replaced";
+    replacedBy?: string;
+    conflictCount?: number;
+    requiredRole?: OperatorRole;
+    brokenAtSeq?: number;
+    remaining?: number;
+  } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Not every error response has a JSON body
+  }
+
+  const message = body.message || `API request failed with status ${response.status}`;
+  const options = { status: response.status, code: body.code };
+
+  if (response.status === 404) {
+    return new NotFoundError(message, options);
+  }
+  if (body.code === "INSUFFICIENT_BALANCE" || /insufficient balance/i.test(message)) {
+    return new InsufficientBalanceError(message, options);
+  }
+  if (body.code === "OUT_OF_STOCK") {
+    return new OutOfStockError(message, options);
+  }
+  if (body.code === "PIN_REQUIRED") {
+    return new PinRequiredError(message, options);
+  }
+  if (body.code === "INVALID_PIN") {
+    return new InvalidPinError(message, { ...options, attemptsRemaining: body.attemptsRemaining });
+  }
+  if (body.code === "CARD_LOCKED") {
+    return new CardLockedError(message, { ...options, lockedUntil: body.lockedUntil });
+  }
+  if (body.code === "SPENDING_LIMIT_EXCEEDED") {
+    return new SpendingLimitError(message, options);
+  }
+  if (body.code === "OFFLINE_ALLOWANCE_EXCEEDED") {
+    return new OfflineAllowanceError(message, { ...options, remaining: body.remaining });
+  }
+  if (body.code === "CARD_BLOCKED") {
+    return new CardBlockedError(message, {
+      ...options,
+      cardStatus: body.cardStatus,
+      replacedBy: body.replacedBy,
+    });
+  }
+  if (body.code === "PERMISSION_DENIED") {
+    return new PermissionDeniedError(message, { ...options, requiredRole: body.requiredRole });
+  }
+  if (body.code === "UNRESOLVED_CONFLICTS") {
+    return new UnresolvedConflictsError(message, { ...options, conflictCount: body.conflictCount });
+  }
+  if (body.code === "JOURNAL_CHAIN_BROKEN") {
+    return new JournalChainError(message, { ...options, brokenAtSeq: body.brokenAtSeq });
+  }
+  if (response.status === 410 || body.code === "SYNC_TOKEN_EXPIRED") {
+    return new SyncTokenExpiredError(message, options);
+  }
+  return new ApiError(message, options);
+}
+
+// ---------------------------------------------------------------------------
+// Parsers
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate data against a schema, raising an ApiError that names what was
+ * being parsed instead of a raw ZodError
+ */
+function parseWith<T extends z.ZodTypeAny>(schema: T, data: unknown, what: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue?.path.join(".") || "(root)";
+    throw new ApiError(`Invalid ${what}: ${path} ${issue?.message ?? ""}`.trim(), {
+      code: "INVALID_RESPONSE",
+    });
+  }
+  return result.data;
+}
+
+export const parseCustomer = (data: unknown): Customer =>
+  parseWith(CustomerSchema, data, "customer");
+
+export const parseCustomers = (data: unknown): Customer[] =>
+  parseWith(z.array(CustomerSchema), data, "customer list");
+
+export const parseBlockedCards = (data: unknown): BlockedCard[] =>
+  parseWith(z.array(BlockedCardSchema), data, "card blocklist");
+
+export const parseOperators = (data: unknown): Operator[] =>
+  parseWith(z.array(OperatorSchema), data, "operator list");
+
+export const parseProducts = (data: unknown): Product[] =>
+  parseWith(z.array(ProductSchema), data, "product list");
+
+export const parseTransaction = (data: unknown): Transaction =>
+  parseWith(TransactionSchema, data, "transaction");
+
+export const parseTransactions = (data: unknown): Transaction[] =>
+  parseWith(z.array(TransactionSchema), data, "transaction list");
+
+export const parsePaymentResponse = (data: unknown): PaymentResponse =>
+  parseWith(PaymentResponseSchema, data, "payment response");
+
+export const parseReloadResponse = (data: unknown): ReloadResponse =>
+  parseWith(ReloadResponseSchema, data, "reload response");
+
+export const parseRefundResponse = (data: unknown): RefundResponse =>
+  parseWith(RefundResponseSchema, data, "refund response");
+
+export const parseReplaceCardResponse = (data: unknown): ReplaceCardResponse =>
+  parseWith(ReplaceCardResponseSchema, data, "card replacement response");
+
+export const parseShiftReport = (data: unknown): ShiftReport =>
+  parseWith(ShiftReportSchema, data, "shift report");
+
+export const parseTerminalStatus = (data: unknown): TerminalStatus =>
+  parseWith(TerminalStatusSchema, data, "terminal status");
+
+export const parseTerminalRegistration = (data: unknown): TerminalRegistration =>
+  parseWith(TerminalRegistrationSchema, data, "terminal registration");
+
+export const parseOfflineAllowances = (data: unknown): OfflineAllowance[] =>
+  parseWith(z.array(OfflineAllowanceSchema), data, "offline allowances");
+
+export const parseOverspend = (data: unknown): Overspend =>
+  parseWith(OverspendSchema, data, "overspend report");
+
+export const parseCustomerChanges = (data: unknown): CustomerChanges =>
+  parseWith(CustomerChangesSchema, data, "customer changes");
+
+export const parseTransactionChanges = (data: unknown): TransactionChanges =>
+  parseWith(TransactionChangesSchema, data, "transaction changes");
+
+export const parseTransactionPage = (data: unknown): TransactionPage =>
+  parseWith(TransactionPageSchema, data, "transaction page");
+
+export const parseJournalUploadResponse = (data: unknown): JournalUploadResponse =>
+  parseWith(JournalUploadResponseSchema, data, "journal upload response");
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+export interface ApiClientOptions {
+  /** API base URL, or a function returning it if it can change at runtime */
+  baseUrl: string | (() => string);
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>;
+}
+
+/** Where to read a change feed from */
+export interface ChangesRequest {
+  /** Sync token from the last completed sync (omit to start from the beginning) */
+  since?: string | null;
+  /** nextCursor of the previous page, to continue a feed */
+  cursor?: string | null;
+  /** Most records per page */
+  limit?: number;
+}
+
+export interface ApiClient {
+  /** includeBlocked returns the owner of a blocked card instead of a CardBlockedError */
+  getCustomerByCardId(cardId: string, options?: { includeBlocked?: boolean }): Promise<Customer>;
+  getCustomers(): Promise<Customer[]>;
+  getBlockedCards(): Promise<BlockedCard[]>;
+  getOperators(): Promise<Operator[]>;
+  getProducts(): Promise<Product[]>;
+  getTransactions(): Promise<Transaction[]>;
+  getTransaction(transactionId: string): Promise<Transaction>;
+  getCustomerTransactions(customerId: string | number): Promise<Transaction[]>;
+  getCardTransactions(cardId: string): Promise<Transaction[]>;
+  registerCustomer(request: CustomerRegistrationRequest): Promise<Customer>;
+  updateCustomer(customerId: string | number, request: CustomerUpdateRequest): Promise<Customer>;
+  getCustomerChanges(request: ChangesRequest): Promise<CustomerChanges>;
+  getTransactionChanges(request: ChangesRequest): Promise<TransactionChanges>;
+  queryTransactions(query: TransactionQuery): Promise<TransactionPage>;
+  processPayment(request: PaymentRequest): Promise<PaymentResponse>;
+  reloadBalance(request: ReloadRequest): Promise<ReloadResponse>;
+  refund(request: RefundRequest): Promise<RefundResponse>;
+  replaceCard(cardId: string, request: ReplaceCardRequest): Promise<ReplaceCardResponse>;
+  getTerminalStatus(terminalId: string): Promise<TerminalStatus>;
+  registerTerminal(request: TerminalRegistrationRequest): Promise<TerminalRegistration>;
+  getOfflineAllowances(terminalId: string): Promise<OfflineAllowance[]>;
+  uploadJournal(request: JournalUploadRequest): Promise<JournalUploadResponse>;
+}
+
+/**
+ * Create a client for the payment backend
+ * @param options Base URL and optional fetch implementation
+ */
+export function createApiClient(options: ApiClientOptions): ApiClient {
+  const fetchImpl = options.fetch ?? ((url: string, init?: RequestInit) => fetch(url, init));
+  const baseUrl = () =>
+    (typeof options.baseUrl === "function" ? options.baseUrl() : options.baseUrl).replace(/\/+$/, "");
+
+  async function request(path: string, init?: RequestInit): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl()}${path}`, init);
+    } catch (error) {
+      throw new NetworkError(error instanceof Error ? error.message : undefined);
+    }
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+    return response.json();
+  }
+
+  const changesQuery = ({ since, cursor, limit }: ChangesRequest) => {
+    const params = new URLSearchParams();
+    if (since) {
+      params.set("since", since);
+    }
+    if (cursor) {
+      params.set("cursor", cursor);
+    }
+    if (limit) {
+      params.set("limit", String(limit));
+    }
+    const query = params.toString();
+    return query ? `?${query}` : "";
+  };
+
+  const transactionQueryString = (query: TransactionQuery) => {
+    const params = new URLSearchParams();
+    const { types, search, ...rest } = query;
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        params.set(key, String(value));
+      }
+    });
+    if (types && types.length > 0) {
+      params.set("type", types.join(","));
+    }
+    if (search) {
+      params.set("q", search);
+    }
+    const queryString = params.toString();
+    return queryString ? `?${queryString}` : "";
+  };
+
+  const post = (path: string, body: unknown) =>
+    request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  return {
+    async getCustomerByCardId(cardId, { includeBlocked = false } = {}) {
+      const query = includeBlocked ? "?includeBlocked=true" : "";
+      return parseCustomer(await request(`/customers/byCardId/${encodeURIComponent(cardId)}${query}`));
+    },
+
+    async getCustomers() {
+      return parseCustomers(await request("/customers"));
+    },
+
+    async getBlockedCards() {
+      return parseBlockedCards(await request("/cards/blocked"));
+    },
+
+    async getOperators() {
+      return parseOperators(await request("/operators"));
+    },
+
+    async getProducts() {
+      return parseProducts(await request("/products"));
+    },
+
+    async getTransactions() {
+      return parseTransactions(await request("/transactions"));
+    },
+
+    async getTransaction(transactionId) {
+      return parseTransaction(await request(`/transactions/${encodeURIComponent(transactionId)}`));
+    },
+
+    async getCustomerTransactions(customerId) {
+      return parseTransactions(await request(`/customers/${encodeURIComponent(customerId)}/transactions`));
+    },
+
+    async getCardTransactions(cardId) {
+      return parseTransactions(await request(`/cards/${encodeURIComponent(cardId)}/transactions`));
+    },
+
+    async registerCustomer(registrationRequest) {
+      const body = parseWith(CustomerRegistrationRequestSchema, registrationRequest, "customer registration");
+      return parseCustomer(await post("/customers", body));
+    },
+
+    async updateCustomer(customerId, updateRequest) {
+      const body = parseWith(CustomerUpdateRequestSchema, updateRequest, "customer update");
+      return parseCustomer(
+        await request(`/customers/${encodeURIComponent(customerId)}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        })
+      );
+    },
+
+    async getCustomerChanges(changesRequest) {
+      return parseCustomerChanges(await request(`/customers/changes${changesQuery(changesRequest)}`));
+    },
+
+    async getTransactionChanges(changesRequest) {
+      return parseTransactionChanges(await request(`/transactions/changes${changesQuery(changesRequest)}`));
+    },
+
+    async queryTransactions(query) {
+      const params = parseWith(TransactionQuerySchema, query, "transaction query");
+      return parseTransactionPage(await request(`/transactions/query${transactionQueryString(params)}`));
+    },
+
+    async processPayment(paymentRequest) {
+      const body = parseWith(PaymentRequestSchema, paymentRequest, "payment request");
+      return parsePaymentResponse(await post("/payments/process", body));
+    },
+
+    async reloadBalance(reloadRequest) {
+      const body = parseWith(ReloadRequestSchema, reloadRequest, "reload request");
+      return parseReloadResponse(await post("/payments/reload", body));
+    },
+
+    async refund(refundRequest) {
+      const { transactionId, ...body } = parseWith(RefundRequestSchema, refundRequest, "refund request");
+      const path = `/transactions/${encodeURIComponent(transactionId)}/refund`;
+      return parseRefundResponse(await post(path, body));
+    },
+
+    async replaceCard(cardId, replaceRequest) {
+      const body = parseWith(ReplaceCardRequestSchema, replaceRequest, "card replacement request");
+      const path = `/cards/${encodeURIComponent(cardId)}/replace`;
+      return parseReplaceCardResponse(await post(path, body));
+    },
+
+    async getTerminalStatus(terminalId) {
+      return parseTerminalStatus(await request(`/terminals/${encodeURIComponent(terminalId)}/status`));
+    },
+
+    async registerTerminal(registrationRequest) {
+      const body = parseWith(TerminalRegistrationRequestSchema, registrationRequest, "terminal registration request");
+      return parseTerminalRegistration(await post("/terminals", body));
+    },
+
+    async getOfflineAllowances(terminalId) {
+      return parseOfflineAllowances(await request(`/terminals/${encodeURIComponent(terminalId)}/allowances`));
+    },
+
+    async uploadJournal(uploadRequest) {
+      const body = parseWith(JournalUploadRequestSchema, uploadRequest, "journal upload");
+      return parseJournalUploadResponse(await post("/journal", body));
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Minor units, shared by the web and mobile apps
+ *
+ * Amounts are integer minor units of the terminal's currency (see
+ * MoneySchema in api.ts, and src/utils/money.js for the arithmetic). How
+ * many digits a minor unit has depends on the currency: 2 for PHP, 0 for
+ * JPY, 3 for KWD.
+ */
+
+export const DEFAULT_CURRENCY = "PHP";
+
+// Minor-unit digits by currency code, worked out once each
+const minorDigits: Record<string, number> = {};
+
+/** Get how many digits a currency's minor unit has (2 for PHP, 0 for JPY) */
+export function getCurrencyMinorDigits(currency: string = DEFAULT_CURRENCY): number {
+  if (minorDigits[currency] === undefined) {
+    try {
+      minorDigits[currency] =
+        new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch (error) {
+      console.warn(`Unknown currency ${currency}, assuming 2 decimal places`);
+      minorDigits[currency] = 2;
+    }
+  }
+  return minorDigits[currency];
+}
+
+/**
+ * Convert a decimal amount saved by older versions to minor units of the
+ * currency, rounding halves away from zero
+ */
+export function decimalToMinorUnits(major: number | string, currency: string = DEFAULT_CURRENCY): number {
+  // Drop float noise first, so 1.005 * 100 (100.49999999999999) rounds as 100.5
+  const value = Number(((Number(major) || 0) * 10 ** getCurrencyMinorDigits(currency)).toPrecision(15));
+  return Math.sign(value) * Math.round(Math.abs(value)) || 0;
+}
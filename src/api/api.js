@@ -20,15 +20,137 @@
  * - Auto-sync preferences when connectivity is restored
  */
 
-import { normalizeCardId } from '../utils/formatters';
-import { shouldOperateOffline } from '../utils/network';
+import { Platform } from 'react-native';
+import { normalizeCardId, formatCurrency, formatTime, configureFormatting } from '../utils/formatters';
+import { isMoney, addMoney, compareMoney } from '../utils/money';
+import { 
+  shouldOperateOffline, 
+  configureConnectivityProbe, 
+  reportRequestFailure, 
+  reportRequestSuccess 
+} from '../utils/network';
 import { 
-  findCachedCustomerByCardId, 
   getCachedCustomers, 
+  getCachedCustomer,
   getCachedTransactions, 
+  findCachedTransaction,
+  getCachedTransactionsByCustomerId,
+  getCachedTransactionsByCardId,
+  loadPendingTransactions,
+  isPendingTransactionInFlight,
+  voidPendingTransaction,
+  mergeCachedCustomers,
+  cacheProducts,
+  getCachedProducts,
+  decrementCachedStock,
   savePendingTransaction, 
-  addOfflineTransaction 
+  addOfflineTransaction,
+  mergeCachedTransactions,
+  addCachedCustomer,
+  updateCachedCustomer,
+  findCachedCustomerByCardId,
+  getCachedBlockedCards,
+  findBlockedCard,
+  addBlockedCard,
+  remapCachedCardId,
+  cacheOperators,
+  getCachedOperators,
+  getDailySpend,
+  recordDailySpend,
+  isCardTokenUsed,
+  markCardTokenUsed,
+  getTerminalId,
+  getNextSequenceNumber,
+  getTerminalRegistration,
+  saveTerminalRegistration,
+  createProvisionalCustomerId
 } from '../utils/storage';
+import { 
+  findProjectedCustomerByCardId, 
+  projectCustomerBalance, 
+  getTransactionDelta 
+} from '../utils/ledger';
+import { getRefundableAmount } from '../utils/reversals';
+import { reconcileProductStock, findStockShortage } from '../utils/catalog';
+import { CARD_RECORD_STATUS } from '../utils/cardRecord';
+import { journalTransaction, createTransactionEntry } from '../utils/journal';
+import { checkOfflineAllowance, describeAllowanceViolation } from '../utils/offlineAllowance';
+import { queryTransactions, runOfflineTransactionQuery } from '../utils/transactionQuery';
+import {
+  CARD_STATUS,
+  getCardStatus,
+  describeBlockedCard,
+  recordBlockedTap
+} from '../utils/cardLifecycle';
+import {
+  prepareSecuritySettings,
+  isPinRequired,
+  findSpendingLimitViolation,
+  getPinLockout,
+  verifyPin
+} from '../utils/cardSecurity';
+import {
+  getCurrentOperator,
+  hasPermission,
+  describeMissingPermission,
+  getRequiredRole,
+  PERMISSIONS
+} from '../utils/operators';
+import {
+  createApiClient,
+  errorFromResponse,
+  parseCustomer,
+  parseCustomers,
+  parseBlockedCards,
+  parseOperators,
+  parseProducts,
+  parseTransactions,
+  parseTransaction,
+  parsePaymentResponse,
+  parseReloadResponse,
+  parseRefundResponse,
+  parseReplaceCardResponse,
+  parseShiftReport,
+  parseTerminalStatus,
+  parseTerminalRegistration,
+  parseOfflineAllowances,
+  parseOverspend,
+  parseCustomerChanges,
+  parseTransactionChanges,
+  parseTransactionPage,
+  parseJournalUploadResponse,
+  NotFoundError,
+  InsufficientBalanceError,
+  OutOfStockError,
+  PinRequiredError,
+  InvalidPinError,
+  CardLockedError,
+  SpendingLimitError,
+  OfflineAllowanceError,
+  CardBlockedError,
+  PermissionDeniedError,
+  NetworkError
+} from '../../shared/api';
+
+// Screens check failures against the same error classes the web client uses
+export {
+  ApiError,
+  NotFoundError,
+  InsufficientBalanceError,
+  OutOfStockError,
+  PinRequiredError,
+  InvalidPinError,
+  CardLockedError,
+  SpendingLimitError,
+  OfflineAllowanceError,
+  CardBlockedError,
+  PermissionDeniedError,
+  UnresolvedConflictsError,
+  JournalChainError,
+  SyncTokenExpiredError,
+  OfflineError,
+  NetworkError
+} from '../../shared/api';
 
 // The base URL for the API
 // IMPORTANT: This URL is now configurable in the app settings
@@ -55,12 +177,25 @@ let apiBaseUrl = 'https://9ee52b2c-3d78-4378-85db-1fd4fe6af636-00-ev6imnki6tu3.p
     useSimulatedApi = settings.useSimulatedApi !== undefined ? settings.useSimulatedApi : false;
     // Default to Replit URL if no settings are found
     apiBaseUrl = settings.apiUrl || 'https://9ee52b2c-3d78-4378-85db-1fd4fe6af636-00-ev6imnki6tu3.pike.replit.dev/api';
+    // Connectivity checks probe this backend's health endpoint
+    configureConnectivityProbe({ baseUrl: apiBaseUrl, simulated: useSimulatedApi });
+    // Amounts and dates follow the terminal's currency, locale and time zone
+    configureFormatting(settings);
     console.log(`API Configuration loaded - Using ${useSimulatedApi ? 'simulated' : 'real'} API at ${apiBaseUrl}`);
   } catch (error) {
     console.error('Failed to load API settings:', error);
   }
 })();
 
+// Most records per page of a change feed
+const CHANGES_PAGE_SIZE = 200;
+
+// Transactions per page of a history query
+const TRANSACTION_PAGE_SIZE = 25;
+
+// Most a card may spend offline per terminal in simulated mode
+const SIMULATED_OFFLINE_ALLOWANCE = 10000;
+
 // Mock data for offline/simulation mode
 const MOCK_DATA = {
   customers: [
@@ -71,7 +206,7 @@ const MOCK_DATA = {
       email: 'john.doe@example.com',
       phone: '09123456789',
       cardId: 'CARD-12345',
-      balance: 2500,
+      balance: 250000,
       createdAt: '2025-04-01T10:30:00Z'
     },
     {
@@ -81,8 +216,16 @@ const MOCK_DATA = {
       email: 'jane.smith@example.com',
       phone: '09198765432',
       cardId: 'CARD-67890',
-      balance: 5000,
-      createdAt: '2025-04-02T14:45:00Z'
+      balance: 500000,
+      createdAt: '2025-04-02T14:45:00Z',
+      // PIN 1234 above ₱500, at most ₱2,000 per payment and ₱3,000 a day
+      security: {
+        pinHash: 'cd6e5edeacf80e01c3d599812a338376ceb8cc7d58bb6c3b7aed938bef12cdd2',
+        pinSalt: '5f1c2a9e7b3d4068a1e2f3c4d5b6a798',
+        pinThreshold: 50000,
+        transactionLimit: 200000,
+        dailyLimit: 300000
+      }
     },
     {
       id: 3,
@@ -91,17 +234,79 @@ const MOCK_DATA = {
       email: 'maria@example.com',
       phone: '09187654321',
       cardId: 'CARD-ABCDE',
-      balance: 1500,
+      balance: 150000,
       createdAt: '2025-04-03T09:15:00Z'
+    },
+    {
+      id: 4,
+      firstName: 'Paolo',
+      lastName: 'Reyes',
+      email: 'paolo.reyes@example.com',
+      phone: '09171234567',
+      cardId: 'CARD-13579',
+      balance: 80000,
+      createdAt: '2025-04-04T11:00:00Z',
+      cardStatus: 'blocked'
+    }
+  ],
+  blockedCards: [
+    {
+      cardId: 'CARD-24680',
+      customerId: 3,
+      status: 'replaced',
+      reason: 'Damaged card',
+      blockedAt: '2025-04-03T09:15:00Z',
+      replacedBy: 'CARD-ABCDE'
+    },
+    {
+      cardId: 'CARD-13579',
+      customerId: 4,
+      status: 'blocked',
+      reason: 'Reported stolen',
+      blockedAt: '2025-04-06T16:40:00Z'
     }
   ],
+  // PINs: 1111 (cashier), 2222 (supervisor), 9999 (admin)
+  operators: [
+    {
+      id: 1,
+      name: 'Liza Cruz',
+      role: 'cashier',
+      pinHash: 'a433930f0d346008a8e0435872aa687143fb3b43f05de9bfff87abd3867bf7d8',
+      pinSalt: 'a3f1c9e27b5d4086b1c2d3e4f5a69788'
+    },
+    {
+      id: 2,
+      name: 'Ramon Villanueva',
+      role: 'supervisor',
+      pinHash: '9154ae272a7d29a7fd70abe6ddae2b65b1b8c27fc7523d793772621589828de3',
+      pinSalt: 'b4e2d8f36c6e5197c2d3e4f5a6b78899'
+    },
+    {
+      id: 3,
+      name: 'Admin',
+      role: 'admin',
+      pinHash: 'ad56150fe55f0ad5704cee68483086367010b6cd360295c18aea9f8938c7ad3f',
+      pinSalt: 'c5f3e9a47d7f62a8d3e4f5a6b7c899aa'
+    }
+  ],
+  products: [
+    { id: 1, sku: 'BEV-001', name: 'Coffee', price: 6000, category: 'Beverages', stock: null, active: true },
+    { id: 2, sku: 'BEV-002', name: 'Bottled Water', price: 2500, category: 'Beverages', stock: 48, active: true },
+    { id: 3, sku: 'BEV-003', name: 'Iced Tea', price: 4500, category: 'Beverages', stock: 24, active: true },
+    { id: 4, sku: 'FOOD-001', name: 'Chicken Adobo Rice Meal', price: 12000, category: 'Meals', stock: 30, active: true },
+    { id: 5, sku: 'FOOD-002', name: 'Pancit Canton', price: 8500, category: 'Meals', stock: 20, active: true },
+    { id: 6, sku: 'SNK-001', name: 'Banana Cue', price: 3000, category: 'Snacks', stock: 40, active: true },
+    { id: 7, sku: 'SNK-002', name: 'Chips', price: 3500, category: 'Snacks', stock: 0, active: true },
+    { id: 8, sku: 'SVC-001', name: 'Event Ticket', price: 80000, category: 'Services', stock: null, active: true }
+  ],
   transactions: [
     {
       id: 1,
       transactionId: 'trans_123456',
       customerId: 1,
       cardId: 'CARD-12345',
-      amount: 500,
+      amount: 50000,
       type: 'payment',
       description: 'Coffee and snacks',
       status: 'success',
@@ -113,7 +318,7 @@ const MOCK_DATA = {
       transactionId: 'reload_123456',
       customerId: 1,
       cardId: 'CARD-12345',
-      amount: 1000,
+      amount: 100000,
       type: 'reload',
       description: 'Account reload',
       status: 'success',
@@ -125,7 +330,7 @@ const MOCK_DATA = {
       transactionId: 'trans_789012',
       customerId: 2,
       cardId: 'CARD-67890',
-      amount: 1500,
+      amount: 150000,
       type: 'payment',
       description: 'Lunch meal',
       status: 'success',
@@ -146,25 +351,433 @@ const simulateApiResponse = async (data) => {
   return data;
 };
 
+// Transaction ID prefix and default description for each simulated type
+const SIMULATED_TRANSACTION_TYPES = {
+  payment: { prefix: 'trans', description: 'Payment' },
+  reload: { prefix: 'reload', description: 'Account reload' },
+  refund: { prefix: 'refund', description: 'Refund' },
+};
+
+// Apply a payment, reload or refund to the mock data and return the
+// { transaction, customer } pair the real server answers with
+const recordSimulatedTransaction = (type, data) => {
+  const customer = MOCK_DATA.customers.find(c => c.cardId === data.cardId);
+  
+  if (!customer) {
+    throw new NotFoundError('Customer not found');
+  }
+  if (type === 'payment' && compareMoney(customer.balance, data.amount) < 0) {
+    throw new InsufficientBalanceError();
+  }
+  
+  const shortage = type === 'payment' && findStockShortage(data.items, MOCK_DATA.products);
+  if (shortage) {
+    throw new OutOfStockError(`Only ${shortage.available} left of ${shortage.product.name}`);
+  }
+  
+  customer.balance = addMoney(customer.balance, getTransactionDelta({ type, amount: data.amount }));
+  
+  (data.items || []).forEach(item => {
+    const product = MOCK_DATA.products.find(p => p.id === item.productId);
+    if (product && product.stock != null) {
+      product.stock -= item.quantity || 1;
+    }
+  });
+  
+  const transaction = {
+    id: MOCK_DATA.transactions.length + 1,
+    transactionId: `${SIMULATED_TRANSACTION_TYPES[type].prefix}_${Date.now()}`,
+    customerId: customer.id,
+    cardId: customer.cardId,
+    amount: data.amount,
+    type,
+    description: data.description || SIMULATED_TRANSACTION_TYPES[type].description,
+    status: 'success',
+    createdAt: new Date().toISOString(),
+    customerName: `${customer.firstName} ${customer.lastName}`,
+    items: data.items,
+    originalTransactionId: data.originalTransactionId,
+    reason: data.reason,
+    operatorId: data.operatorId,
+    terminalId: data.terminalId
+  };
+  MOCK_DATA.transactions.unshift(transaction);
+  
+  return { transaction, customer: { ...customer } };
+};
+
+// Move a mock customer to a new card and block the old one, the way the
+// real server does
+const replaceSimulatedCard = (oldCardId, newCardId) => {
+  const customer = MOCK_DATA.customers.find(c => c.cardId === oldCardId);
+  
+  if (!customer) {
+    throw new NotFoundError('Customer not found');
+  }
+  assertCardAvailable(
+    MOCK_DATA.customers.find(c => c.cardId === newCardId),
+    MOCK_DATA.blockedCards.find(b => b.cardId === newCardId)
+  );
+  
+  const previousBlock = MOCK_DATA.blockedCards.find(b => b.cardId === oldCardId);
+  const blockedCard = {
+    cardId: oldCardId,
+    customerId: customer.id,
+    status: CARD_STATUS.REPLACED,
+    reason: previousBlock?.reason || null,
+    blockedAt: new Date().toISOString(),
+    replacedBy: newCardId
+  };
+  MOCK_DATA.blockedCards = [
+    ...MOCK_DATA.blockedCards.filter(b => b.cardId !== oldCardId),
+    blockedCard
+  ];
+  
+  customer.cardId = newCardId;
+  customer.cardStatus = CARD_STATUS.ACTIVE;
+  MOCK_DATA.transactions.forEach(t => {
+    if (t.cardId === oldCardId) {
+      t.cardId = newCardId;
+    }
+  });
+  
+  return { customer: { ...customer }, blockedCard };
+};
+
+// Wrapper around fetch that feeds the connectivity circuit breaker:
+// network errors and 5xx responses count as failures, anything else as success
+const apiFetch = async (url, options) => {
+  let response;
+  try {
+    response = await fetch(url, options);
+  } catch (error) {
+    reportRequestFailure();
+    throw new NetworkError(error.message);
+  }
+  
+  if (response.status >= 500) {
+    reportRequestFailure();
+  } else {
+    reportRequestSuccess();
+  }
+  
+  return response;
+};
+
+// Typed client for the endpoints the web app shares. It reads the base URL
+// on every request, so it follows settings loaded after startup.
+const apiClient = createApiClient({
+  baseUrl: () => apiBaseUrl,
+  fetch: apiFetch
+});
+
 // Helper function to handle API responses
 const handleResponse = async (response) => {
   if (!response.ok) {
-    // Try to get error details from the response
-    try {
-      const errorData = await response.json();
-      throw new Error(errorData.message || 'API request failed');
-    } catch (e) {
-      throw new Error(`API request failed with status ${response.status}`);
-    }
+    // Raises NotFoundError, InsufficientBalanceError, etc. from the status and body
+    throw await errorFromResponse(response);
   }
   
   return response.json();
 };
 
+/**
+ * Send a queued offline record to one of the sync endpoints.
+ * 409/422 mean the server understood the record and refused it (e.g.
+ * insufficient balance at sync time); retrying won't help, so they resolve
+ * to a rejection instead of throwing. Other failures throw so the record
+ * stays in the queue.
+ * @param {string} method HTTP method
+ * @param {string} path Path below the API base URL
+ * @param {Object} record The queued record (must carry an idempotencyKey)
+ * @param {Object} [body] Request body (defaults to the record itself)
+ * @returns {Promise<Object>} { status: 'accepted' | 'duplicate' | 'rejected', ... }
+ */
+const sendSyncRequest = async (method, path, record, body = record) => {
+  const response = await apiFetch(`${apiBaseUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': record.idempotencyKey,
+    },
+    body: JSON.stringify(body),
+  });
+  
+  if (response.status === 409 || response.status === 422) {
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      status: 'rejected',
+      reason: errorData.message || `Rejected with status ${response.status}`,
+      code: errorData.code || null
+    };
+  }
+  
+  const result = await handleResponse(response);
+  return { status: 'accepted', ...result };
+};
+
+/**
+ * Check that a payment, reload or refund amount is a positive whole number of minor
+ * units, so a decimal amount can't reach the ledger
+ * @param {number} amount Amount in minor units
+ */
+const assertAmount = (amount) => {
+  if (!isMoney(amount) || amount <= 0) {
+    throw new Error(`Invalid amount ${amount}: amounts must be a positive whole number of minor units`);
+  }
+};
+
+/**
+ * Check that the card QR code a payment is made with (if any) hasn't paid
+ * for something on this terminal already. The server checks every terminal's.
+ * @param {Object} [cardToken] The scanned token's { nonce, expiresAt }
+ * @returns {Promise<void>}
+ */
+const assertCardTokenUnused = async (cardToken) => {
+  if (cardToken && await isCardTokenUsed(cardToken.nonce)) {
+    throw new Error('This card QR code has already been used. Ask the customer to refresh it.');
+  }
+};
+
+/**
+ * Work out and check the amount of a refund against what is left to refund
+ * @param {Object} original The payment being refunded
+ * @param {Array} history Transaction history, including earlier refunds
+ * @param {number} [amount] Requested amount (defaults to everything left)
+ * @returns {number} Amount to refund
+ */
+const resolveRefundAmount = (original, history, amount) => {
+  if (original.type !== 'payment') {
+    throw new Error('Only payments can be refunded');
+  }
+  
+  const refundable = getRefundableAmount(original, history);
+  if (refundable <= 0) {
+    throw new Error('This payment has already been fully refunded');
+  }
+  
+  const refundAmount = amount ?? refundable;
+  if (refundAmount <= 0 || refundAmount > refundable) {
+    throw new Error(`Refund amount must be between ${formatCurrency(1)} and ${formatCurrency(refundable)}`);
+  }
+  
+  return refundAmount;
+};
+
+/**
+ * Check a payment against the card's spending limits and PIN. The server does
+ * this for online payments; offline and simulated payments are checked here
+ * against the customer's cached settings and this terminal's records.
+ * @param {Object} customer The paying customer (with security settings)
+ * @param {Object} paymentData Payment request, with the PIN if one was entered
+ * @returns {Promise<void>}
+ */
+const enforceCardSecurity = async (customer, { amount, pin }) => {
+  const lockedUntil = await getPinLockout(customer.id);
+  if (lockedUntil) {
+    throw new CardLockedError(
+      `Card locked after too many incorrect PINs. Try again after ${formatTime(lockedUntil)}.`,
+      { lockedUntil: lockedUntil.toISOString() }
+    );
+  }
+  
+  const violation = findSpendingLimitViolation(customer, amount, await getDailySpend(customer.id));
+  if (violation) {
+    throw new SpendingLimitError(
+      violation.limit === 'daily'
+        ? `Daily spending limit of ${formatCurrency(violation.max)} reached. ${formatCurrency(violation.remaining)} left today.`
+        : `Payments on this card are limited to ${formatCurrency(violation.max)}`
+    );
+  }
+  
+  if (!isPinRequired(customer, amount)) {
+    return;
+  }
+  if (!pin) {
+    throw new PinRequiredError();
+  }
+  
+  const result = await verifyPin(customer, pin);
+  if (result.lockedUntil) {
+    throw new CardLockedError(
+      `Too many incorrect PINs. Card locked until ${formatTime(result.lockedUntil)}.`,
+      { lockedUntil: result.lockedUntil.toISOString() }
+    );
+  }
+  if (!result.valid) {
+    throw new InvalidPinError(
+      `Incorrect PIN. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} left.`,
+      { attemptsRemaining: result.attemptsRemaining }
+    );
+  }
+};
+
+/**
+ * Refuse a card on the blocklist, or one whose owner's card is marked
+ * blocked, and log the tap. The server does this for online requests.
+ * @param {string} cardId The card presented
+ * @param {Object|null} customer The card's owner, if found
+ * @param {Object} options
+ * @param {string} options.action What the card is being used for ('lookup', 'payment'
+ *   or 'reload')
+ * @param {boolean} [options.includeBlocked] Return the owner of a blocked card
+ *   (marked with its cardStatus) instead of refusing it, so it can be replaced
+ * @param {Array} [options.blockedCards] Blocklist to check (the cached one if omitted)
+ * @returns {Promise<Object|null>} The customer
+ */
+const checkCardBlock = async (cardId, customer, { action, includeBlocked = false, blockedCards }) => {
+  let blockedCard = blockedCards
+    ? blockedCards.find(b => b.cardId === cardId)
+    : await findBlockedCard(cardId);
+  
+  if (!blockedCard && customer && getCardStatus(customer) === CARD_STATUS.BLOCKED) {
+    blockedCard = { cardId, customerId: customer.id, status: CARD_STATUS.BLOCKED };
+  }
+  if (!blockedCard) {
+    return customer;
+  }
+  
+  await recordBlockedTap(cardId, blockedCard.status, action);
+  
+  if (!includeBlocked || !customer) {
+    throw new CardBlockedError(describeBlockedCard(blockedCard), {
+      cardStatus: blockedCard.status,
+      replacedBy: blockedCard.replacedBy || undefined
+    });
+  }
+  return { ...customer, cardStatus: blockedCard.status };
+};
+
+// Log a card the server refused as blocked before passing the error on
+const logServerCardBlock = (cardId, action) => async (error) => {
+  if (error instanceof CardBlockedError) {
+    await recordBlockedTap(cardId, error.cardStatus || CARD_STATUS.BLOCKED, action);
+  }
+  throw error;
+};
+
+/**
+ * Check a card can be given to a customer: it isn't anyone's card and isn't
+ * on the blocklist
+ * @param {Object|null} owner The customer the card belongs to, if any
+ * @param {Object|null} blockedCard The card's blocklist entry, if any
+ */
+const assertCardAvailable = (owner, blockedCard) => {
+  if (owner) {
+    throw new Error('This card is already registered');
+  }
+  if (blockedCard) {
+    throw new Error(`${describeBlockedCard(blockedCard)} and cannot be reused`);
+  }
+};
+
+/**
+ * Point the cached customer and history at the new card and put the old one
+ * on the cached blocklist, so this terminal refuses it straight away
+ * @param {Object} blockedCard The old card's blocklist entry
+ * @returns {Promise<void>}
+ */
+const applyCardReplacement = async (blockedCard) => {
+  await updateCachedCustomer(blockedCard.customerId, {
+    cardId: blockedCard.replacedBy,
+    cardStatus: CARD_STATUS.ACTIVE
+  });
+  await addBlockedCard(blockedCard);
+  await remapCachedCardId(blockedCard.cardId, blockedCard.replacedBy);
+};
+
+/**
+ * Create the identifiers the sync endpoint uses to deduplicate replays.
+ * The idempotency key is generated once, when the transaction is created,
+ * and travels with it unchanged through every sync attempt.
+ * @returns {Promise<{idempotencyKey: string, terminalId: string, sequenceNumber: number}>}
+ */
+export const createSyncMetadata = async () => {
+  const terminalId = await getTerminalId();
+  const sequenceNumber = await getNextSequenceNumber();
+  
+  return {
+    idempotencyKey: `${terminalId}-${sequenceNumber}-${Math.random().toString(36).substr(2, 9)}`,
+    terminalId,
+    sequenceNumber
+  };
+};
+
+/**
+ * Check the signed-in operator's role allows an action. Offline this is the
+ * only check; online the server checks again.
+ * @param {string} permission One of PERMISSIONS
+ * @returns {Object} The signed-in operator
+ */
+export const assertPermission = (permission) => {
+  const operator = getCurrentOperator();
+  
+  if (!operator) {
+    throw new PermissionDeniedError('Sign in to continue', {
+      requiredRole: getRequiredRole(permission)
+    });
+  }
+  if (!hasPermission(operator, permission)) {
+    throw new PermissionDeniedError(describeMissingPermission(permission), {
+      requiredRole: getRequiredRole(permission)
+    });
+  }
+  
+  return operator;
+};
+
+/**
+ * Who is taking a transaction and on which terminal, stamped on every
+ * payment, reload and refund so reports and audits can attribute it
+ * @param {Object} operator The signed-in operator
+ * @returns {Promise<{operatorId: number|string, terminalId: string}>}
+ */
+const getAttribution = async (operator) => ({
+  operatorId: operator.id,
+  terminalId: await getTerminalId()
+});
+
+// Operator account API functions
+export const operatorAPI = {
+  // Get the operator accounts that can sign in to terminals. Fetched
+  // accounts are cached, PIN hashes included, for signing in offline.
+  getAll: async () => {
+    try {
+      // Check if we're in offline mode
+      const offline = await shouldOperateOffline();
+      if (offline) {
+        console.log('[Offline] Getting operators from cache');
+        return parseOperators(await getCachedOperators());
+      }
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log('[Simulated API] Getting operators');
+        const operators = parseOperators(await simulateApiResponse(MOCK_DATA.operators));
+        await cacheOperators(operators);
+        return operators;
+      }
+      
+      // Online mode - use real API
+      const operators = await apiClient.getOperators();
+      
+      // Cache the results for offline sign-in
+      await cacheOperators(operators);
+      
+      return operators;
+    } catch (error) {
+      console.error('Error fetching operators:', error);
+      throw error;
+    }
+  },
+};
+
 // Customer API functions
 export const customerAPI = {
-  // Get a customer by their card ID
-  getByCardId: async (cardId) => {
+  // Get a customer by their card ID. Blocked cards are refused with a
+  // CardBlockedError; with includeBlocked the owner of a blocked card is
+  // returned instead, marked with its cardStatus, so the card can be replaced.
+  getByCardId: async (cardId, { includeBlocked = false } = {}) => {
     try {
       const normalizedCardId = normalizeCardId(cardId);
       
@@ -172,24 +785,47 @@ export const customerAPI = {
       const offline = await shouldOperateOffline();
       if (offline) {
         console.log(`[Offline] Getting customer by card ID: ${normalizedCardId}`);
-        return await findCachedCustomerByCardId(normalizedCardId);
+        const customer = await checkCardBlock(
+          normalizedCardId,
+          await findProjectedCustomerByCardId(normalizedCardId),
+          { action: 'lookup', includeBlocked }
+        );
+        
+        if (!customer) {
+          throw new NotFoundError('Customer not found');
+        }
+        
+        return parseCustomer(customer);
       }
       
       // Use simulated API if enabled
       if (useSimulatedApi) {
         console.log(`[Simulated API] Getting customer by card ID: ${normalizedCardId}`);
-        const customer = MOCK_DATA.customers.find(c => c.cardId === normalizedCardId);
+        const customer = await checkCardBlock(
+          normalizedCardId,
+          MOCK_DATA.customers.find(c => c.cardId === normalizedCardId),
+          { action: 'lookup', includeBlocked, blockedCards: MOCK_DATA.blockedCards }
+        );
         
         if (!customer) {
-          throw new Error('Customer not found');
+          throw new NotFoundError('Customer not found');
         }
         
-        return await simulateApiResponse(customer);
+        return parseCustomer(await projectCustomerBalance(await simulateApiResponse(customer)));
       }
       
       // Online mode - use real API
-      const response = await fetch(`${apiBaseUrl}/customers/byCardId/${normalizedCardId}`);
-      return await handleResponse(response);
+      // Transactions still waiting in the sync queue aren't in the server's
+      // balance yet, so project them on top of it
+      const customer = await apiClient
+        .getCustomerByCardId(normalizedCardId, { includeBlocked })
+        .catch(logServerCardBlock(normalizedCardId, 'lookup'));
+      
+      if (getCardStatus(customer) !== CARD_STATUS.ACTIVE) {
+        await recordBlockedTap(normalizedCardId, getCardStatus(customer), 'lookup');
+      }
+      
+      return parseCustomer(await projectCustomerBalance(customer));
     } catch (error) {
       console.error('Error fetching customer by card ID:', error);
       throw error;
@@ -203,21 +839,21 @@ export const customerAPI = {
       const offline = await shouldOperateOffline();
       if (offline) {
         console.log('[Offline] Getting all customers from cache');
-        return await getCachedCustomers();
+        return parseCustomers(await getCachedCustomers());
       }
       
       // Use simulated API if enabled
       if (useSimulatedApi) {
         console.log('[Simulated API] Getting all customers');
-        return await simulateApiResponse(MOCK_DATA.customers);
+        return parseCustomers(await simulateApiResponse(MOCK_DATA.customers));
       }
       
       // Online mode - use real API
-      const response = await fetch(`${apiBaseUrl}/customers`);
-      const customers = await handleResponse(response);
+      const customers = await apiClient.getCustomers();
       
-      // Cache the results for offline use
-      await getCachedCustomers(customers);
+      // Cache the results for offline use, keeping offline changes that
+      // haven't synced yet
+      await mergeCachedCustomers(customers);
       
       return customers;
     } catch (error) {
@@ -226,29 +862,95 @@ export const customerAPI = {
     }
   },
   
+  // Get one page of the customers changed since a sync token:
+  // { changes, deleted, nextCursor, syncToken }. See pullChanges in sync.js.
+  getChanges: async ({ since, cursor }) => {
+    try {
+      // Use simulated API if enabled. The mock customers never change, so
+      // only the first sync gets them.
+      if (useSimulatedApi) {
+        return parseCustomerChanges(await simulateApiResponse({
+          changes: since ? [] : MOCK_DATA.customers,
+          deleted: [],
+          nextCursor: null,
+          syncToken: 'simulated'
+        }));
+      }
+      
+      return await apiClient.getCustomerChanges({ since, cursor, limit: CHANGES_PAGE_SIZE });
+    } catch (error) {
+      console.error('Error fetching customer changes:', error);
+      throw error;
+    }
+  },
+  
   // Register a new customer with a card
   register: async (customerData) => {
     try {
+      const operator = assertPermission(PERMISSIONS.REGISTRATION);
+      
       // Ensure card ID is normalized
       if (customerData.cardId) {
         customerData.cardId = normalizeCardId(customerData.cardId);
       }
       
-      // Check if we're in offline mode - registration requires online connectivity
+      // Replace a plain PIN with its salted hash before it is sent or queued
+      if (customerData.security) {
+        customerData = {
+          ...customerData,
+          security: await prepareSecuritySettings(customerData.security)
+        };
+      }
+      
+      // Check if we're in offline mode
       const offline = await shouldOperateOffline();
       if (offline) {
-        throw new Error('Customer registration is not available in offline mode');
+        console.log('[Offline] Registering customer in offline mode');
+        
+        assertCardAvailable(
+          await findProjectedCustomerByCardId(customerData.cardId),
+          await findBlockedCard(customerData.cardId)
+        );
+        
+        // Create the customer locally under a provisional ID. The initial
+        // balance is not confirmed yet: it comes from the queued registration,
+        // the same way offline reloads do.
+        const provisionalId = createProvisionalCustomerId();
+        const provisionalCustomer = {
+          id: provisionalId,
+          firstName: customerData.firstName,
+          lastName: customerData.lastName,
+          email: customerData.email,
+          phone: customerData.phone,
+          cardId: customerData.cardId,
+          balance: 0,
+          createdAt: new Date().toISOString(),
+          security: customerData.security || null,
+          provisional: true
+        };
+        
+        const syncMetadata = await createSyncMetadata();
+        const registration = {
+          type: 'registration',
+          customerId: provisionalId,
+          cardId: customerData.cardId,
+          amount: customerData.initialBalance || 0,
+          customerData,
+          status: 'pending_sync',
+          createdAt: provisionalCustomer.createdAt,
+          operatorId: operator.id,
+          ...syncMetadata
+        };
+        
+        // Cache the customer so they can pay right away, and queue the
+        // registration so sync sends it before any of their transactions
+        await addCachedCustomer(provisionalCustomer);
+        await savePendingTransaction(registration);
+        
+        return await projectCustomerBalance(provisionalCustomer);
       }
       
-      const response = await fetch(`${apiBaseUrl}/customers`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(customerData),
-      });
-      
-      return await handleResponse(response);
+      return await apiClient.registerCustomer(customerData);
     } catch (error) {
       console.error('Error registering customer:', error);
       throw error;
@@ -256,25 +958,268 @@ export const customerAPI = {
   },
   
   // Update a customer
+  // Security settings are given as { pin?, pinThreshold?, transactionLimit?,
+  // dailyLimit? }; settings left out keep their current values and
+  // `pin: null` removes the PIN.
   update: async (customerId, customerData) => {
     try {
-      // Check if we're in offline mode - updates require online connectivity
+      const operator = assertPermission(PERMISSIONS.CUSTOMER_UPDATE);
+      
+      // Replace a plain PIN with its salted hash before it is sent or queued
+      if (customerData.security) {
+        const current = await getCachedCustomer(customerId);
+        customerData = {
+          ...customerData,
+          security: await prepareSecuritySettings(customerData.security, current?.security || {})
+        };
+      }
+      
+      // Check if we're in offline mode
       const offline = await shouldOperateOffline();
       if (offline) {
-        throw new Error('Customer updates are not available in offline mode');
+        console.log(`[Offline] Updating customer ${customerId} in offline mode`);
+        
+        // Apply the change to the cache now and queue it for sync. If the
+        // customer is still provisional, sync rewrites the ID after registering.
+        const syncMetadata = await createSyncMetadata();
+        await updateCachedCustomer(customerId, customerData);
+        await savePendingTransaction({
+          type: 'customer_update',
+          customerId,
+          changes: customerData,
+          status: 'pending_sync',
+          createdAt: new Date().toISOString(),
+          operatorId: operator.id,
+          ...syncMetadata
+        });
+        
+        return { id: customerId, ...customerData, pendingSync: true };
       }
       
-      const response = await fetch(`${apiBaseUrl}/customers/${customerId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(customerData),
+      return await apiClient.updateCustomer(customerId, customerData);
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      throw error;
+    }
+  },
+  
+  // Send a customer registration queued offline. Resolves to
+  // { status, customer } where customer carries the server-assigned ID.
+  syncRegistration: async (registration) => {
+    try {
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Syncing registration for card ${registration.cardId}`);
+        const customer = {
+          ...registration.customerData,
+          id: MOCK_DATA.customers.length + 1,
+          balance: registration.customerData.initialBalance || 0,
+          createdAt: registration.createdAt
+        };
+        MOCK_DATA.customers.push(customer);
+        return await simulateApiResponse({ status: 'accepted', customer });
+      }
+      
+      const result = await sendSyncRequest('POST', '/sync/customers', registration, {
+        ...registration.customerData,
+        idempotencyKey: registration.idempotencyKey,
+        terminalId: registration.terminalId,
+        sequenceNumber: registration.sequenceNumber
       });
       
-      return await handleResponse(response);
+      if (result.status === 'rejected') {
+        return result;
+      }
+      
+      // The server may answer with the customer itself or wrap it
+      return { status: result.status, customer: result.customer || result };
     } catch (error) {
-      console.error('Error updating customer:', error);
+      console.error('Error syncing customer registration:', error);
+      throw error;
+    }
+  },
+  
+  // Send a customer update queued offline
+  syncUpdate: async (update) => {
+    try {
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Syncing update for customer ${update.customerId}`);
+        return await simulateApiResponse({ status: 'accepted' });
+      }
+      
+      return await sendSyncRequest('PATCH', `/customers/${update.customerId}`, update, update.changes);
+    } catch (error) {
+      console.error('Error syncing customer update:', error);
+      throw error;
+    }
+  },
+  
+  // Get the card blocklist: lost, stolen and replaced cards
+  getBlockedCards: async () => {
+    try {
+      // Check if we're in offline mode
+      const offline = await shouldOperateOffline();
+      if (offline) {
+        console.log('[Offline] Getting card blocklist from cache');
+        return parseBlockedCards(await getCachedBlockedCards());
+      }
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log('[Simulated API] Getting card blocklist');
+        return parseBlockedCards(await simulateApiResponse(MOCK_DATA.blockedCards));
+      }
+      
+      // Online mode - use real API
+      return await apiClient.getBlockedCards();
+    } catch (error) {
+      console.error('Error fetching card blocklist:', error);
+      throw error;
+    }
+  },
+  
+  // Move a customer's balance and history from their card to a new one and
+  // block the old card, e.g. when it has been lost. Offline, the change is
+  // applied to the cache and queued; sync sends it after everything queued
+  // before it, so earlier payments on the old card still go through.
+  replaceCard: async (oldCardId, newCardId) => {
+    try {
+      const operator = assertPermission(PERMISSIONS.CARD_REPLACEMENT);
+      const fromCardId = normalizeCardId(oldCardId);
+      const toCardId = normalizeCardId(newCardId);
+      
+      if (fromCardId === toCardId) {
+        throw new Error('Scan a different card to replace this one');
+      }
+      
+      // Check if we're in offline mode
+      const offline = await shouldOperateOffline();
+      if (offline) {
+        console.log(`[Offline] Replacing card ${fromCardId} with ${toCardId}`);
+        
+        const customer = await findCachedCustomerByCardId(fromCardId);
+        if (!customer) {
+          throw new NotFoundError('Customer not found in offline cache');
+        }
+        assertCardAvailable(
+          await findCachedCustomerByCardId(toCardId),
+          await findBlockedCard(toCardId)
+        );
+        
+        const syncMetadata = await createSyncMetadata();
+        const replacement = {
+          type: 'card_replacement',
+          customerId: customer.id,
+          cardId: fromCardId,
+          newCardId: toCardId,
+          status: 'pending_sync',
+          createdAt: new Date().toISOString(),
+          operatorId: operator.id,
+          ...syncMetadata
+        };
+        
+        // Keep the reason a lost card was blocked for
+        const previousBlock = await findBlockedCard(fromCardId);
+        const blockedCard = {
+          cardId: fromCardId,
+          customerId: customer.id,
+          status: CARD_STATUS.REPLACED,
+          reason: previousBlock?.reason || null,
+          blockedAt: replacement.createdAt,
+          replacedBy: toCardId
+        };
+        
+        await savePendingTransaction(replacement);
+        await applyCardReplacement(blockedCard);
+        
+        return parseReplaceCardResponse({
+          success: true,
+          offline: true,
+          customer: await findProjectedCustomerByCardId(toCardId),
+          blockedCard
+        });
+      }
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Replacing card ${fromCardId} with ${toCardId}`);
+        const { customer, blockedCard } = replaceSimulatedCard(fromCardId, toCardId);
+        await applyCardReplacement(blockedCard);
+        return parseReplaceCardResponse(await simulateApiResponse({
+          success: true,
+          customer: await projectCustomerBalance(customer),
+          blockedCard
+        }));
+      }
+      
+      // Online mode - use API
+      const result = await apiClient.replaceCard(fromCardId, { newCardId: toCardId });
+      await applyCardReplacement(result.blockedCard);
+      return {
+        ...result,
+        customer: parseCustomer(await projectCustomerBalance(result.customer))
+      };
+    } catch (error) {
+      console.error('Error replacing card:', error);
+      throw error;
+    }
+  },
+  
+  // Send a card replacement queued offline
+  syncCardReplacement: async (replacement) => {
+    try {
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Syncing replacement of card ${replacement.cardId}`);
+        replaceSimulatedCard(replacement.cardId, replacement.newCardId);
+        return await simulateApiResponse({ status: 'accepted' });
+      }
+      
+      return await sendSyncRequest('POST', `/cards/${encodeURIComponent(replacement.cardId)}/replace`, replacement, {
+        newCardId: replacement.newCardId,
+        customerId: replacement.customerId,
+        replacedAt: replacement.createdAt,
+        idempotencyKey: replacement.idempotencyKey,
+        terminalId: replacement.terminalId,
+        sequenceNumber: replacement.sequenceNumber
+      });
+    } catch (error) {
+      console.error('Error syncing card replacement:', error);
+      throw error;
+    }
+  },
+};
+
+// Product catalog API functions
+export const productAPI = {
+  // Get the product catalog. Stock counts have sales still waiting in the
+  // sync queue taken off, so they match what this terminal has sold.
+  getAll: async () => {
+    try {
+      // Check if we're in offline mode
+      const offline = await shouldOperateOffline();
+      if (offline) {
+        console.log('[Offline] Getting product catalog from cache');
+        return parseProducts(await getCachedProducts());
+      }
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log('[Simulated API] Getting product catalog');
+        const products = await simulateApiResponse(MOCK_DATA.products);
+        return parseProducts(await reconcileProductStock(products));
+      }
+      
+      // Online mode - use real API
+      const products = await reconcileProductStock(await apiClient.getProducts());
+      
+      // Cache the results for offline use
+      await cacheProducts(products);
+      
+      return products;
+    } catch (error) {
+      console.error('Error fetching product catalog:', error);
       throw error;
     }
   },
@@ -285,6 +1230,10 @@ export const transactionAPI = {
   // Process a payment
   processPayment: async (paymentData) => {
     try {
+      const attribution = await getAttribution(assertPermission(PERMISSIONS.PAYMENT));
+      assertAmount(paymentData.amount);
+      await assertCardTokenUnused(paymentData.cardToken);
+      
       // Ensure card ID is normalized
       if (paymentData.cardId) {
         paymentData.cardId = normalizeCardId(paymentData.cardId);
@@ -295,19 +1244,49 @@ export const transactionAPI = {
       if (offline) {
         console.log('[Offline] Processing payment in offline mode');
         
-        // Get customer from cache to validate balance
-        const customer = await findCachedCustomerByCardId(paymentData.cardId);
+        // Get customer from cache with their projected balance (confirmed
+        // balance plus everything still pending on this terminal)
+        const customer = await findProjectedCustomerByCardId(paymentData.cardId);
+        
+        // Refuse lost, stolen and replaced cards before anything else
+        await checkCardBlock(paymentData.cardId, customer, { action: 'payment' });
         
         if (!customer) {
-          throw new Error('Customer not found in offline cache');
+          throw new NotFoundError('Customer not found in offline cache');
         }
         
+        // Then check the card's PIN and spending limits
+        await enforceCardSecurity(customer, paymentData);
+        
+        // A verified balance record on the card also reflects spending on
+        // terminals this one hasn't synced with, so the lower balance counts
+        const { cardRecord } = paymentData;
+        const availableBalance = cardRecord?.status === CARD_RECORD_STATUS.VERIFIED
+          ? Math.min(customer.balance, cardRecord.record.balance)
+          : customer.balance;
+        
         // Check if the customer has sufficient balance
-        if (customer.balance < paymentData.amount) {
-          throw new Error('Insufficient balance');
+        if (compareMoney(availableBalance, paymentData.amount) < 0) {
+          throw new InsufficientBalanceError();
+        }
+        
+        // Other terminals may be spending the same balance offline right
+        // now, so this terminal only spends its share of it
+        const allowanceViolation = await checkOfflineAllowance(paymentData.cardId, paymentData.amount);
+        if (allowanceViolation) {
+          throw new OfflineAllowanceError(describeAllowanceViolation(allowanceViolation), {
+            remaining: allowanceViolation.remaining
+          });
+        }
+        
+        // Check the cached catalog has enough stock for every product line
+        const shortage = findStockShortage(paymentData.items, await getCachedProducts());
+        if (shortage) {
+          throw new OutOfStockError(`Only ${shortage.available} left of ${shortage.product.name}`);
         }
         
         // Create an offline transaction
+        const syncMetadata = await createSyncMetadata();
         const offlineTransaction = {
           id: `offline_payment_${Date.now()}`,
           transactionId: `offline_trans_${Math.random().toString(36).substr(2, 9)}`,
@@ -318,41 +1297,93 @@ export const transactionAPI = {
           description: paymentData.description || 'Offline payment',
           status: 'pending_sync',
           createdAt: new Date().toISOString(),
+          customerName: `${customer.firstName} ${customer.lastName}`,
           items: paymentData.items || [],
-          pendingSync: true
+          // Tells the sync endpoint the terminal checked the PIN, which is
+          // never stored or queued itself
+          pinVerified: isPinRequired(customer, paymentData.amount),
+          // Lets the sync endpoint refuse a card QR code used elsewhere
+          cardToken: paymentData.cardToken,
+          pendingSync: true,
+          ...attribution,
+          ...syncMetadata
         };
         
-        // Save the transaction to offline storage
-        await addOfflineTransaction(offlineTransaction);
+        // Journal it and save it to offline storage in one commit. Once it is
+        // in the pending queue, every later projection of this customer's
+        // balance includes it. The same commit counts it toward today's spend,
+        // takes the sold units off the cached catalog and uses up the card QR
+        // code if it was paid with one; performFullSync reconciles the counts
+        // with the server later.
+        await addOfflineTransaction(offlineTransaction, {
+          createJournalEntry: createTransactionEntry(offlineTransaction)
+        });
         
-        // Manually update the cached customer's balance
-        // Note: This is a temporary update until we can sync with the server
-        customer.balance -= paymentData.amount;
+        return parsePaymentResponse({
+          success: true,
+          offline: true,
+          transaction: offlineTransaction,
+          customer: await findProjectedCustomerByCardId(paymentData.cardId)
+        });
+      }
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Processing payment for card ${paymentData.cardId}`);
+        const mockCustomer = MOCK_DATA.customers.find(c => c.cardId === paymentData.cardId);
+        await checkCardBlock(paymentData.cardId, mockCustomer, {
+          action: 'payment',
+          blockedCards: MOCK_DATA.blockedCards
+        });
+        if (mockCustomer) {
+          await enforceCardSecurity(mockCustomer, paymentData);
+        }
         
-        // Return the transaction with simulated success
-        return {
-          id: offlineTransaction.id,
-          transactionId: offlineTransaction.transactionId,
-          amount: offlineTransaction.amount,
-          status: 'success',
-          description: offlineTransaction.description,
-          customerName: `${customer.firstName} ${customer.lastName}`,
-          createdAt: offlineTransaction.createdAt,
-          offlineMode: true,
-          pendingSync: true
-        };
+        const { transaction, customer } = recordSimulatedTransaction('payment', { ...paymentData, ...attribution });
+        await recordDailySpend(customer.id, paymentData.amount);
+        if (paymentData.cardToken) {
+          await markCardTokenUsed(paymentData.cardToken);
+        }
+        return parsePaymentResponse(await simulateApiResponse({
+          success: true,
+          transaction,
+          customer: await projectCustomerBalance(customer)
+        }));
       }
       
       // Online mode - use API
-      const response = await fetch(`${apiBaseUrl}/payments/process`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(paymentData),
-      });
+      const result = await apiClient
+        .processPayment({ ...paymentData, ...attribution })
+        .catch(logServerCardBlock(paymentData.cardId, 'payment'));
       
-      return await handleResponse(response);
+      // The server has charged the customer, so from here on nothing may
+      // report the payment as failed: that would invite charging them again.
+      // Local bookkeeping that fails is logged instead, and the next refresh
+      // brings the caches back in line with the server.
+      try {
+        // Keep the cached catalog close to the server's until the next refresh
+        await decrementCachedStock(paymentData.items);
+        
+        // Count the spend towards the daily limit in case the terminal goes offline
+        await recordDailySpend(result.transaction.customerId ?? paymentData.customerId, paymentData.amount);
+        
+        // The server has taken the card QR code, so refuse it here too
+        if (paymentData.cardToken) {
+          await markCardTokenUsed(paymentData.cardToken);
+        }
+      } catch (error) {
+        console.error(`Error recording accepted payment ${result.transaction.transactionId} locally:`, error);
+      }
+      
+      let customer = result.customer;
+      try {
+        customer = result.customer && parseCustomer(await projectCustomerBalance(result.customer));
+      } catch (error) {
+        // Show the balance the server returned, without this terminal's queue
+        console.error('Error projecting the balance after a payment:', error);
+      }
+      
+      return { ...result, customer };
     } catch (error) {
       console.error('Error processing payment:', error);
       throw error;
@@ -362,6 +1393,9 @@ export const transactionAPI = {
   // Reload a customer's balance
   reloadBalance: async (reloadData) => {
     try {
+      const attribution = await getAttribution(assertPermission(PERMISSIONS.RELOAD));
+      assertAmount(reloadData.amount);
+      
       // Ensure card ID is normalized
       if (reloadData.cardId) {
         reloadData.cardId = normalizeCardId(reloadData.cardId);
@@ -372,14 +1406,18 @@ export const transactionAPI = {
       if (offline) {
         console.log('[Offline] Processing balance reload in offline mode');
         
-        // Get customer from cache
-        const customer = await findCachedCustomerByCardId(reloadData.cardId);
+        // Get customer from cache with their projected balance
+        const customer = await findProjectedCustomerByCardId(reloadData.cardId);
+        
+        // Refuse lost, stolen and replaced cards, as payments do
+        await checkCardBlock(reloadData.cardId, customer, { action: 'reload' });
         
         if (!customer) {
-          throw new Error('Customer not found in offline cache');
+          throw new NotFoundError('Customer not found in offline cache');
         }
         
         // Create an offline transaction
+        const syncMetadata = await createSyncMetadata();
         const offlineTransaction = {
           id: `offline_reload_${Date.now()}`,
           transactionId: `offline_trans_${Math.random().toString(36).substr(2, 9)}`,
@@ -390,42 +1428,238 @@ export const transactionAPI = {
           description: reloadData.description || 'Offline balance reload',
           status: 'pending_sync',
           createdAt: new Date().toISOString(),
-          pendingSync: true
+          customerName: `${customer.firstName} ${customer.lastName}`,
+          pendingSync: true,
+          ...attribution,
+          ...syncMetadata
         };
         
-        // Save the transaction to offline storage
-        await addOfflineTransaction(offlineTransaction);
+        // Journal it and save it to offline storage in one commit. Once it is
+        // in the pending queue, every later projection of this customer's
+        // balance includes it.
+        await addOfflineTransaction(offlineTransaction, {
+          createJournalEntry: createTransactionEntry(offlineTransaction)
+        });
         
-        // Manually update the cached customer's balance
-        // Note: This is a temporary update until we can sync with the server
-        customer.balance += reloadData.amount;
+        return parseReloadResponse({
+          success: true,
+          offline: true,
+          transaction: offlineTransaction,
+          customer: await findProjectedCustomerByCardId(reloadData.cardId)
+        });
+      }
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Reloading balance for card ${reloadData.cardId}`);
+        const { transaction, customer } = recordSimulatedTransaction('reload', { ...reloadData, ...attribution });
+        return parseReloadResponse(await simulateApiResponse({
+          success: true,
+          transaction,
+          customer: await projectCustomerBalance(customer)
+        }));
+      }
+      
+      // Online mode - use API
+      const result = await apiClient.reloadBalance({ ...reloadData, ...attribution });
+      return {
+        ...result,
+        customer: result.customer && parseCustomer(await projectCustomerBalance(result.customer))
+      };
+    } catch (error) {
+      console.error('Error reloading balance:', error);
+      throw error;
+    }
+  },
+  
+  // Refund all or part of a completed payment. The refund is its own
+  // transaction, linked to the payment through originalTransactionId.
+  refund: async ({ transactionId, amount, reason }) => {
+    try {
+      const attribution = await getAttribution(assertPermission(PERMISSIONS.REFUND));
+      if (amount !== undefined) {
+        assertAmount(amount);
+      }
+      
+      // Check if we're in offline mode
+      const offline = await shouldOperateOffline();
+      if (offline) {
+        console.log(`[Offline] Refunding transaction ${transactionId} in offline mode`);
         
-        // Return the transaction with simulated success
-        return {
-          id: offlineTransaction.id,
-          transactionId: offlineTransaction.transactionId,
-          amount: offlineTransaction.amount,
-          status: 'success',
-          description: offlineTransaction.description,
-          customerName: `${customer.firstName} ${customer.lastName}`,
-          createdAt: offlineTransaction.createdAt,
-          offlineMode: true,
-          pendingSync: true
+        const original = await findCachedTransaction(transactionId);
+        
+        if (!original) {
+          throw new NotFoundError('Transaction not found in offline cache');
+        }
+        
+        // Earlier refunds, pending ones included, are in the customer's
+        // cached history and count against what is left to refund
+        const history = original.customerId != null
+          ? await getCachedTransactionsByCustomerId(original.customerId)
+          : await getCachedTransactionsByCardId(original.cardId);
+        
+        const pending = await loadPendingTransactions();
+        if (pending.some(t => t.transactionId === transactionId)) {
+          throw new Error('This transaction has not synced yet. Void it instead.');
+        }
+        
+        const refundAmount = resolveRefundAmount(original, history, amount);
+        
+        // Create an offline refund, queued for sync like any other transaction
+        const syncMetadata = await createSyncMetadata();
+        const refundTransaction = {
+          id: `offline_refund_${Date.now()}`,
+          transactionId: `offline_trans_${Math.random().toString(36).substr(2, 9)}`,
+          customerId: original.customerId,
+          cardId: original.cardId,
+          amount: refundAmount,
+          type: 'refund',
+          originalTransactionId: original.transactionId,
+          reason: reason || null,
+          description: `Refund: ${original.description || original.transactionId}`,
+          status: 'pending_sync',
+          createdAt: new Date().toISOString(),
+          customerName: original.customerName,
+          pendingSync: true,
+          ...attribution,
+          ...syncMetadata
         };
+        
+        // Once queued, the refund is part of the customer's projected balance
+        await addOfflineTransaction(refundTransaction, {
+          createJournalEntry: createTransactionEntry(refundTransaction)
+        });
+        
+        const customer = await findProjectedCustomerByCardId(original.cardId);
+        return parseRefundResponse({
+          success: true,
+          offline: true,
+          transaction: refundTransaction,
+          customer: customer || undefined
+        });
+      }
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Refunding transaction ${transactionId}`);
+        const original = MOCK_DATA.transactions.find(t => t.transactionId === transactionId);
+        
+        if (!original) {
+          throw new NotFoundError('Transaction not found');
+        }
+        
+        const { transaction, customer } = recordSimulatedTransaction('refund', {
+          cardId: original.cardId,
+          amount: resolveRefundAmount(original, MOCK_DATA.transactions, amount),
+          description: `Refund: ${original.description || original.transactionId}`,
+          originalTransactionId: original.transactionId,
+          reason,
+          ...attribution
+        });
+        return parseRefundResponse(await simulateApiResponse({
+          success: true,
+          transaction,
+          customer: await projectCustomerBalance(customer)
+        }));
       }
       
       // Online mode - use API
-      const response = await fetch(`${apiBaseUrl}/payments/reload`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(reloadData),
-      });
+      const result = await apiClient.refund({ transactionId, amount, reason, ...attribution });
+      return {
+        ...result,
+        customer: result.customer && parseCustomer(await projectCustomerBalance(result.customer))
+      };
+    } catch (error) {
+      console.error('Error processing refund:', error);
+      throw error;
+    }
+  },
+  
+  // Void a payment, reload or refund that is still waiting in the sync queue. It is
+  // dropped from the queue, so the server never sees it and the projected
+  // balance goes back to what it was. Nothing is sent, so this works the
+  // same online and offline.
+  void: async (transactionId) => {
+    try {
+      const attribution = await getAttribution(assertPermission(PERMISSIONS.VOID));
+      const pending = await loadPendingTransactions();
+      const queued = pending.find(t => t.transactionId === transactionId);
+      
+      if (!queued) {
+        const cached = await findCachedTransaction(transactionId);
+        if (cached) {
+          throw new Error('This transaction has already synced. Refund it instead.');
+        }
+        throw new NotFoundError('Transaction not found');
+      }
+      
+      if (!['payment', 'reload', 'refund'].includes(queued.type)) {
+        throw new Error('Only payments, reloads and refunds can be voided');
+      }
       
-      return await handleResponse(response);
+      if (isPendingTransactionInFlight(queued.id)) {
+        throw new Error('This transaction is being synced right now. Try again in a moment.');
+      }
+      
+      console.log(`Voiding pending transaction ${transactionId}`);
+      const voidedAt = new Date().toISOString();
+      const voidTransaction = {
+        id: `void_${Date.now()}`,
+        transactionId: `void_${Math.random().toString(36).substr(2, 9)}`,
+        customerId: queued.customerId,
+        cardId: queued.cardId,
+        amount: queued.amount,
+        type: 'void',
+        originalTransactionId: transactionId,
+        description: `Void: ${queued.description || transactionId}`,
+        status: 'voided',
+        createdAt: voidedAt,
+        customerName: queued.customerName,
+        ...attribution
+      };
+      
+      // Drop the original from the queue, mark it voided in history, add
+      // the void entry and give back a payment's daily spend and stock, all
+      // in one commit. That commit is refused if sync got to the original
+      // first, so the void is only journaled once it has gone through.
+      await voidPendingTransaction(queued, voidTransaction);
+      await journalTransaction(voidTransaction);
+      
+      const customer = await findProjectedCustomerByCardId(queued.cardId);
+      return {
+        success: true,
+        transaction: parseTransaction(voidTransaction),
+        customer: customer ? parseCustomer(customer) : undefined
+      };
     } catch (error) {
-      console.error('Error reloading balance:', error);
+      console.error('Error voiding transaction:', error);
+      throw error;
+    }
+  },
+  
+  // Replay a queued offline transaction through the dedicated sync endpoint.
+  // This never re-enters the offline branch, and the Idempotency-Key header
+  // lets the server recognise a transaction it has already committed (e.g. when
+  // an earlier attempt timed out after the server processed it).
+  // Resolves to { status: 'accepted' | 'duplicate' | 'rejected', ... }; throws
+  // only for transient failures, which should stay in the queue.
+  syncTransaction: async (transaction) => {
+    try {
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Syncing transaction ${transaction.idempotencyKey}`);
+        return await simulateApiResponse({ 
+          status: 'accepted', 
+          transactionId: transaction.transactionId 
+        });
+      }
+      
+      // A payment that overspent its card across terminals comes back with
+      // the server's overspend report
+      const result = await sendSyncRequest('POST', '/sync/transactions', transaction);
+      return result.overspend ? { ...result, overspend: parseOverspend(result.overspend) } : result;
+    } catch (error) {
+      console.error('Error syncing transaction:', error);
       throw error;
     }
   },
@@ -437,21 +1671,21 @@ export const transactionAPI = {
       const offline = await shouldOperateOffline();
       if (offline) {
         console.log('[Offline] Getting transaction history from cache');
-        return await getCachedTransactions();
+        return parseTransactions(await getCachedTransactions());
       }
       
       // Use simulated API if enabled
       if (useSimulatedApi) {
         console.log('[Simulated API] Getting transaction history');
-        return await simulateApiResponse(MOCK_DATA.transactions);
+        return parseTransactions(await simulateApiResponse(MOCK_DATA.transactions));
       }
       
       // Online mode - use real API
-      const response = await fetch(`${apiBaseUrl}/transactions`);
-      const transactions = await handleResponse(response);
+      const transactions = await apiClient.getTransactions();
       
-      // Cache the results for offline use
-      await cacheTransactions(transactions);
+      // Cache the results for offline use, keeping offline transactions
+      // that haven't synced yet
+      await mergeCachedTransactions(transactions);
       
       return transactions;
     } catch (error) {
@@ -460,6 +1694,63 @@ export const transactionAPI = {
     }
   },
   
+  // Get one page of the transactions matching a query, newest first:
+  // { transactions, nextCursor }. Pass nextCursor back as `cursor` for the
+  // next page. Offline, the query runs against the local cache.
+  query: async (query = {}) => {
+    try {
+      const pageQuery = { limit: TRANSACTION_PAGE_SIZE, ...query };
+      if (pageQuery.cardId) {
+        pageQuery.cardId = normalizeCardId(pageQuery.cardId);
+      }
+      
+      // Check if we're in offline mode
+      const offline = await shouldOperateOffline();
+      if (offline) {
+        console.log('[Offline] Querying cached transactions');
+        return parseTransactionPage(await runOfflineTransactionQuery(pageQuery));
+      }
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log('[Simulated API] Querying transactions');
+        return parseTransactionPage(await simulateApiResponse(queryTransactions(MOCK_DATA.transactions, pageQuery)));
+      }
+      
+      // Online mode - use real API
+      const page = await apiClient.queryTransactions(pageQuery);
+      
+      // Keep what we've seen for offline queries
+      await mergeCachedTransactions(page.transactions);
+      
+      return page;
+    } catch (error) {
+      console.error('Error querying transactions:', error);
+      throw error;
+    }
+  },
+  
+  // Get one page of the transactions changed since a sync token:
+  // { changes, deleted, nextCursor, syncToken }. See pullChanges in sync.js.
+  getChanges: async ({ since, cursor }) => {
+    try {
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        return parseTransactionChanges(await simulateApiResponse({
+          changes: since ? [] : MOCK_DATA.transactions,
+          deleted: [],
+          nextCursor: null,
+          syncToken: 'simulated'
+        }));
+      }
+      
+      return await apiClient.getTransactionChanges({ since, cursor, limit: CHANGES_PAGE_SIZE });
+    } catch (error) {
+      console.error('Error fetching transaction changes:', error);
+      throw error;
+    }
+  },
+  
   // Get transaction details by ID
   getById: async (transactionId) => {
     try {
@@ -467,13 +1758,11 @@ export const transactionAPI = {
       const offline = await shouldOperateOffline();
       if (offline) {
         console.log(`[Offline] Getting transaction details for: ${transactionId}`);
-        const transactions = await getCachedTransactions();
-        return transactions.find(t => t.transactionId === transactionId || t.id === transactionId);
+        return await findCachedTransaction(transactionId);
       }
       
       // Online mode - use API
-      const response = await fetch(`${apiBaseUrl}/transactions/${transactionId}`);
-      return await handleResponse(response);
+      return await apiClient.getTransaction(transactionId);
     } catch (error) {
       console.error('Error fetching transaction details:', error);
       throw error;
@@ -487,13 +1776,11 @@ export const transactionAPI = {
       const offline = await shouldOperateOffline();
       if (offline) {
         console.log(`[Offline] Getting transactions for customer: ${customerId}`);
-        const transactions = await getCachedTransactions();
-        return transactions.filter(t => t.customerId === customerId);
+        return await getCachedTransactionsByCustomerId(customerId);
       }
       
       // Online mode - use API
-      const response = await fetch(`${apiBaseUrl}/customers/${customerId}/transactions`);
-      return await handleResponse(response);
+      return await apiClient.getCustomerTransactions(customerId);
     } catch (error) {
       console.error('Error fetching customer transactions:', error);
       throw error;
@@ -509,16 +1796,141 @@ export const transactionAPI = {
       const offline = await shouldOperateOffline();
       if (offline) {
         console.log(`[Offline] Getting transactions for card: ${normalizedCardId}`);
-        const transactions = await getCachedTransactions();
-        return transactions.filter(t => t.cardId === normalizedCardId);
+        return await getCachedTransactionsByCardId(normalizedCardId);
       }
       
       // Online mode - use API
-      const response = await fetch(`${apiBaseUrl}/cards/${normalizedCardId}/transactions`);
-      return await handleResponse(response);
+      return await apiClient.getCardTransactions(normalizedCardId);
     } catch (error) {
       console.error('Error fetching card transactions:', error);
       throw error;
     }
   },
+};
+
+// Shift settlement API functions
+export const shiftAPI = {
+  // Upload a queued Z-report. Like syncTransaction, resolves to
+  // { status: 'accepted' | 'duplicate' | 'rejected', ... } and throws only
+  // for transient failures.
+  syncReport: async (item) => {
+    try {
+      const report = parseShiftReport(item.report);
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        console.log(`[Simulated API] Uploading Z-report ${report.reportId}`);
+        return await simulateApiResponse({ status: 'accepted', reportId: report.reportId });
+      }
+      
+      return await sendSyncRequest('POST', '/sync/shift-reports', item, {
+        ...report,
+        idempotencyKey: item.idempotencyKey,
+        sequenceNumber: item.sequenceNumber
+      });
+    } catch (error) {
+      console.error('Error uploading shift report:', error);
+      throw error;
+    }
+  },
+};
+
+// Transaction journal API functions
+export const journalAPI = {
+  // Upload journal entries. The server checks they are signed with the
+  // terminal's key and continue the chain it holds, and throws
+  // JournalChainError if not. Resolves to { headSeq, headHash }.
+  upload: async (request) => {
+    try {
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        const head = request.entries[request.entries.length - 1];
+        console.log(`[Simulated API] Uploading journal entries up to ${head.seq}`);
+        return parseJournalUploadResponse(await simulateApiResponse({ headSeq: head.seq, headHash: head.hash }));
+      }
+      
+      return await apiClient.uploadJournal(request);
+    } catch (error) {
+      console.error('Error uploading transaction journal:', error);
+      throw error;
+    }
+  },
+};
+
+// Terminal management API functions
+export const terminalAPI = {
+  // Get what the server wants of this terminal: { terminalId, wipe, reason }
+  getStatus: async () => {
+    try {
+      const terminalId = await getTerminalId();
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        return parseTerminalStatus(await simulateApiResponse({ terminalId, wipe: false }));
+      }
+      
+      return await apiClient.getTerminalStatus(terminalId);
+    } catch (error) {
+      console.error('Error fetching terminal status:', error);
+      throw error;
+    }
+  },
+  
+  // Register this terminal's ID with the server, once. Resolves to the
+  // saved registration: { terminalId, registeredAt }.
+  register: async () => {
+    try {
+      const existing = await getTerminalRegistration();
+      if (existing) {
+        return existing;
+      }
+      
+      const terminalId = await getTerminalId();
+      let registration;
+      
+      // Use simulated API if enabled
+      if (useSimulatedApi) {
+        registration = parseTerminalRegistration(await simulateApiResponse({
+          terminalId,
+          registeredAt: new Date().toISOString()
+        }));
+      } else {
+        registration = await apiClient.registerTerminal({ terminalId, platform: Platform.OS });
+      }
+      
+      if (registration.terminalId !== terminalId) {
+        throw new Error(`Server registered this terminal as ${registration.terminalId} instead of ${terminalId}`);
+      }
+      
+      await saveTerminalRegistration(registration);
+      return registration;
+    } catch (error) {
+      console.error('Error registering terminal:', error);
+      throw error;
+    }
+  },
+  
+  // Get the per-card offline allowances the server issues this terminal
+  getOfflineAllowances: async () => {
+    try {
+      const terminalId = await getTerminalId();
+      
+      // Use simulated API if enabled. Each card may spend its whole balance,
+      // up to SIMULATED_OFFLINE_ALLOWANCE, as if this were the only terminal.
+      if (useSimulatedApi) {
+        const issuedAt = new Date().toISOString();
+        return parseOfflineAllowances(await simulateApiResponse(MOCK_DATA.customers.map(c => ({
+          cardId: c.cardId,
+          customerId: c.id,
+          amount: Math.max(0, Math.min(c.balance, SIMULATED_OFFLINE_ALLOWANCE)),
+          issuedAt
+        }))));
+      }
+      
+      return await apiClient.getOfflineAllowances(terminalId);
+    } catch (error) {
+      console.error('Error fetching offline allowances:', error);
+      throw error;
+    }
+  },
 };
\ No newline at end of file
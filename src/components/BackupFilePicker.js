@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Modal,
+  ActivityIndicator,
+  Platform
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { formatDate } from '../utils/formatters';
+import { listBackupFiles, listBackupFilesInFolder } from '../utils/backup';
+
+/**
+ * A bottom-sheet picker for the backup bundle to import. Lists the bundles
+ * saved on this device; on Android the operator can also browse a folder,
+ * such as Downloads, for a bundle copied from another terminal.
+ * @param {Object} props Component props
+ * @param {boolean} props.visible Whether the picker is shown
+ * @param {Function} props.onSelect Called with the file the user taps ({ uri, name })
+ * @param {Function} props.onClose Called when the picker is dismissed
+ * @returns {React.ReactElement} The backup file picker component
+ */
+const BackupFilePicker = ({ visible, onSelect, onClose }) => {
+  const [files, setFiles] = useState([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState(null);
+  
+  const loadFiles = async (listFiles) => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const found = await listFiles();
+      if (found) {
+        setFiles(found);
+      }
+    } catch (err) {
+      console.error('Error listing backup files:', err);
+      setError(err.message || 'Backup files could not be listed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  useEffect(() => {
+    if (visible) {
+      loadFiles(listBackupFiles);
+    }
+  }, [visible]);
+  
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Import Backup</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Icon name="close" size={24} color="#333" />
+            </TouchableOpacity>
+          </View>
+          
+          {Platform.OS === 'android' && (
+            <TouchableOpacity
+              style={styles.browseButton}
+              onPress={() => loadFiles(listBackupFilesInFolder)}
+              disabled={isLoading}
+            >
+              <Icon name="folder-open" size={20} color="#0066cc" />
+              <Text style={styles.browseButtonText}>Browse Folder...</Text>
+            </TouchableOpacity>
+          )}
+          
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#0066cc" style={styles.loading} />
+          ) : (
+            <FlatList
+              data={files}
+              keyExtractor={(item) => item.uri}
+              renderItem={({ item }) => (
+                <TouchableOpacity style={styles.fileRow} onPress={() => onSelect(item)}>
+                  <Icon name="file-document-outline" size={24} color="#666" />
+                  <View style={styles.fileInfo}>
+                    <Text style={styles.fileName}>{item.name}</Text>
+                    {item.modifiedAt && (
+                      <Text style={styles.fileMeta}>Saved {formatDate(item.modifiedAt)}</Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              )}
+              contentContainerStyle={styles.fileList}
+              ListEmptyComponent={
+                <View style={styles.emptyContainer}>
+                  <Icon name="file-hidden" size={40} color="#ccc" />
+                  <Text style={styles.emptyText}>No backup files found</Text>
+                </View>
+              }
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 15,
+    borderTopRightRadius: 15,
+    height: '60%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  browseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#0066cc',
+    borderRadius: 4,
+  },
+  browseButtonText: {
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#0066cc',
+  },
+  errorText: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    fontSize: 14,
+    color: '#f44336',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  fileList: {
+    padding: 16,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  fileName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  fileMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 10,
+  },
+});
+
+export default BackupFilePicker;
@@ -0,0 +1,58 @@
+import React, { useRef, useState } from 'react';
+import { TextInput, StyleSheet } from 'react-native';
+
+/**
+ * An invisible text field that catches what a keyboard-wedge card reader
+ * types and passes it on key by key. It holds the focus while it is shown,
+ * without bringing up the on-screen keyboard, so only render it while a
+ * scan is running and nothing else needs typing.
+ * @param {Object} props Component props
+ * @param {Object} props.reader Reader from createKeyboardWedgeReader
+ * @returns {React.ReactElement} The hidden input
+ */
+const KeyboardWedgeInput = ({ reader }) => {
+  const inputRef = useRef(null);
+  const [text, setText] = useState('');
+  
+  // onKeyPress misses hardware keys on Android, so work out what was typed
+  // from the text instead
+  const handleChangeText = (value) => {
+    const typed = value.startsWith(text) ? value.slice(text.length) : value;
+    const now = Date.now();
+    [...typed].forEach(key => reader.handleKey(key, now));
+    setText(/[\r\n]/.test(typed) ? '' : value);
+  };
+  
+  const handleSubmit = () => {
+    reader.handleKey('Enter');
+    setText('');
+  };
+  
+  return (
+    <TextInput
+      ref={inputRef}
+      style={styles.hiddenInput}
+      value={text}
+      onChangeText={handleChangeText}
+      onSubmitEditing={handleSubmit}
+      onBlur={() => inputRef.current?.focus()}
+      autoFocus={true}
+      showSoftInputOnFocus={false}
+      blurOnSubmit={false}
+      caretHidden={true}
+      autoCorrect={false}
+      autoCapitalize="none"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  hiddenInput: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    opacity: 0,
+  },
+});
+
+export default KeyboardWedgeInput;
@@ -1,24 +1,54 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Animated } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { requestSync } from '../utils/syncEngine';
 
 /**
- * A component to display online/offline status and provide sync controls
+ * Describe how a finished sync went
+ * @param {Object|null} result The sync result (see performFullSync)
+ * @returns {string}
+ */
+const describeSyncResult = (result) => {
+  if (!result) {
+    return '';
+  }
+  if (!result.success) {
+    return `${result.message || 'Sync failed'} - will retry`;
+  }
+  if (result.transactionsFailed > 0) {
+    return `${result.transactionsFailed} transaction(s) failed to sync - will retry`;
+  }
+  return 'Sync completed successfully!';
+};
+
+/**
+ * Describe how far a running sync has got
+ * @param {Object|null} progress Sync progress ({ current, total, failed })
+ * @returns {string}
+ */
+const describeProgress = (progress) => {
+  if (!progress) {
+    return 'Syncing...';
+  }
+  const failures = progress.failed > 0 ? `, ${progress.failed} failed` : '';
+  return `Syncing ${progress.current} of ${progress.total}${failures}...`;
+};
+
+/**
+ * A component to display online/offline status and provide sync controls.
+ * The online/offline status comes from the shared connectivity state and
+ * the pending count and sync progress from the sync engine.
  * @param {Object} props Component props
- * @param {boolean} props.isOffline Whether the app is in offline mode
- * @param {boolean} props.syncing Whether the app is currently syncing
- * @param {number} props.pendingTransactions Number of pending transactions to sync
- * @param {Function} props.onSyncPress Function to call when the sync button is pressed
  * @param {boolean} props.simulatedMode Whether the app is using simulated API mode
  * @returns {React.ReactElement} The offline indicator component
  */
 const OfflineIndicator = ({ 
-  isOffline, 
-  syncing = false, 
-  pendingTransactions = 0,
-  onSyncPress,
   simulatedMode = false
 }) => {
+  const { isOffline, isConnected } = useConnectivity();
+  const { isSyncing: syncing, pendingCount: pendingTransactions, progress, lastResult } = useSyncStatus();
   const [syncMessage, setSyncMessage] = useState('');
   const [fadeAnim] = useState(new Animated.Value(1));
   
@@ -40,8 +70,8 @@ const OfflineIndicator = ({
         useNativeDriver: true,
       }).start();
     } else if (syncMessage.includes('Syncing')) {
-      // If we were syncing and now we're not, show success message
-      setSyncMessage('Sync completed successfully!');
+      // If we were syncing and now we're not, show how it went
+      setSyncMessage(describeSyncResult(lastResult));
       
       // Fade out the message after 3 seconds
       setTimeout(() => {
@@ -53,7 +83,7 @@ const OfflineIndicator = ({
       }, 3000);
     }
   }, [syncing]);
-
+  
   return (
     <View style={[styles.container, { backgroundColor: getBackgroundColor() }]}>
       <View style={styles.content}>
@@ -67,8 +97,8 @@ const OfflineIndicator = ({
           color="#fff"
         />
         <Text style={styles.text}>
-          {syncing ? "Syncing..." : 
-           isOffline ? "Offline Mode" : 
+          {syncing ? describeProgress(progress) : 
+           isOffline ? (isConnected ? "Offline Mode (server unreachable)" : "Offline Mode") : 
            simulatedMode ? "Simulated Mode" : "Online Mode"}
           {pendingTransactions > 0 && ` (${pendingTransactions} pending)`}
         </Text>
@@ -78,7 +108,7 @@ const OfflineIndicator = ({
       {pendingTransactions > 0 && !isOffline && !syncing && (
         <TouchableOpacity 
           style={styles.syncButton} 
-          onPress={onSyncPress}
+          onPress={() => requestSync()}
           disabled={syncing}
         >
           <View style={styles.syncContent}>
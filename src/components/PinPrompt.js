@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { formatCurrency } from '../utils/formatters';
+import { isValidPinFormat } from '../utils/cardSecurity';
+
+/**
+ * A modal asking the customer to enter their card PIN.
+ * @param {Object} props Component props
+ * @param {boolean} props.visible Whether the prompt is shown
+ * @param {number} props.amount Amount being authorised
+ * @param {string} [props.error] Error from the last attempt (e.g. wrong PIN)
+ * @param {boolean} props.isSubmitting Whether the PIN is being checked
+ * @param {Function} props.onSubmit Called with the entered PIN
+ * @param {Function} props.onCancel Called when the prompt is dismissed
+ * @returns {React.ReactElement} The PIN prompt component
+ */
+const PinPrompt = ({
+  visible,
+  amount,
+  error,
+  isSubmitting = false,
+  onSubmit,
+  onCancel
+}) => {
+  const [pin, setPin] = useState('');
+  
+  // Start empty every time the prompt opens or a PIN is rejected
+  useEffect(() => {
+    setPin('');
+  }, [visible, error]);
+  
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <Icon name="lock-outline" size={36} color="#5046e5" />
+          <Text style={styles.title}>Enter Card PIN</Text>
+          <Text style={styles.subtitle}>
+            Hand the device to the customer to authorise {formatCurrency(amount || 0)}
+          </Text>
+          
+          <TextInput
+            style={[styles.pinInput, !!error && styles.pinInputError]}
+            value={pin}
+            onChangeText={(text) => setPin(text.replace(/[^0-9]/g, '').slice(0, 6))}
+            keyboardType="number-pad"
+            secureTextEntry={true}
+            maxLength={6}
+            autoFocus={true}
+            editable={!isSubmitting}
+            placeholder="••••"
+          />
+          {!!error && <Text style={styles.errorText}>{error}</Text>}
+          
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={onCancel}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.confirmButton, (!isValidPinFormat(pin) || isSubmitting) && styles.disabledButton]}
+              onPress={() => onSubmit(pin)}
+              disabled={!isValidPinFormat(pin) || isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.confirmButtonText}>Confirm</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  pinInput: {
+    width: '60%',
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    paddingVertical: 10,
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  pinInputError: {
+    borderColor: '#f44336',
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 12,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#5046e5',
+    paddingVertical: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#b4b4b4',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default PinPrompt;
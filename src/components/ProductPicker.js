@@ -0,0 +1,285 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  Modal,
+  ScrollView,
+  ActivityIndicator
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { formatCurrency } from '../utils/formatters';
+import { filterProducts, getProductCategories } from '../utils/catalog';
+
+/**
+ * A bottom-sheet picker for browsing and searching the product catalog.
+ * @param {Object} props Component props
+ * @param {boolean} props.visible Whether the picker is shown
+ * @param {Array} props.products Product catalog
+ * @param {boolean} props.isLoading Whether the catalog is still loading
+ * @param {Object} props.cartQuantities productId -> quantity already in the cart
+ * @param {Function} props.onSelect Called with the product the user taps
+ * @param {Function} props.onClose Called when the picker is dismissed
+ * @returns {React.ReactElement} The product picker component
+ */
+const ProductPicker = ({
+  visible,
+  products = [],
+  isLoading = false,
+  cartQuantities = {},
+  onSelect,
+  onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState(null);
+  
+  const categories = useMemo(() => getProductCategories(products), [products]);
+  const filteredProducts = useMemo(
+    () => filterProducts(products, { query, category }),
+    [products, query, category]
+  );
+  
+  // Units still available once the cart is taken into account
+  const getRemainingStock = (product) => {
+    if (product.stock == null) {
+      return null;
+    }
+    return product.stock - (cartQuantities[product.id] || 0);
+  };
+  
+  const renderProduct = ({ item }) => {
+    const remaining = getRemainingStock(item);
+    const soldOut = remaining !== null && remaining <= 0;
+    
+    return (
+      <TouchableOpacity
+        style={[styles.productRow, soldOut && styles.productRowDisabled]}
+        onPress={() => onSelect(item)}
+        disabled={soldOut}
+      >
+        <View style={styles.productInfo}>
+          <Text style={styles.productName}>{item.name}</Text>
+          <Text style={styles.productMeta}>
+            {item.sku}{item.category ? ` · ${item.category}` : ''}
+          </Text>
+        </View>
+        <View style={styles.productRight}>
+          <Text style={styles.productPrice}>{formatCurrency(item.price)}</Text>
+          {remaining !== null && (
+            <Text style={[styles.productStock, soldOut && styles.productStockOut]}>
+              {soldOut ? 'Out of stock' : `${remaining} left`}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+  
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Product Catalog</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Icon name="close" size={24} color="#333" />
+            </TouchableOpacity>
+          </View>
+          
+          <View style={styles.searchContainer}>
+            <Icon name="magnify" size={20} color="#999" />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search by name or SKU"
+              value={query}
+              onChangeText={setQuery}
+              autoCorrect={false}
+            />
+            {!!query && (
+              <TouchableOpacity onPress={() => setQuery('')}>
+                <Icon name="close-circle" size={18} color="#999" />
+              </TouchableOpacity>
+            )}
+          </View>
+          
+          {categories.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.categoryBar}
+              contentContainerStyle={styles.categoryBarContent}
+            >
+              {[null, ...categories].map(name => (
+                <TouchableOpacity
+                  key={name || 'all'}
+                  style={[styles.categoryChip, category === name && styles.categoryChipActive]}
+                  onPress={() => setCategory(name)}
+                >
+                  <Text style={[styles.categoryChipText, category === name && styles.categoryChipTextActive]}>
+                    {name || 'All'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+          
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#5046e5" style={styles.loading} />
+          ) : (
+            <FlatList
+              data={filteredProducts}
+              keyExtractor={(item) => item.id.toString()}
+              renderItem={renderProduct}
+              contentContainerStyle={styles.productList}
+              ListEmptyComponent={
+                <View style={styles.emptyContainer}>
+                  <Icon name="package-variant" size={40} color="#ccc" />
+                  <Text style={styles.emptyText}>
+                    {products.length === 0 ? 'No products in the catalog' : 'No products match your search'}
+                  </Text>
+                </View>
+              }
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 15,
+    borderTopRightRadius: 15,
+    height: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  categoryBar: {
+    flexGrow: 0,
+    marginTop: 12,
+  },
+  categoryBarContent: {
+    paddingHorizontal: 16,
+  },
+  categoryChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  categoryChipActive: {
+    backgroundColor: '#5046e5',
+  },
+  categoryChipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  categoryChipTextActive: {
+    color: '#fff',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  productList: {
+    padding: 16,
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  productRowDisabled: {
+    opacity: 0.5,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  productMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  productRight: {
+    alignItems: 'flex-end',
+  },
+  productPrice: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#2F855A',
+  },
+  productStock: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  productStockOut: {
+    color: '#f44336',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 10,
+  },
+});
+
+export default ProductPicker;
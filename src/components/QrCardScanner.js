@@ -0,0 +1,53 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { BarCodeScanner } from 'expo-barcode-scanner';
+
+/**
+ * Camera view that reads card QR codes and passes them to the QR reader
+ * driver, which checks the card token. Only render it once camera access
+ * has been granted (the reader's start asks for it).
+ * @param {Object} props Component props
+ * @param {Object} props.reader Reader from createQrCardReader
+ * @returns {React.ReactElement} The scanner view
+ */
+const QrCardScanner = ({ reader }) => {
+  return (
+    <View style={styles.container}>
+      <BarCodeScanner
+        style={StyleSheet.absoluteFillObject}
+        barCodeTypes={[BarCodeScanner.Constants.BarCodeType.qr]}
+        onBarCodeScanned={({ data }) => reader.handleScannedCode(data)}
+      />
+      <View style={styles.frame} />
+      <Text style={styles.hint}>Hold the customer's QR code inside the frame</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: 260,
+    height: 260,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  frame: {
+    width: 180,
+    height: 180,
+    borderWidth: 3,
+    borderColor: '#5046e5',
+    borderRadius: 8,
+  },
+  hint: {
+    position: 'absolute',
+    bottom: 8,
+    color: '#fff',
+    fontSize: 12,
+  },
+});
+
+export default QrCardScanner;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { TRANSACTION_PERIODS } from '../utils/transactionQuery';
+
+// Delay after the last keystroke before a search runs
+const SEARCH_DELAY_MS = 300;
+
+const TYPE_FILTERS = [
+  { value: 'all', label: 'All' },
+  { value: 'payment', label: 'Payments' },
+  { value: 'reload', label: 'Reloads' },
+  { value: 'refund', label: 'Refunds' },
+];
+
+const PERIOD_FILTERS = [
+  { value: TRANSACTION_PERIODS.ALL, label: 'Any time' },
+  { value: TRANSACTION_PERIODS.TODAY, label: 'Today' },
+  { value: TRANSACTION_PERIODS.WEEK, label: '7 days' },
+  { value: TRANSACTION_PERIODS.MONTH, label: '30 days' },
+];
+
+/**
+ * Search box and filter chips for a transaction history list. Turn the
+ * filters into a query with buildTransactionQuery.
+ * @param {Object} props Component props
+ * @param {Object} props.filters Current filters ({ type, period, search })
+ * @param {Function} props.onChange Called with the new filters
+ * @param {boolean} [props.showSearch] Whether to show the search box
+ * @returns {React.ReactElement} The filter bar
+ */
+const TransactionFilterChips = ({ filters, onChange, showSearch = true }) => {
+  const [search, setSearch] = useState(filters.search || '');
+  
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    if (search === (filters.search || '')) {
+      return;
+    }
+    
+    const timer = setTimeout(() => onChange({ ...filters, search }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+  
+  const renderChip = (key, option) => {
+    const active = filters[key] === option.value;
+    return (
+      <TouchableOpacity
+        key={`${key}-${option.value}`}
+        style={[styles.chip, active && styles.chipActive]}
+        onPress={() => onChange({ ...filters, [key]: option.value })}
+      >
+        <Text style={[styles.chipText, active && styles.chipTextActive]}>
+          {option.label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+  
+  return (
+    <View>
+      {showSearch && (
+        <View style={styles.searchContainer}>
+          <Icon name="magnify" size={20} color="#999" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search description, customer or card"
+            value={search}
+            onChangeText={setSearch}
+            autoCorrect={false}
+          />
+          {!!search && (
+            <TouchableOpacity onPress={() => setSearch('')}>
+              <Icon name="close-circle" size={18} color="#999" />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.chipBar}
+        contentContainerStyle={styles.chipBarContent}
+      >
+        {TYPE_FILTERS.map(option => renderChip('type', option))}
+        <View style={styles.chipDivider} />
+        {PERIOD_FILTERS.map(option => renderChip('period', option))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  chipBar: {
+    flexGrow: 0,
+    marginVertical: 12,
+  },
+  chipBarContent: {
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: '#5046e5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  chipDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: '#ddd',
+    marginRight: 8,
+  },
+});
+
+export default TransactionFilterChips;
@@ -0,0 +1,134 @@
+import { useState, useCallback } from 'react';
+import { Alert, Share, Platform } from 'react-native';
+import {
+  EXPORT_FORMATS,
+  createExportFiles,
+  saveExportFiles,
+  saveExportFilesToFolder,
+  readBackupFile,
+  planBackupImport,
+  describeImportPlan,
+  applyBackupImport
+} from '../utils/backup';
+
+/**
+ * Hook for exporting local data and importing backup bundles
+ *
+ * Exports are saved on this device, to a folder the operator picks
+ * (Android) or shared. Imports show what they would add and only write
+ * once the operator confirms.
+ *
+ * @returns {{isExporting: boolean, isImporting: boolean, exportData: function, importBackup: function}}
+ */
+export const useBackup = () => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  
+  // Run one way of saving the export, reporting how it went
+  const deliverExport = useCallback(async (files, deliver) => {
+    setIsExporting(true);
+    try {
+      await deliver(files);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Export Failed', error.message || 'The data could not be exported');
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+  
+  const saveOnDevice = useCallback(async (files) => {
+    const uris = await saveExportFiles(files);
+    Alert.alert('Export Saved', `Saved on this device:\n${uris.map(uri => uri.split('/').pop()).join('\n')}`);
+  }, []);
+  
+  const saveToFolder = useCallback(async (files) => {
+    if (await saveExportFilesToFolder(files)) {
+      Alert.alert('Export Saved', `${files.length} file(s) saved to the chosen folder.`);
+    }
+  }, []);
+  
+  // Open the share sheet for each file in turn (email, chat, cloud drives)
+  const shareFiles = useCallback(async (files) => {
+    for (const file of files) {
+      await Share.share({ title: file.name, message: file.contents });
+    }
+  }, []);
+  
+  // Build the export, then ask where it should go
+  const exportData = useCallback(async (format) => {
+    let files;
+    setIsExporting(true);
+    try {
+      files = await createExportFiles(format);
+    } catch (error) {
+      console.error('Error creating export:', error);
+      Alert.alert('Export Failed', error.message || 'The data could not be exported');
+      return;
+    } finally {
+      setIsExporting(false);
+    }
+    
+    const options = [{ text: 'Save on Device', onPress: () => deliverExport(files, saveOnDevice) }];
+    if (Platform.OS === 'android') {
+      options.push({ text: 'Save to Folder', onPress: () => deliverExport(files, saveToFolder) });
+    }
+    options.push({ text: 'Share', onPress: () => deliverExport(files, shareFiles) });
+    
+    Alert.alert(
+      format === EXPORT_FORMATS.CSV ? 'Export CSV' : 'Export Backup',
+      format === EXPORT_FORMATS.CSV
+        ? 'Transactions and customers as CSV files for accounting. CSV files cannot be imported.'
+        : 'A backup of unsynced transactions, history and customers that another terminal can import.',
+      options,
+      { cancelable: true }
+    );
+  }, [deliverExport, saveOnDevice, saveToFolder, shareFiles]);
+  
+  // Check a bundle, show what importing it would add, and import on confirmation
+  const importBackup = useCallback(async (file) => {
+    let plan;
+    setIsImporting(true);
+    try {
+      plan = await planBackupImport(await readBackupFile(file.uri));
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Import Failed', error.message || 'The backup could not be read');
+      return;
+    } finally {
+      setIsImporting(false);
+    }
+    
+    const { pending, transactions, customers } = plan.records;
+    if (pending.length + transactions.length + customers.length === 0) {
+      Alert.alert('Nothing to Import', `${describeImportPlan(plan)}\n\nEverything in this backup is already here.`);
+      return;
+    }
+    
+    Alert.alert('Import Backup', describeImportPlan(plan), [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Import',
+        onPress: async () => {
+          setIsImporting(true);
+          try {
+            await applyBackupImport(plan);
+            Alert.alert(
+              'Backup Imported',
+              pending.length > 0
+                ? `${pending.length} unsynced transaction(s) will be sent on the next sync.`
+                : 'The backup has been imported.'
+            );
+          } catch (error) {
+            console.error('Error importing backup:', error);
+            Alert.alert('Import Failed', `${error.message}. Importing the same file again adds whatever is missing.`);
+          } finally {
+            setIsImporting(false);
+          }
+        }
+      }
+    ]);
+  }, []);
+  
+  return { isExporting, isImporting, exportData, importBackup };
+};
@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import { getConnectivityState, subscribeConnectivity } from '../utils/network';
+
+/**
+ * Hook for the app-wide connectivity state
+ * 
+ * Every screen and component that needs to know whether the app is online
+ * reads it from here, so they all agree with the API layer's decision.
+ * 
+ * @returns {{isConnected: boolean, backendReachable: boolean, circuitState: string, isOffline: boolean, lastCheckedAt: number|null}}
+ */
+export const useConnectivity = () => {
+  const [connectivity, setConnectivity] = useState(getConnectivityState());
+  
+  useEffect(() => {
+    // Pick up any change made between the first render and subscribing
+    setConnectivity(getConnectivityState());
+    
+    return subscribeConnectivity(setConnectivity);
+  }, []);
+  
+  return connectivity;
+};
@@ -1,207 +1,148 @@
-import { useState, useEffect, useCallback } from 'react';
-import NfcManager, { NfcTech, Ndef } from 'react-native-nfc-manager';
-import { normalizeCardId } from '../utils/formatters';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { writeCardRecord as writeRecordToCard } from '../utils/cardRecord';
+import {
+  CARD_READER_TYPES,
+  createNfcCardReader,
+  createSimulatedCardReader,
+  getCardReader
+} from '../utils/cardReaders';
 import { Alert } from 'react-native';
 
-// Initialize NFC manager
-const initNFC = async () => {
-  try {
-    // Check if NFC is supported first
-    const isSupported = await NfcManager.isSupported();
-    if (!isSupported) {
-      console.log('[NFC] NFC is not supported on this device');
-      return false;
-    }
-    
-    // Check if already initialized
-    try {
-      const isEnabled = await NfcManager.isEnabled();
-      if (isEnabled) {
-        console.log('[NFC] NFC Manager already enabled');
-        return true;
-      }
-    } catch (checkError) {
-      // If we get an error checking, that likely means we need to initialize
-      console.log('[NFC] NFC status check failed, will try to initialize:', checkError);
-    }
-    
-    // Perform full clean-up before starting
-    try {
-      // Try to clean up any existing listeners
-      await NfcManager.unregisterTagEvent().catch(() => {});
-      NfcManager.setEventListener(NfcTech.Ndef, null);
-    } catch (cleanupError) {
-      // Ignore cleanup errors
-      console.log('[NFC] Cleanup before init (expected):', cleanupError);
-    }
-    
-    // Start the NFC manager
-    await NfcManager.start();
-    console.log('[NFC] Manager initialized successfully');
-    return true;
-  } catch (err) {
-    console.error('[NFC] Failed to initialize NFC manager:', err);
-    return false;
-  }
-};
+// The reader the last card was read with, so its record is written back
+// through the same one (the simulator after a simulated scan, nothing after
+// a keyboard-wedge or QR read)
+let activeReader = createNfcCardReader();
 
-// Don't initialize immediately on import - let the hook handle it
-// This prevents race conditions between multiple imports
-// initNFC();
+// Simulator behind simulateScan when another reader is configured
+const fallbackSimulator = createSimulatedCardReader();
 
 export const useNFC = () => {
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState(null);
   const [supported, setSupported] = useState(false);
-  const [debugInfo, setDebugInfo] = useState('Initializing NFC...');
-
-  // Check if NFC is supported when the hook is first used
+  const [debugInfo, setDebugInfo] = useState('Initializing card reader...');
+  const [reader, setReader] = useState(null);
+  // The reader a scan is running on, to stop it again
+  const scanningReader = useRef(null);
+  
+  // Set up the card reader chosen in settings when the hook is first used
   useEffect(() => {
-    const checkSupport = async () => {
+    let cancelled = false;
+    
+    const setUpReader = async () => {
       try {
-        console.log('[NFC] Checking if NFC is supported...');
+        const configured = await getCardReader();
+        console.log(`[NFC] Setting up the ${configured.name} card reader...`);
         
-        // Use our improved initialization function
-        const initResult = await initNFC();
+        const initResult = await configured.init();
+        if (cancelled) {
+          return;
+        }
         
-        // Set state based on init result
+        setReader(configured);
         setSupported(initResult);
         
         if (initResult) {
-          console.log('[NFC] NFC is supported and initialized');
-          setDebugInfo('NFC is supported and initialized');
+          console.log(`[NFC] ${configured.name} card reader ready`);
+          setDebugInfo(`${configured.name} card reader ready`);
         } else {
-          console.warn('[NFC] NFC initialization failed');
-          setDebugInfo('NFC initialization failed');
+          console.warn(`[NFC] ${configured.name} card reader unavailable`);
+          setDebugInfo(`${configured.name} card reader unavailable`);
         }
       } catch (ex) {
-        console.error('[NFC] Error during NFC initialization:', ex);
-        setSupported(false);
-        setDebugInfo(`NFC init failed: ${ex.message}`);
+        console.error('[NFC] Error setting up the card reader:', ex);
+        if (!cancelled) {
+          setSupported(false);
+          setDebugInfo(`Card reader setup failed: ${ex.message}`);
+        }
       }
     };
     
-    checkSupport();
+    setUpReader();
     
-    // Cleanup - now with better error handling
+    // Stop listening for cards when the screen using the hook goes away
     return () => {
-      try {
-        if (isScanning) {
-          cancelScan();
-        }
-        
-        // Additional cleanup to prevent memory leaks
-        NfcManager.setEventListener(NfcTech.Ndef, null);
-      } catch (cleanupError) {
+      cancelled = true;
+      scanningReader.current?.stop().catch(cleanupError => {
         console.warn('[NFC] Error during cleanup:', cleanupError);
-      }
+      });
     };
-  }, [isScanning]);
-
+  }, []);
+  
   // Function to display NFC debug info
   const showDebugInfo = useCallback(() => {
     Alert.alert(
-      'NFC Debug Info',
-      `Supported: ${supported}\nScanning: ${isScanning}\nError: ${error || 'None'}\nDebug: ${debugInfo}`,
+      'Card Reader Debug Info',
+      `Reader: ${reader?.name || 'None'}\nSupported: ${supported}\nScanning: ${isScanning}\nError: ${error || 'None'}\nDebug: ${debugInfo}`,
       [{ text: 'OK', onPress: () => console.log('OK Pressed') }]
     );
-  }, [supported, isScanning, error, debugInfo]);
-
-  // Function to start NFC scanning
-  const startScan = useCallback(async (callback) => {
+  }, [reader, supported, isScanning, error, debugInfo]);
+  
+  // Listen for a card on the given reader and hand its card ID and checked
+  // balance record to the callback
+  const scanWith = useCallback(async (scanReader, callback) => {
     try {
       setIsScanning(true);
       setError(null);
-      setDebugInfo('Starting NFC scan...');
+      setDebugInfo(`Starting ${scanReader.name} scan...`);
+      scanningReader.current = scanReader;
       
-      if (!supported) {
-        setDebugInfo('NFC not supported, cannot scan');
-        throw new Error('NFC is not supported on this device');
-      }
-      
-      // Register tag event listener
-      console.log('[NFC] Registering tag event listener');
-      await NfcManager.registerTagEvent();
-      setDebugInfo('NFC scan started, waiting for tag...');
-      
-      // Set up tag discovered listener
-      console.log('[NFC] Setting up tag discovered listener');
-      NfcManager.setEventListener(NfcTech.Ndef, async (event) => {
-        try {
-          console.log('[NFC] Tag event received:', event);
-          setDebugInfo(`Tag detected: ${JSON.stringify(event)}`);
+      await scanReader.start(
+        (result) => {
+          console.log('[NFC] Card read:', result.cardId, result.cardRecord.status);
+          activeReader = scanReader;
+          scanningReader.current = null;
+          setIsScanning(false);
+          setDebugInfo(`Scan complete: ${result.cardId} (${result.cardRecord.status})`);
           
-          if (event && event.tag && event.tag.id) {
-            // Get the tag ID (UID)
-            const tagId = event.tag.id;
-            console.log('[NFC] Tag ID detected:', tagId);
-            
-            // Normalize the ID to ensure consistent format
-            const normalizedId = normalizeCardId(tagId);
-            console.log('[NFC] Normalized ID:', normalizedId);
-            
-            if (callback) {
-              console.log('[NFC] Calling callback with card ID:', normalizedId);
-              callback({ cardId: normalizedId });
-            }
-            
-            // Clean up after successful scan
-            console.log('[NFC] Unregistering tag event after successful scan');
-            await NfcManager.unregisterTagEvent();
-            setIsScanning(false);
-            setDebugInfo(`Scan complete: ${normalizedId}`);
-          } else {
-            console.warn('[NFC] Invalid tag data received');
-            setDebugInfo('Invalid tag data received');
+          if (callback) {
+            console.log('[NFC] Calling callback with card ID:', result.cardId);
+            callback(result);
           }
-        } catch (err) {
-          console.error('[NFC] Error processing NFC tag event:', err);
-          setError(err.message || 'Error reading NFC tag');
-          setDebugInfo(`Error processing tag: ${err.message}`);
+        },
+        (err) => {
+          console.error('[NFC] Error reading card:', err);
+          setError(err.message || 'Error reading card');
+          setDebugInfo(`Error reading card: ${err.message}`);
         }
-      });
-      
+      );
+      setDebugInfo(`${scanReader.name} scan started, waiting for a card...`);
     } catch (ex) {
-      console.error('[NFC] Error starting NFC scan:', ex);
-      setError(ex.message || 'Failed to start NFC scan');
+      console.error('[NFC] Error starting scan:', ex);
+      setError(ex.message || 'Failed to start scan');
       setDebugInfo(`Failed to start scan: ${ex.message}`);
       setIsScanning(false);
-      cancelScan();
+      scanningReader.current = null;
+      await scanReader.stop().catch(() => {});
     }
-  }, [supported]);
-
+  }, []);
+  
+  // Function to start scanning with the configured reader
+  const startScan = useCallback(async (callback) => {
+    if (!reader || !supported) {
+      const name = reader?.name || 'The card reader';
+      console.error(`[NFC] Error starting scan: ${name} is not available on this device`);
+      setError(`${name} is not available on this device`);
+      setDebugInfo('Card reader not available, cannot scan');
+      return;
+    }
+    
+    await scanWith(reader, callback);
+  }, [reader, supported, scanWith]);
+  
   // Function to cancel scanning
   const cancelScan = useCallback(async () => {
     try {
-      console.log('[NFC] Cancelling NFC scan');
+      console.log('[NFC] Cancelling scan');
       // Set state first to prevent race conditions
       setIsScanning(false);
-      setDebugInfo('Cancelling NFC scan');
+      setDebugInfo('Cancelling scan');
       
-      // Safer error handling for unregisterTagEvent
-      try {
-        // Check if NFC Manager is available and enabled
-        const isEnabled = await NfcManager.isEnabled();
-        if (isEnabled) {
-          await NfcManager.unregisterTagEvent().catch(err => {
-            // Catch but continue - don't throw here
-            console.warn('[NFC] Ignoring unregisterTagEvent error:', err);
-          });
-        }
-      } catch (unregisterError) {
-        // Log but continue - don't throw
-        console.warn('[NFC] Error in unregisterTagEvent:', unregisterError);
-      }
-      
-      // Always try to clear the event listener
-      try {
-        NfcManager.setEventListener(NfcTech.Ndef, null);
-      } catch (listenerError) {
-        // Log but continue - don't throw
-        console.warn('[NFC] Error clearing event listener:', listenerError);
-      }
+      const current = scanningReader.current;
+      scanningReader.current = null;
+      await current?.stop();
       
-      setDebugInfo('NFC scan cancelled');
+      setDebugInfo('Scan cancelled');
     } catch (ex) {
       console.warn('[NFC] Error in cancelScan function:', ex);
       setDebugInfo(`Error cancelling scan: ${ex.message}`);
@@ -209,27 +150,37 @@ export const useNFC = () => {
       setIsScanning(false);
     }
   }, []);
-
-  // Function to simulate a scan for testing
-  const simulateScan = useCallback((callback) => {
-    // Generate a random card ID
-    const randomId = (Math.floor(Math.random() * 10000000000)).toString(16).toUpperCase();
-    const simulatedCardId = normalizeCardId(randomId);
+  
+  // Function to simulate a scan for testing. A virtual card is put on the
+  // mock NfcManager's reader, so its record is read, checked and written back
+  // the same way as a real card's. Pass a tag ID to tap an earlier virtual card.
+  const simulateScan = useCallback(async (callback, tagId) => {
+    const simulator = reader?.type === CARD_READER_TYPES.SIMULATOR ? reader : fallbackSimulator;
+    if (tagId) {
+      simulator.enqueue({ uid: tagId });
+    }
     
-    console.log('[NFC] Simulating scan with card ID:', simulatedCardId);
-    setDebugInfo(`Simulating scan: ${simulatedCardId}`);
+    console.log('[NFC] Simulating scan', tagId ? `with tag: ${tagId}` : '');
+    await scanWith(simulator, callback);
+  }, [reader, scanWith]);
+  
+  // Write the card's balance after a transaction, through the reader the
+  // card was read with. Resolves to the record written, or null when there is
+  // nothing to write with (a card ID typed in on a device without NFC, or a
+  // card read by a keyboard-wedge reader or from a QR code).
+  const writeCardRecord = useCallback(async ({ cardId, balance }) => {
+    if (!activeReader.manager || !(await activeReader.init())) {
+      return null;
+    }
     
-    // Simulate a delay in scanning
-    setTimeout(() => {
-      if (callback) {
-        console.log('[NFC] Calling callback with simulated card ID');
-        callback({ cardId: simulatedCardId });
-        setDebugInfo(`Simulation complete: ${simulatedCardId}`);
-      }
-    }, 1500);
+    setDebugInfo(`Writing balance record to ${cardId}...`);
+    const record = await writeRecordToCard(activeReader.manager, { cardId, balance });
+    setDebugInfo(`Card record #${record.counter} written to ${cardId}`);
+    return record;
   }, []);
-
+  
   return {
+    reader,
     isScanning,
     error,
     supported,
@@ -237,6 +188,7 @@ export const useNFC = () => {
     startScan,
     cancelScan,
     simulateScan,
+    writeCardRecord,
     showDebugInfo
   };
 };
\ No newline at end of file
@@ -1,46 +1,32 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Alert } from 'react-native';
-import { 
-  shouldOperateOffline, 
-  initNetworkMonitoring 
-} from '../utils/network';
+import { useConnectivity } from './useConnectivity';
+import { useSyncStatus } from './useSyncStatus';
 import { 
   getCachedCustomers, 
   getCachedTransactions,
-  getNetworkStatus,
   getUserSettings
 } from '../utils/storage';
-import {
-  performFullSync
-} from '../utils/sync';
+import { requestSync } from '../utils/syncEngine';
 
 /**
- * Hook for managing offline mode functionality
+ * Hook for managing offline mode functionality. Sync state comes from the
+ * sync engine, which also syncs on reconnect.
  * @returns {Object} Offline mode state and functions
  */
 export const useOfflineMode = () => {
-  const [isOffline, setIsOffline] = useState(false);
+  const { isOffline } = useConnectivity();
+  const { lastSyncAt: lastSyncTime, pendingCount: pendingTransactions, isSyncing: syncing } = useSyncStatus();
   const [isInitializing, setIsInitializing] = useState(true);
-  const [lastSyncTime, setLastSyncTime] = useState(null);
-  const [pendingTransactions, setPendingTransactions] = useState(0);
-  const [syncing, setSyncing] = useState(false);
   const [settings, setSettings] = useState({
     allowOfflineTransactions: true,
     syncOnConnection: true
   });
-
-  // Initialize offline mode detection
+  
+  // Load persisted offline mode state
   useEffect(() => {
     const initialize = async () => {
       try {
-        // Check if we should operate in offline mode
-        const offline = await shouldOperateOffline();
-        setIsOffline(offline);
-        
-        // Get network status from storage
-        const networkStatus = await getNetworkStatus();
-        setLastSyncTime(networkStatus.timestamp);
-        
         // Get user settings
         const userSettings = await getUserSettings();
         setSettings(userSettings);
@@ -53,22 +39,7 @@ export const useOfflineMode = () => {
     };
     
     initialize();
-    
-    // Set up network monitoring
-    const unsubscribe = initNetworkMonitoring(async (isConnected) => {
-      setIsOffline(!isConnected);
-      
-      // If we just came back online and settings allow auto-sync
-      if (isConnected && settings.syncOnConnection) {
-        syncData();
-      }
-    });
-    
-    // Clean up network monitoring on unmount
-    return () => {
-      unsubscribe();
-    };
-  }, [settings.syncOnConnection]);
+  }, []);
   
   // Function to fetch data based on current mode (online/offline)
   const fetchCustomers = useCallback(async () => {
@@ -105,9 +76,7 @@ export const useOfflineMode = () => {
     }
     
     try {
-      setSyncing(true);
-      
-      const result = await performFullSync(forceSync);
+      const result = await requestSync({ force: forceSync });
       
       if (result.success) {
         Alert.alert(
@@ -123,10 +92,8 @@ export const useOfflineMode = () => {
         );
       }
       
-      setSyncing(false);
       return result;
     } catch (error) {
-      setSyncing(false);
       Alert.alert(
         'Sync Error',
         `Error syncing data: ${error.message}`,
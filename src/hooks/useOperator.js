@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { getCurrentOperator, subscribeOperator } from '../utils/operators';
+
+/**
+ * Hook for the signed-in operator
+ *
+ * @returns {Object|null} The operator ({ id, name, role }), or null if nobody is signed in
+ */
+export const useOperator = () => {
+  const [operator, setOperator] = useState(getCurrentOperator());
+  
+  useEffect(() => {
+    // Pick up a sign-in or sign-out made between the first render and subscribing
+    setOperator(getCurrentOperator());
+    
+    return subscribeOperator(setOperator);
+  }, []);
+  
+  return operator;
+};
@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react';
+import { Alert, Share } from 'react-native';
+import { createReceipt, renderReceiptText } from '../utils/receipt';
+import { printReceipt } from '../utils/printer';
+
+/**
+ * Hook for printing and sharing a transaction's receipt
+ *
+ * @returns {{isPrinting: boolean, printTransactionReceipt: function, shareTransactionReceipt: function}}
+ */
+export const useReceipt = () => {
+  const [isPrinting, setIsPrinting] = useState(false);
+  
+  // Send the receipt to the configured printer
+  const printTransactionReceipt = useCallback(async (transaction, customer) => {
+    try {
+      setIsPrinting(true);
+      const receipt = await createReceipt(transaction, customer);
+      await printReceipt(receipt);
+    } catch (error) {
+      Alert.alert('Print Failed', error.message || 'The receipt could not be printed');
+    } finally {
+      setIsPrinting(false);
+    }
+  }, []);
+  
+  // Open the share sheet with the plain-text receipt (SMS, email, chat)
+  const shareTransactionReceipt = useCallback(async (transaction, customer) => {
+    try {
+      const receipt = await createReceipt(transaction, customer);
+      await Share.share({
+        title: `${receipt.merchant.name} receipt`,
+        message: renderReceiptText(receipt)
+      });
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert('Error', error.message || 'The receipt could not be shared');
+    }
+  }, []);
+  
+  return { isPrinting, printTransactionReceipt, shareTransactionReceipt };
+};
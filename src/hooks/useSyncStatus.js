@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { getSyncState, subscribeSync } from '../utils/syncEngine';
+
+/**
+ * Hook for the sync engine's state: the pending queue length, whether a
+ * sync is running and how far it has got, and how the last one went
+ * 
+ * @returns {{pendingCount: number, isSyncing: boolean, progress: Object|null, lastSyncAt: number|null, lastResult: Object|null, retryAttempt: number, nextRetryAt: number|null}}
+ */
+export const useSyncStatus = () => {
+  const [syncState, setSyncState] = useState(getSyncState());
+  
+  useEffect(() => {
+    // Pick up any change made between the first render and subscribing
+    setSyncState(getSyncState());
+    
+    return subscribeSync(setSyncState);
+  }, []);
+  
+  return syncState;
+};
@@ -0,0 +1,88 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { transactionAPI } from '../api/api';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { canVoid, canRefund } from '../utils/reversals';
+import { getCurrentOperator, hasPermission, PERMISSIONS } from '../utils/operators';
+
+/**
+ * Hook for the refund and void actions offered on a transaction
+ *
+ * Used by transaction history lists and the payment result screen so they
+ * all offer the same actions under the same rules: transactions still in
+ * the sync queue can be voided, synced payments can be refunded. Actions the
+ * signed-in operator's role doesn't allow are left out.
+ *
+ * @param {Object} options
+ * @param {Object} options.navigation Navigation prop of the calling screen
+ * @param {Function} [options.onVoided] Called after a transaction is voided
+ * @param {Function} [options.onBeforeNavigate] Called before leaving for the refund screen
+ * @returns {{showTransactionActions: function, confirmVoid: function, openRefund: function}}
+ */
+export const useTransactionActions = ({ navigation, onVoided, onBeforeNavigate }) => {
+  // Ask for confirmation, then void the transaction
+  const confirmVoid = useCallback((transaction) => {
+    Alert.alert(
+      'Void Transaction',
+      `Void ${transaction.description || 'this transaction'} (${formatCurrency(transaction.amount)})? ` +
+        'It has not synced yet, so it will be cancelled without reaching the server.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Void',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const result = await transactionAPI.void(transaction.transactionId);
+              Alert.alert(
+                'Transaction Voided',
+                result.customer
+                  ? `Balance restored to ${formatCurrency(result.customer.balance)}.`
+                  : 'The transaction has been cancelled.'
+              );
+              if (onVoided) {
+                onVoided(result);
+              }
+            } catch (error) {
+              console.error('Error voiding transaction:', error);
+              Alert.alert('Error', error.message || 'Failed to void transaction');
+            }
+          }
+        }
+      ]
+    );
+  }, [onVoided]);
+  
+  // Open the refund screen for a payment
+  const openRefund = useCallback((transaction) => {
+    if (onBeforeNavigate) {
+      onBeforeNavigate();
+    }
+    navigation.navigate('Refund', { transaction });
+  }, [navigation, onBeforeNavigate]);
+  
+  // Offer whichever actions apply to the transaction
+  const showTransactionActions = useCallback((transaction, history = []) => {
+    const actions = [];
+    const operator = getCurrentOperator();
+    
+    if (canVoid(transaction) && hasPermission(operator, PERMISSIONS.VOID)) {
+      actions.push({ text: 'Void', style: 'destructive', onPress: () => confirmVoid(transaction) });
+    }
+    if (canRefund(transaction, history) && hasPermission(operator, PERMISSIONS.REFUND)) {
+      actions.push({ text: 'Refund', onPress: () => openRefund(transaction) });
+    }
+    
+    if (actions.length === 0) {
+      return;
+    }
+    
+    Alert.alert(
+      transaction.description || 'Transaction',
+      `${formatCurrency(transaction.amount)} · ${formatDate(transaction.createdAt)}`,
+      [...actions, { text: 'Cancel', style: 'cancel' }]
+    );
+  }, [confirmVoid, openRefund]);
+  
+  return { showTransactionActions, confirmVoid, openRefund };
+};
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { transactionAPI } from '../api/api';
+import { getTransactionKey } from '../utils/transactionQuery';
+
+/**
+ * Hook for a paged transaction history query, for lists with infinite
+ * scroll. The first page loads whenever the query changes; `loadMore`
+ * appends the next one. Runs against the server online and the local
+ * cache offline (see transactionAPI.query).
+ *
+ * @param {Object} query The query (see TransactionQuerySchema)
+ * @param {Object} [options]
+ * @param {boolean} [options.enabled] Set to false to hold off loading
+ * @returns {{transactions: Array, isLoading: boolean, isLoadingMore: boolean, hasMore: boolean, error: Error|null, loadMore: function, refresh: function}}
+ */
+export const useTransactionQuery = (query, { enabled = true } = {}) => {
+  const [transactions, setTransactions] = useState([]);
+  const [nextCursor, setNextCursor] = useState(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState(null);
+  
+  // Callers build the query inline, so compare it by value
+  const queryKey = JSON.stringify(query);
+  // Bumped by every reload so pages of an earlier query are dropped
+  const generation = useRef(0);
+  const loadingMore = useRef(false);
+  
+  // Load the first page
+  const refresh = useCallback(async () => {
+    const current = ++generation.current;
+    loadingMore.current = false;
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    setError(null);
+    
+    try {
+      const page = await transactionAPI.query(JSON.parse(queryKey));
+      if (current === generation.current) {
+        setTransactions(page.transactions);
+        setNextCursor(page.nextCursor || null);
+      }
+    } catch (err) {
+      console.error('Error loading transactions:', err);
+      if (current === generation.current) {
+        setError(err);
+      }
+    } finally {
+      if (current === generation.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [queryKey]);
+  
+  // Append the next page, if there is one
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading || loadingMore.current) {
+      return;
+    }
+    
+    const current = generation.current;
+    loadingMore.current = true;
+    setIsLoadingMore(true);
+    
+    try {
+      const page = await transactionAPI.query({ ...JSON.parse(queryKey), cursor: nextCursor });
+      if (current === generation.current) {
+        setTransactions(loaded => {
+          const loadedKeys = new Set(loaded.map(getTransactionKey));
+          return [...loaded, ...page.transactions.filter(t => !loadedKeys.has(getTransactionKey(t)))];
+        });
+        setNextCursor(page.nextCursor || null);
+      }
+    } catch (err) {
+      console.error('Error loading more transactions:', err);
+      if (current === generation.current) {
+        setError(err);
+      }
+    } finally {
+      if (current === generation.current) {
+        loadingMore.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [queryKey, nextCursor, isLoading]);
+  
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [refresh, enabled]);
+  
+  return {
+    transactions,
+    isLoading,
+    isLoadingMore,
+    hasMore: !!nextCursor,
+    error,
+    loadMore,
+    refresh
+  };
+};
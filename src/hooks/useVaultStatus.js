@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { getVaultStatus, subscribeVault } from '../utils/vault';
+
+/**
+ * Hook for the status of encrypted local storage
+ *
+ * @returns {string} One of VAULT_STATUS
+ */
+export const useVaultStatus = () => {
+  const [status, setStatus] = useState(getVaultStatus());
+  
+  useEffect(() => {
+    // Pick up a change made between the first render and subscribing
+    setStatus(getVaultStatus());
+    
+    return subscribeVault(setStatus);
+  }, []);
+  
+  return status;
+};
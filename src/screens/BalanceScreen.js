@@ -9,61 +9,71 @@ import {
   FlatList 
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
-import { customerAPI, transactionAPI } from '../api/api';
+import { customerAPI, NotFoundError } from '../api/api';
 import { formatCurrency, formatDate } from '../utils/formatters';
+import { isCreditTransaction, describeReversalStatus } from '../utils/reversals';
+import { useTransactionActions } from '../hooks/useTransactionActions';
+import { useOperator } from '../hooks/useOperator';
+import { useTransactionQuery } from '../hooks/useTransactionQuery';
+import { buildTransactionQuery, TRANSACTION_PERIODS } from '../utils/transactionQuery';
+import TransactionFilterChips from '../components/TransactionFilterChips';
+import { hasPermission, PERMISSIONS } from '../utils/operators';
 
 const BalanceScreen = ({ navigation, route }) => {
   const { scanResult } = route.params || {};
+  const operator = useOperator();
   const [customer, setCustomer] = useState(null);
-  const [transactions, setTransactions] = useState([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState(null);
-
-  // Load customer data and recent transactions when the component mounts
+  const [filters, setFilters] = useState({ type: 'all', period: TRANSACTION_PERIODS.ALL });
+  
+  // The card's history, a page at a time as the list scrolls
+  const history = useTransactionQuery(buildTransactionQuery(filters, { cardId: scanResult?.cardId }), { 
+    enabled: !!scanResult?.cardId 
+  });
+  const transactions = history.transactions;
+  
+  // Load customer data and recent transactions
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+      
+      // Get customer data
+      const customerData = await customerAPI.getByCardId(scanResult.cardId);
+      
+      if (customerData) {
+        setCustomer(customerData);
+      } else {
+        setError('Customer not found');
+      }
+    } catch (err) {
+      console.error('Error fetching data:', err);
+      setError(err instanceof NotFoundError ? 'Customer not found' : 'Failed to load customer data');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // Load data when the component mounts
   useEffect(() => {
     if (!scanResult?.cardId) {
       setError('No card ID provided');
       setIsLoading(false);
       return;
     }
-
-    const fetchData = async () => {
-      try {
-        setIsLoading(true);
-        
-        // Get customer data
-        const customerData = await customerAPI.getByCardId(scanResult.cardId);
-        
-        if (customerData) {
-          setCustomer(customerData);
-          
-          // Get recent transactions for this customer
-          const recentTransactions = await transactionAPI.getHistory();
-          
-          // Filter transactions for this customer and sort by date (newest first)
-          const filteredTransactions = recentTransactions
-            .filter(tx => tx.cardId === scanResult.cardId)
-            .sort((a, b) => {
-              const dateA = new Date(a.createdAt);
-              const dateB = new Date(b.createdAt);
-              return dateB - dateA;
-            });
-          
-          setTransactions(filteredTransactions);
-        } else {
-          setError('Customer not found');
-        }
-      } catch (err) {
-        console.error('Error fetching data:', err);
-        setError('Failed to load customer data');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
+    
     fetchData();
   }, [scanResult]);
-
+  
+  // Refund and void actions for the customer's transactions
+  const { showTransactionActions } = useTransactionActions({
+    navigation,
+    onVoided: () => {
+      fetchData();
+      history.refresh();
+    }
+  });
+  
   // Render loading state
   if (isLoading) {
     return (
@@ -86,7 +96,7 @@ const BalanceScreen = ({ navigation, route }) => {
       </View>
     );
   }
-
+  
   // Render error state
   if (error) {
     return (
@@ -116,7 +126,7 @@ const BalanceScreen = ({ navigation, route }) => {
       </View>
     );
   }
-
+  
   // Render balance information
   return (
     <View style={styles.container}>
@@ -156,6 +166,14 @@ const BalanceScreen = ({ navigation, route }) => {
               {formatCurrency(customer?.balance || 0)}
             </Text>
           </View>
+          
+          {!!customer?.pendingDelta && (
+            <Text style={styles.pendingNote}>
+              Includes {customer.pendingDelta > 0 ? '+' : '-'}
+              {formatCurrency(Math.abs(customer.pendingDelta))} pending sync
+              (last confirmed: {formatCurrency(customer.confirmedBalance || 0)})
+            </Text>
+          )}
         </View>
         
         <View style={styles.transactionsContainer}>
@@ -163,12 +181,19 @@ const BalanceScreen = ({ navigation, route }) => {
             <Text style={styles.transactionsTitle}>Recent Transactions</Text>
           </View>
           
-          {transactions.length > 0 ? (
+          <TransactionFilterChips filters={filters} onChange={setFilters} showSearch={false} />
+          
+          {history.isLoading && transactions.length === 0 ? (
+            <ActivityIndicator size="small" color="#5046e5" style={styles.historyLoading} />
+          ) : transactions.length > 0 ? (
             <FlatList
               data={transactions}
               keyExtractor={(item) => item.id.toString()}
               renderItem={({ item }) => (
-                <View style={styles.transactionItem}>
+                <TouchableOpacity
+                  style={styles.transactionItem}
+                  onPress={() => showTransactionActions(item, transactions)}
+                >
                   <View style={styles.transactionDetails}>
                     <Text style={styles.transactionDescription}>
                       {item.description || 'Transaction'}
@@ -176,38 +201,54 @@ const BalanceScreen = ({ navigation, route }) => {
                     <Text style={styles.transactionDate}>
                       {formatDate(item.createdAt)}
                     </Text>
+                    {describeReversalStatus(item, transactions) && (
+                      <Text style={styles.transactionReversal}>
+                        {describeReversalStatus(item, transactions)}
+                      </Text>
+                    )}
                   </View>
                   <Text style={[
                     styles.transactionAmount,
-                    // If it's a reload, show green. Otherwise, red for payments
-                    item.description?.toLowerCase().includes('reload') 
-                      ? styles.positiveAmount 
-                      : styles.negativeAmount
+                    // Reloads and refunds show green, payments red and voids grey
+                    item.type === 'void'
+                      ? styles.neutralAmount
+                      : isCreditTransaction(item)
+                        ? styles.positiveAmount
+                        : styles.negativeAmount
                   ]}>
-                    {item.description?.toLowerCase().includes('reload') ? '+' : '-'}
+                    {item.type === 'void' ? '' : isCreditTransaction(item) ? '+' : '-'}
                     {formatCurrency(item.amount)}
                   </Text>
-                </View>
+                </TouchableOpacity>
               )}
               contentContainerStyle={styles.transactionsList}
+              onEndReached={history.loadMore}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                history.isLoadingMore ? (
+                  <ActivityIndicator size="small" color="#5046e5" style={styles.historyLoading} />
+                ) : null
+              }
             />
           ) : (
             <View style={styles.noTransactionsContainer}>
               <Icon name="history" size={40} color="#ccc" />
               <Text style={styles.noTransactionsText}>
-                No recent transactions found
+                No transactions found
               </Text>
             </View>
           )}
         </View>
         
         <View style={styles.actionsContainer}>
-          <TouchableOpacity
-            style={styles.reloadButton}
-            onPress={() => navigation.navigate('Reload', { scanResult, customer })}
-          >
-            <Text style={styles.reloadButtonText}>Reload Account</Text>
-          </TouchableOpacity>
+          {hasPermission(operator, PERMISSIONS.RELOAD) && (
+            <TouchableOpacity
+              style={styles.reloadButton}
+              onPress={() => navigation.navigate('Reload', { scanResult, customer })}
+            >
+              <Text style={styles.reloadButtonText}>Reload Account</Text>
+            </TouchableOpacity>
+          )}
           
           <TouchableOpacity
             style={styles.homeButton}
@@ -345,6 +386,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#2F855A',
   },
+  pendingNote: {
+    fontSize: 12,
+    color: '#DD6B20',
+    marginTop: 8,
+  },
   transactionsContainer: {
     backgroundColor: '#fff',
     borderRadius: 8,
@@ -386,6 +432,12 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  transactionReversal: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: '#666',
+    marginTop: 2,
+  },
   transactionAmount: {
     fontSize: 14,
     fontWeight: 'bold',
@@ -396,6 +448,12 @@ const styles = StyleSheet.create({
   negativeAmount: {
     color: '#E53E3E',
   },
+  neutralAmount: {
+    color: '#999',
+  },
+  historyLoading: {
+    marginVertical: 20,
+  },
   noTransactionsContainer: {
     padding: 20,
     alignItems: 'center',
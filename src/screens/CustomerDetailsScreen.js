@@ -9,15 +9,23 @@ import {
   ScrollView 
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
-import { customerAPI } from '../api/api';
-import { formatCurrency } from '../utils/formatters';
+import { customerAPI, NotFoundError, CardBlockedError } from '../api/api';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { CARD_STATUS, getCardStatus } from '../utils/cardLifecycle';
+import { useNFC } from '../hooks/useNFC';
+import { useOperator } from '../hooks/useOperator';
+import { hasPermission, PERMISSIONS } from '../utils/operators';
 
 const CustomerDetailsScreen = ({ navigation, route }) => {
   const { scanResult } = route.params || {};
   const [customer, setCustomer] = useState(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState(null);
-
+  const [isCardBlocked, setIsCardBlocked] = useState(false);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const { writeCardRecord } = useNFC();
+  const operator = useOperator();
+  
   // Load customer data based on the scanned card ID
   useEffect(() => {
     if (!scanResult?.cardId) {
@@ -25,16 +33,19 @@ const CustomerDetailsScreen = ({ navigation, route }) => {
       setIsLoading(false);
       return;
     }
-
+    
     fetchCustomerData();
   }, [scanResult]);
-
+  
   const fetchCustomerData = async () => {
     try {
       setIsLoading(true);
       setError(null);
+      setIsCardBlocked(false);
       
-      const customerData = await customerAPI.getByCardId(scanResult.cardId);
+      // The owner of a lost or stolen card is still shown, so the card can
+      // be replaced
+      const customerData = await customerAPI.getByCardId(scanResult.cardId, { includeBlocked: true });
       
       if (customerData) {
         setCustomer(customerData);
@@ -43,24 +54,88 @@ const CustomerDetailsScreen = ({ navigation, route }) => {
       }
     } catch (err) {
       console.error('Error fetching customer data:', err);
-      setError('Failed to load customer data');
+      if (err instanceof CardBlockedError) {
+        setIsCardBlocked(true);
+        setError(err.message);
+      } else {
+        setError(err instanceof NotFoundError ? 'No customer found with this card' : 'Failed to load customer data');
+      }
     } finally {
       setIsLoading(false);
     }
   };
-
+  
   // Handle continue to payment details
   const handleContinueToPayment = () => {
     if (customer) {
       navigation.navigate('PaymentDetails', { scanResult, customer });
     }
   };
-
+  
   // Handle new customer registration
   const handleNewCustomer = () => {
     navigation.navigate('CustomerRegistration', { scanResult });
   };
-
+  
+  // Scan the card that replaces the customer's current one
+  const handleReplaceCard = () => {
+    navigation.navigate('NFCScan', {
+      scanPurpose: 'replacement',
+      onScanComplete: (result) => {
+        navigation.goBack();
+        confirmReplaceCard(result.cardId);
+      }
+    });
+  };
+  
+  const confirmReplaceCard = (newCardId) => {
+    Alert.alert(
+      'Replace Card',
+      `Move ${formatCurrency(customer?.balance || 0)} and the transaction history from ${scanResult.cardId} to ${newCardId}? The old card will be blocked.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => replaceCard(newCardId) }
+      ]
+    );
+  };
+  
+  const replaceCard = async (newCardId) => {
+    try {
+      setIsReplacing(true);
+      const result = await customerAPI.replaceCard(scanResult.cardId, newCardId);
+      
+      // Write the balance to the new card while it is still on the reader
+      let cardNote = '';
+      try {
+        const record = await writeCardRecord({
+          cardId: newCardId,
+          balance: result.customer.balance
+        });
+        cardNote = record ? '\n\nThe new card has been updated.' : '';
+      } catch (writeError) {
+        console.error('Error writing card record:', writeError);
+        cardNote = `\n\nThe new card could not be updated: ${writeError.message}`;
+      }
+      
+      const syncNote = result.offline ? ' The change will be sent to the server at the next sync.' : '';
+      Alert.alert(
+        'Card Replaced',
+        `${formatCurrency(result.customer.balance)} moved to ${newCardId}. ${scanResult.cardId} is now blocked.${syncNote}${cardNote}`,
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.replace('CustomerDetails', { scanResult: { cardId: newCardId } })
+          }
+        ]
+      );
+    } catch (err) {
+      console.error('Error replacing card:', err);
+      Alert.alert('Error', err.message || 'Failed to replace card');
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+  
   // Render loading state
   if (isLoading) {
     return (
@@ -83,7 +158,7 @@ const CustomerDetailsScreen = ({ navigation, route }) => {
       </View>
     );
   }
-
+  
   // Render error state with option to register new customer
   if (error) {
     return (
@@ -100,8 +175,8 @@ const CustomerDetailsScreen = ({ navigation, route }) => {
         </View>
         
         <View style={styles.errorContainer}>
-          <Icon name="account-question" size={60} color="#f44336" />
-          <Text style={styles.errorTitle}>Customer Not Found</Text>
+          <Icon name={isCardBlocked ? 'credit-card-off-outline' : 'account-question'} size={60} color="#f44336" />
+          <Text style={styles.errorTitle}>{isCardBlocked ? 'Card Blocked' : 'Customer Not Found'}</Text>
           <Text style={styles.errorText}>
             {error === 'No customer found with this card' 
               ? 'This card is not registered to any customer.' 
@@ -109,12 +184,14 @@ const CustomerDetailsScreen = ({ navigation, route }) => {
           </Text>
           
           <View style={styles.errorActions}>
-            <TouchableOpacity
-              style={styles.primaryButton}
-              onPress={handleNewCustomer}
-            >
-              <Text style={styles.primaryButtonText}>Register New Customer</Text>
-            </TouchableOpacity>
+            {!isCardBlocked && hasPermission(operator, PERMISSIONS.REGISTRATION) && (
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={handleNewCustomer}
+              >
+                <Text style={styles.primaryButtonText}>Register New Customer</Text>
+              </TouchableOpacity>
+            )}
             
             <TouchableOpacity
               style={styles.secondaryButton}
@@ -127,7 +204,7 @@ const CustomerDetailsScreen = ({ navigation, route }) => {
       </View>
     );
   }
-
+  
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -142,6 +219,15 @@ const CustomerDetailsScreen = ({ navigation, route }) => {
       </View>
       
       <ScrollView style={styles.content}>
+        {getCardStatus(customer) === CARD_STATUS.BLOCKED && (
+          <View style={styles.blockedBanner}>
+            <Icon name="credit-card-off-outline" size={20} color="#C53030" />
+            <Text style={styles.blockedBannerText}>
+              This card has been reported lost or stolen and can't be used. Replace it to move the balance to a new card.
+            </Text>
+          </View>
+        )}
+        
         <View style={styles.customerCard}>
           <View style={styles.avatarContainer}>
             <Text style={styles.avatarText}>
@@ -197,36 +283,59 @@ const CustomerDetailsScreen = ({ navigation, route }) => {
             <View style={styles.detailContent}>
               <Text style={styles.detailLabel}>Registered On:</Text>
               <Text style={styles.detailValue}>
-                {new Date(customer?.createdAt).toLocaleDateString()}
+                {formatDate(customer?.createdAt)}
               </Text>
             </View>
           </View>
         </View>
         
         <View style={styles.actionsContainer}>
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={handleContinueToPayment}
-          >
-            <Icon name="credit-card-outline" size={20} color="#fff" />
-            <Text style={styles.actionButtonText}>Process Payment</Text>
-          </TouchableOpacity>
+          {getCardStatus(customer) === CARD_STATUS.ACTIVE && (
+            <>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleContinueToPayment}
+              >
+                <Icon name="credit-card-outline" size={20} color="#fff" />
+                <Text style={styles.actionButtonText}>Process Payment</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity
+                style={[styles.actionButton, styles.balanceButton]}
+                onPress={() => navigation.navigate('Balance', { scanResult, customer })}
+              >
+                <Icon name="wallet-outline" size={20} color="#fff" />
+                <Text style={styles.actionButtonText}>View Balance History</Text>
+              </TouchableOpacity>
+              
+              {hasPermission(operator, PERMISSIONS.RELOAD) && (
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.reloadButton]}
+                  onPress={() => navigation.navigate('Reload', { scanResult, customer })}
+                >
+                  <Icon name="wallet-plus-outline" size={20} color="#fff" />
+                  <Text style={styles.actionButtonText}>Reload Account</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
           
-          <TouchableOpacity
-            style={[styles.actionButton, styles.balanceButton]}
-            onPress={() => navigation.navigate('Balance', { scanResult, customer })}
-          >
-            <Icon name="wallet-outline" size={20} color="#fff" />
-            <Text style={styles.actionButtonText}>View Balance History</Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity
-            style={[styles.actionButton, styles.reloadButton]}
-            onPress={() => navigation.navigate('Reload', { scanResult, customer })}
-          >
-            <Icon name="wallet-plus-outline" size={20} color="#fff" />
-            <Text style={styles.actionButtonText}>Reload Account</Text>
-          </TouchableOpacity>
+          {hasPermission(operator, PERMISSIONS.CARD_REPLACEMENT) && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.replaceButton, isReplacing && styles.disabledButton]}
+              onPress={handleReplaceCard}
+              disabled={isReplacing}
+            >
+              {isReplacing ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <>
+                  <Icon name="card-account-details-outline" size={20} color="#fff" />
+                  <Text style={styles.actionButtonText}>Replace Card</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
       </ScrollView>
     </View>
@@ -444,6 +553,28 @@ const styles = StyleSheet.create({
   reloadButton: {
     backgroundColor: '#2F855A',
   },
+  replaceButton: {
+    backgroundColor: '#DD6B20',
+  },
+  disabledButton: {
+    backgroundColor: '#b4b4b4',
+  },
+  blockedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF5F5',
+    borderWidth: 1,
+    borderColor: '#FEB2B2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  blockedBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#C53030',
+    marginLeft: 8,
+  },
   actionButtonText: {
     color: '#fff',
     fontSize: 16,
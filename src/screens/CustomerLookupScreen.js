@@ -10,7 +10,7 @@ import {
   Alert
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
-import { normalizeCardId } from '../utils/formatters';
+import { normalizeCardId, formatCurrency } from '../utils/formatters';
 import { customerAPI } from '../api/api';
 
 const CustomerLookupScreen = ({ navigation }) => {
@@ -120,7 +120,7 @@ const CustomerLookupScreen = ({ navigation }) => {
               <Text style={styles.customerName}>{customer.firstName} {customer.lastName}</Text>
               <Text style={styles.customerDetail}>Email: {customer.email}</Text>
               <Text style={styles.customerDetail}>Phone: {customer.phone}</Text>
-              <Text style={styles.customerBalance}>Balance: ₱{customer.balance.toLocaleString()}</Text>
+              <Text style={styles.customerBalance}>Balance: {formatCurrency(customer.balance)}</Text>
             </View>
           </View>
         )}
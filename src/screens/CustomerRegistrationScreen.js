@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -14,12 +14,30 @@ import {
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { customerAPI } from '../api/api';
 import { formatCurrency } from '../utils/formatters';
+import { parseMoney, formatMoneyInput, getCurrencySymbol } from '../utils/money';
 import { z } from 'zod';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 
-// Customer registration form validation schema
-const registrationSchema = z.object({
+// Smallest balance a new card can start with, in minor units
+const MIN_INITIAL_BALANCE = 50000;
+
+// Amount fields hold the text as typed and are checked in minor units; an
+// empty field is undefined
+const typedAmount = (schema) => z
+  .string()
+  .transform(text => parseMoney(text) ?? undefined)
+  .pipe(schema);
+
+// Optional amount field: left empty, it is undefined
+const optionalAmount = typedAmount(z
+  .number()
+  .positive({ message: 'Amount must be greater than 0' })
+  .optional());
+
+// Customer registration form validation schema. Built when the screen opens,
+// so amounts in messages are in the terminal's current currency.
+const createRegistrationSchema = () => z.object({
   firstName: z
     .string()
     .min(1, { message: 'First name is required' }),
@@ -36,17 +54,26 @@ const registrationSchema = z.object({
     .regex(/^[0-9+\s()-]{7,15}$/, {
       message: 'Please enter a valid phone number',
     }),
-  initialBalance: z
-    .number({ 
-      required_error: 'Initial balance is required',
-      invalid_type_error: 'Please enter a valid amount'
-    })
-    .min(500, { message: 'Minimum initial balance is ₱500' })
+  initialBalance: typedAmount(z
+    .number({ required_error: 'Initial balance is required' })
+    .min(MIN_INITIAL_BALANCE, { message: `Minimum initial balance is ${formatCurrency(MIN_INITIAL_BALANCE)}` })),
+  // Card security (all optional)
+  pin: z
+    .string()
+    .regex(/^(\d{4,6})?$/, { message: 'PIN must be 4 to 6 digits' }),
+  pinThreshold: optionalAmount,
+  transactionLimit: optionalAmount,
+  dailyLimit: optionalAmount
 });
 
+// Keep only what can be part of a typed amount
+const cleanAmountText = (text) => text.replace(/[^0-9.]/g, '');
+
 const CustomerRegistrationScreen = ({ navigation, route }) => {
   const { scanResult } = route.params || {};
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const registrationSchema = useMemo(createRegistrationSchema, []);
+  const currencySymbol = getCurrencySymbol();
   
   // Initialize form with react-hook-form
   const { 
@@ -60,7 +87,11 @@ const CustomerRegistrationScreen = ({ navigation, route }) => {
       lastName: '',
       email: '',
       phone: '',
-      initialBalance: 500
+      initialBalance: formatMoneyInput(MIN_INITIAL_BALANCE),
+      pin: '',
+      pinThreshold: '',
+      transactionLimit: '',
+      dailyLimit: ''
     }
   });
   
@@ -84,13 +115,25 @@ const CustomerRegistrationScreen = ({ navigation, route }) => {
         cardId: scanResult.cardId
       };
       
+      // Only send security settings that were filled in; the API hashes the PIN
+      if (data.pin || data.transactionLimit || data.dailyLimit) {
+        registrationData.security = {
+          pin: data.pin || undefined,
+          pinThreshold: data.pin ? data.pinThreshold || 0 : undefined,
+          transactionLimit: data.transactionLimit,
+          dailyLimit: data.dailyLimit
+        };
+      }
+      
       // Call the API to register the customer
       const result = await customerAPI.register(registrationData);
       
       if (result) {
         Alert.alert(
           'Success',
-          'Customer has been successfully registered!',
+          result.provisional
+            ? 'Customer has been registered offline and can pay right away. The registration will be sent to the server on the next sync.'
+            : 'Customer has been successfully registered!',
           [
             {
               text: 'OK',
@@ -103,7 +146,7 @@ const CustomerRegistrationScreen = ({ navigation, route }) => {
       console.error('Error registering customer:', error);
       Alert.alert(
         'Registration Failed',
-        error.response?.data?.message || 'An unexpected error occurred'
+        error.message || 'An unexpected error occurred'
       );
     } finally {
       setIsSubmitting(false);
@@ -230,24 +273,17 @@ const CustomerRegistrationScreen = ({ navigation, route }) => {
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Initial Balance <Text style={styles.required}>*</Text></Text>
               <View style={styles.balanceInputContainer}>
-                <Text style={styles.currencySymbol}>₱</Text>
+                <Text style={styles.currencySymbol}>{currencySymbol}</Text>
                 <Controller
                   control={control}
                   name="initialBalance"
                   render={({ field: { onChange, onBlur, value } }) => (
                     <TextInput
                       style={[styles.balanceInput, errors.initialBalance && styles.inputError]}
-                      placeholder="500"
+                      placeholder={formatMoneyInput(MIN_INITIAL_BALANCE)}
                       onBlur={onBlur}
-                      onChangeText={(text) => {
-                        const parsed = parseFloat(text.replace(/[^0-9.]/g, ''));
-                        if (!isNaN(parsed)) {
-                          onChange(parsed);
-                        } else {
-                          onChange('');
-                        }
-                      }}
-                      value={value ? value.toString() : ''}
+                      onChangeText={(text) => onChange(cleanAmountText(text))}
+                      value={value}
                       keyboardType="numeric"
                     />
                   )}
@@ -257,12 +293,116 @@ const CustomerRegistrationScreen = ({ navigation, route }) => {
                 <Text style={styles.errorText}>{errors.initialBalance.message}</Text>
               ) : (
                 <Text style={styles.helpText}>
-                  Minimum initial balance: ₱500
+                  Minimum initial balance: {formatCurrency(MIN_INITIAL_BALANCE)}
                 </Text>
               )}
             </View>
           </View>
           
+          <View style={styles.formContainer}>
+            <Text style={styles.formHeading}>Card Security</Text>
+            <Text style={styles.formSubheading}>Optional. Leave blank for no PIN or limits.</Text>
+            
+            {/* PIN */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>PIN</Text>
+              <Controller
+                control={control}
+                name="pin"
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <TextInput
+                    style={[styles.input, errors.pin && styles.inputError]}
+                    placeholder="4 to 6 digits"
+                    onBlur={onBlur}
+                    onChangeText={(text) => onChange(text.replace(/[^0-9]/g, ''))}
+                    value={value}
+                    keyboardType="number-pad"
+                    secureTextEntry={true}
+                    maxLength={6}
+                  />
+                )}
+              />
+              {errors.pin && (
+                <Text style={styles.errorText}>{errors.pin.message}</Text>
+              )}
+            </View>            
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Require PIN Above</Text>
+              <View style={styles.balanceInputContainer}>
+                <Text style={styles.currencySymbol}>{currencySymbol}</Text>
+                <Controller
+                  control={control}
+                  name="pinThreshold"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInput
+                      style={[styles.balanceInput, errors.pinThreshold && styles.inputError]}
+                      placeholder="0"
+                      onBlur={onBlur}
+                      onChangeText={(text) => onChange(cleanAmountText(text))}
+                      value={value}
+                      keyboardType="numeric"
+                    />
+                  )}
+                />
+              </View>
+              {errors.pinThreshold ? (
+                <Text style={styles.errorText}>{errors.pinThreshold.message}</Text>
+              ) : (
+                <Text style={styles.helpText}>Leave blank to require the PIN for every payment</Text>
+              )}
+            </View>            
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Per-Transaction Limit</Text>
+              <View style={styles.balanceInputContainer}>
+                <Text style={styles.currencySymbol}>{currencySymbol}</Text>
+                <Controller
+                  control={control}
+                  name="transactionLimit"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInput
+                      style={[styles.balanceInput, errors.transactionLimit && styles.inputError]}
+                      placeholder="No limit"
+                      onBlur={onBlur}
+                      onChangeText={(text) => onChange(cleanAmountText(text))}
+                      value={value}
+                      keyboardType="numeric"
+                    />
+                  )}
+                />
+              </View>
+              {errors.transactionLimit ? (
+                <Text style={styles.errorText}>{errors.transactionLimit.message}</Text>
+              ) : (
+                <Text style={styles.helpText}>Largest single payment allowed</Text>
+              )}
+            </View>            
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Daily Spending Limit</Text>
+              <View style={styles.balanceInputContainer}>
+                <Text style={styles.currencySymbol}>{currencySymbol}</Text>
+                <Controller
+                  control={control}
+                  name="dailyLimit"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInput
+                      style={[styles.balanceInput, errors.dailyLimit && styles.inputError]}
+                      placeholder="No limit"
+                      onBlur={onBlur}
+                      onChangeText={(text) => onChange(cleanAmountText(text))}
+                      value={value}
+                      keyboardType="numeric"
+                    />
+                  )}
+                />
+              </View>
+              {errors.dailyLimit ? (
+                <Text style={styles.errorText}>{errors.dailyLimit.message}</Text>
+              ) : (
+                <Text style={styles.helpText}>Most the card can spend in a day</Text>
+              )}
+            </View>
+          </View>
+          
           <View style={styles.actionsContainer}>
             <TouchableOpacity
               style={[styles.registerButton, isSubmitting && styles.disabledButton]}
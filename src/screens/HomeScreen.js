@@ -8,42 +8,62 @@ import {
   Modal,
   FlatList,
   SafeAreaView,
+  ActivityIndicator,
   Alert 
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { customerAPI, transactionAPI } from '../api/api';
 import { formatCurrency, formatDate } from '../utils/formatters';
+import { getLineTotal } from '../utils/cart';
+import { isCreditTransaction, describeReversalStatus } from '../utils/reversals';
+import { useTransactionActions } from '../hooks/useTransactionActions';
+import { useOperator } from '../hooks/useOperator';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { useTransactionQuery } from '../hooks/useTransactionQuery';
+import { buildTransactionQuery, TRANSACTION_PERIODS } from '../utils/transactionQuery';
+import TransactionFilterChips from '../components/TransactionFilterChips';
+import { hasPermission, signOut, PERMISSIONS, ROLE_LABELS } from '../utils/operators';
 
 const HomeScreen = ({ navigation }) => {
+  const operator = useOperator();
+  const { pendingCount, isSyncing, lastSyncAt } = useSyncStatus();
   const [recentTransactions, setRecentTransactions] = useState([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isTransactionsModalVisible, setIsTransactionsModalVisible] = useState(false);
+  const [historyFilters, setHistoryFilters] = useState({ 
+    type: 'all', 
+    period: TRANSACTION_PERIODS.ALL, 
+    search: '' 
+  });
+  
+  // The history modal pages through the filtered history as it scrolls
+  const history = useTransactionQuery(buildTransactionQuery(historyFilters), { 
+    enabled: isTransactionsModalVisible 
+  });
   
   // Load recent transactions when the component mounts
   useEffect(() => {
     const unsubscribe = navigation.addListener('focus', () => {
       fetchRecentTransactions();
     });
-
+    
     return unsubscribe;
   }, [navigation]);
   
+  // Reload them after a sync has brought in the server's history
+  useEffect(() => {
+    if (lastSyncAt && navigation.isFocused()) {
+      fetchRecentTransactions();
+    }
+  }, [lastSyncAt]);
+  
   // Fetch recent transactions
   const fetchRecentTransactions = async () => {
     try {
       setIsLoading(true);
-      const transactions = await transactionAPI.getHistory();
-      
-      // Sort transactions by date (newest first) and take only the 5 most recent
-      const sortedTransactions = transactions
-        .sort((a, b) => {
-          const dateA = new Date(a.createdAt);
-          const dateB = new Date(b.createdAt);
-          return dateB - dateA;
-        })
-        .slice(0, 5);
-      
-      setRecentTransactions(sortedTransactions);
+      // The home screen shows the 5 most recent
+      const { transactions } = await transactionAPI.query({ limit: 5 });
+      setRecentTransactions(transactions);
     } catch (error) {
       console.error('Error fetching recent transactions:', error);
       Alert.alert(
@@ -55,21 +75,47 @@ const HomeScreen = ({ navigation }) => {
     }
   };
   
+  // Refund and void actions for history entries
+  const { showTransactionActions } = useTransactionActions({
+    navigation,
+    onVoided: () => {
+      fetchRecentTransactions();
+      history.refresh();
+    },
+    onBeforeNavigate: () => setIsTransactionsModalVisible(false)
+  });
+  
   // Navigate to the appropriate NFC scan screen based on the purpose
   const navigateToScan = (purpose) => {
     navigation.navigate('NFCScan', { scanPurpose: purpose });
   };
   
+  // Confirm, then sign the operator out
+  const handleSignOut = () => {
+    Alert.alert(
+      'Sign Out',
+      `Sign out ${operator?.name || ''}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: signOut }
+      ]
+    );
+  };
+  
   // Navigate to the transactions screen
   const navigateToTransactions = () => {
     // For now, just show the modal. In the future, could navigate to a full screen
     setIsTransactionsModalVisible(true);
   };
   
-  // Determine transaction icon based on description
+  // Determine transaction icon based on type and description
   const getTransactionIcon = (transaction) => {
     const description = (transaction.description || '').toLowerCase();
-    if (description.includes('reload')) {
+    if (transaction.type === 'refund') {
+      return 'cash-refund';
+    } else if (transaction.type === 'void') {
+      return 'cancel';
+    } else if (isCreditTransaction(transaction)) {
       return 'wallet-plus';
     } else if (description.includes('payment')) {
       return 'credit-card';
@@ -80,20 +126,44 @@ const HomeScreen = ({ navigation }) => {
     }
   };
   
-  // Determine transaction color based on description
+  // Determine transaction color based on type and description
   const getTransactionColor = (transaction) => {
-    const description = (transaction.description || '').toLowerCase();
-    if (description.includes('reload')) {
-      return '#2F855A'; // Green for reloads
+    if (transaction.type === 'void' || transaction.status === 'voided') {
+      return '#999'; // Grey for voids and voided transactions
+    } else if (isCreditTransaction(transaction)) {
+      return '#2F855A'; // Green for reloads and refunds
     } else {
       return '#E53E3E'; // Red for payments/expenses
     }
   };
   
+  // Void entries don't move money, so they get no sign
+  const getAmountSign = (transaction) => {
+    if (transaction.type === 'void') {
+      return '';
+    }
+    return isCreditTransaction(transaction) ? '+' : '-';
+  };
+  
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>NFC Payment System</Text>
+        <View>
+          <Text style={styles.headerTitle}>NFC Payment System</Text>
+          {operator && (
+            <Text style={styles.headerOperator}>
+              {operator.name} · {ROLE_LABELS[operator.role] || operator.role}
+            </Text>
+          )}
+          {pendingCount > 0 && (
+            <Text style={styles.headerOperator}>
+              {isSyncing ? 'Syncing' : 'Waiting to sync'}: {pendingCount} transaction(s)
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
+          <Icon name="logout" size={22} color="#fff" />
+        </TouchableOpacity>
       </View>
       
       <ScrollView style={styles.content}>
@@ -123,37 +193,63 @@ const HomeScreen = ({ navigation }) => {
               <Text style={styles.actionDescription}>View account balance and transactions</Text>
             </TouchableOpacity>
             
+            {hasPermission(operator, PERMISSIONS.RELOAD) && (
+              <TouchableOpacity
+                style={styles.actionCard}
+                onPress={() => navigateToScan('reload')}
+              >
+                <View style={[styles.actionIcon, { backgroundColor: '#2F855A' }]}>
+                  <Icon name="wallet-plus-outline" size={28} color="#fff" />
+                </View>
+                <Text style={styles.actionTitle}>Reload Account</Text>
+                <Text style={styles.actionDescription}>Add funds to customer account</Text>
+              </TouchableOpacity>
+            )}
+            
+            {hasPermission(operator, PERMISSIONS.REGISTRATION) && (
+              <TouchableOpacity
+                style={styles.actionCard}
+                onPress={() => navigateToScan('registration')}
+              >
+                <View style={[styles.actionIcon, { backgroundColor: '#DD6B20' }]}>
+                  <Icon name="account-plus-outline" size={28} color="#fff" />
+                </View>
+                <Text style={styles.actionTitle}>Register Customer</Text>
+                <Text style={styles.actionDescription}>Register a new card and customer</Text>
+              </TouchableOpacity>
+            )}
+            
             <TouchableOpacity
               style={styles.actionCard}
-              onPress={() => navigateToScan('reload')}
+              onPress={() => navigation.navigate('CustomerLookup')}
             >
-              <View style={[styles.actionIcon, { backgroundColor: '#2F855A' }]}>
-                <Icon name="wallet-plus-outline" size={28} color="#fff" />
+              <View style={[styles.actionIcon, { backgroundColor: '#805AD5' }]}>
+                <Icon name="card-account-details-outline" size={28} color="#fff" />
               </View>
-              <Text style={styles.actionTitle}>Reload Account</Text>
-              <Text style={styles.actionDescription}>Add funds to customer account</Text>
+              <Text style={styles.actionTitle}>Customer Lookup</Text>
+              <Text style={styles.actionDescription}>Debug customer and API connectivity</Text>
             </TouchableOpacity>
             
             <TouchableOpacity
               style={styles.actionCard}
-              onPress={() => navigateToScan('registration')}
+              onPress={() => navigation.navigate('OfflineSettings')}
             >
-              <View style={[styles.actionIcon, { backgroundColor: '#DD6B20' }]}>
-                <Icon name="account-plus-outline" size={28} color="#fff" />
+              <View style={[styles.actionIcon, { backgroundColor: '#4A5568' }]}>
+                <Icon name="cloud-sync-outline" size={28} color="#fff" />
               </View>
-              <Text style={styles.actionTitle}>Register Customer</Text>
-              <Text style={styles.actionDescription}>Register a new card and customer</Text>
+              <Text style={styles.actionTitle}>Offline Settings</Text>
+              <Text style={styles.actionDescription}>Sync, conflicts and API configuration</Text>
             </TouchableOpacity>
             
             <TouchableOpacity
               style={styles.actionCard}
-              onPress={() => navigation.navigate('CustomerLookup')}
+              onPress={() => navigation.navigate('ShiftReport')}
             >
-              <View style={[styles.actionIcon, { backgroundColor: '#805AD5' }]}>
-                <Icon name="card-account-details-outline" size={28} color="#fff" />
+              <View style={[styles.actionIcon, { backgroundColor: '#B7791F' }]}>
+                <Icon name="cash-register" size={28} color="#fff" />
               </View>
-              <Text style={styles.actionTitle}>Customer Lookup</Text>
-              <Text style={styles.actionDescription}>Debug customer and API connectivity</Text>
+              <Text style={styles.actionTitle}>Close Shift</Text>
+              <Text style={styles.actionDescription}>Settle the shift and view Z-reports</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -197,7 +293,7 @@ const HomeScreen = ({ navigation }) => {
                     styles.transactionAmount,
                     { color: getTransactionColor(transaction) }
                   ]}>
-                    {(transaction.description || '').toLowerCase().includes('reload') ? '+' : '-'}
+                    {getAmountSign(transaction)}
                     {formatCurrency(transaction.amount)}
                   </Text>
                 </View>
@@ -233,11 +329,16 @@ const HomeScreen = ({ navigation }) => {
               </TouchableOpacity>
             </View>
             
+            <TransactionFilterChips filters={historyFilters} onChange={setHistoryFilters} />
+            
             <FlatList
-              data={recentTransactions}
+              data={history.transactions}
               keyExtractor={(item) => item.id.toString()}
               renderItem={({ item }) => (
-                <View style={styles.transactionItem}>
+                <TouchableOpacity
+                  style={styles.transactionItem}
+                  onPress={() => showTransactionActions(item, history.transactions)}
+                >
                   <View style={styles.transactionLeftContent}>
                     <View style={[
                       styles.transactionIcon,
@@ -256,6 +357,20 @@ const HomeScreen = ({ navigation }) => {
                       <Text style={styles.transactionCustomer}>
                         {item.customerName || 'Unknown customer'}
                       </Text>
+                      {describeReversalStatus(item, history.transactions) && (
+                        <Text style={styles.transactionReversal}>
+                          {describeReversalStatus(item, history.transactions)}
+                        </Text>
+                      )}
+                      {item.items?.length > 0 && (
+                        <View style={styles.transactionLineItems}>
+                          {item.items.map((lineItem, index) => (
+                            <Text key={index} style={styles.transactionLineItem}>
+                              {lineItem.quantity || 1} × {lineItem.description} · {formatCurrency(getLineTotal(lineItem))}
+                            </Text>
+                          ))}
+                        </View>
+                      )}
                       <Text style={styles.transactionDate}>
                         {formatDate(item.createdAt)}
                       </Text>
@@ -265,19 +380,30 @@ const HomeScreen = ({ navigation }) => {
                     styles.transactionAmount,
                     { color: getTransactionColor(item) }
                   ]}>
-                    {(item.description || '').toLowerCase().includes('reload') ? '+' : '-'}
+                    {getAmountSign(item)}
                     {formatCurrency(item.amount)}
                   </Text>
-                </View>
+                </TouchableOpacity>
               )}
               contentContainerStyle={styles.modalTransactionsList}
+              onEndReached={history.loadMore}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                history.isLoadingMore ? (
+                  <ActivityIndicator size="small" color="#5046e5" style={styles.historyLoading} />
+                ) : null
+              }
               ListEmptyComponent={
-                <View style={styles.emptyTransactions}>
-                  <Icon name="history" size={40} color="#ccc" />
-                  <Text style={styles.emptyTransactionsText}>
-                    No transactions found
-                  </Text>
-                </View>
+                history.isLoading ? (
+                  <ActivityIndicator size="large" color="#5046e5" style={styles.historyLoading} />
+                ) : (
+                  <View style={styles.emptyTransactions}>
+                    <Icon name="history" size={40} color="#ccc" />
+                    <Text style={styles.emptyTransactionsText}>
+                      No transactions found
+                    </Text>
+                  </View>
+                )
               }
             />
           </View>
@@ -293,6 +419,9 @@ const styles = StyleSheet.create({
     backgroundColor: '#f5f5f5',
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     backgroundColor: '#5046e5',
     paddingVertical: 16,
     paddingHorizontal: 20,
@@ -304,6 +433,14 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fff',
   },
+  headerOperator: {
+    fontSize: 13,
+    color: '#dcdafb',
+    marginTop: 2,
+  },
+  signOutButton: {
+    padding: 8,
+  },
   content: {
     flex: 1,
     padding: 16,
@@ -367,7 +504,7 @@ const styles = StyleSheet.create({
     fontWeight: '500',
   },
   transactionsList: {
-    
+  
   },
   transactionItem: {
     flexDirection: 'row',
@@ -404,6 +541,19 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 2,
   },
+  transactionReversal: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: '#666',
+    marginBottom: 2,
+  },
+  transactionLineItems: {
+    marginBottom: 2,
+  },
+  transactionLineItem: {
+    fontSize: 12,
+    color: '#666',
+  },
   transactionDate: {
     fontSize: 11,
     color: '#999',
@@ -450,6 +600,9 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 4,
   },
+  historyLoading: {
+    marginVertical: 20,
+  },
   modalTransactionsList: {
     padding: 16,
   },
@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { operatorAPI } from '../api/api';
+import { getCachedOperators } from '../utils/storage';
+import { signIn, ROLE_LABELS } from '../utils/operators';
+import { isValidPinFormat } from '../utils/cardSecurity';
+import { formatTime } from '../utils/formatters';
+
+/**
+ * Screen where an operator picks their account and signs in with their PIN
+ */
+const LoginScreen = () => {
+  const [operators, setOperators] = useState([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedOperator, setSelectedOperator] = useState(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  
+  // Load the operator accounts, from the server when it can be reached
+  const loadOperators = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setOperators(await operatorAPI.getAll());
+    } catch (err) {
+      console.error('Error loading operators, using cached accounts:', err);
+      setOperators(await getCachedOperators());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadOperators();
+  }, [loadOperators]);
+  
+  const selectOperator = (operator) => {
+    setSelectedOperator(operator);
+    setPin('');
+    setError(null);
+  };
+  
+  const handleSignIn = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      
+      const result = await signIn(selectedOperator.id, pin);
+      if (!result.valid) {
+        setPin('');
+        setError(result.lockedUntil
+          ? `Too many incorrect PINs. Try again after ${formatTime(result.lockedUntil)}.`
+          : `Incorrect PIN. ${result.attemptsRemaining} attempt(s) left.`);
+      }
+    } catch (err) {
+      setError(err.message || 'Sign-in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  const activeOperators = operators.filter(o => o.active !== false);
+  
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Icon name="account-lock-outline" size={40} color="#5046e5" />
+          <Text style={styles.title}>Sign In</Text>
+          <Text style={styles.subtitle}>Choose your name and enter your PIN</Text>
+        </View>
+        
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#5046e5" style={styles.loading} />
+        ) : activeOperators.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Icon name="cloud-off-outline" size={40} color="#ccc" />
+            <Text style={styles.emptyText}>
+              No operator accounts on this terminal yet. Connect to the internet to download them.
+            </Text>
+            <TouchableOpacity style={styles.retryButton} onPress={loadOperators}>
+              <Text style={styles.retryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+            {activeOperators.map(operator => (
+              <TouchableOpacity
+                key={operator.id}
+                style={[
+                  styles.operatorRow,
+                  selectedOperator?.id === operator.id && styles.operatorRowSelected
+                ]}
+                onPress={() => selectOperator(operator)}
+              >
+                <Icon
+                  name="account-circle-outline"
+                  size={32}
+                  color={selectedOperator?.id === operator.id ? '#5046e5' : '#999'}
+                />
+                <View style={styles.operatorDetails}>
+                  <Text style={styles.operatorName}>{operator.name}</Text>
+                  <Text style={styles.operatorRole}>{ROLE_LABELS[operator.role] || operator.role}</Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+            
+            {selectedOperator && (
+              <View style={styles.pinContainer}>
+                <TextInput
+                  style={[styles.pinInput, !!error && styles.pinInputError]}
+                  value={pin}
+                  onChangeText={(text) => setPin(text.replace(/[^0-9]/g, '').slice(0, 6))}
+                  keyboardType="number-pad"
+                  secureTextEntry={true}
+                  maxLength={6}
+                  autoFocus={true}
+                  editable={!isSubmitting}
+                  placeholder="••••"
+                />
+                {!!error && <Text style={styles.errorText}>{error}</Text>}
+                
+                <TouchableOpacity
+                  style={[styles.signInButton, (!isValidPinFormat(pin) || isSubmitting) && styles.disabledButton]}
+                  onPress={handleSignIn}
+                  disabled={!isValidPinFormat(pin) || isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.signInButtonText}>Sign In as {selectedOperator.name}</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 48,
+    paddingBottom: 24,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#5046e5',
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 5,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  operatorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#fff',
+    elevation: 1,
+  },
+  operatorRowSelected: {
+    borderColor: '#5046e5',
+  },
+  operatorDetails: {
+    marginLeft: 12,
+  },
+  operatorName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  operatorRole: {
+    fontSize: 12,
+    color: '#666',
+  },
+  pinContainer: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  pinInput: {
+    width: '60%',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    paddingVertical: 10,
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  pinInputError: {
+    borderColor: '#f44336',
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 12,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  signInButton: {
+    alignSelf: 'stretch',
+    backgroundColor: '#5046e5',
+    paddingVertical: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  disabledButton: {
+    backgroundColor: '#b4b4b4',
+  },
+  signInButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default LoginScreen;
@@ -14,10 +14,34 @@ import {
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useNFC } from '../hooks/useNFC';
 import { normalizeCardId } from '../utils/formatters';
+import { isCardRecordRejected, describeCardRecordStatus } from '../utils/cardRecord';
+import { CARD_READER_TYPES } from '../utils/cardReaders';
+import KeyboardWedgeInput from '../components/KeyboardWedgeInput';
+import QrCardScanner from '../components/QrCardScanner';
+
+// Icon (idle, scanning) and what to do, for each kind of card reader
+const READER_PROMPTS = {
+  [CARD_READER_TYPES.NFC]: {
+    icons: ['nfc', 'nfc-search-variant'],
+    hint: 'Tap the card on the back of the device'
+  },
+  [CARD_READER_TYPES.KEYBOARD]: {
+    icons: ['card-account-details-outline', 'card-search-outline'],
+    hint: 'Tap the card on the USB reader'
+  },
+  [CARD_READER_TYPES.QR]: {
+    icons: ['qrcode', 'qrcode-scan'],
+    hint: "Scan the QR code on the customer's phone"
+  },
+  [CARD_READER_TYPES.SIMULATOR]: {
+    icons: ['nfc', 'nfc-search-variant'],
+    hint: 'A virtual card will be tapped shortly'
+  }
+};
 
 const NFCScanScreen = ({ navigation, route }) => {
   const { scanPurpose, onScanComplete } = route.params || {};
-  const { isScanning, error, supported, debugInfo, startScan, cancelScan, simulateScan, showDebugInfo } = useNFC();
+  const { reader, isScanning, error, supported, debugInfo, startScan, cancelScan, simulateScan, showDebugInfo } = useNFC();
   const [manualEntryVisible, setManualEntryVisible] = useState(false);
   const [manualCardId, setManualCardId] = useState('');
   
@@ -44,6 +68,11 @@ const NFCScanScreen = ({ navigation, route }) => {
           title: 'Customer Registration',
           description: 'Scan new card to register a customer'
         };
+      case 'replacement':
+        return {
+          title: 'Replace Card',
+          description: 'Scan the new card to move the balance to'
+        };
       default:
         return {
           title: 'Scan Card',
@@ -53,6 +82,8 @@ const NFCScanScreen = ({ navigation, route }) => {
   };
   
   const purposeText = getPurposeText();
+  const readerPrompt = READER_PROMPTS[reader?.type] || READER_PROMPTS[CARD_READER_TYPES.NFC];
+  const showsCamera = reader?.type === CARD_READER_TYPES.QR && isScanning;
   
   // Start scanning when component mounts
   useEffect(() => {
@@ -71,6 +102,15 @@ const NFCScanScreen = ({ navigation, route }) => {
   // Handle scan result
   const handleScanResult = (result) => {
     if (result && result.cardId) {
+      // A card whose balance record fails its checks may be forged or cloned
+      if (isCardRecordRejected(result.cardRecord)) {
+        Alert.alert(
+          'Card Rejected',
+          `${describeCardRecordStatus(result.cardRecord)}. Do not accept this card.`
+        );
+        return;
+      }
+      
       if (onScanComplete) {
         // Use the callback from route params if provided
         onScanComplete(result);
@@ -144,29 +184,42 @@ const NFCScanScreen = ({ navigation, route }) => {
           <Text style={styles.backButtonText}>Back</Text>
         </TouchableOpacity>
         
-        <View style={styles.scanIconContainer}>
-          <Icon 
-            name={isScanning ? "nfc-search-variant" : "nfc"}
-            size={100}
-            color="#5046e5"
-          />
-          {isScanning && (
-            <ActivityIndicator 
-              size="large" 
+        {showsCamera ? (
+          <QrCardScanner reader={reader} />
+        ) : (
+          <View style={styles.scanIconContainer}>
+            <Icon 
+              name={readerPrompt.icons[isScanning ? 1 : 0]}
+              size={100}
               color="#5046e5"
-              style={styles.scanningIndicator} 
             />
-          )}
-        </View>
+            {isScanning && (
+              <ActivityIndicator 
+                size="large" 
+                color="#5046e5"
+                style={styles.scanningIndicator} 
+              />
+            )}
+          </View>
+        )}
+        
+        {/* Catches what a keyboard-wedge reader types while the scan runs */}
+        {reader?.type === CARD_READER_TYPES.KEYBOARD && isScanning && !manualEntryVisible && (
+          <KeyboardWedgeInput reader={reader} />
+        )}
         
         <Text style={styles.scanTitle}>
-          {isScanning ? 'Ready to Scan' : 'NFC Scanner'}
+          {isScanning ? 'Ready to Scan' : 'Card Scanner'}
         </Text>
         
         <Text style={styles.scanDescription}>
           {purposeText.description}
         </Text>
         
+        {isScanning && (
+          <Text style={styles.readerHint}>{readerPrompt.hint}</Text>
+        )}
+        
         {error && (
           <View style={styles.errorContainer}>
             <Icon name="alert-circle" size={24} color="#f44336" />
@@ -178,7 +231,7 @@ const NFCScanScreen = ({ navigation, route }) => {
           <View style={styles.unsupportedContainer}>
             <Icon name="nfc-off" size={24} color="#f44336" />
             <Text style={styles.unsupportedText}>
-              NFC is not supported on this device
+              {reader ? `${reader.name} is not available on this device` : 'Setting up the card reader...'}
             </Text>
           </View>
         )}
@@ -355,6 +408,13 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     paddingHorizontal: 20,
   },
+  readerHint: {
+    fontSize: 14,
+    color: '#5046e5',
+    textAlign: 'center',
+    marginTop: -16,
+    marginBottom: 24,
+  },
   errorContainer: {
     flexDirection: 'row',
     alignItems: 'center',
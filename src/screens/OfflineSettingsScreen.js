@@ -14,9 +14,43 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import { getUserSettings, saveUserSettings } from '../utils/storage';
-import { performFullSync } from '../utils/sync';
-import { shouldOperateOffline } from '../utils/network';
+import {
+  getUserSettings,
+  saveUserSettings,
+  loadSyncConflicts,
+  loadOverspendReports,
+  hasStoredAmounts
+} from '../utils/storage';
+import { retrySyncConflict, writeOffSyncConflict } from '../utils/sync';
+import { requestSync } from '../utils/syncEngine';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { formatCurrency, formatDate, formatTime, configureFormatting } from '../utils/formatters';
+import { verifyJournal } from '../utils/journal';
+import { rotateStorageKey, DEFAULT_PURGE_AFTER_DAYS } from '../utils/dataProtection';
+import { useOperator } from '../hooks/useOperator';
+import { hasPermission, describeMissingPermission, PERMISSIONS } from '../utils/operators';
+import { useBackup } from '../hooks/useBackup';
+import { EXPORT_FORMATS } from '../utils/backup';
+import {
+  CARD_READER_TYPES,
+  CARD_READER_LABELS,
+  WEDGE_FORMATS,
+  WEDGE_FORMAT_LABELS,
+  WEDGE_BYTE_ORDERS,
+  WEDGE_BYTE_ORDER_LABELS
+} from '../utils/cardReaders';
+import BackupFilePicker from '../components/BackupFilePicker';
+
+// Labels for the kinds of queued records that can end up as conflicts
+const CONFLICT_LABELS = {
+  payment: 'Payment',
+  reload: 'Reload',
+  registration: 'Registration',
+  customer_update: 'Customer update',
+  card_replacement: 'Card replacement',
+  shift_report: 'Z-report',
+};
 
 /**
  * Screen for managing offline mode settings
@@ -30,20 +64,42 @@ const OfflineSettingsScreen = () => {
     apiUrl: 'https://workspace.allanlucero29.repl.co/api',
     useSimulatedApi: true,
   });
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [isOffline, setIsOffline] = useState(false);
-  const [lastSyncTime, setLastSyncTime] = useState(null);
-
+  const { isOffline } = useConnectivity();
+  const { isSyncing, pendingCount, progress, lastSyncAt, nextRetryAt } = useSyncStatus();
+  const operator = useOperator();
+  const canResolveConflicts = hasPermission(operator, PERMISSIONS.SYNC_CONFLICTS);
+  const canChangeSettings = hasPermission(operator, PERMISSIONS.SETTINGS);
+  const [conflicts, setConflicts] = useState([]);
+  // The currency can't change once amounts are stored in it
+  const [isCurrencyLocked, setIsCurrencyLocked] = useState(true);
+  const [overspends, setOverspends] = useState([]);
+  const [resolvingConflictId, setResolvingConflictId] = useState(null);
+  const [journalCheck, setJournalCheck] = useState(null);
+  const [isVerifyingJournal, setIsVerifyingJournal] = useState(false);
+  const [isRotatingKey, setIsRotatingKey] = useState(false);
+  const [isBackupPickerVisible, setIsBackupPickerVisible] = useState(false);
+  const { isExporting, isImporting, exportData, importBackup } = useBackup();
+  
+  // Load the sync conflicts queue and the overspends the server reported
+  const loadConflicts = async () => {
+    try {
+      const savedConflicts = await loadSyncConflicts();
+      setConflicts(savedConflicts);
+      setOverspends(await loadOverspendReports());
+    } catch (error) {
+      console.error('Error loading sync conflicts:', error);
+    }
+  };
+  
   // Load settings on mount
   useEffect(() => {
     const loadSettings = async () => {
       try {
         const savedSettings = await getUserSettings();
         setSettings(savedSettings);
+        setIsCurrencyLocked(await hasStoredAmounts());
         
-        // Check if we're offline
-        const offline = await shouldOperateOffline();
-        setIsOffline(offline);
+        await loadConflicts();
         
         setIsLoading(false);
       } catch (error) {
@@ -55,7 +111,7 @@ const OfflineSettingsScreen = () => {
     
     loadSettings();
   }, []);
-
+  
   // Save settings when they change
   const handleSettingChange = async (key, value) => {
     try {
@@ -67,7 +123,13 @@ const OfflineSettingsScreen = () => {
       Alert.alert('Error', 'Failed to save settings');
     }
   };
-
+  
+  // Save a regional setting and show amounts and dates with it right away
+  const handleRegionalSettingChange = async (key, value) => {
+    configureFormatting({ ...settings, [key]: value });
+    await handleSettingChange(key, value);
+  };
+  
   // Trigger sync manually
   const handleSyncPress = async () => {
     if (isOffline) {
@@ -79,18 +141,21 @@ const OfflineSettingsScreen = () => {
       return;
     }
     
-    setIsSyncing(true);
-    
     try {
-      const result = await performFullSync(true);
+      const result = await requestSync({ force: true });
       
       if (result.success) {
         Alert.alert(
           'Sync Complete',
-          `Successfully synced ${result.transactionsSynced} transaction(s). ${result.transactionsFailed} failed.`,
+          `Successfully synced ${result.transactionsSynced} transaction(s). ${result.transactionsFailed} failed.` +
+            (result.transactionConflicts > 0 
+              ? ` ${result.transactionConflicts} rejected by the server and need review.` 
+              : '') +
+            (result.overspends?.length > 0
+              ? ` ${result.overspends.length} card(s) overspent across terminals and were flagged.`
+              : ''),
           [{ text: 'OK' }]
         );
-        setLastSyncTime(new Date());
       } else {
         Alert.alert(
           'Sync Failed',
@@ -101,10 +166,96 @@ const OfflineSettingsScreen = () => {
     } catch (error) {
       Alert.alert('Error', `Sync failed: ${error.message}`);
     } finally {
-      setIsSyncing(false);
+      loadConflicts();
     }
   };
-
+  
+  // Check the transaction journal for gaps and changed entries
+  const handleVerifyJournal = async () => {
+    setIsVerifyingJournal(true);
+    
+    try {
+      setJournalCheck(await verifyJournal());
+    } catch (error) {
+      Alert.alert('Error', `Journal check failed: ${error.message}`);
+    } finally {
+      setIsVerifyingJournal(false);
+    }
+  };
+  
+  // Re-encrypt stored data under a new key after confirmation
+  const handleRotateKey = () => {
+    Alert.alert(
+      'Rotate Encryption Key',
+      'Re-encrypt all customer data stored on this device with a new key? The old key is destroyed afterwards.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Rotate',
+          onPress: async () => {
+            setIsRotatingKey(true);
+            try {
+              await rotateStorageKey();
+              Alert.alert('Key Rotated', 'Stored data is now encrypted with the new key.');
+            } catch (error) {
+              Alert.alert('Error', `Key rotation failed: ${error.message}`);
+            } finally {
+              setIsRotatingKey(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+  
+  // Send a rejected transaction to the server again
+  const handleRetryConflict = async (conflict) => {
+    setResolvingConflictId(conflict.id);
+    
+    try {
+      const result = await retrySyncConflict(conflict.id);
+      
+      if (result.resolved) {
+        Alert.alert('Conflict Resolved', 'The transaction was accepted by the server.');
+      } else {
+        Alert.alert('Still Rejected', result.reason || 'The server rejected the transaction again.');
+      }
+    } catch (error) {
+      Alert.alert('Error', `Retry failed: ${error.message}`);
+    } finally {
+      setResolvingConflictId(null);
+      loadConflicts();
+    }
+  };
+  
+  // Accept the loss on a rejected transaction after supervisor confirmation
+  const handleWriteOffConflict = (conflict) => {
+    Alert.alert(
+      'Write Off Transaction',
+      `Write off ${formatCurrency(conflict.transaction.amount || 0)} for card ${conflict.transaction.cardId}? ` +
+        'It will not be sent to the server again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Write Off',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await writeOffSyncConflict(conflict.id, `Written off by ${operator.name}`);
+            } catch (error) {
+              Alert.alert('Error', `Write-off failed: ${error.message}`);
+            } finally {
+              loadConflicts();
+            }
+          }
+        }
+      ]
+    );
+  };
+  
+  const openConflicts = conflicts.filter(c => c.status === 'open');
+  const writtenOffCount = conflicts.length - openConflicts.length;
+  
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -113,7 +264,7 @@ const OfflineSettingsScreen = () => {
       </View>
     );
   }
-
+  
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -170,80 +321,517 @@ const OfflineSettingsScreen = () => {
             )}
           </TouchableOpacity>
           
-          {lastSyncTime && (
+          <Text style={styles.lastSyncText}>
+            {isSyncing && progress
+              ? `Sending ${progress.current} of ${progress.total}` +
+                (progress.failed > 0 ? ` (${progress.failed} failed)` : '')
+              : `${pendingCount} transaction(s) waiting to sync`}
+          </Text>
+          
+          {!isSyncing && nextRetryAt && (
+            <Text style={styles.lastSyncText}>
+              Next retry: {formatTime(nextRetryAt)}
+            </Text>
+          )}
+          
+          {lastSyncAt && (
             <Text style={styles.lastSyncText}>
-              Last synced: {lastSyncTime.toLocaleString()}
+              Last synced: {formatDate(lastSyncAt)}
             </Text>
           )}
         </View>
         
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Offline Functionality</Text>
+          <Text style={styles.sectionTitle}>Sync Conflicts</Text>
+          <Text style={styles.settingDescription}>
+            Offline transactions the server rejected during sync (for example, insufficient balance). 
+            Retry once the problem is fixed, or write the transaction off.
+          </Text>
           
-          <View style={styles.settingRow}>
-            <View style={styles.settingTextContainer}>
-              <Text style={styles.settingTitle}>Allow offline transactions</Text>
-              <Text style={styles.settingDescription}>
-                Enable processing payments and reloads while offline (transactions will be synced when online)
-              </Text>
-            </View>
-            <Switch
-              value={settings.allowOfflineTransactions}
-              onValueChange={(value) => handleSettingChange('allowOfflineTransactions', value)}
-              trackColor={{ false: '#d1d1d1', true: '#4caf50' }}
-              thumbColor={settings.allowOfflineTransactions ? '#2e7d32' : '#f5f5f5'}
-            />
-          </View>
+          {openConflicts.length > 0 && !canResolveConflicts && (
+            <Text style={styles.conflictHint}>
+              {describeMissingPermission(PERMISSIONS.SYNC_CONFLICTS)}.
+            </Text>
+          )}
+          
+          {openConflicts.length === 0 ? (
+            <Text style={styles.emptyConflictsText}>No unresolved conflicts</Text>
+          ) : (
+            openConflicts.map(conflict => (
+              <View key={conflict.id} style={styles.conflictRow}>
+                <View style={styles.conflictHeader}>
+                  <Text style={styles.settingTitle}>
+                    {CONFLICT_LABELS[conflict.transaction.type] || 'Transaction'}{' '}
+                    {formatCurrency(conflict.transaction.amount || 0)}
+                  </Text>
+                  <Text style={styles.conflictDate}>
+                    {formatDate(conflict.transaction.createdAt)}
+                  </Text>
+                </View>
+                <Text style={styles.settingDescription}>
+                  Card: {conflict.transaction.cardId}
+                </Text>
+                <Text style={styles.conflictReason}>{conflict.reason}</Text>
+                
+                {canResolveConflicts && (
+                  <View style={styles.conflictActions}>
+                    <TouchableOpacity
+                      style={[
+                        styles.conflictButton,
+                        (isOffline || resolvingConflictId) && styles.syncButtonDisabled
+                      ]}
+                      onPress={() => handleRetryConflict(conflict)}
+                      disabled={isOffline || !!resolvingConflictId}
+                    >
+                      {resolvingConflictId === conflict.id ? (
+                        <ActivityIndicator size="small" color="#fff" />
+                      ) : (
+                        <Text style={styles.conflictButtonText}>Retry</Text>
+                      )}
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.conflictButton, styles.writeOffButton]}
+                      onPress={() => handleWriteOffConflict(conflict)}
+                      disabled={!!resolvingConflictId}
+                    >
+                      <Text style={styles.conflictButtonText}>Write Off</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))
+          )}
+          
+          {writtenOffCount > 0 && (
+            <Text style={styles.lastSyncText}>
+              {writtenOffCount} conflict(s) written off
+            </Text>
+          )}
         </View>
         
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>API Configuration</Text>
-          
-          <View style={styles.inputContainer}>
-            <Text style={styles.settingTitle}>API URL</Text>
+        {overspends.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Cross-Terminal Overspends</Text>
             <Text style={styles.settingDescription}>
-              Enter the URL of your API server (e.g., https://your-project.replit.app/api)
+              Cards whose offline payments on several terminals added up to more than their balance. 
+              They are refused offline on this terminal until the server issues them a new allowance.
             </Text>
-            <TextInput
-              style={styles.textInput}
-              value={settings.apiUrl}
-              onChangeText={(value) => handleSettingChange('apiUrl', value)}
-              placeholder="Enter API URL"
-              autoCapitalize="none"
-              autoCorrect={false}
-            />
+            
+            {overspends.map(report => (
+              <View key={report.id} style={styles.conflictRow}>
+                <View style={styles.conflictHeader}>
+                  <Text style={styles.settingTitle}>
+                    Card {report.cardId}: overdrawn by {formatCurrency(report.overdrawnBy)}
+                  </Text>
+                  <Text style={styles.conflictDate}>{formatDate(report.detectedAt)}</Text>
+                </View>
+                {report.transactions.map(t => (
+                  <Text key={t.transactionId} style={styles.settingDescription}>
+                    {t.terminalId || 'Unknown terminal'} #{t.sequenceNumber ?? '?'}: {formatCurrency(t.amount)}
+                    {t.createdAt ? ` on ${formatDate(t.createdAt)}` : ''}
+                  </Text>
+                ))}
+              </View>
+            ))}
           </View>
+        )}
+        
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Transaction Journal</Text>
+          <Text style={styles.settingDescription}>
+            Every offline transaction and its sync outcome is recorded in a signed, chained journal that is 
+            uploaded on sync. Check it for missing or changed entries when an offline sale is disputed.
+          </Text>
           
-          <View style={styles.settingRow}>
-            <View style={styles.settingTextContainer}>
-              <Text style={styles.settingTitle}>Use Simulated API</Text>
-              <Text style={styles.settingDescription}>
-                Enable to use mock data for testing (no internet connection required)
-              </Text>
+          {journalCheck && (
+            <View style={styles.journalResult}>
+              {journalCheck.valid ? (
+                <Text style={styles.emptyConflictsText}>
+                  Journal intact: {journalCheck.entryCount} entries, {journalCheck.uploadedSeq} uploaded
+                </Text>
+              ) : (
+                journalCheck.issues.map((issue, index) => (
+                  <Text key={`${issue.seq}-${index}`} style={styles.conflictReason}>
+                    {issue.message}
+                  </Text>
+                ))
+              )}
+              {journalCheck.rejection && (
+                <Text style={styles.conflictReason}>
+                  Server refused the last upload: {journalCheck.rejection.message}
+                </Text>
+              )}
             </View>
-            <Switch
-              value={settings.useSimulatedApi}
-              onValueChange={(value) => handleSettingChange('useSimulatedApi', value)}
-              trackColor={{ false: '#d1d1d1', true: '#4caf50' }}
-              thumbColor={settings.useSimulatedApi ? '#2e7d32' : '#f5f5f5'}
-            />
-          </View>
+          )}
           
           <TouchableOpacity
-            style={styles.testButton}
-            onPress={() => {
-              // Show a message explaining the setting will take effect after restart
-              Alert.alert(
-                'API Configuration',
-                'API configuration changes will take effect after restarting the app.',
-                [{ text: 'OK' }]
-              );
-            }}
+            style={[styles.testButton, isVerifyingJournal && styles.syncButtonDisabled]}
+            onPress={handleVerifyJournal}
+            disabled={isVerifyingJournal}
           >
-            <Text style={styles.testButtonText}>Save API Configuration</Text>
+            {isVerifyingJournal ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.testButtonText}>Verify Journal</Text>
+            )}
           </TouchableOpacity>
         </View>
         
+        {canChangeSettings && (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Offline Functionality</Text>
+              
+              <View style={styles.settingRow}>
+                <View style={styles.settingTextContainer}>
+                  <Text style={styles.settingTitle}>Allow offline transactions</Text>
+                  <Text style={styles.settingDescription}>
+                    Enable processing payments and reloads while offline (transactions will be synced when online)
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.allowOfflineTransactions}
+                  onValueChange={(value) => handleSettingChange('allowOfflineTransactions', value)}
+                  trackColor={{ false: '#d1d1d1', true: '#4caf50' }}
+                  thumbColor={settings.allowOfflineTransactions ? '#2e7d32' : '#f5f5f5'}
+                />
+              </View>
+            </View>
+            
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>API Configuration</Text>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>API URL</Text>
+                <Text style={styles.settingDescription}>
+                  Enter the URL of your API server (e.g., https://your-project.replit.app/api)
+                </Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.apiUrl}
+                  onChangeText={(value) => handleSettingChange('apiUrl', value)}
+                  placeholder="Enter API URL"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+              
+              <View style={styles.settingRow}>
+                <View style={styles.settingTextContainer}>
+                  <Text style={styles.settingTitle}>Use Simulated API</Text>
+                  <Text style={styles.settingDescription}>
+                    Enable to use mock data for testing (no internet connection required)
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.useSimulatedApi}
+                  onValueChange={(value) => handleSettingChange('useSimulatedApi', value)}
+                  trackColor={{ false: '#d1d1d1', true: '#4caf50' }}
+                  thumbColor={settings.useSimulatedApi ? '#2e7d32' : '#f5f5f5'}
+                />
+              </View>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Card signing key</Text>
+                <Text style={styles.settingDescription}>
+                  Shared secret used to sign and verify the balance records written to cards. Use the same key on every terminal; leave empty to use UID-only cards.
+                </Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.cardSigningKey || ''}
+                  onChangeText={(value) => handleSettingChange('cardSigningKey', value)}
+                  placeholder="Enter signing key"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  secureTextEntry={true}
+                />
+              </View>
+              
+              <TouchableOpacity
+                style={styles.testButton}
+                onPress={() => {
+                  // Show a message explaining the setting will take effect after restart
+                  Alert.alert(
+                    'API Configuration',
+                    'API configuration changes will take effect after restarting the app.',
+                    [{ text: 'OK' }]
+                  );
+                }}
+              >
+                <Text style={styles.testButtonText}>Save API Configuration</Text>
+              </TouchableOpacity>
+            </View>
+            
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Card Reader</Text>
+              <Text style={styles.settingDescription}>
+                How cards are read: the device's NFC, a USB reader that types the card ID, QR codes shown 
+                on customers' phones (needs the card signing key), or virtual cards for testing.
+              </Text>
+              
+              <View style={styles.optionRow}>
+                {Object.values(CARD_READER_TYPES).map(type => {
+                  const selected = (settings.cardReader || CARD_READER_TYPES.NFC) === type;
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      style={[styles.optionButton, selected && styles.optionButtonSelected]}
+                      onPress={() => handleSettingChange('cardReader', type)}
+                    >
+                      <Text style={[styles.optionButtonText, selected && styles.optionButtonTextSelected]}>
+                        {CARD_READER_LABELS[type]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              
+              {settings.cardReader === CARD_READER_TYPES.KEYBOARD && (
+                <View style={styles.inputContainer}>
+                  <Text style={styles.settingTitle}>USB reader format</Text>
+                  <Text style={styles.settingDescription}>
+                    How the reader types the card UID. Match the reader's manual so cards keep the card ID they have with NFC.
+                  </Text>
+                  <View style={styles.optionRow}>
+                    {Object.values(WEDGE_FORMATS).map(format => {
+                      const selected = (settings.wedgeFormat || WEDGE_FORMATS.HEX) === format;
+                      return (
+                        <TouchableOpacity
+                          key={format}
+                          style={[styles.optionButton, selected && styles.optionButtonSelected]}
+                          onPress={() => handleSettingChange('wedgeFormat', format)}
+                        >
+                          <Text style={[styles.optionButtonText, selected && styles.optionButtonTextSelected]}>
+                            {WEDGE_FORMAT_LABELS[format]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <View style={styles.optionRow}>
+                    {Object.values(WEDGE_BYTE_ORDERS).map(byteOrder => {
+                      const selected = (settings.wedgeByteOrder || WEDGE_BYTE_ORDERS.MSB_FIRST) === byteOrder;
+                      return (
+                        <TouchableOpacity
+                          key={byteOrder}
+                          style={[styles.optionButton, selected && styles.optionButtonSelected]}
+                          onPress={() => handleSettingChange('wedgeByteOrder', byteOrder)}
+                        >
+                          <Text style={[styles.optionButtonText, selected && styles.optionButtonTextSelected]}>
+                            {WEDGE_BYTE_ORDER_LABELS[byteOrder]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+              
+              {settings.cardReader === CARD_READER_TYPES.SIMULATOR && (
+                <View style={styles.inputContainer}>
+                  <Text style={styles.settingTitle}>Simulated cards</Text>
+                  <Text style={styles.settingDescription}>
+                    Card UIDs tapped in turn, one per scan, separated by commas. New random cards are tapped after the last one.
+                  </Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={settings.simulatedCards || ''}
+                    onChangeText={(value) => handleSettingChange('simulatedCards', value)}
+                    placeholder="e.g. 04A22C5A8B5E80, 12345"
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                  />
+                </View>
+              )}
+            </View>
+            
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Receipts</Text>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Merchant name</Text>
+                <Text style={styles.settingDescription}>Printed at the top of every receipt</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.merchantName || ''}
+                  onChangeText={(value) => handleSettingChange('merchantName', value)}
+                  placeholder="NFC Pay"
+                />
+              </View>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Merchant address</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.merchantAddress || ''}
+                  onChangeText={(value) => handleSettingChange('merchantAddress', value)}
+                  placeholder="Street, city"
+                />
+              </View>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Merchant phone</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.merchantPhone || ''}
+                  onChangeText={(value) => handleSettingChange('merchantPhone', value)}
+                  placeholder="Phone number"
+                />
+              </View>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Receipt footer</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.receiptFooter || ''}
+                  onChangeText={(value) => handleSettingChange('receiptFooter', value)}
+                  placeholder="Thank you!"
+                />
+              </View>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Printer address</Text>
+                <Text style={styles.settingDescription}>
+                  Network receipt printer as host or host:port (port 9100 if omitted). Leave empty to save printed receipts to files on this device.
+                </Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.printerAddress || ''}
+                  onChangeText={(value) => handleSettingChange('printerAddress', value)}
+                  placeholder="e.g. 192.168.1.50:9100"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+            </View>
+            
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Regional Settings</Text>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Currency</Text>
+                <Text style={styles.settingDescription}>
+                  {isCurrencyLocked
+                    ? 'ISO currency code amounts are kept in. Amounts are already stored in it on this terminal, so it can no longer be changed.'
+                    : 'ISO currency code amounts are kept in. Must match the server. It can only be changed before any amounts are stored.'}
+                </Text>
+                <TextInput
+                  style={[styles.textInput, isCurrencyLocked && styles.textInputLocked]}
+                  value={settings.currency || ''}
+                  editable={!isCurrencyLocked}
+                  onChangeText={(value) => handleRegionalSettingChange('currency', value.toUpperCase())}
+                  placeholder="PHP"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  maxLength={3}
+                />
+              </View>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Locale</Text>
+                <Text style={styles.settingDescription}>How amounts and dates are written</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.locale || ''}
+                  onChangeText={(value) => handleRegionalSettingChange('locale', value)}
+                  placeholder="en-PH"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Time zone</Text>
+                <Text style={styles.settingDescription}>
+                  Time zone dates are shown in. Leave empty to use the device's.
+                </Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={settings.timeZone || ''}
+                  onChangeText={(value) => handleRegionalSettingChange('timeZone', value)}
+                  placeholder="e.g. Asia/Manila"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+            </View>
+            
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Data Protection</Text>
+              <Text style={styles.settingDescription}>
+                Customer data and transactions stored on this device are encrypted. If the device is 
+                reported lost, it is wiped the next time it syncs.
+              </Text>
+              
+              <View style={styles.inputContainer}>
+                <Text style={styles.settingTitle}>Purge after days without sync</Text>
+                <Text style={styles.settingDescription}>
+                  Cached customers and transaction history are deleted when the device hasn't synced for this 
+                  many days. Unsynced sales are kept. Use 0 to keep cached data indefinitely.
+                </Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={String(settings.purgeAfterDays ?? DEFAULT_PURGE_AFTER_DAYS)}
+                  onChangeText={(value) => handleSettingChange('purgeAfterDays', parseInt(value.replace(/[^0-9]/g, ''), 10) || 0)}
+                  keyboardType="number-pad"
+                />
+              </View>
+              
+              <TouchableOpacity
+                style={[styles.testButton, isRotatingKey && styles.syncButtonDisabled]}
+                onPress={handleRotateKey}
+                disabled={isRotatingKey}
+              >
+                {isRotatingKey ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.testButtonText}>Rotate Encryption Key</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+            
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Backup & Export</Text>
+              <Text style={styles.settingDescription}>
+                Back up unsynced transactions, history and customers so they can be restored on another 
+                terminal if this one fails before it syncs. Backup files are not encrypted: keep them safe.
+              </Text>
+              
+              <TouchableOpacity
+                style={[styles.testButton, (isExporting || isImporting) && styles.syncButtonDisabled]}
+                onPress={() => exportData(EXPORT_FORMATS.JSON)}
+                disabled={isExporting || isImporting}
+              >
+                {isExporting ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.testButtonText}>Export Backup (JSON)</Text>
+                )}
+              </TouchableOpacity>
+              
+              <TouchableOpacity
+                style={[styles.testButton, (isExporting || isImporting) && styles.syncButtonDisabled]}
+                onPress={() => exportData(EXPORT_FORMATS.CSV)}
+                disabled={isExporting || isImporting}
+              >
+                <Text style={styles.testButtonText}>Export for Accounting (CSV)</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity
+                style={[styles.testButton, (isExporting || isImporting) && styles.syncButtonDisabled]}
+                onPress={() => setIsBackupPickerVisible(true)}
+                disabled={isExporting || isImporting}
+              >
+                {isImporting ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.testButtonText}>Import Backup</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+        
         <View style={styles.infoSection}>
           <Icon name="info-outline" size={20} color="#0066cc" />
           <Text style={styles.infoText}>
@@ -251,6 +839,15 @@ const OfflineSettingsScreen = () => {
           </Text>
         </View>
       </ScrollView>
+      
+      <BackupFilePicker
+        visible={isBackupPickerVisible}
+        onSelect={(file) => {
+          setIsBackupPickerVisible(false);
+          importBackup(file);
+        }}
+        onClose={() => setIsBackupPickerVisible(false)}
+      />
     </View>
   );
 };
@@ -377,6 +974,30 @@ const styles = StyleSheet.create({
   inputContainer: {
     marginBottom: 16,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  optionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionButtonSelected: {
+    backgroundColor: '#5046E5',
+  },
+  optionButtonText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  optionButtonTextSelected: {
+    color: '#fff',
+  },
   textInput: {
     height: 44,
     borderWidth: 1,
@@ -387,6 +1008,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     backgroundColor: '#fff',
   },
+  textInputLocked: {
+    backgroundColor: '#f0f0f0',
+    color: '#999',
+  },
   testButton: {
     backgroundColor: '#5046E5',
     padding: 12,
@@ -399,6 +1024,62 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  emptyConflictsText: {
+    fontSize: 14,
+    color: '#4caf50',
+    marginTop: 12,
+  },
+  conflictHint: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  conflictRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  conflictDate: {
+    fontSize: 12,
+    color: '#666',
+  },
+  conflictReason: {
+    fontSize: 13,
+    color: '#f44336',
+    marginTop: 4,
+  },
+  journalResult: {
+    marginTop: 4,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  conflictButton: {
+    backgroundColor: '#0066cc',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 6,
+    marginLeft: 8,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  writeOffButton: {
+    backgroundColor: '#f44336',
+  },
+  conflictButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
 });
 
 export default OfflineSettingsScreen;
\ No newline at end of file
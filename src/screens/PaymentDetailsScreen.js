@@ -12,40 +12,98 @@ import {
   Platform 
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
-import { transactionAPI } from '../api/api';
+import { 
+  transactionAPI, 
+  productAPI, 
+  PinRequiredError, 
+  InvalidPinError, 
+  CardLockedError, 
+  SpendingLimitError 
+} from '../api/api';
 import { formatCurrency } from '../utils/formatters';
+import { parseMoney, compareMoney } from '../utils/money';
+import { projectCustomerBalance } from '../utils/ledger';
+import { 
+  addCartItem, 
+  setCartItemQuantity, 
+  removeCartItem, 
+  getCartTotal, 
+  getLineTotal, 
+  describeCart 
+} from '../utils/cart';
+import { isPinRequired } from '../utils/cardSecurity';
+import ProductPicker from '../components/ProductPicker';
+import PinPrompt from '../components/PinPrompt';
 import { z } from 'zod';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 
-// Common payment options/descriptions
-const PAYMENT_OPTIONS = [
-  { description: 'Product Purchase', amount: 100 },
-  { description: 'Service Fee', amount: 50 },
-  { description: 'Membership Fee', amount: 200 },
-  { description: 'Subscription', amount: 150 },
-];
-
-// Form validation schema
-const formSchema = z.object({
+// Validation schema for a single cart line
+const cartItemSchema = z.object({
+  description: z
+    .string()
+    .trim()
+    .min(1, { message: 'Description is required' }),
   amount: z
     .number({ 
       required_error: 'Amount is required',
       invalid_type_error: 'Please enter a valid amount'
     })
+    .int()
     .min(1, { message: 'Amount must be greater than 0' }),
-  description: z
-    .string()
-    .min(1, { message: 'Description is required' })
+  quantity: z
+    .number()
+    .int()
+    .min(1),
+  productId: z.union([z.number(), z.string()]).optional(),
+  sku: z.string().optional()
+});
+
+// Form validation schema
+const formSchema = z.object({
+  items: z
+    .array(cartItemSchema)
+    .min(1, { message: 'Add at least one item' })
 });
 
 const PaymentDetailsScreen = ({ navigation, route }) => {
   const { scanResult, customer } = route.params || {};
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
-
+  // Custom item entry, added to the cart with the Add button. The amount
+  // is kept as typed and read into minor units when the item is added.
+  const [customDescription, setCustomDescription] = useState('');
+  const [customAmount, setCustomAmount] = useState('');
+  const [customItemError, setCustomItemError] = useState('');
+  // Product catalog for the picker
+  const [products, setProducts] = useState([]);
+  const [isLoadingProducts, setIsLoadingProducts] = useState(true);
+  const [isPickerVisible, setIsPickerVisible] = useState(false);
+  // Payment waiting for the customer's PIN, and why the last PIN failed
+  const [pendingPayment, setPendingPayment] = useState(null);
+  const [pinError, setPinError] = useState('');
+  // Projected balance: confirmed balance plus anything still pending sync
+  const [availableBalance, setAvailableBalance] = useState(customer?.balance || 0);
+  
+  // Re-project the balance in case transactions were queued since the
+  // customer was looked up
+  useEffect(() => {
+    if (!customer) return;
+    
+    projectCustomerBalance(customer)
+      .then(projected => setAvailableBalance(projected.balance))
+      .catch(error => console.error('Error projecting customer balance:', error));
+  }, [customer]);
+  
+  // Load the product catalog (served from the offline cache when offline)
+  useEffect(() => {
+    productAPI.getAll()
+      .then(setProducts)
+      .catch(error => console.error('Error loading product catalog:', error))
+      .finally(() => setIsLoadingProducts(false));
+  }, []);
+  
   const { 
-    control, 
     handleSubmit, 
     formState: { errors },
     setValue,
@@ -53,52 +111,91 @@ const PaymentDetailsScreen = ({ navigation, route }) => {
   } = useForm({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      amount: '',
-      description: ''
+      items: []
     }
   });
-
-  // Watch the amount field to check if it exceeds balance
-  const amount = watch('amount');
   
-  // Check if the amount exceeds available balance
+  // Watch the cart to keep the subtotal current
+  const items = watch('items');
+  const subtotal = getCartTotal(items);
+  
+  // Check if the subtotal exceeds available balance
   useEffect(() => {
-    if (amount && amount > (customer?.balance || 0)) {
-      setErrorMessage('Amount exceeds available balance');
+    if (compareMoney(subtotal, availableBalance) > 0) {
+      setErrorMessage('Subtotal exceeds available balance');
     } else {
       setErrorMessage('');
     }
-  }, [amount, customer]);
-
+  }, [subtotal, availableBalance]);
+  
+  // Replace the cart contents and re-validate
+  const updateItems = (nextItems) => {
+    setValue('items', nextItems, { shouldValidate: true });
+  };
+  
+  // Quantity of each catalog product already in the cart
+  const cartQuantities = items.reduce((quantities, item) => {
+    if (item.productId != null) {
+      quantities[item.productId] = (quantities[item.productId] || 0) + item.quantity;
+    }
+    return quantities;
+  }, {});
+  
+  // Whether one more unit of a cart line can be added without exceeding stock
+  const canIncrease = (item) => {
+    const product = item.productId != null && products.find(p => p.id === item.productId);
+    return !product || product.stock == null || cartQuantities[product.id] < product.stock;
+  };
+  
   // Handle form submission
   const onSubmit = async (data) => {
+    const total = getCartTotal(data.items);
+    
+    // Check if the total exceeds available balance
+    if (compareMoney(total, availableBalance) > 0) {
+      Alert.alert(
+        "Insufficient Balance",
+        "The payment amount exceeds the available balance. Please reload the account or reduce the amount.",
+        [
+          {
+            text: "OK"
+          }
+        ]
+      );
+      return;
+    }
+    
+    // Format the data for the API
+    const paymentData = {
+      cardId: scanResult?.cardId,
+      amount: total,
+      description: describeCart(data.items),
+      items: data.items,
+      customerId: customer?.id,
+      // Checked balance record read from the card, used by offline payments
+      cardRecord: scanResult?.cardRecord,
+      // The card QR code the customer showed, which this payment uses up
+      cardToken: scanResult?.cardToken
+    };
+    
+    // Cards with a PIN need it for payments above their threshold
+    if (isPinRequired(customer, total)) {
+      setPinError('');
+      setPendingPayment(paymentData);
+      return;
+    }
+    
+    await submitPayment(paymentData);
+  };
+  
+  // Send the payment, showing PIN and limit problems without leaving the cart
+  const submitPayment = async (paymentData) => {
     try {
-      // Check if the amount exceeds available balance
-      if (data.amount > (customer?.balance || 0)) {
-        Alert.alert(
-          "Insufficient Balance",
-          "The payment amount exceeds the available balance. Please reload the account or reduce the amount.",
-          [
-            {
-              text: "OK"
-            }
-          ]
-        );
-        return;
-      }
-
       setIsSubmitting(true);
       
-      // Format the data for the API
-      const paymentData = {
-        cardId: scanResult?.cardId,
-        amount: data.amount,
-        description: data.description,
-        customerId: customer?.id
-      };
-      
       // Call the API to process the payment
       const result = await transactionAPI.processPayment(paymentData);
+      setPendingPayment(null);
       
       if (result?.success) {
         // Navigate to success screen
@@ -113,7 +210,8 @@ const PaymentDetailsScreen = ({ navigation, route }) => {
           success: false,
           transaction: result?.transaction || {
             errorMessage: "Failed to process payment",
-            amount: data.amount,
+            amount: paymentData.amount,
+            items: paymentData.items,
             customerName: `${customer?.firstName} ${customer?.lastName}`
           }
         });
@@ -121,12 +219,36 @@ const PaymentDetailsScreen = ({ navigation, route }) => {
     } catch (error) {
       console.error('Error processing payment:', error);
       
+      // The server asked for a PIN the cached settings didn't know about
+      if (error instanceof PinRequiredError) {
+        setPinError('');
+        setPendingPayment(paymentData);
+        return;
+      }
+      
+      // Let the customer try again
+      if (error instanceof InvalidPinError) {
+        setPinError(error.message);
+        return;
+      }
+      
+      setPendingPayment(null);
+      
+      if (error instanceof CardLockedError || error instanceof SpendingLimitError) {
+        Alert.alert(
+          error instanceof CardLockedError ? "Card Locked" : "Spending Limit Reached",
+          error.message
+        );
+        return;
+      }
+      
       // Navigate to error screen
       navigation.navigate('PaymentResult', { 
         success: false,
         transaction: {
-          errorMessage: error.response?.data?.message || "An unexpected error occurred",
-          amount: data.amount,
+          errorMessage: error.message || "An unexpected error occurred",
+          amount: paymentData.amount,
+          items: paymentData.items,
           customerName: `${customer?.firstName} ${customer?.lastName}`
         }
       });
@@ -134,13 +256,37 @@ const PaymentDetailsScreen = ({ navigation, route }) => {
       setIsSubmitting(false);
     }
   };
-
-  // Handle selecting a preset payment option
-  const handleSelectPaymentOption = (option) => {
-    setValue('amount', option.amount);
-    setValue('description', option.description);
+  
+  // Handle picking a product from the catalog
+  const handleSelectProduct = (product) => {
+    updateItems(addCartItem(items, {
+      description: product.name,
+      amount: product.price,
+      productId: product.id,
+      sku: product.sku
+    }));
+    setIsPickerVisible(false);
   };
-
+  
+  // Handle adding the custom item to the cart
+  const handleAddCustomItem = () => {
+    const parsed = cartItemSchema.safeParse({
+      description: customDescription,
+      amount: parseMoney(customAmount) ?? undefined,
+      quantity: 1
+    });
+    
+    if (!parsed.success) {
+      setCustomItemError(parsed.error.issues[0].message);
+      return;
+    }
+    
+    updateItems(addCartItem(items, parsed.data));
+    setCustomDescription('');
+    setCustomAmount('');
+    setCustomItemError('');
+  };
+  
   return (
     <KeyboardAvoidingView
       style={{ flex: 1 }}
@@ -181,98 +327,120 @@ const PaymentDetailsScreen = ({ navigation, route }) => {
             <View style={styles.balanceContainer}>
               <Text style={styles.balanceLabel}>Available Balance:</Text>
               <Text style={styles.balanceValue}>
-                {formatCurrency(customer?.balance || 0)}
+                {formatCurrency(availableBalance)}
               </Text>
             </View>
           </View>
           
           <View style={styles.paymentCard}>
-            <Text style={styles.cardTitle}>Payment Information</Text>
+            <Text style={styles.cardTitle}>Cart</Text>
             
-            <View style={styles.formGroup}>
-              <Text style={styles.label}>Amount <Text style={styles.required}>*</Text></Text>
-              <Controller
-                control={control}
-                name="amount"
-                render={({ field: { onChange, onBlur, value } }) => (
-                  <TextInput
-                    style={[
-                      styles.input, 
-                      (errors.amount || errorMessage) && styles.inputError
-                    ]}
-                    placeholder="Enter amount"
-                    keyboardType="numeric"
-                    onBlur={onBlur}
-                    onChangeText={(text) => {
-                      const parsed = parseFloat(text.replace(/[^0-9.]/g, ''));
-                      if (!isNaN(parsed)) {
-                        onChange(parsed);
-                      } else {
-                        onChange('');
-                      }
-                    }}
-                    value={value ? value.toString() : ''}
-                  />
-                )}
-              />
-              {errors.amount && (
-                <Text style={styles.errorText}>{errors.amount.message}</Text>
-              )}
-              {!errors.amount && errorMessage && (
-                <Text style={styles.errorText}>{errorMessage}</Text>
-              )}
+            {items.length === 0 ? (
+              <Text style={styles.emptyCartText}>
+                No items yet. Pick a quick option or add a custom item below.
+              </Text>
+            ) : (
+              items.map((item, index) => (
+                <View key={`${item.description}-${item.amount}`} style={styles.cartLine}>
+                  <View style={styles.cartLineInfo}>
+                    <Text style={styles.cartLineDescription}>{item.description}</Text>
+                    <Text style={styles.cartLineUnitPrice}>
+                      {formatCurrency(item.amount)} each
+                    </Text>
+                  </View>
+                  <View style={styles.quantityControls}>
+                    <TouchableOpacity
+                      style={styles.quantityButton}
+                      onPress={() => updateItems(setCartItemQuantity(items, index, item.quantity - 1))}
+                    >
+                      <Icon name="minus" size={16} color="#333" />
+                    </TouchableOpacity>
+                    <Text style={styles.quantityText}>{item.quantity}</Text>
+                    <TouchableOpacity
+                      style={[styles.quantityButton, !canIncrease(item) && styles.quantityButtonDisabled]}
+                      onPress={() => updateItems(setCartItemQuantity(items, index, item.quantity + 1))}
+                      disabled={!canIncrease(item)}
+                    >
+                      <Icon name="plus" size={16} color="#333" />
+                    </TouchableOpacity>
+                  </View>
+                  <Text style={styles.cartLineTotal}>{formatCurrency(getLineTotal(item))}</Text>
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => updateItems(removeCartItem(items, index))}
+                  >
+                    <Icon name="delete-outline" size={20} color="#f44336" />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+            
+            <View style={styles.subtotalRow}>
+              <Text style={styles.subtotalLabel}>Subtotal</Text>
+              <Text style={[styles.subtotalValue, !!errorMessage && styles.subtotalValueError]}>
+                {formatCurrency(subtotal)}
+              </Text>
             </View>
+            {errors.items && (
+              <Text style={styles.errorText}>{errors.items.message}</Text>
+            )}
+            {!errors.items && errorMessage && (
+              <Text style={styles.errorText}>{errorMessage}</Text>
+            )}
+          </View>
+          
+          <View style={styles.paymentCard}>
+            <Text style={styles.cardTitle}>Add Items</Text>
             
             <View style={styles.formGroup}>
-              <Text style={styles.label}>Description <Text style={styles.required}>*</Text></Text>
-              <Controller
-                control={control}
-                name="description"
-                render={({ field: { onChange, onBlur, value } }) => (
-                  <TextInput
-                    style={[styles.input, errors.description && styles.inputError]}
-                    placeholder="Enter payment description"
-                    onBlur={onBlur}
-                    onChangeText={onChange}
-                    value={value}
-                  />
-                )}
-              />
-              {errors.description && (
-                <Text style={styles.errorText}>{errors.description.message}</Text>
+              <Text style={styles.label}>Custom Item</Text>
+              <View style={styles.customItemRow}>
+                <TextInput
+                  style={[styles.input, styles.customDescriptionInput, !!customItemError && styles.inputError]}
+                  placeholder="Description"
+                  onChangeText={setCustomDescription}
+                  value={customDescription}
+                />
+                <TextInput
+                  style={[styles.input, styles.customAmountInput, !!customItemError && styles.inputError]}
+                  placeholder="Amount"
+                  keyboardType="numeric"
+                  onChangeText={(text) => setCustomAmount(text.replace(/[^0-9.]/g, ''))}
+                  value={customAmount}
+                />
+                <TouchableOpacity style={styles.addItemButton} onPress={handleAddCustomItem}>
+                  <Icon name="plus" size={20} color="#fff" />
+                </TouchableOpacity>
+              </View>
+              {!!customItemError && (
+                <Text style={styles.errorText}>{customItemError}</Text>
               )}
             </View>
             
-            <Text style={styles.quickOptionsTitle}>Quick Options:</Text>
-            <View style={styles.quickOptions}>
-              {PAYMENT_OPTIONS.map((option, index) => (
-                <TouchableOpacity
-                  key={index}
-                  style={styles.quickOption}
-                  onPress={() => handleSelectPaymentOption(option)}
-                >
-                  <Text style={styles.quickOptionTitle}>{option.description}</Text>
-                  <Text style={styles.quickOptionAmount}>
-                    {formatCurrency(option.amount)}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </View>
+            <TouchableOpacity
+              style={styles.browseButton}
+              onPress={() => setIsPickerVisible(true)}
+            >
+              <Icon name="store-search-outline" size={20} color="#5046e5" />
+              <Text style={styles.browseButtonText}>Browse Catalog</Text>
+            </TouchableOpacity>
           </View>
           
           <View style={styles.actionsContainer}>
             <TouchableOpacity
               style={[
                 styles.submitButton, 
-                (isSubmitting || !!errorMessage) && styles.disabledButton
+                (isSubmitting || !!errorMessage || items.length === 0) && styles.disabledButton
               ]}
               onPress={handleSubmit(onSubmit)}
-              disabled={isSubmitting || !!errorMessage}
+              disabled={isSubmitting || !!errorMessage || items.length === 0}
             >
               {isSubmitting ? (
                 <ActivityIndicator size="small" color="#fff" />
               ) : (
-                <Text style={styles.submitButtonText}>Process Payment</Text>
+                <Text style={styles.submitButtonText}>
+                  Charge {formatCurrency(subtotal)}
+                </Text>
               )}
             </TouchableOpacity>
             
@@ -286,6 +454,24 @@ const PaymentDetailsScreen = ({ navigation, route }) => {
           </View>
         </ScrollView>
       </View>
+      
+      <ProductPicker
+        visible={isPickerVisible}
+        products={products}
+        isLoading={isLoadingProducts}
+        cartQuantities={cartQuantities}
+        onSelect={handleSelectProduct}
+        onClose={() => setIsPickerVisible(false)}
+      />
+      
+      <PinPrompt
+        visible={!!pendingPayment}
+        amount={pendingPayment?.amount}
+        error={pinError}
+        isSubmitting={isSubmitting}
+        onSubmit={(pin) => submitPayment({ ...pendingPayment, pin })}
+        onCancel={() => setPendingPayment(null)}
+      />
     </KeyboardAvoidingView>
   );
 };
@@ -420,35 +606,118 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
-  quickOptionsTitle: {
+  emptyCartText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  cartLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  cartLineInfo: {
+    flex: 1,
+  },
+  cartLineDescription: {
     fontSize: 14,
     fontWeight: '500',
     color: '#333',
-    marginBottom: 8,
   },
-  quickOptions: {
+  cartLineUnitPrice: {
+    fontSize: 12,
+    color: '#666',
+  },
+  quantityControls: {
     flexDirection: 'row',
-    flexWrap: 'wrap',
-    marginHorizontal: -4,
+    alignItems: 'center',
+    marginHorizontal: 8,
   },
-  quickOption: {
-    width: '46%',
+  quantityButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
     backgroundColor: '#f0f0f0',
-    borderRadius: 4,
-    padding: 10,
-    margin: '2%',
-    borderWidth: 1,
-    borderColor: '#ddd',
+    justifyContent: 'center',
+    alignItems: 'center',
   },
-  quickOptionTitle: {
-    fontSize: 12,
+  quantityButtonDisabled: {
+    opacity: 0.4,
+  },
+  quantityText: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: 'bold',
     color: '#333',
-    marginBottom: 4,
   },
-  quickOptionAmount: {
+  cartLineTotal: {
+    width: 80,
+    textAlign: 'right',
     fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  subtotalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 12,
+  },
+  subtotalLabel: {
+    fontSize: 16,
     fontWeight: 'bold',
-    color: '#2F855A',
+    color: '#333',
+  },
+  subtotalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#5046e5',
+  },
+  subtotalValueError: {
+    color: '#f44336',
+  },
+  customItemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  customDescriptionInput: {
+    flex: 2,
+    marginRight: 8,
+  },
+  customAmountInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  addItemButton: {
+    backgroundColor: '#5046e5',
+    width: 40,
+    height: 40,
+    borderRadius: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  browseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#5046e5',
+  },
+  browseButtonText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#5046e5',
   },
   actionsContainer: {
     marginTop: 16,
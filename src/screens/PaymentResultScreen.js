@@ -1,17 +1,57 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   View, 
   Text, 
   StyleSheet, 
   TouchableOpacity,
-  ScrollView 
+  ScrollView,
+  ActivityIndicator 
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { formatCurrency, formatDate } from '../utils/formatters';
+import { getLineTotal } from '../utils/cart';
+import { canVoid } from '../utils/reversals';
+import { useTransactionActions } from '../hooks/useTransactionActions';
+import { useNFC } from '../hooks/useNFC';
+import { useReceipt } from '../hooks/useReceipt';
+import { useOperator } from '../hooks/useOperator';
+import { hasPermission, PERMISSIONS } from '../utils/operators';
 
 const PaymentResultScreen = ({ navigation, route }) => {
   const { success, transaction, customer } = route.params || {};
-
+  const payment = success && transaction ? { type: 'payment', ...transaction } : null;
+  const { confirmVoid, openRefund } = useTransactionActions({
+    navigation,
+    onVoided: () => navigation.navigate('Home')
+  });
+  const { writeCardRecord } = useNFC();
+  const operator = useOperator();
+  const { isPrinting, printTransactionReceipt, shareTransactionReceipt } = useReceipt();
+  // Writing the new balance to the card: idle, writing, written or failed
+  const [cardWrite, setCardWrite] = useState({ status: 'idle', message: '' });
+  
+  // Write the card's new balance record
+  const updateCard = async () => {
+    try {
+      setCardWrite({ status: 'writing', message: '' });
+      const record = await writeCardRecord({
+        cardId: transaction.cardId,
+        balance: customer.balance
+      });
+      setCardWrite({ status: record ? 'written' : 'idle', message: '' });
+    } catch (error) {
+      console.error('Error writing card record:', error);
+      setCardWrite({ status: 'failed', message: error.message });
+    }
+  };
+  
+  // Update the card as soon as the payment has gone through
+  useEffect(() => {
+    if (success && customer && transaction?.cardId) {
+      updateCard();
+    }
+  }, []);
+  
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -90,6 +130,30 @@ const PaymentResultScreen = ({ navigation, route }) => {
           )}
         </View>
         
+        {transaction?.items?.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Items</Text>
+            
+            {transaction.items.map((item, index) => (
+              <View key={index} style={styles.lineItemRow}>
+                <Text style={styles.lineItemQuantity}>{item.quantity || 1} ×</Text>
+                <View style={styles.lineItemInfo}>
+                  <Text style={styles.lineItemDescription}>{item.description}</Text>
+                  <Text style={styles.lineItemUnitPrice}>{formatCurrency(item.amount)} each</Text>
+                </View>
+                <Text style={styles.lineItemTotal}>{formatCurrency(getLineTotal(item))}</Text>
+              </View>
+            ))}
+            
+            <View style={styles.lineItemsTotalRow}>
+              <Text style={styles.lineItemsTotalLabel}>Total</Text>
+              <Text style={styles.lineItemsTotalValue}>
+                {formatCurrency(transaction.amount || 0)}
+              </Text>
+            </View>
+          </View>
+        )}
+        
         {customer && (
           <View style={styles.card}>
             <Text style={styles.cardTitle}>Updated Balance</Text>
@@ -100,6 +164,56 @@ const PaymentResultScreen = ({ navigation, route }) => {
                 {formatCurrency(customer?.balance || 0)}
               </Text>
             </View>
+            
+            {cardWrite.status === 'writing' && (
+              <View style={styles.cardWriteRow}>
+                <ActivityIndicator size="small" color="#5046e5" />
+                <Text style={styles.cardWriteText}>
+                  Hold the card to the reader to update its balance...
+                </Text>
+              </View>
+            )}
+            {cardWrite.status === 'written' && (
+              <View style={styles.cardWriteRow}>
+                <Icon name="nfc" size={18} color="#2F855A" />
+                <Text style={styles.cardWriteText}>Card updated</Text>
+              </View>
+            )}
+            {cardWrite.status === 'failed' && (
+              <TouchableOpacity style={styles.cardWriteRow} onPress={updateCard}>
+                <Icon name="alert-circle-outline" size={18} color="#E53E3E" />
+                <Text style={[styles.cardWriteText, styles.cardWriteError]}>
+                  Card not updated: {cardWrite.message}. Tap to retry.
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+        
+        {payment && (
+          <View style={styles.receiptActions}>
+            <TouchableOpacity
+              style={[styles.receiptButton, styles.receiptButtonLeft]}
+              onPress={() => printTransactionReceipt(payment, customer)}
+              disabled={isPrinting}
+            >
+              {isPrinting ? (
+                <ActivityIndicator size="small" color="#5046e5" />
+              ) : (
+                <>
+                  <Icon name="printer-outline" size={18} color="#5046e5" />
+                  <Text style={styles.receiptButtonText}>Print Receipt</Text>
+                </>
+              )}
+            </TouchableOpacity>
+            
+            <TouchableOpacity
+              style={styles.receiptButton}
+              onPress={() => shareTransactionReceipt(payment, customer)}
+            >
+              <Icon name="share-variant-outline" size={18} color="#5046e5" />
+              <Text style={styles.receiptButtonText}>Share Receipt</Text>
+            </TouchableOpacity>
           </View>
         )}
         
@@ -111,6 +225,24 @@ const PaymentResultScreen = ({ navigation, route }) => {
             <Text style={styles.newTransactionButtonText}>New Transaction</Text>
           </TouchableOpacity>
           
+          {payment && canVoid(payment) && hasPermission(operator, PERMISSIONS.VOID) && (
+            <TouchableOpacity
+              style={styles.reverseButton}
+              onPress={() => confirmVoid(payment)}
+            >
+              <Text style={styles.reverseButtonText}>Void Transaction</Text>
+            </TouchableOpacity>
+          )}
+          
+          {payment && !payment.pendingSync && payment.type === 'payment' && hasPermission(operator, PERMISSIONS.REFUND) && (
+            <TouchableOpacity
+              style={styles.reverseButton}
+              onPress={() => openRefund(payment)}
+            >
+              <Text style={styles.reverseButtonText}>Refund</Text>
+            </TouchableOpacity>
+          )}
+          
           {!success && (
             <TouchableOpacity
               style={styles.retryButton}
@@ -217,6 +349,51 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#333',
   },
+  lineItemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  lineItemQuantity: {
+    width: 40,
+    fontSize: 14,
+    color: '#666',
+  },
+  lineItemInfo: {
+    flex: 1,
+  },
+  lineItemDescription: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  lineItemUnitPrice: {
+    fontSize: 12,
+    color: '#999',
+  },
+  lineItemTotal: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  lineItemsTotalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 8,
+    marginTop: 4,
+  },
+  lineItemsTotalLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  lineItemsTotalValue: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
   balanceRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -232,6 +409,42 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#2F855A',
   },
+  cardWriteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  cardWriteText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 8,
+  },
+  cardWriteError: {
+    color: '#E53E3E',
+  },
+  receiptActions: {
+    flexDirection: 'row',
+  },
+  receiptButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    paddingVertical: 12,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#5046e5',
+  },
+  receiptButtonLeft: {
+    marginRight: 10,
+  },
+  receiptButtonText: {
+    color: '#5046e5',
+    fontSize: 16,
+    marginLeft: 6,
+  },
   actionsContainer: {
     marginTop: 16,
     marginBottom: 24,
@@ -260,6 +473,19 @@ const styles = StyleSheet.create({
     color: '#666',
     fontSize: 16,
   },
+  reverseButton: {
+    backgroundColor: '#fff',
+    paddingVertical: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E53E3E',
+    marginBottom: 10,
+  },
+  reverseButtonText: {
+    color: '#E53E3E',
+    fontSize: 16,
+  },
 });
 
 export default PaymentResultScreen;
\ No newline at end of file
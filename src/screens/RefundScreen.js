@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { transactionAPI } from '../api/api';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { parseMoney, formatMoneyInput } from '../utils/money';
+import { getRefundableAmount, getRefundedAmount } from '../utils/reversals';
+import { z } from 'zod';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+// Form validation schema, bounded by what is left to refund. The amount is
+// typed as text and checked in minor units.
+const createFormSchema = (refundable) => z.object({
+  amount: z
+    .string()
+    .transform(text => parseMoney(text) ?? undefined)
+    .pipe(z
+      .number({ required_error: 'Amount is required' })
+      .positive({ message: 'Amount must be greater than 0' })
+      .max(refundable, { message: `At most ${formatCurrency(refundable)} can be refunded` })),
+  reason: z
+    .string()
+    .trim()
+    .min(1, { message: 'Please enter a reason for the refund' })
+});
+
+const RefundScreen = ({ navigation, route }) => {
+  const { transaction } = route.params || {};
+  const [history, setHistory] = useState([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  
+  // Earlier refunds of this payment are in the history
+  useEffect(() => {
+    transactionAPI.getHistory()
+      .then(setHistory)
+      .catch(error => console.error('Error loading transaction history:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+  
+  const refunded = getRefundedAmount(transaction, history);
+  const refundable = getRefundableAmount(transaction, history);
+  const formSchema = useMemo(() => createFormSchema(refundable), [refundable]);
+  
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setValue
+  } = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      amount: '',
+      reason: ''
+    }
+  });
+  
+  // Default to a full refund once the history has loaded
+  useEffect(() => {
+    if (!isLoading) {
+      setValue('amount', formatMoneyInput(refundable));
+    }
+  }, [isLoading, refundable]);
+  
+  // Handle form submission
+  const onSubmit = async (data) => {
+    try {
+      setIsSubmitting(true);
+      
+      const result = await transactionAPI.refund({
+        transactionId: transaction.transactionId,
+        amount: data.amount,
+        reason: data.reason
+      });
+      
+      Alert.alert(
+        "Refund Recorded",
+        `${formatCurrency(data.amount)} has been refunded to ${transaction.customerName || 'the customer'}.` +
+          (result.customer ? ` New balance: ${formatCurrency(result.customer.balance)}` : '') +
+          (result.offline ? '\n\nThe refund will be sent to the server on the next sync.' : ''),
+        [
+          {
+            text: "OK",
+            onPress: () => navigation.navigate('Home')
+          }
+        ]
+      );
+    } catch (error) {
+      console.error('Error processing refund:', error);
+      Alert.alert(
+        "Error",
+        error.message || "An unexpected error occurred"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Icon name="arrow-left" size={24} color="#333" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Refund Payment</Text>
+          <View style={styles.spacer} />
+        </View>
+        
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Original Payment</Text>
+            
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Amount:</Text>
+              <Text style={styles.detailValue}>{formatCurrency(transaction?.amount || 0)}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Description:</Text>
+              <Text style={styles.detailValue}>{transaction?.description || 'N/A'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Customer:</Text>
+              <Text style={styles.detailValue}>{transaction?.customerName || 'N/A'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Transaction ID:</Text>
+              <Text style={styles.detailValue}>{transaction?.transactionId}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Date:</Text>
+              <Text style={styles.detailValue}>{formatDate(transaction?.createdAt)}</Text>
+            </View>
+            {refunded > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Already refunded:</Text>
+                <Text style={styles.detailValue}>{formatCurrency(refunded)}</Text>
+              </View>
+            )}
+          </View>
+          
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#5046e5" style={styles.loading} />
+          ) : refundable <= 0 ? (
+            <View style={styles.card}>
+              <Text style={styles.fullyRefundedText}>
+                This payment has already been fully refunded.
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Refund</Text>
+              
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Amount <Text style={styles.required}>*</Text></Text>
+                <Controller
+                  control={control}
+                  name="amount"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInput
+                      style={[styles.input, errors.amount && styles.inputError]}
+                      placeholder="Enter amount"
+                      keyboardType="numeric"
+                      onBlur={onBlur}
+                      onChangeText={(text) => onChange(text.replace(/[^0-9.]/g, ''))}
+                      value={value}
+                    />
+                  )}
+                />
+                {errors.amount ? (
+                  <Text style={styles.errorText}>{errors.amount.message}</Text>
+                ) : (
+                  <Text style={styles.hintText}>
+                    Up to {formatCurrency(refundable)} can be refunded
+                  </Text>
+                )}
+              </View>
+              
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Reason <Text style={styles.required}>*</Text></Text>
+                <Controller
+                  control={control}
+                  name="reason"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInput
+                      style={[styles.input, errors.reason && styles.inputError]}
+                      placeholder="e.g. Item returned"
+                      onBlur={onBlur}
+                      onChangeText={onChange}
+                      value={value}
+                    />
+                  )}
+                />
+                {errors.reason && (
+                  <Text style={styles.errorText}>{errors.reason.message}</Text>
+                )}
+              </View>
+              
+              <TouchableOpacity
+                style={[styles.submitButton, isSubmitting && styles.disabledButton]}
+                onPress={handleSubmit(onSubmit)}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.submitButtonText}>Refund</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  spacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+    paddingBottom: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  detailLabel: {
+    width: 130,
+    fontSize: 14,
+    color: '#666',
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  loading: {
+    marginTop: 20,
+  },
+  fullyRefundedText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  formGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 4,
+  },
+  required: {
+    color: '#f44336',
+  },
+  input: {
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  inputError: {
+    borderColor: '#f44336',
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  hintText: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  submitButton: {
+    backgroundColor: '#E53E3E',
+    paddingVertical: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    backgroundColor: '#b4b4b4',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default RefundScreen;
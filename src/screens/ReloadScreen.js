@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -11,24 +11,33 @@ import {
   Platform 
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
-import { customerAPI, transactionAPI } from '../api/api';
+import { customerAPI, transactionAPI, NotFoundError } from '../api/api';
 import { formatCurrency } from '../utils/formatters';
+import { parseMoney, toMajorUnits, addMoney } from '../utils/money';
+import { useNFC } from '../hooks/useNFC';
+import { useReceipt } from '../hooks/useReceipt';
 import { z } from 'zod';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 
-// Preset reload amounts
-const PRESET_AMOUNTS = [100, 200, 500, 1000];
+// Preset reload amounts, in minor units
+const PRESET_AMOUNTS = [10000, 20000, 50000, 100000];
 
-// Form validation schema
-const formSchema = z.object({
+// Smallest reload and the step reloads go up in, in minor units
+const MIN_RELOAD_AMOUNT = 10000;
+const RELOAD_STEP = 5000;
+
+// Form validation schema. The amount is typed in whole currency units and
+// checked in minor units; the schema is built when the screen opens, so
+// amounts in messages are in the terminal's current currency.
+const createFormSchema = () => z.object({
   amount: z
-    .number({ 
-      required_error: 'Amount is required',
-      invalid_type_error: 'Please enter a valid amount'
-    })
-    .min(100, { message: 'Minimum reload amount is ₱100' })
-    .multipleOf(50, { message: 'Amount must be in increments of ₱50' })
+    .string()
+    .transform(text => parseMoney(text) ?? undefined)
+    .pipe(z
+      .number({ required_error: 'Amount is required' })
+      .min(MIN_RELOAD_AMOUNT, { message: `Minimum reload amount is ${formatCurrency(MIN_RELOAD_AMOUNT)}` })
+      .multipleOf(RELOAD_STEP, { message: `Amount must be in increments of ${formatCurrency(RELOAD_STEP)}` }))
 });
 
 const ReloadScreen = ({ navigation, route }) => {
@@ -36,8 +45,12 @@ const ReloadScreen = ({ navigation, route }) => {
   const [customer, setCustomer] = useState(initialCustomer);
   const [isLoading, setIsLoading] = useState(!initialCustomer);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isWritingCard, setIsWritingCard] = useState(false);
+  const { writeCardRecord } = useNFC();
+  const { printTransactionReceipt, shareTransactionReceipt } = useReceipt();
   const [error, setError] = useState(null);
-
+  const formSchema = useMemo(createFormSchema, []);
+  
   const { 
     control, 
     handleSubmit, 
@@ -47,10 +60,10 @@ const ReloadScreen = ({ navigation, route }) => {
   } = useForm({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      amount: 100
+      amount: String(toMajorUnits(MIN_RELOAD_AMOUNT))
     }
   });
-
+  
   // If customer wasn't passed in the route params, fetch it
   useEffect(() => {
     if (!initialCustomer && scanResult?.cardId) {
@@ -66,28 +79,28 @@ const ReloadScreen = ({ navigation, route }) => {
           }
         } catch (err) {
           console.error('Error fetching customer:', err);
-          setError('Failed to load customer data');
+          setError(err instanceof NotFoundError ? 'Customer not found' : 'Failed to load customer data');
         } finally {
           setIsLoading(false);
         }
       };
-
+      
       fetchCustomer();
     }
   }, [initialCustomer, scanResult]);
-
+  
   // Handle selecting a preset amount
   const handleSelectAmount = (amount) => {
-    setValue('amount', amount);
+    setValue('amount', String(toMajorUnits(amount)));
   };
-
+  
   // Handle form submission
   const onSubmit = async (data) => {
     if (!customer) {
       Alert.alert('Error', 'Customer information is missing');
       return;
     }
-
+    
     try {
       setIsSubmitting(true);
       
@@ -103,10 +116,42 @@ const ReloadScreen = ({ navigation, route }) => {
       const result = await transactionAPI.reloadBalance(reloadData);
       
       if (result?.success) {
+        // Write the new balance to the card while it is still on the reader
+        let cardNote = '';
+        if (result.customer) {
+          try {
+            setIsWritingCard(true);
+            const record = await writeCardRecord({
+              cardId: scanResult?.cardId,
+              balance: result.customer.balance
+            });
+            cardNote = record ? '\n\nThe card has been updated.' : '';
+          } catch (error) {
+            console.error('Error writing card record:', error);
+            cardNote = `\n\nThe card could not be updated: ${error.message}`;
+          } finally {
+            setIsWritingCard(false);
+          }
+        }
+        
         Alert.alert(
           "Success",
-          `The account has been successfully reloaded with ${formatCurrency(data.amount)}. New balance: ${formatCurrency(result.customer?.balance || 0)}`,
+          `The account has been successfully reloaded with ${formatCurrency(data.amount)}. New balance: ${formatCurrency(result.customer?.balance || 0)}${cardNote}`,
           [
+            {
+              text: "Print Receipt",
+              onPress: async () => {
+                await printTransactionReceipt({ type: 'reload', ...result.transaction }, result.customer);
+                navigation.navigate('Home');
+              }
+            },
+            {
+              text: "Share Receipt",
+              onPress: async () => {
+                await shareTransactionReceipt({ type: 'reload', ...result.transaction }, result.customer);
+                navigation.navigate('Home');
+              }
+            },
             {
               text: "OK",
               onPress: () => navigation.navigate('Home')
@@ -128,13 +173,13 @@ const ReloadScreen = ({ navigation, route }) => {
       console.error('Error reloading account:', error);
       Alert.alert(
         "Error", 
-        error.response?.data?.message || "An unexpected error occurred"
+        error.message || "An unexpected error occurred"
       );
     } finally {
       setIsSubmitting(false);
     }
   };
-
+  
   // Render loading state
   if (isLoading) {
     return (
@@ -157,7 +202,7 @@ const ReloadScreen = ({ navigation, route }) => {
       </View>
     );
   }
-
+  
   // Render error state
   if (error) {
     return (
@@ -187,10 +232,10 @@ const ReloadScreen = ({ navigation, route }) => {
       </View>
     );
   }
-
-  // Get current amount from the form
-  const amount = watch('amount');
-
+  
+  // Get current amount from the form, in minor units
+  const amount = parseMoney(watch('amount'));
+  
   return (
     <KeyboardAvoidingView
       style={{ flex: 1 }}
@@ -239,7 +284,7 @@ const ReloadScreen = ({ navigation, route }) => {
           <View style={styles.reloadCard}>
             <Text style={styles.reloadTitle}>Reload Amount</Text>
             <Text style={styles.reloadSubtitle}>
-              Minimum amount is ₱100 in increments of ₱50
+              Minimum amount is {formatCurrency(MIN_RELOAD_AMOUNT)} in increments of {formatCurrency(RELOAD_STEP)}
             </Text>
             
             <View style={styles.amountInputContainer}>
@@ -251,15 +296,8 @@ const ReloadScreen = ({ navigation, route }) => {
                     style={[styles.amountInput, errors.amount && styles.inputError]}
                     keyboardType="numeric"
                     onBlur={onBlur}
-                    onChangeText={(text) => {
-                      const parsed = parseInt(text.replace(/[^0-9]/g, ''), 10);
-                      if (!isNaN(parsed)) {
-                        onChange(parsed);
-                      } else {
-                        onChange('');
-                      }
-                    }}
-                    value={value ? value.toString() : ''}
+                    onChangeText={(text) => onChange(text.replace(/[^0-9]/g, ''))}
+                    value={value}
                   />
                 )}
               />
@@ -292,7 +330,7 @@ const ReloadScreen = ({ navigation, route }) => {
             <View style={styles.newBalanceContainer}>
               <Text style={styles.newBalanceLabel}>New Balance After Reload:</Text>
               <Text style={styles.newBalanceValue}>
-                {formatCurrency((customer?.balance || 0) + (amount || 0))}
+                {formatCurrency(addMoney(customer?.balance || 0, amount || 0))}
               </Text>
             </View>
             
@@ -310,6 +348,12 @@ const ReloadScreen = ({ navigation, route }) => {
               )}
             </TouchableOpacity>
             
+            {isWritingCard && (
+              <Text style={styles.cardWriteText}>
+                Hold the card to the reader to update its balance...
+              </Text>
+            )}
+            
             <TouchableOpacity
               style={styles.cancelButton}
               onPress={() => navigation.navigate('Home')}
@@ -538,6 +582,12 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#b4b4b4',
   },
+  cardWriteText: {
+    fontSize: 14,
+    color: '#5046e5',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   reloadButtonText: {
     color: '#fff',
     fontSize: 16,
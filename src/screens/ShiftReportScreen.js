@@ -0,0 +1,526 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Share,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { UnresolvedConflictsError } from '../api/api';
+import { loadShiftReports, getUserSettings } from '../utils/storage';
+import {
+  getShiftSummary,
+  closeShift,
+  formatReportNumber,
+  renderShiftReportText
+} from '../utils/shift';
+import { printShiftReport } from '../utils/printer';
+import { hasPermission, PERMISSIONS } from '../utils/operators';
+import { useOperator } from '../hooks/useOperator';
+import { formatCurrency, formatDate } from '../utils/formatters';
+
+/**
+ * Screen for closing the shift and viewing or reprinting past Z-reports
+ */
+const ShiftReportScreen = ({ navigation }) => {
+  const operator = useOperator();
+  const [summary, setSummary] = useState(null);
+  const [reports, setReports] = useState([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isClosing, setIsClosing] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [selectedReport, setSelectedReport] = useState(null);
+  const [merchantName, setMerchantName] = useState('');
+  
+  // Load the open shift's totals and the stored Z-reports
+  const loadShift = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [currentShift, storedReports, settings] = await Promise.all([
+        getShiftSummary(),
+        loadShiftReports(),
+        getUserSettings()
+      ]);
+      setSummary(currentShift);
+      setReports([...storedReports].reverse());
+      setMerchantName(settings.merchantName || '');
+    } catch (error) {
+      console.error('Error loading shift:', error);
+      Alert.alert('Error', 'Failed to load the current shift');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', loadShift);
+    return unsubscribe;
+  }, [navigation, loadShift]);
+  
+  const hasOpenConflicts = summary?.openConflicts > 0;
+  const canOverride = hasPermission(operator, PERMISSIONS.SHIFT_OVERRIDE);
+  
+  const submitClose = async () => {
+    try {
+      setIsClosing(true);
+      const report = await closeShift({
+        supervisorOverride: hasOpenConflicts ? { reason: overrideReason } : undefined
+      });
+      
+      setOverrideReason('');
+      await loadShift();
+      setSelectedReport(report);
+    } catch (error) {
+      if (error instanceof UnresolvedConflictsError) {
+        Alert.alert('Unresolved Conflicts', error.message);
+      } else {
+        Alert.alert('Error', error.message || 'Failed to close the shift');
+      }
+    } finally {
+      setIsClosing(false);
+    }
+  };
+  
+  const handleCloseShift = () => {
+    if (hasOpenConflicts && !canOverride) {
+      Alert.alert(
+        'Unresolved Conflicts',
+        'Resolve the open sync conflicts in Offline Settings, or have a supervisor sign in to close the shift anyway.'
+      );
+      return;
+    }
+    
+    Alert.alert(
+      'Close Shift',
+      `Close the shift with net sales of ${formatCurrency(summary.netSales)}? The Z-report can't be changed afterwards.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close Shift', style: 'destructive', onPress: submitClose }
+      ]
+    );
+  };
+  
+  const handlePrint = async (report) => {
+    try {
+      setIsPrinting(true);
+      await printShiftReport(report);
+    } catch (error) {
+      Alert.alert('Print Failed', error.message || 'The Z-report could not be printed');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+  
+  const handleShare = async (report) => {
+    try {
+      await Share.share({
+        title: `Z-report ${formatReportNumber(report.reportNumber)}`,
+        message: renderShiftReportText(report, { merchantName })
+      });
+    } catch (error) {
+      console.error('Error sharing Z-report:', error);
+      Alert.alert('Error', error.message || 'The Z-report could not be shared');
+    }
+  };
+  
+  const renderTotalRow = (label, total) => (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label} ({total.count})</Text>
+      <Text style={styles.detailValue}>{formatCurrency(total.amount)}</Text>
+    </View>
+  );
+  
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Icon name="arrow-left" size={24} color="#333" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Close Shift</Text>
+          <View style={styles.spacer} />
+        </View>
+        
+        {isLoading && !summary ? (
+          <ActivityIndicator size="large" color="#5046e5" style={styles.loading} />
+        ) : (
+          <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+            {summary && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>
+                  Current Shift ({formatReportNumber(summary.reportNumber)})
+                </Text>
+                
+                <Text style={styles.metaText}>
+                  Since {summary.openedAt ? formatDate(summary.openedAt) : 'the first transaction on this terminal'}
+                </Text>
+                <Text style={styles.metaText}>
+                  Last sync: {summary.lastSyncAt ? formatDate(summary.lastSyncAt) : 'Never'}
+                </Text>
+                
+                <View style={styles.totals}>
+                  {renderTotalRow('Payments', summary.payments)}
+                  {renderTotalRow('Refunds', summary.refunds)}
+                  <View style={styles.detailRow}>
+                    <Text style={[styles.detailLabel, styles.netLabel]}>Net sales</Text>
+                    <Text style={[styles.detailValue, styles.netLabel]}>
+                      {formatCurrency(summary.netSales)}
+                    </Text>
+                  </View>
+                  {renderTotalRow('Reloads (cash in)', summary.reloads)}
+                  {renderTotalRow('Voids', summary.voids)}
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Synced</Text>
+                    <Text style={styles.detailValue}>{summary.onlineCount}</Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Pending sync</Text>
+                    <Text style={styles.detailValue}>{summary.pendingCount}</Text>
+                  </View>
+                </View>
+                
+                {hasOpenConflicts && (
+                  <View style={styles.conflictBox}>
+                    <View style={styles.conflictHeader}>
+                      <Icon name="alert-outline" size={20} color="#DD6B20" />
+                      <Text style={styles.conflictText}>
+                        {summary.openConflicts} sync conflict(s) still need a decision
+                      </Text>
+                    </View>
+                    {canOverride ? (
+                      <>
+                        <Text style={styles.hintText}>
+                          As a supervisor you can close the shift anyway. Your override is printed on the Z-report.
+                        </Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder="Reason (optional)"
+                          value={overrideReason}
+                          onChangeText={setOverrideReason}
+                        />
+                      </>
+                    ) : (
+                      <Text style={styles.hintText}>
+                        Resolve them in Offline Settings, or have a supervisor sign in to close the shift anyway.
+                      </Text>
+                    )}
+                  </View>
+                )}
+                
+                <TouchableOpacity
+                  style={[styles.closeButton, isClosing && styles.disabledButton]}
+                  onPress={handleCloseShift}
+                  disabled={isClosing}
+                >
+                  {isClosing ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.closeButtonText}>Close Shift</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+            
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Z-Reports</Text>
+              
+              {reports.length === 0 ? (
+                <Text style={styles.emptyText}>No shifts closed on this terminal yet</Text>
+              ) : (
+                reports.map(report => (
+                  <TouchableOpacity
+                    key={report.reportId}
+                    style={styles.reportRow}
+                    onPress={() => setSelectedReport(report)}
+                  >
+                    <View>
+                      <Text style={styles.reportNumber}>{formatReportNumber(report.reportNumber)}</Text>
+                      <Text style={styles.metaText}>{formatDate(report.closedAt)}</Text>
+                    </View>
+                    <View style={styles.reportRight}>
+                      <Text style={styles.reportAmount}>{formatCurrency(report.netSales)}</Text>
+                      <Text style={[styles.uploadStatus, !report.uploadedAt && styles.uploadPending]}>
+                        {report.uploadedAt ? 'Uploaded' : 'Pending upload'}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          </ScrollView>
+        )}
+        
+        {/* Z-report Modal */}
+        <Modal
+          visible={!!selectedReport}
+          transparent={true}
+          animationType="slide"
+          onRequestClose={() => setSelectedReport(null)}
+        >
+          <View style={styles.modalContainer}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.title}>
+                  {selectedReport && `Z-Report ${formatReportNumber(selectedReport.reportNumber)}`}
+                </Text>
+                <TouchableOpacity onPress={() => setSelectedReport(null)}>
+                  <Icon name="close" size={24} color="#333" />
+                </TouchableOpacity>
+              </View>
+              
+              <ScrollView style={styles.reportScroll}>
+                <Text style={styles.reportText}>
+                  {selectedReport && renderShiftReportText(selectedReport, { merchantName })}
+                </Text>
+              </ScrollView>
+              
+              <View style={styles.modalActions}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalButtonLeft, isPrinting && styles.disabledButton]}
+                  onPress={() => handlePrint(selectedReport)}
+                  disabled={isPrinting}
+                >
+                  {isPrinting ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.modalButtonText}>Print</Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.modalButton}
+                  onPress={() => handleShare(selectedReport)}
+                >
+                  <Text style={styles.modalButtonText}>Share</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  spacer: {
+    width: 40,
+  },
+  loading: {
+    marginTop: 20,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+    paddingBottom: 8,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 2,
+  },
+  totals: {
+    marginTop: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  detailValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  netLabel: {
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  conflictBox: {
+    borderWidth: 1,
+    borderColor: '#DD6B20',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  conflictText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#DD6B20',
+  },
+  hintText: {
+    color: '#666',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    marginTop: 8,
+  },
+  closeButton: {
+    backgroundColor: '#5046e5',
+    paddingVertical: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#b4b4b4',
+  },
+  closeButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  reportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  reportNumber: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  reportRight: {
+    alignItems: 'flex-end',
+  },
+  reportAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  uploadStatus: {
+    fontSize: 12,
+    color: '#2F855A',
+  },
+  uploadPending: {
+    color: '#DD6B20',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  reportScroll: {
+    marginBottom: 12,
+  },
+  reportText: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 13,
+    color: '#333',
+  },
+  modalActions: {
+    flexDirection: 'row',
+  },
+  modalButton: {
+    flex: 1,
+    backgroundColor: '#5046e5',
+    paddingVertical: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  modalButtonLeft: {
+    marginRight: 8,
+  },
+  modalButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default ShiftReportScreen;
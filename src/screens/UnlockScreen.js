@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  unlockVault,
+  createVaultPassphrase,
+  VAULT_STATUS,
+  MIN_PASSPHRASE_LENGTH
+} from '../utils/vault';
+
+/**
+ * Screen that unlocks encrypted local storage with the device passphrase
+ * (web), or has the operator choose one on first use
+ * @param {Object} props
+ * @param {string} props.status One of VAULT_STATUS
+ */
+const UnlockScreen = ({ status }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isNew = status === VAULT_STATUS.NEEDS_PASSPHRASE;
+  
+  if (status === VAULT_STATUS.OPENING) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#5046e5" />
+      </View>
+    );
+  }
+  
+  const handleSubmit = async () => {
+    if (isNew && passphrase !== confirmation) {
+      setError("The passphrases don't match");
+      return;
+    }
+    
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (isNew) {
+        await createVaultPassphrase(passphrase);
+      } else {
+        await unlockVault(passphrase);
+      }
+    } catch (err) {
+      setPassphrase('');
+      setConfirmation('');
+      setError(err.message || 'Unlock failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  const canSubmit = passphrase.length >= (isNew ? MIN_PASSPHRASE_LENGTH : 1) && !isSubmitting;
+  
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Icon name="shield-lock-outline" size={40} color="#5046e5" />
+          <Text style={styles.title}>{isNew ? 'Protect This Device' : 'Unlock Device'}</Text>
+          <Text style={styles.subtitle}>
+            {isNew
+              ? `Choose a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters. Customer data stored on this device is encrypted with it.`
+              : 'Enter the device passphrase to unlock customer data stored on this device.'}
+          </Text>
+        </View>
+        
+        <View style={styles.content}>
+          <TextInput
+            style={[styles.input, !!error && styles.inputError]}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            secureTextEntry={true}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus={true}
+            editable={!isSubmitting}
+            placeholder="Passphrase"
+          />
+          {isNew && (
+            <TextInput
+              style={styles.input}
+              value={confirmation}
+              onChangeText={setConfirmation}
+              secureTextEntry={true}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isSubmitting}
+              placeholder="Repeat passphrase"
+            />
+          )}
+          {!!error && <Text style={styles.errorText}>{error}</Text>}
+          
+          <TouchableOpacity
+            style={[styles.submitButton, !canSubmit && styles.disabledButton]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.submitButtonText}>{isNew ? 'Set Passphrase' : 'Unlock'}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 48,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  inputError: {
+    borderColor: '#f44336',
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 12,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  submitButton: {
+    backgroundColor: '#5046e5',
+    paddingVertical: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  disabledButton: {
+    backgroundColor: '#b4b4b4',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default UnlockScreen;
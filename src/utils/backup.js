@@ -0,0 +1,385 @@
+/**
+ * Backup, export and import of local data
+ *
+ * A terminal that dies before it syncs takes its offline sales with it. A
+ * backup bundle holds what only this terminal has, the pending queue, plus
+ * the cached history and customers, so a replacement terminal can restore
+ * the queue and work offline straight away. Bundles are versioned JSON
+ * with a SHA-256 checksum over their data: a truncated or edited file is
+ * refused rather than half restored.
+ *
+ * An import never duplicates anything. Queued records already in this
+ * terminal's queue or already synced from it are skipped, matched by
+ * transaction ID, as are history entries and customers already cached.
+ * planBackupImport works out what an import would do without writing
+ * anything, so the operator can confirm it first. Restored records keep
+ * their idempotency keys, so the server also recognizes any it has seen.
+ *
+ * CSV exports are for accountants and can't be imported.
+ */
+import * as FileSystem from 'expo-file-system';
+import { sha256Hex } from './crypto';
+import { formatDate } from './formatters';
+import { formatMoneyInput } from './money';
+import { convertLegacyCustomer, convertLegacyTransaction } from './legacyAmounts';
+import {
+  loadPendingTransactions,
+  getCachedTransactions,
+  getCachedCustomers,
+  getTerminalId,
+  importBackupRecords
+} from './storage';
+
+export const BACKUP_FORMAT = 'nfc-payment-backup';
+// Bumped when the bundle layout changes; older bundles still import
+export const BACKUP_VERSION = 2;
+
+// Bundles before this version hold decimal amounts
+const MINOR_UNITS_VERSION = 2;
+
+export const BACKUP_DIRECTORY = `${FileSystem.documentDirectory}backups/`;
+
+export const EXPORT_FORMATS = {
+  JSON: 'json',
+  CSV: 'csv',
+};
+
+const MIME_TYPES = {
+  json: 'application/json',
+  csv: 'text/csv',
+};
+
+/**
+ * Get the key restored records are matched on
+ * @param {Object} record A queued record or history entry
+ * @returns {string} The transaction ID, or the idempotency key for queued
+ *   records without one (registrations, customer updates)
+ */
+export const getBackupRecordKey = (record) => String(record.transactionId ?? record.idempotencyKey ?? record.id);
+
+const getBundleChecksum = (data) => sha256Hex(JSON.stringify(data));
+
+/**
+ * Collect this terminal's pending queue and caches into a bundle
+ * @returns {Promise<Object>} The bundle
+ */
+export const createBackupBundle = async () => {
+  const data = {
+    pending: await loadPendingTransactions(),
+    transactions: await getCachedTransactions(),
+    customers: await getCachedCustomers(),
+  };
+  
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    terminalId: await getTerminalId(),
+    checksum: await getBundleChecksum(data),
+    data,
+  };
+};
+
+/**
+ * Parse and check a bundle. Amounts in bundles from before amounts were
+ * kept in minor units are converted.
+ * @param {string} text Contents of a bundle file
+ * @returns {Promise<Object>} The bundle
+ * @throws {Error} If the file isn't a bundle, is from a newer version of
+ *   the app, or doesn't match its checksum
+ */
+export const readBackupBundle = async (text) => {
+  let bundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not a backup bundle');
+  }
+  
+  if (!bundle || bundle.format !== BACKUP_FORMAT || !bundle.data) {
+    throw new Error('The file is not a backup bundle');
+  }
+  if (!Number.isInteger(bundle.version) || bundle.version > BACKUP_VERSION) {
+    throw new Error(`The backup is from a newer version of the app (format ${bundle.version})`);
+  }
+  if (await getBundleChecksum(bundle.data) !== bundle.checksum) {
+    throw new Error('The backup is damaged or has been changed: its checksum does not match');
+  }
+  
+  const { pending, transactions, customers } = bundle.data;
+  if (![pending, transactions, customers].every(Array.isArray)) {
+    throw new Error('The backup is missing data');
+  }
+  
+  if (bundle.version < MINOR_UNITS_VERSION) {
+    return {
+      ...bundle,
+      data: {
+        pending: pending.map(convertLegacyTransaction),
+        transactions: transactions.map(convertLegacyTransaction),
+        customers: customers.map(convertLegacyCustomer),
+      },
+    };
+  }
+  return bundle;
+};
+
+/**
+ * Work out what importing a bundle would add, without writing anything
+ * @param {Object} bundle A bundle from readBackupBundle
+ * @returns {Promise<{bundle: Object, records: {pending: Array, transactions: Array, customers: Array}, skipped: {pending: number, transactions: number, customers: number}}>}
+ */
+export const planBackupImport = async (bundle) => {
+  const localPending = await loadPendingTransactions();
+  const localTransactions = await getCachedTransactions();
+  const localCustomers = await getCachedCustomers();
+  
+  // Queued here, or already synced from here
+  const queuedKeys = new Set([
+    ...localPending.map(getBackupRecordKey),
+    ...localTransactions.filter(t => !t.pendingSync).map(getBackupRecordKey)
+  ]);
+  const cachedKeys = new Set(localTransactions.map(getBackupRecordKey));
+  const customerIds = new Set(localCustomers.map(customer => String(customer.id)));
+  
+  // Keep the first of any records repeated within the bundle too
+  const pickNew = (records, keys, getKey) => records.filter(record => {
+    const key = getKey(record);
+    if (keys.has(key)) {
+      return false;
+    }
+    keys.add(key);
+    return true;
+  });
+  
+  const { pending, transactions, customers } = bundle.data;
+  const records = {
+    pending: pickNew(pending, queuedKeys, getBackupRecordKey),
+    transactions: pickNew(transactions, cachedKeys, getBackupRecordKey),
+    customers: pickNew(customers, customerIds, customer => String(customer.id)),
+  };
+  
+  return {
+    bundle,
+    records,
+    skipped: {
+      pending: pending.length - records.pending.length,
+      transactions: transactions.length - records.transactions.length,
+      customers: customers.length - records.customers.length,
+    },
+  };
+};
+
+/**
+ * Describe an import plan for the operator to confirm
+ * @param {Object} plan From planBackupImport
+ * @returns {string}
+ */
+export const describeImportPlan = (plan) => {
+  const { bundle, records, skipped } = plan;
+  const line = (label, added, alreadyHere) =>
+    `${label}: ${added} to add${alreadyHere ? `, ${alreadyHere} already here` : ''}`;
+  
+  return [
+    `Backup of terminal ${bundle.terminalId || 'unknown'} from ${formatDate(bundle.createdAt)}`,
+    '',
+    line('Unsynced transactions', records.pending.length, skipped.pending),
+    line('Transaction history', records.transactions.length, skipped.transactions),
+    line('Customers', records.customers.length, skipped.customers),
+  ].join('\n');
+};
+
+/**
+ * Import what a plan found to add
+ * @param {Object} plan From planBackupImport
+ * @returns {Promise<void>}
+ */
+export const applyBackupImport = async (plan) => {
+  await importBackupRecords(plan.records);
+  console.log(
+    `Imported backup of terminal ${plan.bundle.terminalId}: ${plan.records.pending.length} queued, ` +
+      `${plan.records.transactions.length} history, ${plan.records.customers.length} customers`
+  );
+};
+
+// Quote a CSV field if needed. Text that a spreadsheet would read as a
+// formula is prefixed so it stays text.
+const toCsvField = (value) => {
+  if (value == null) {
+    return '';
+  }
+  
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const renderCsv = (columns, rows) => {
+  const lines = [
+    columns.map(([header]) => toCsvField(header)).join(','),
+    ...rows.map(row => columns.map(([, getValue]) => toCsvField(getValue(row))).join(','))
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Render transaction history as CSV, oldest first, with amounts as decimals
+ * @param {Array} transactions History entries
+ * @returns {string}
+ */
+export const renderTransactionsCsv = (transactions) => {
+  const sorted = [...transactions].sort((a, b) => new Date(a.createdAt) - new Date(b.createdAt));
+  
+  return renderCsv([
+    ['Date', t => t.createdAt],
+    ['Transaction ID', t => t.transactionId],
+    ['Type', t => t.type],
+    ['Status', t => t.status],
+    ['Amount', t => formatMoneyInput(Number(t.amount) || 0)],
+    ['Customer ID', t => t.customerId],
+    ['Customer', t => t.customerName],
+    ['Card ID', t => t.cardId],
+    ['Description', t => t.description],
+    ['Terminal', t => t.terminalId],
+    ['Operator', t => t.operatorId],
+    ['Synced', t => (t.pendingSync ? 'no' : 'yes')],
+  ], sorted);
+};
+
+/**
+ * Render customers as CSV, with balances as decimals. Security settings are
+ * left out.
+ * @param {Array} customers Customers
+ * @returns {string}
+ */
+export const renderCustomersCsv = (customers) => {
+  return renderCsv([
+    ['Customer ID', c => c.id],
+    ['First Name', c => c.firstName],
+    ['Last Name', c => c.lastName],
+    ['Email', c => c.email],
+    ['Phone', c => c.phone],
+    ['Card ID', c => c.cardId],
+    ['Balance', c => formatMoneyInput(Number(c.balance) || 0)],
+    ['Registered Offline', c => (c.provisional ? 'yes' : 'no')],
+  ], customers);
+};
+
+/**
+ * Create the files for an export
+ * @param {string} format One of EXPORT_FORMATS
+ * @returns {Promise<Array<{name: string, mimeType: string, contents: string}>>} A bundle for
+ *   JSON; a transactions and a customers file for CSV
+ */
+export const createExportFiles = async (format) => {
+  const terminalId = await getTerminalId();
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const file = (kind, extension, contents) => ({
+    name: `${kind}_${terminalId}_${stamp}.${extension}`,
+    mimeType: MIME_TYPES[extension],
+    contents,
+  });
+  
+  if (format === EXPORT_FORMATS.CSV) {
+    return [
+      file('transactions', 'csv', renderTransactionsCsv(await getCachedTransactions())),
+      file('customers', 'csv', renderCustomersCsv(await getCachedCustomers())),
+    ];
+  }
+  
+  const bundle = await createBackupBundle();
+  return [file('backup', 'json', JSON.stringify(bundle))];
+};
+
+/**
+ * Save export files to the backup directory on this device
+ * @param {Array} files From createExportFiles
+ * @returns {Promise<Array<string>>} The saved files' URIs
+ */
+export const saveExportFiles = async (files) => {
+  await FileSystem.makeDirectoryAsync(BACKUP_DIRECTORY, { intermediates: true });
+  
+  const uris = [];
+  for (const file of files) {
+    const uri = `${BACKUP_DIRECTORY}${file.name}`;
+    await FileSystem.writeAsStringAsync(uri, file.contents);
+    uris.push(uri);
+  }
+  return uris;
+};
+
+/**
+ * Save export files to a folder the operator picks, such as Downloads or
+ * a memory card (Android only)
+ * @param {Array} files From createExportFiles
+ * @returns {Promise<boolean>} False if no folder was picked
+ */
+export const saveExportFilesToFolder = async (files) => {
+  const { StorageAccessFramework } = FileSystem;
+  const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+  if (!permission.granted) {
+    return false;
+  }
+  
+  for (const file of files) {
+    const uri = await StorageAccessFramework.createFileAsync(
+      permission.directoryUri,
+      file.name.replace(/\.[^.]+$/, ''),
+      file.mimeType
+    );
+    await FileSystem.writeAsStringAsync(uri, file.contents);
+  }
+  return true;
+};
+
+// Name of a file from its URI, including storage access framework URIs
+const getFileName = (uri) => decodeURIComponent(uri).split(/[/:]/).pop();
+
+/**
+ * List the bundles saved in the backup directory, newest first
+ * @returns {Promise<Array<{uri: string, name: string, modifiedAt: number|null}>>}
+ */
+export const listBackupFiles = async () => {
+  const info = await FileSystem.getInfoAsync(BACKUP_DIRECTORY);
+  if (!info.exists) {
+    return [];
+  }
+  
+  const names = (await FileSystem.readDirectoryAsync(BACKUP_DIRECTORY)).filter(name => name.endsWith('.json'));
+  const files = await Promise.all(names.map(async (name) => {
+    const uri = `${BACKUP_DIRECTORY}${name}`;
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    return { uri, name, modifiedAt: fileInfo.modificationTime ? fileInfo.modificationTime * 1000 : null };
+  }));
+  
+  return files.sort((a, b) => (b.modifiedAt || 0) - (a.modifiedAt || 0));
+};
+
+/**
+ * List the bundles in a folder the operator picks (Android only)
+ * @returns {Promise<Array<{uri: string, name: string, modifiedAt: null}>|null>} Null if no
+ *   folder was picked
+ */
+export const listBackupFilesInFolder = async () => {
+  const { StorageAccessFramework } = FileSystem;
+  const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+  if (!permission.granted) {
+    return null;
+  }
+  
+  const uris = await StorageAccessFramework.readDirectoryAsync(permission.directoryUri);
+  return uris
+    .map(uri => ({ uri, name: getFileName(uri), modifiedAt: null }))
+    .filter(file => file.name.endsWith('.json'));
+};
+
+/**
+ * Read and check a bundle file
+ * @param {string} uri The file
+ * @returns {Promise<Object>} The bundle (see readBackupBundle)
+ */
+export const readBackupFile = async (uri) => {
+  return readBackupBundle(await FileSystem.readAsStringAsync(uri));
+};
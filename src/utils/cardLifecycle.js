@@ -0,0 +1,64 @@
+/**
+ * Card lifecycle: active, blocked and replaced cards
+ *
+ * A customer's card is active until it is reported lost or stolen (blocked)
+ * or swapped for a new card (replaced). Replacing a card moves the balance
+ * and history to the new card and puts the old one on the blocklist.
+ *
+ * The server keeps the blocklist; terminals pull it down on every refresh so
+ * they can refuse blocked cards offline. Every refused tap is logged on the
+ * terminal with its time, so a stolen card's use can be traced later.
+ */
+import { getTerminalId, logBlockedTap } from './storage';
+
+export const CARD_STATUS = {
+  ACTIVE: 'active',
+  BLOCKED: 'blocked',
+  REPLACED: 'replaced',
+};
+
+/**
+ * Get the status of a customer's current card
+ * @param {Object} customer Customer data
+ * @returns {string} One of CARD_STATUS
+ */
+export const getCardStatus = (customer) => {
+  return customer?.cardStatus || CARD_STATUS.ACTIVE;
+};
+
+/**
+ * Describe why a card is refused, for the operator
+ * @param {Object} blockedCard Blocklist entry (or { status, replacedBy })
+ * @returns {string}
+ */
+export const describeBlockedCard = (blockedCard) => {
+  if (blockedCard?.status === CARD_STATUS.REPLACED) {
+    return blockedCard.replacedBy
+      ? `This card has been replaced by ${blockedCard.replacedBy}`
+      : 'This card has been replaced';
+  }
+  return 'This card has been reported lost or stolen';
+};
+
+/**
+ * Log a tap of a blocked card on this terminal. Never throws: failing to log
+ * must not stop the card from being refused.
+ * @param {string} cardId The blocked card
+ * @param {string} status Its status (blocked or replaced)
+ * @param {string} action What the card was used for ('lookup', 'payment' or 'reload')
+ * @returns {Promise<void>}
+ */
+export const recordBlockedTap = async (cardId, status, action) => {
+  try {
+    await logBlockedTap({
+      cardId,
+      status,
+      action,
+      terminalId: await getTerminalId(),
+      tappedAt: new Date().toISOString()
+    });
+    console.warn(`[Blocklist] Refused ${status} card ${cardId} (${action})`);
+  } catch (error) {
+    console.error(`Failed to log blocked tap of card ${cardId}:`, error);
+  }
+};
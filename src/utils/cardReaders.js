@@ -0,0 +1,517 @@
+/**
+ * Card readers
+ *
+ * A card reader driver waits for a card and reports it:
+ *
+ *   {
+ *     type: string,                      one of CARD_READER_TYPES
+ *     name: string,                      for the operator
+ *     manager: Object|null,              NfcManager the card's balance record
+ *                                        can be written back through, if any
+ *     init(): Promise<boolean>,          whether it can be used on this device
+ *     start(onCard, onError): Promise<void>,
+ *     stop(): Promise<void>,
+ *   }
+ *
+ * start listens until one card is read, hands it to onCard as
+ * { cardId, cardRecord, source } and stops; onError gets problems with a
+ * card (a forged QR code, a failed read) while it keeps listening. Every
+ * driver reports the card ID through normalizeCardId, so a card is the same
+ * customer whichever way it was read.
+ *
+ * - nfc: the device's NFC through react-native-nfc-manager. The only driver
+ *   that also reads (and can write back) the card's signed balance record.
+ * - keyboard: USB or Bluetooth RFID readers that "type" the card's UID and
+ *   press Enter. The keystrokes come in through KeyboardWedgeInput; a burst
+ *   of fast keys ending in Enter is a card, slower typing is a person.
+ *   Readers type the UID in hex or decimal, first or last byte first
+ *   (WEDGE_FORMATS, WEDGE_BYTE_ORDERS); it is turned back into the hex UID
+ *   NFC reads, so the card keeps its card ID.
+ * - qr: the customer shows a signed card token (cardToken.js) as a QR code,
+ *   read with the camera through QrCardScanner. Its result also has the
+ *   token's { nonce, expiresAt } as cardToken, for the payment.
+ * - simulator: virtual cards on the mock NfcManager, tapped in the order of
+ *   a script, for running and demoing the app without an NFC reader.
+ *
+ * The "Card reader" in Offline Settings picks one (getCardReader).
+ */
+import NfcManager, { NfcEvents } from 'react-native-nfc-manager';
+import { BarCodeScanner } from 'expo-barcode-scanner';
+import { readCardTag, CARD_RECORD_STATUS } from './cardRecord';
+import { verifyCardToken } from './cardToken';
+import { normalizeCardId } from './formatters';
+import { mockNfcManager } from './mockNfcManager';
+import { getUserSettings } from './storage';
+
+export const CARD_READER_TYPES = {
+  NFC: 'nfc',
+  KEYBOARD: 'keyboard',
+  QR: 'qr',
+  SIMULATOR: 'simulator',
+};
+
+export const CARD_READER_LABELS = {
+  [CARD_READER_TYPES.NFC]: 'NFC',
+  [CARD_READER_TYPES.KEYBOARD]: 'USB reader',
+  [CARD_READER_TYPES.QR]: 'QR code',
+  [CARD_READER_TYPES.SIMULATOR]: 'Simulator',
+};
+
+// What a keyboard-wedge reader types for a UID
+export const WEDGE_FORMATS = {
+  HEX: 'hex',
+  DECIMAL: 'decimal',
+};
+
+export const WEDGE_FORMAT_LABELS = {
+  [WEDGE_FORMATS.HEX]: 'Hex',
+  [WEDGE_FORMATS.DECIMAL]: 'Decimal',
+};
+
+// Which end of the UID a keyboard-wedge reader starts from
+export const WEDGE_BYTE_ORDERS = {
+  // The first byte first, as NFC reads it
+  MSB_FIRST: 'msb',
+  // The last byte first (most readers that type 10 decimal digits)
+  LSB_FIRST: 'lsb',
+};
+
+export const WEDGE_BYTE_ORDER_LABELS = {
+  [WEDGE_BYTE_ORDERS.MSB_FIRST]: 'First byte first',
+  [WEDGE_BYTE_ORDERS.LSB_FIRST]: 'Last byte first',
+};
+
+// ISO 14443 UIDs are 4, 7 or 10 bytes long
+const UID_LENGTHS = [4, 7, 10];
+
+// Keyboard-wedge readers type a whole UID in a few milliseconds per key;
+// people take well over 100ms
+const DEFAULT_MAX_KEY_INTERVAL_MS = 80;
+
+// Shorter bursts aren't a card (a 4-byte UID is 8 hex or 10 decimal digits)
+const MIN_WEDGE_UID_LENGTH = 6;
+
+// How long after a scan starts the simulator taps its card
+const SIMULATED_TAP_DELAY_MS = 1500;
+
+// Scan result for a card read by its ID only
+const toUidOnlyResult = (cardId, source) => ({
+  cardId,
+  cardRecord: { status: CARD_RECORD_STATUS.NONE, record: null },
+  source,
+});
+
+/**
+ * Start an NfcManager if the device has NFC
+ * @param {Object} [manager] NfcManager (or the mock)
+ * @returns {Promise<boolean>} Whether NFC can be used
+ */
+export const initNfcManager = async (manager = NfcManager) => {
+  try {
+    // Check if NFC is supported first
+    const isSupported = await manager.isSupported();
+    if (!isSupported) {
+      console.log('[NFC] NFC is not supported on this device');
+      return false;
+    }
+    
+    // Check if already initialized
+    try {
+      const isEnabled = await manager.isEnabled();
+      if (isEnabled) {
+        console.log('[NFC] NFC Manager already enabled');
+        return true;
+      }
+    } catch (checkError) {
+      // If we get an error checking, that likely means we need to initialize
+      console.log('[NFC] NFC status check failed, will try to initialize:', checkError);
+    }
+    
+    // Perform full clean-up before starting
+    try {
+      // Try to clean up any existing listeners
+      await manager.unregisterTagEvent().catch(() => {});
+      manager.setEventListener(NfcEvents.DiscoverTag, null);
+    } catch (cleanupError) {
+      // Ignore cleanup errors
+      console.log('[NFC] Cleanup before init (expected):', cleanupError);
+    }
+    
+    // Start the NFC manager
+    await manager.start();
+    console.log('[NFC] Manager initialized successfully');
+    return true;
+  } catch (err) {
+    console.error('[NFC] Failed to initialize NFC manager:', err);
+    return false;
+  }
+};
+
+/**
+ * Create a driver for NFC through an NfcManager
+ * @param {Object} [manager] NfcManager (or the mock)
+ * @returns {Object} Card reader driver
+ */
+export const createNfcCardReader = (manager = NfcManager) => {
+  let listening = false;
+  
+  const reader = {
+    type: CARD_READER_TYPES.NFC,
+    name: CARD_READER_LABELS[CARD_READER_TYPES.NFC],
+    manager,
+    
+    init: () => initNfcManager(manager),
+    
+    start: async (onCard, onError) => {
+      listening = true;
+      console.log('[NFC] Registering tag event listener');
+      await manager.registerTagEvent();
+      
+      manager.setEventListener(NfcEvents.DiscoverTag, async (event) => {
+        try {
+          console.log('[NFC] Tag event received:', event);
+          
+          // Older callers wrapped the tag in { tag }
+          const tag = event?.tag || event;
+          if (!listening) {
+            return;
+          }
+          if (!tag?.id) {
+            console.warn('[NFC] Invalid tag data received');
+            return;
+          }
+          
+          // Read the card ID (from the UID) and check the card's balance record
+          const result = await readCardTag(tag);
+          await reader.stop();
+          onCard({ ...result, source: reader.type });
+        } catch (error) {
+          console.error('[NFC] Error processing NFC tag event:', error);
+          onError?.(error);
+        }
+      });
+    },
+    
+    stop: async () => {
+      listening = false;
+      
+      try {
+        if (await manager.isEnabled()) {
+          await manager.unregisterTagEvent().catch(error => {
+            console.warn('[NFC] Ignoring unregisterTagEvent error:', error);
+          });
+        }
+      } catch (error) {
+        console.warn('[NFC] Error in unregisterTagEvent:', error);
+      }
+      
+      try {
+        manager.setEventListener(NfcEvents.DiscoverTag, null);
+      } catch (error) {
+        console.warn('[NFC] Error clearing event listener:', error);
+      }
+    },
+  };
+  return reader;
+};
+
+/**
+ * Turn what a keyboard-wedge reader typed for a card into the UID as hex,
+ * in the byte order NFC reads it
+ * @param {string} typed The characters typed
+ * @param {Object} [options]
+ * @param {string} [options.format] One of WEDGE_FORMATS
+ * @param {string} [options.byteOrder] One of WEDGE_BYTE_ORDERS
+ * @returns {string|null} The UID, or null if what was typed isn't one in that format
+ */
+export const wedgeOutputToUid = (typed, {
+  format = WEDGE_FORMATS.HEX,
+  byteOrder = WEDGE_BYTE_ORDERS.MSB_FIRST
+} = {}) => {
+  let bytes;
+  if (format === WEDGE_FORMATS.DECIMAL) {
+    if (!/^\d+$/.test(typed)) {
+      return null;
+    }
+    // Decimal drops leading zero bytes, so pad to the shortest UID length
+    // the number fits in
+    const hex = BigInt(typed).toString(16);
+    const length = UID_LENGTHS.find(byteCount => hex.length <= byteCount * 2);
+    if (!length) {
+      return null;
+    }
+    bytes = hex.padStart(length * 2, '0').match(/../g);
+  } else {
+    const hex = typed.replace(/[\s:-]/g, '');
+    if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length % 2 !== 0) {
+      return null;
+    }
+    bytes = hex.match(/../g);
+  }
+  
+  if (byteOrder === WEDGE_BYTE_ORDERS.LSB_FIRST) {
+    bytes.reverse();
+  }
+  return bytes.join('').toUpperCase();
+};
+
+/**
+ * Create a driver for keyboard-wedge RFID readers. Keystrokes are fed in
+ * with handleKey (KeyboardWedgeInput does this).
+ * @param {Object} [options]
+ * @param {number} [options.maxKeyIntervalMs] Longest pause between the keys of a card
+ * @param {number} [options.minLength] Fewest characters a card's UID has
+ * @param {string} [options.format] What the reader types, one of WEDGE_FORMATS
+ * @param {string} [options.byteOrder] Which byte it types first, one of WEDGE_BYTE_ORDERS
+ * @returns {Object} Card reader driver, plus handleKey(key, time)
+ */
+export const createKeyboardWedgeReader = ({
+  maxKeyIntervalMs = DEFAULT_MAX_KEY_INTERVAL_MS,
+  minLength = MIN_WEDGE_UID_LENGTH,
+  format = WEDGE_FORMATS.HEX,
+  byteOrder = WEDGE_BYTE_ORDERS.MSB_FIRST
+} = {}) => {
+  let listener = null;
+  let burst = '';
+  let lastKeyAt = 0;
+  
+  const reader = {
+    type: CARD_READER_TYPES.KEYBOARD,
+    name: CARD_READER_LABELS[CARD_READER_TYPES.KEYBOARD],
+    manager: null,
+    
+    init: async () => true,
+    
+    start: async (onCard, onError) => {
+      burst = '';
+      listener = { onCard, onError };
+    },
+    
+    stop: async () => {
+      listener = null;
+      burst = '';
+    },
+    
+    /**
+     * Take one keystroke
+     * @param {string} key The character typed, or "Enter"
+     * @param {number} [time] When it was typed, in ms
+     */
+    handleKey: (key, time = Date.now()) => {
+      if (!listener) {
+        return;
+      }
+      
+      // A pause means a person is typing; start over from this key
+      const isFast = time - lastKeyAt <= maxKeyIntervalMs;
+      lastKeyAt = time;
+      
+      if (key === 'Enter' || key === '\n' || key === '\r') {
+        const typed = burst;
+        burst = '';
+        if (!isFast || typed.length < minLength) {
+          return;
+        }
+        
+        const uid = wedgeOutputToUid(typed, { format, byteOrder });
+        if (!uid) {
+          // Most likely the reader is set to another format; keep listening
+          console.warn('[Keyboard reader] Not a card UID:', typed);
+          listener.onError(new Error(
+            `The reader typed "${typed}", which isn't a ${format === WEDGE_FORMATS.DECIMAL ? 'decimal' : 'hex'} card UID. ` +
+            'Check the USB reader format in Offline Settings.'
+          ));
+          return;
+        }
+        
+        const { onCard } = listener;
+        listener = null;
+        console.log('[Keyboard reader] Card read:', typed, uid);
+        onCard(toUidOnlyResult(normalizeCardId(uid), reader.type));
+        return;
+      }
+      
+      // Shift and other keys that don't type anything
+      if (key.length !== 1) {
+        return;
+      }
+      burst = isFast ? burst + key : key;
+    },
+  };
+  return reader;
+};
+
+/**
+ * Create a driver for card tokens shown as QR codes. Scanned codes are fed
+ * in with handleScannedCode (QrCardScanner does this).
+ * @returns {Object} Card reader driver, plus handleScannedCode(data)
+ */
+export const createQrCardReader = () => {
+  let listener = null;
+  let checking = false;
+  let lastRejected = null;
+  
+  const reader = {
+    type: CARD_READER_TYPES.QR,
+    name: CARD_READER_LABELS[CARD_READER_TYPES.QR],
+    manager: null,
+    
+    // Usable unless camera access has been refused for good
+    init: async () => {
+      try {
+        const permission = await BarCodeScanner.getPermissionsAsync();
+        return permission.granted || permission.canAskAgain;
+      } catch (error) {
+        console.warn('[QR] Camera not available:', error);
+        return false;
+      }
+    },
+    
+    start: async (onCard, onError) => {
+      const { granted } = await BarCodeScanner.requestPermissionsAsync();
+      if (!granted) {
+        throw new Error('Camera access is needed to scan card QR codes');
+      }
+      lastRejected = null;
+      listener = { onCard, onError };
+    },
+    
+    stop: async () => {
+      listener = null;
+    },
+    
+    /**
+     * Take a code the camera has read
+     * @param {string} data The QR code's contents
+     * @returns {Promise<void>}
+     */
+    handleScannedCode: async (data) => {
+      // The camera reports the code in view many times a second
+      if (!listener || checking || data === lastRejected) {
+        return;
+      }
+      
+      const { onCard, onError } = listener;
+      checking = true;
+      try {
+        const { cardId, nonce, expiresAt } = await verifyCardToken(data);
+        listener = null;
+        console.log('[QR] Card token accepted:', cardId);
+        // The payment uses the token up, so it needs the nonce
+        onCard({ ...toUidOnlyResult(cardId, reader.type), cardToken: { nonce, expiresAt } });
+      } catch (error) {
+        lastRejected = data;
+        console.warn('[QR] Card token rejected:', error.message);
+        onError?.(error);
+      } finally {
+        checking = false;
+      }
+    },
+  };
+  return reader;
+};
+
+/**
+ * Parse the simulator's card list from settings
+ * @param {string} text UIDs separated by commas, spaces or new lines
+ * @returns {Array<Object>} Simulator script
+ */
+export const parseSimulatorScript = (text) => {
+  return String(text || '')
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(uid => ({ uid: normalizeCardId(uid).slice('CARD-'.length) }));
+};
+
+/**
+ * Create a simulator that taps virtual cards on the mock NfcManager, so
+ * their records are read, checked and written back like a real card's.
+ * Each scan taps the next card in the script; once the script runs out (or
+ * without one) each scan taps a new random card.
+ * @param {Object} [options]
+ * @param {Array<Object>} [options.script] Steps, in order: { uid, ndefMessage,
+ *   delayMs } taps a card (created on first use), { error } fails the read
+ * @param {Object} [options.manager] Mock NfcManager to tap cards on
+ * @returns {Object} Card reader driver, plus enqueue(step)
+ */
+export const createSimulatedCardReader = ({ script = [], manager = mockNfcManager } = {}) => {
+  const steps = [...script];
+  const nfcReader = createNfcCardReader(manager);
+  let tapTimer = null;
+  
+  const reader = {
+    ...nfcReader,
+    type: CARD_READER_TYPES.SIMULATOR,
+    name: CARD_READER_LABELS[CARD_READER_TYPES.SIMULATOR],
+    
+    init: async () => true,
+    
+    start: async (onCard, onError) => {
+      await nfcReader.start(
+        (result) => onCard({ ...result, source: reader.type }),
+        onError
+      );
+      
+      const step = steps.shift() || {};
+      clearTimeout(tapTimer);
+      tapTimer = setTimeout(() => {
+        if (step.error) {
+          onError?.(new Error(step.error));
+          return;
+        }
+        
+        let uid = step.uid;
+        if (!uid || !manager.getTagMemory(uid)) {
+          uid = manager.addTag({ id: uid, ndefMessage: step.ndefMessage });
+        }
+        console.log('[Simulator] Tapping card:', uid);
+        manager.tapTag(uid);
+      }, step.delayMs ?? SIMULATED_TAP_DELAY_MS);
+    },
+    
+    stop: async () => {
+      clearTimeout(tapTimer);
+      await nfcReader.stop();
+    },
+    
+    /**
+     * Make a step the next one, e.g. to tap an earlier card again
+     * @param {Object} step Script step
+     */
+    enqueue: (step) => {
+      steps.unshift(step);
+    },
+  };
+  return reader;
+};
+
+/**
+ * Create a card reader driver
+ * @param {string} type One of CARD_READER_TYPES (NFC if unknown)
+ * @param {Object} [settings] User settings
+ * @returns {Object} Card reader driver
+ */
+export const createCardReader = (type, settings = {}) => {
+  switch (type) {
+    case CARD_READER_TYPES.KEYBOARD:
+      return createKeyboardWedgeReader({
+        format: settings.wedgeFormat,
+        byteOrder: settings.wedgeByteOrder
+      });
+    case CARD_READER_TYPES.QR:
+      return createQrCardReader();
+    case CARD_READER_TYPES.SIMULATOR:
+      return createSimulatedCardReader({ script: parseSimulatorScript(settings.simulatedCards) });
+    default:
+      return createNfcCardReader();
+  }
+};
+
+/**
+ * Get the driver for the card reader configured in settings
+ * @returns {Promise<Object>} Card reader driver
+ */
+export const getCardReader = async () => {
+  const settings = await getUserSettings();
+  return createCardReader(settings.cardReader, settings);
+};
@@ -0,0 +1,255 @@
+/**
+ * Signed stored-value records on NFC cards
+ *
+ * Every transaction writes one NDEF record (MIME type CARD_RECORD_MIME_TYPE)
+ * to the card: its balance, a counter that goes up with every write, the
+ * terminal that wrote it, and an HMAC-SHA256 over those fields and the card's
+ * UID, keyed with the signing key the terminals share (Offline Settings).
+ *
+ * When a card is scanned the record is checked:
+ * - the HMAC, so a forged or edited record is rejected
+ * - the UID it was signed for, so a record copied onto another card is rejected
+ * - the counter against the highest this terminal has seen for the card, so a
+ *   card restored to an earlier (higher-balance) state is rejected
+ *
+ * Cards without a record are plain UID-only cards and work as before.
+ *
+ * Version 2 records hold the balance in minor units, like the rest of the
+ * app. Version 1 records (balance in pesos, signed with two decimals) are
+ * still accepted and read as minor units; the next write upgrades the card.
+ */
+import { Ndef, NfcTech } from 'react-native-nfc-manager';
+import { normalizeCardId } from './formatters';
+import { isMoney, toMinorUnits } from './money';
+import { hmacSha256, signaturesMatch } from './crypto';
+import { getUserSettings, getTerminalId, getCardCounter, saveCardCounter } from './storage';
+
+export const CARD_RECORD_MIME_TYPE = 'application/vnd.nfcpay.wallet';
+
+const CARD_RECORD_VERSION = 2;
+
+// Records written before balances were kept in minor units
+const LEGACY_CARD_RECORD_VERSION = 1;
+
+// How long a write waits for the card to be presented
+const WRITE_TIMEOUT_MS = 15000;
+
+// Outcomes of reading a card's record
+export const CARD_RECORD_STATUS = {
+  VERIFIED: 'verified',
+  // UID-only card, or a record this terminal cannot check
+  NONE: 'none',
+  UNVERIFIABLE: 'unverifiable',
+  MALFORMED: 'malformed',
+  // The card must not be trusted
+  INVALID_SIGNATURE: 'invalid_signature',
+  UID_MISMATCH: 'uid_mismatch',
+  ROLLED_BACK: 'rolled_back',
+};
+
+const REJECTED_STATUSES = [
+  CARD_RECORD_STATUS.INVALID_SIGNATURE,
+  CARD_RECORD_STATUS.UID_MISMATCH,
+  CARD_RECORD_STATUS.ROLLED_BACK,
+];
+
+// The fields covered by the signature, in a fixed order
+const getSignedData = (record) => [
+  record.v,
+  record.cardId,
+  record.v === LEGACY_CARD_RECORD_VERSION ? Number(record.balance).toFixed(2) : String(record.balance),
+  record.counter,
+  record.terminalId,
+  record.writtenAt
+].join('|');
+
+/**
+ * Get the key terminals sign card records with
+ * @returns {Promise<string|null>} The key, or null if none is configured
+ */
+export const getCardSigningKey = async () => {
+  const settings = await getUserSettings();
+  return settings.cardSigningKey || null;
+};
+
+/**
+ * Check whether a scan result means the card must be refused
+ * @param {Object} [cardRecord] Result of verifyCardRecord
+ * @returns {boolean}
+ */
+export const isCardRecordRejected = (cardRecord) => {
+  return !!cardRecord && REJECTED_STATUSES.includes(cardRecord.status);
+};
+
+/**
+ * Describe a card record check for the operator
+ * @param {Object} cardRecord Result of verifyCardRecord
+ * @returns {string}
+ */
+export const describeCardRecordStatus = (cardRecord) => {
+  switch (cardRecord?.status) {
+    case CARD_RECORD_STATUS.VERIFIED:
+      return 'Card balance verified';
+    case CARD_RECORD_STATUS.UNVERIFIABLE:
+      return 'The card carries a balance record, but no signing key is set on this terminal';
+    case CARD_RECORD_STATUS.MALFORMED:
+      return 'The balance record on the card is unreadable';
+    case CARD_RECORD_STATUS.INVALID_SIGNATURE:
+      return 'The balance record on the card has been tampered with';
+    case CARD_RECORD_STATUS.UID_MISMATCH:
+      return 'The balance record on the card was copied from another card';
+    case CARD_RECORD_STATUS.ROLLED_BACK:
+      return 'The card has been restored to an earlier state (possible clone)';
+    default:
+      return 'UID-only card';
+  }
+};
+
+// Check whether an NDEF record is a card record
+const isCardRecord = (ndefRecord) => {
+  return Ndef.isType(ndefRecord, Ndef.TNF_MIME_MEDIA, CARD_RECORD_MIME_TYPE);
+};
+
+// Find and parse the card record in an NDEF message
+// Returns undefined when there is none, null when it can't be parsed
+const parseCardRecord = (ndefMessage = []) => {
+  const ndefRecord = (ndefMessage || []).find(isCardRecord);
+  if (!ndefRecord) {
+    return undefined;
+  }
+  
+  try {
+    const record = JSON.parse(Ndef.util.bytesToString(ndefRecord.payload));
+    const wellFormed = record
+      && (record.v === CARD_RECORD_VERSION ? isMoney(record.balance)
+        : record.v === LEGACY_CARD_RECORD_VERSION && Number.isFinite(record.balance))
+      && typeof record.cardId === 'string'
+      && Number.isInteger(record.counter)
+      && typeof record.signature === 'string';
+    return wellFormed ? record : null;
+  } catch (error) {
+    console.warn('[NFC] Unreadable card record:', error);
+    return null;
+  }
+};
+
+// Give a checked record its balance in minor units
+const toCurrentRecord = (record) => {
+  return record.v === LEGACY_CARD_RECORD_VERSION
+    ? { ...record, balance: toMinorUnits(record.balance) }
+    : record;
+};
+
+/**
+ * Check the record read from a card. The record returned always has its
+ * balance in minor units, whatever version the card holds.
+ * @param {string} cardId The card's ID (from its UID)
+ * @param {Array} ndefMessage NDEF records read from the card
+ * @returns {Promise<{status: string, record: Object|null, lastSeenCounter?: number}>}
+ */
+export const verifyCardRecord = async (cardId, ndefMessage = []) => {
+  const stored = parseCardRecord(ndefMessage);
+  if (stored === undefined) {
+    return { status: CARD_RECORD_STATUS.NONE, record: null };
+  }
+  if (stored === null) {
+    return { status: CARD_RECORD_STATUS.MALFORMED, record: null };
+  }
+  const record = toCurrentRecord(stored);
+  
+  const key = await getCardSigningKey();
+  if (!key) {
+    return { status: CARD_RECORD_STATUS.UNVERIFIABLE, record };
+  }
+  
+  if (record.cardId !== cardId) {
+    return { status: CARD_RECORD_STATUS.UID_MISMATCH, record };
+  }
+  
+  // The signature covers the record as stored
+  if (!signaturesMatch(await hmacSha256(key, getSignedData(stored)), stored.signature)) {
+    return { status: CARD_RECORD_STATUS.INVALID_SIGNATURE, record };
+  }
+  
+  const lastSeenCounter = await getCardCounter(cardId);
+  if (record.counter < lastSeenCounter) {
+    return { status: CARD_RECORD_STATUS.ROLLED_BACK, record, lastSeenCounter };
+  }
+  
+  await saveCardCounter(cardId, record.counter);
+  return { status: CARD_RECORD_STATUS.VERIFIED, record };
+};
+
+/**
+ * Read a discovered tag: its card ID and the checked balance record
+ * @param {Object} tag Tag from NfcManager (id and ndefMessage)
+ * @returns {Promise<{cardId: string, cardRecord: Object}>}
+ */
+export const readCardTag = async (tag) => {
+  const cardId = normalizeCardId(tag.id);
+  const cardRecord = await verifyCardRecord(cardId, tag.ndefMessage);
+  return { cardId, cardRecord };
+};
+
+/**
+ * Write a new signed balance record to a card. Waits for the card to be
+ * presented, checks it is the right one, and replaces any earlier card
+ * record while leaving other NDEF records on the card alone.
+ * @param {Object} manager NfcManager (or the mock)
+ * @param {Object} data
+ * @param {string} data.cardId The card the transaction was made with
+ * @param {number} data.balance The card's balance after the transaction, in minor units
+ * @param {number} [data.timeoutMs] How long to wait for the card
+ * @returns {Promise<Object>} The record written
+ */
+export const writeCardRecord = async (manager, { cardId, balance, timeoutMs = WRITE_TIMEOUT_MS }) => {
+  const key = await getCardSigningKey();
+  if (!key) {
+    throw new Error('No card signing key is set. Add one in Offline Settings.');
+  }
+  if (!isMoney(balance)) {
+    throw new TypeError(`Card balance must be in minor units, got ${balance}`);
+  }
+  
+  let timer;
+  try {
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Timed out waiting for the card')), timeoutMs);
+    });
+    await Promise.race([manager.requestTechnology(NfcTech.Ndef), timeout]);
+    
+    const tag = await manager.getTag();
+    const presentedCardId = normalizeCardId(tag?.id);
+    if (presentedCardId !== cardId) {
+      throw new Error(`Wrong card presented (${presentedCardId || 'unknown'}), expected ${cardId}`);
+    }
+    
+    // Another terminal may have written the card since this one last saw it
+    const current = parseCardRecord(tag.ndefMessage);
+    const counter = Math.max(current?.counter || 0, await getCardCounter(cardId)) + 1;
+    
+    const record = {
+      v: CARD_RECORD_VERSION,
+      cardId,
+      balance,
+      counter,
+      terminalId: await getTerminalId(),
+      writtenAt: new Date().toISOString()
+    };
+    record.signature = await hmacSha256(key, getSignedData(record));
+    
+    const otherRecords = (tag.ndefMessage || [])
+      .filter(r => !isCardRecord(r))
+      .map(r => Ndef.record(r.tnf, r.type, r.id || [], r.payload));
+    const cardRecord = Ndef.record(Ndef.TNF_MIME_MEDIA, CARD_RECORD_MIME_TYPE, [], JSON.stringify(record));
+    
+    await manager.ndefHandler.writeNdefMessage(Ndef.encodeMessage([...otherRecords, cardRecord]));
+    await saveCardCounter(cardId, counter);
+    
+    console.log(`[NFC] Wrote card record #${counter} to ${cardId}`);
+    return record;
+  } finally {
+    clearTimeout(timer);
+    await manager.cancelTechnologyRequest().catch(() => {});
+  }
+};
@@ -0,0 +1,166 @@
+/**
+ * Per-card PIN and spending limits
+ *
+ * A customer's optional `security` settings:
+ * - pinHash / pinSalt: salted SHA-256 of the card's PIN (the PIN itself is
+ *   never stored or queued)
+ * - pinThreshold: payments above this amount need the PIN (0 or unset means
+ *   every payment does, as long as a PIN is set)
+ * - transactionLimit: the most a single payment may be
+ * - dailyLimit: the most the card may spend in a day
+ *
+ * The server enforces these for online payments. Offline, the terminal checks
+ * them against the cached customer, the day's spend tracked in storage, and
+ * its own count of wrong PINs, locking the card after too many. Amounts and
+ * limits are integer minor units.
+ */
+import * as Crypto from 'expo-crypto';
+import { loadPinAttempts, savePinAttempts } from './storage';
+import { addMoney, subtractMoney, compareMoney } from './money';
+
+// Wrong PINs allowed before the card is locked on this terminal
+export const MAX_PIN_ATTEMPTS = 3;
+
+// How long a locked card stays locked
+export const PIN_LOCKOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Check whether a PIN has the right format: 4 to 6 digits
+ * @param {string} pin PIN as entered
+ * @returns {boolean}
+ */
+export const isValidPinFormat = (pin) => /^\d{4,6}$/.test(pin || '');
+
+/**
+ * Hash a PIN with a salt
+ * @param {string} pin PIN as entered
+ * @param {string} salt Hex salt
+ * @returns {Promise<string>} Hex SHA-256 digest
+ */
+export const hashPin = async (pin, salt) => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+};
+
+/**
+ * Create the stored form of a new PIN
+ * @param {string} pin PIN as entered
+ * @returns {Promise<{pinHash: string, pinSalt: string}>}
+ */
+export const createPinCredentials = async (pin) => {
+  if (!isValidPinFormat(pin)) {
+    throw new Error('PIN must be 4 to 6 digits');
+  }
+  
+  const pinSalt = Array.from(Crypto.getRandomBytes(16))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  
+  return { pinHash: await hashPin(pin, pinSalt), pinSalt };
+};
+
+/**
+ * Turn security settings as entered (with a plain `pin`) into the form that
+ * is stored and sent: the PIN is replaced by its salted hash, and `pin: null`
+ * removes it. Settings not given are kept from `current`.
+ * @param {Object} settings { pin?, pinThreshold?, transactionLimit?, dailyLimit? }
+ * @param {Object} [current] The card's current security settings
+ * @returns {Promise<Object>} Security settings without the plain PIN
+ */
+export const prepareSecuritySettings = async ({ pin, ...settings }, current = {}) => {
+  const prepared = { ...current, ...settings };
+  
+  if (pin === null) {
+    prepared.pinHash = null;
+    prepared.pinSalt = null;
+  } else if (pin !== undefined) {
+    Object.assign(prepared, await createPinCredentials(pin));
+  }
+  
+  return prepared;
+};
+
+/**
+ * Check whether a payment needs the card's PIN
+ * @param {Object} customer Customer data
+ * @param {number} amount Payment amount
+ * @returns {boolean}
+ */
+export const isPinRequired = (customer, amount) => {
+  const security = customer?.security;
+  if (!security?.pinHash) {
+    return false;
+  }
+  return compareMoney(amount, Number(security.pinThreshold) || 0) > 0;
+};
+
+/**
+ * Find the first spending limit a payment would break
+ * @param {Object} customer Customer data
+ * @param {number} amount Payment amount
+ * @param {number} spentToday What the card has already spent today
+ * @returns {{limit: 'transaction'|'daily', max: number, remaining: number}|null}
+ */
+export const findSpendingLimitViolation = (customer, amount, spentToday = 0) => {
+  const security = customer?.security || {};
+  
+  if (security.transactionLimit != null && compareMoney(amount, Number(security.transactionLimit)) > 0) {
+    const max = Number(security.transactionLimit);
+    return { limit: 'transaction', max, remaining: max };
+  }
+  
+  if (security.dailyLimit != null && compareMoney(addMoney(spentToday, amount), Number(security.dailyLimit)) > 0) {
+    const max = Number(security.dailyLimit);
+    return { limit: 'daily', max, remaining: Math.max(0, subtractMoney(max, spentToday)) };
+  }
+  
+  return null;
+};
+
+/**
+ * Get when a card's PIN lockout on this terminal ends
+ * @param {number|string} customerId Customer ID
+ * @returns {Promise<Date|null>} End of the lockout, or null if not locked
+ */
+export const getPinLockout = async (customerId) => {
+  const { lockedUntil } = await loadPinAttempts(customerId);
+  if (!lockedUntil || new Date(lockedUntil) <= new Date()) {
+    return null;
+  }
+  return new Date(lockedUntil);
+};
+
+/**
+ * Check a PIN against the cached hash, counting wrong attempts. The card is
+ * locked for PIN_LOCKOUT_MS after MAX_PIN_ATTEMPTS wrong PINs in a row; a
+ * right PIN clears the count.
+ * @param {Object} customer Customer data (with security settings)
+ * @param {string} pin PIN as entered
+ * @returns {Promise<{valid: boolean, attemptsRemaining: number, lockedUntil: Date|null}>}
+ */
+export const verifyPin = async (customer, pin) => {
+  const { pinHash, pinSalt } = customer.security || {};
+  const valid = !!pinHash && (await hashPin(pin, pinSalt)) === pinHash;
+  
+  if (valid) {
+    await savePinAttempts(customer.id, null);
+    return { valid: true, attemptsRemaining: MAX_PIN_ATTEMPTS, lockedUntil: null };
+  }
+  
+  // A lockout that has run out starts a fresh count
+  const previous = await loadPinAttempts(customer.id);
+  const failures = (previous.lockedUntil ? 0 : previous.failures) + 1;
+  const lockedUntil = failures >= MAX_PIN_ATTEMPTS
+    ? new Date(Date.now() + PIN_LOCKOUT_MS)
+    : null;
+  
+  await savePinAttempts(customer.id, {
+    failures,
+    lockedUntil: lockedUntil ? lockedUntil.toISOString() : null
+  });
+  
+  return {
+    valid: false,
+    attemptsRemaining: Math.max(0, MAX_PIN_ATTEMPTS - failures),
+    lockedUntil
+  };
+};
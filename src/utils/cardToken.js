@@ -0,0 +1,102 @@
+/**
+ * Signed card tokens, for paying with a QR code
+ *
+ * Instead of tapping their card, a customer can show a QR code on their
+ * phone holding a card token issued by the server: the card's UID, when the
+ * token expires and a random nonce, with an HMAC-SHA256 over them keyed with
+ * the card signing key the terminals share (the one card records are signed
+ * with):
+ *
+ *   NFCPAY1.<uid>.<expiresAt>.<nonce>.<signature>
+ *
+ * Tokens only last a few minutes, so a screenshot of one is soon useless.
+ * Scanning a token doesn't use it up: a payment made with it does, once it
+ * is saved (offline) or the server has taken it. The terminal then refuses
+ * the token until it expires (storage.js keeps the used nonces), and the
+ * payment carries the nonce so the server can refuse a token already used
+ * on another terminal.
+ */
+import { normalizeCardId } from './formatters';
+import { hmacSha256, signaturesMatch, randomHex } from './crypto';
+import { getCardSigningKey } from './cardRecord';
+import { isCardTokenUsed } from './storage';
+
+export const CARD_TOKEN_PREFIX = 'NFCPAY1';
+
+// How long createCardToken makes a token valid for
+export const DEFAULT_CARD_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+// Tokens valid for longer than this are refused, which also bounds how long
+// used tokens have to be remembered
+export const MAX_CARD_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+// The fields covered by the signature, in a fixed order
+const getSignedData = (uid, expiresAt, nonce) => [CARD_TOKEN_PREFIX, uid, expiresAt, nonce].join('|');
+
+// Get the signing key, or explain why tokens can't be used
+const requireSigningKey = async () => {
+  const key = await getCardSigningKey();
+  if (!key) {
+    throw new Error('Card QR codes need a card signing key. Add one in Offline Settings.');
+  }
+  return key;
+};
+
+/**
+ * Create a card token, as the server does for the customer's phone
+ * @param {Object} options
+ * @param {string} options.cardId The card to pay with
+ * @param {number} [options.ttlMs] How long the token is valid for
+ * @param {number} [now] Current time in ms
+ * @returns {Promise<string>} The token, to show as a QR code
+ */
+export const createCardToken = async ({ cardId, ttlMs = DEFAULT_CARD_TOKEN_TTL_MS }, now = Date.now()) => {
+  const key = await requireSigningKey();
+  const uid = normalizeCardId(cardId).slice('CARD-'.length);
+  if (!uid) {
+    throw new Error('A card ID is required');
+  }
+  
+  const expiresAt = now + ttlMs;
+  const nonce = randomHex(8);
+  const signature = await hmacSha256(key, getSignedData(uid, expiresAt, nonce));
+  return [CARD_TOKEN_PREFIX, uid, expiresAt, nonce, signature].join('.');
+};
+
+/**
+ * Check a scanned card token. Pass its nonce and expiry on with the payment
+ * (as cardToken), which uses it up.
+ * @param {string} text The QR code's contents
+ * @param {number} [now] Current time in ms
+ * @returns {Promise<{cardId: string, nonce: string, expiresAt: number}>}
+ * @throws {Error} If the token is unreadable, forged, expired or already used
+ */
+export const verifyCardToken = async (text, now = Date.now()) => {
+  const parts = String(text || '').trim().split('.');
+  if (parts.length !== 5 || parts[0] !== CARD_TOKEN_PREFIX) {
+    throw new Error('Not a card QR code');
+  }
+  
+  const [, uid, expiresAtText, nonce, signature] = parts;
+  const expiresAt = Number(expiresAtText);
+  if (!/^[0-9A-Za-z]+$/.test(uid) || !Number.isSafeInteger(expiresAt) || !/^[0-9a-f]+$/i.test(nonce)) {
+    throw new Error('The card QR code is unreadable');
+  }
+  
+  const key = await requireSigningKey();
+  if (!signaturesMatch(await hmacSha256(key, getSignedData(uid, expiresAt, nonce)), signature.toLowerCase())) {
+    throw new Error('The card QR code is not genuine');
+  }
+  if (expiresAt <= now) {
+    throw new Error('The card QR code has expired. Ask the customer to refresh it.');
+  }
+  if (expiresAt - now > MAX_CARD_TOKEN_TTL_MS) {
+    throw new Error('The card QR code is valid for too long');
+  }
+  
+  if (await isCardTokenUsed(nonce, now)) {
+    throw new Error('This card QR code has already been used. Ask the customer to refresh it.');
+  }
+  
+  return { cardId: normalizeCardId(uid), nonce, expiresAt };
+};
@@ -0,0 +1,117 @@
+/**
+ * Cart helpers for multi-item payments
+ *
+ * A cart is a plain array of line items: { description, amount, quantity },
+ * where amount is the unit price in minor units. Lines picked from the product catalog also
+ * carry productId and sku. The same array is sent as the payment's
+ * `items`, stored with offline transactions, synced, and shown line by line
+ * on receipts and in transaction history.
+ */
+import { multiplyMoney, sumMoney } from './money';
+
+/**
+ * Get the total for a single line item
+ * @param {Object} item Line item
+ * @returns {number} Unit price times quantity
+ */
+export const getLineTotal = (item) => multiplyMoney(item.amount || 0, item.quantity || 1);
+
+/**
+ * Get the subtotal of every line in the cart
+ * @param {Array} items Cart line items
+ * @returns {number} Cart subtotal
+ */
+export const getCartTotal = (items = []) => {
+  return sumMoney(items.map(getLineTotal));
+};
+
+/**
+ * Get the number of units in the cart
+ * @param {Array} items Cart line items
+ * @returns {number} Sum of quantities
+ */
+export const getCartQuantity = (items = []) => {
+  return items.reduce((count, item) => count + (item.quantity || 1), 0);
+};
+
+/**
+ * Check whether a cart line is for the given item. Catalog products match
+ * by productId; custom items match by description and unit price.
+ * @param {Object} line Cart line
+ * @param {Object} item Item being added
+ * @returns {boolean}
+ */
+const isSameItem = (line, item) => {
+  if (item.productId != null || line.productId != null) {
+    return line.productId === item.productId;
+  }
+  return line.description === item.description && line.amount === item.amount;
+};
+
+/**
+ * Add an item to the cart. Adding an item that is already in the cart
+ * increases its quantity instead of adding a second line.
+ * @param {Array} items Cart line items
+ * @param {Object} item Item to add ({ description, amount, quantity?, productId?, sku? })
+ * @returns {Array} New cart
+ */
+export const addCartItem = (items, item) => {
+  const quantity = item.quantity || 1;
+  const existingIndex = items.findIndex(line => isSameItem(line, item));
+  
+  if (existingIndex === -1) {
+    const line = { description: item.description, amount: item.amount, quantity };
+    if (item.productId != null) {
+      line.productId = item.productId;
+      line.sku = item.sku;
+    }
+    return [...items, line];
+  }
+  
+  return items.map((line, index) =>
+    index === existingIndex ? { ...line, quantity: line.quantity + quantity } : line
+  );
+};
+
+/**
+ * Set the quantity of a cart line. A quantity of zero or less removes it.
+ * @param {Array} items Cart line items
+ * @param {number} index Line to change
+ * @param {number} quantity New quantity
+ * @returns {Array} New cart
+ */
+export const setCartItemQuantity = (items, index, quantity) => {
+  if (quantity <= 0) {
+    return removeCartItem(items, index);
+  }
+  
+  return items.map((line, i) => (i === index ? { ...line, quantity } : line));
+};
+
+/**
+ * Remove a line from the cart
+ * @param {Array} items Cart line items
+ * @param {number} index Line to remove
+ * @returns {Array} New cart
+ */
+export const removeCartItem = (items, index) => items.filter((_, i) => i !== index);
+
+/**
+ * Build the one-line transaction description for a cart
+ * @param {Array} items Cart line items
+ * @returns {string} e.g. "Product Purchase" or "Product Purchase + 2 more items"
+ */
+export const describeCart = (items = []) => {
+  if (items.length === 0) {
+    return '';
+  }
+  
+  const [first, ...rest] = items;
+  const firstLabel = first.quantity > 1 ? `${first.description} x${first.quantity}` : first.description;
+  
+  if (rest.length === 0) {
+    return firstLabel;
+  }
+  
+  return `${firstLabel} + ${rest.length} more item${rest.length === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,110 @@
+/**
+ * Product catalog helpers
+ *
+ * Products carry an optional stock count (null when the product doesn't
+ * track stock). Offline sales decrement the cached count right away; when the
+ * catalog is fetched again from the server, the quantities still waiting in
+ * the sync queue are taken off the server's counts so those sales aren't
+ * counted back in before they sync.
+ */
+import { loadPendingTransactions } from './storage';
+
+/**
+ * Sum the quantity of each product sold by queued payments
+ * @param {Array} pending Pending sync queue
+ * @returns {Map} productId -> quantity not yet known to the server
+ */
+export const getPendingStockUsage = (pending = []) => {
+  const usage = new Map();
+  
+  pending
+    .filter(t => t.type === 'payment')
+    .forEach(t => {
+      (t.items || [])
+        .filter(item => item.productId != null)
+        .forEach(item => {
+          usage.set(item.productId, (usage.get(item.productId) || 0) + (item.quantity || 1));
+        });
+    });
+  
+  return usage;
+};
+
+/**
+ * Reconcile the server's stock counts with sales still in the sync queue
+ * @param {Array} products Products as returned by the server
+ * @param {Array} [pending] Pending sync queue (loaded from storage if omitted)
+ * @returns {Promise<Array>} Products with pending sales taken off their stock
+ */
+export const reconcileProductStock = async (products, pending) => {
+  const queue = pending || await loadPendingTransactions();
+  const usage = getPendingStockUsage(queue);
+  
+  return products.map(product => {
+    const pendingQuantity = usage.get(product.id);
+    if (product.stock == null || !pendingQuantity) {
+      return product;
+    }
+    return { ...product, stock: Math.max(0, product.stock - pendingQuantity) };
+  });
+};
+
+/**
+ * Find the first cart line asking for more units than the catalog has
+ * @param {Array} items Cart line items
+ * @param {Array} products Product catalog
+ * @returns {{product: Object, requested: number, available: number}|null}
+ */
+export const findStockShortage = (items = [], products = []) => {
+  for (const product of products) {
+    if (product.stock == null) {
+      continue;
+    }
+    
+    const requested = items
+      .filter(item => item.productId === product.id)
+      .reduce((total, item) => total + (item.quantity || 1), 0);
+    
+    if (requested > product.stock) {
+      return { product, requested, available: product.stock };
+    }
+  }
+  
+  return null;
+};
+
+/**
+ * List the categories present in the catalog, in alphabetical order
+ * @param {Array} products Product catalog
+ * @returns {Array<string>} Category names
+ */
+export const getProductCategories = (products = []) => {
+  const categories = new Set(products.map(p => p.category).filter(Boolean));
+  return [...categories].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Filter the catalog by a search query and category
+ * @param {Array} products Product catalog
+ * @param {Object} [filters]
+ * @param {string} [filters.query] Matched against name and SKU (case-insensitive)
+ * @param {string|null} [filters.category] Only products in this category
+ * @returns {Array} Active products matching the filters
+ */
+export const filterProducts = (products = [], { query = '', category = null } = {}) => {
+  const needle = query.trim().toLowerCase();
+  
+  return products.filter(product => {
+    if (product.active === false) {
+      return false;
+    }
+    if (category && product.category !== category) {
+      return false;
+    }
+    if (!needle) {
+      return true;
+    }
+    return product.name.toLowerCase().includes(needle)
+      || product.sku.toLowerCase().includes(needle);
+  });
+};
@@ -0,0 +1,70 @@
+/**
+ * Hashing and signing helpers shared by the card records and the
+ * transaction journal
+ */
+import * as Crypto from 'expo-crypto';
+import { Ndef } from 'react-native-nfc-manager';
+
+const SHA256_BLOCK_SIZE = 64;
+
+// SHA-256 of a byte array
+const sha256 = async (bytes) => {
+  const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, new Uint8Array(bytes));
+  return Array.from(new Uint8Array(digest));
+};
+
+/**
+ * SHA-256 of a string
+ * @param {string} message
+ * @returns {Promise<string>} Hex digest
+ */
+export const sha256Hex = async (message) => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, message);
+};
+
+/**
+ * HMAC-SHA256 (RFC 2104) of a string
+ * @param {string} key Secret key
+ * @param {string} message
+ * @returns {Promise<string>} Hex signature
+ */
+export const hmacSha256 = async (key, message) => {
+  let keyBytes = Ndef.util.stringToBytes(key);
+  if (keyBytes.length > SHA256_BLOCK_SIZE) {
+    keyBytes = await sha256(keyBytes);
+  }
+  const paddedKey = [...keyBytes, ...new Array(SHA256_BLOCK_SIZE - keyBytes.length).fill(0)];
+  
+  const inner = await sha256([...paddedKey.map(b => b ^ 0x36), ...Ndef.util.stringToBytes(message)]);
+  const outer = await sha256([...paddedKey.map(b => b ^ 0x5c), ...inner]);
+  
+  return outer.map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Compare two signatures without stopping at the first difference
+ * @param {string} a
+ * @param {string} b
+ * @returns {boolean}
+ */
+export const signaturesMatch = (a, b) => {
+  if (typeof a !== 'string' || typeof b !== 'string' || a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+/**
+ * Generate a random hex string
+ * @param {number} byteCount Number of random bytes
+ * @returns {string}
+ */
+export const randomHex = (byteCount) => {
+  return Array.from(Crypto.getRandomBytes(byteCount))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
@@ -0,0 +1,86 @@
+/**
+ * Protecting customer data on a lost or stolen terminal
+ *
+ * On top of encryption at rest (vault.js):
+ * - the storage key can be rotated, re-encrypting everything under a new key
+ * - the server can flag a terminal for remote wipe; the flag is checked on
+ *   every sync and erases everything stored on the terminal
+ * - cached customers and transactions are purged when the terminal hasn't
+ *   synced for `purgeAfterDays` days (Offline Settings; 0 turns this off)
+ * - cached transaction history is kept within the limits in storage.js
+ */
+import { signOut } from './operators';
+import {
+  encryptSensitiveData,
+  purgeCachedData,
+  pruneCachedTransactions,
+  clearAllData,
+  getLastSyncTimestamp,
+  getUserSettings
+} from './storage';
+import { openVault, beginKeyRotation, finishKeyRotation, destroyVault } from './vault';
+
+export const DEFAULT_PURGE_AFTER_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Re-encrypt all stored data under a new storage key and drop the old key
+ * @returns {Promise<void>}
+ */
+export const rotateStorageKey = async () => {
+  try {
+    const retiredKeyIds = await beginKeyRotation();
+    await encryptSensitiveData({ reencrypt: true });
+    await finishKeyRotation(retiredKeyIds);
+  } catch (error) {
+    console.error('Error rotating storage key:', error);
+    throw error;
+  }
+};
+
+/**
+ * Erase everything stored on the terminal, including queued transactions
+ * that haven't synced, and sign the operator out
+ * @param {string} reason Why, for the log
+ * @returns {Promise<void>}
+ */
+export const wipeTerminal = async (reason) => {
+  try {
+    console.warn(`[Data protection] Wiping terminal: ${reason}`);
+    signOut();
+    await clearAllData();
+    await destroyVault();
+    await openVault();
+  } catch (error) {
+    console.error('Error wiping terminal:', error);
+    throw error;
+  }
+};
+
+/**
+ * Drop cached transactions past the history limits, and purge the cached
+ * customers and transactions if the terminal hasn't synced for longer than
+ * the retention setting allows
+ * @returns {Promise<boolean>} Whether the cache was purged
+ */
+export const enforceDataRetention = async () => {
+  try {
+    await pruneCachedTransactions();
+    
+    const settings = await getUserSettings();
+    const purgeAfterDays = settings.purgeAfterDays ?? DEFAULT_PURGE_AFTER_DAYS;
+    const lastSync = await getLastSyncTimestamp();
+    
+    if (!purgeAfterDays || !lastSync || Date.now() - lastSync < purgeAfterDays * DAY_MS) {
+      return false;
+    }
+    
+    console.warn(`[Data protection] No sync for over ${purgeAfterDays} days; purging cached customer data`);
+    await purgeCachedData();
+    return true;
+  } catch (error) {
+    console.error('Error enforcing data retention:', error);
+    return false;
+  }
+};
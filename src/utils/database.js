@@ -0,0 +1,639 @@
+/**
+ * Local record database
+ *
+ * Customers, cached transactions and the pending queue are stored as one
+ * AsyncStorage item per record (`db:<table>:<key>`) instead of one JSON
+ * array per kind, so changing a record rewrites only that record. A table
+ * is read into memory the first time it is used and indexed there (see
+ * TABLE_SCHEMAS), which turns lookups by card, customer or date into map
+ * lookups instead of scans. Indexes are rebuilt from the records on load
+ * and never stored, so they can't drift from the data.
+ *
+ * Writes go through runTransaction. All the writes of a transaction are
+ * first stored together as a single item (the commit log) and only then
+ * applied, and an unfinished commit is completed the next time the
+ * database opens. The queue, the cache and the balance therefore change
+ * together or not at all. Transactions run one at a time.
+ *
+ * Records are always encrypted (see vault.js). The schema is versioned:
+ * MIGRATIONS bring data stored by earlier app versions up to date when the
+ * database opens.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { encryptValue, decryptValue, isEncryptedValue } from './vault';
+import {
+  convertLegacyCustomer,
+  convertLegacyTransaction,
+  convertLegacyProduct,
+  convertLegacyAllowance,
+  convertLegacyOverspendReport,
+  convertLegacyConflict,
+  convertLegacyShiftReport,
+  convertLegacyDailySpend
+} from './legacyAmounts';
+
+export const TABLES = {
+  CUSTOMERS: 'customers',
+  TRANSACTIONS: 'transactions',
+  PENDING: 'pending',
+};
+
+/**
+ * Get the local YYYY-MM-DD a timestamp falls on, as used by date indexes
+ * @param {Date|string|number} [value] The timestamp (defaults to now)
+ * @returns {string|null} Null for an invalid timestamp
+ */
+export const getLocalDateKey = (value = new Date()) => {
+  const d = new Date(value);
+  if (isNaN(d.getTime())) {
+    return null;
+  }
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+// How each table's records are keyed, indexed and ordered. An index
+// function returns the value, or values, a record can be found by.
+// Records are returned in the order they were first stored unless the
+// table has its own `compare`.
+const TABLE_SCHEMAS = {
+  [TABLES.CUSTOMERS]: {
+    key: customer => customer.id,
+    indexes: {
+      // The simple model (cardId) and the nested cards array
+      cardId: customer => [customer.cardId, ...(customer.cards || []).map(card => card.cardId)],
+    },
+  },
+  [TABLES.TRANSACTIONS]: {
+    key: transaction => transaction.transactionId ?? transaction.id,
+    indexes: {
+      id: transaction => transaction.id,
+      customerId: transaction => transaction.customerId,
+      cardId: transaction => transaction.cardId,
+      date: transaction => (transaction.createdAt ? getLocalDateKey(transaction.createdAt) : null),
+      idempotencyKey: transaction => transaction.idempotencyKey,
+    },
+    // Newest first
+    compare: (a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''),
+  },
+  [TABLES.PENDING]: {
+    key: item => item.id,
+    indexes: {
+      customerId: item => item.customerId,
+      cardId: item => item.cardId,
+    },
+  },
+};
+
+const SCHEMA_VERSION = 2;
+const VERSION_ITEM = 'db:version';
+const COMMIT_ITEM = 'db:commit';
+// How far a migration that runs in several commits has got
+const MIGRATION_PROGRESS_ITEM = 'db:migration';
+
+/**
+ * Records to write per commit when writing many. Keeps the commit log well
+ * under the size Android allows for a single item.
+ */
+export const MAX_COMMIT_RECORDS = 200;
+
+// Loaded tables by name, as promises of
+// { rows: Map<key, {seq, record}>, nextSeq, indexes: { [name]: Map<value, Set<key>> } }
+const tableLoads = {};
+let opening = null;
+let commitQueue = Promise.resolve();
+const commitListeners = new Set();
+
+const tablePrefix = (table) => `db:${table}:`;
+
+const recordItem = (table, key) => `${tablePrefix(table)}${key}`;
+
+// Key of a record, refusing records that don't have one
+const getRecordKey = (table, record) => {
+  const key = TABLE_SCHEMAS[table].key(record);
+  if (key === undefined || key === null || key === '') {
+    throw new Error(`A ${table} record needs a key`);
+  }
+  return key;
+};
+
+// Values a record is indexed under, without empty ones
+const getIndexValues = (indexFn, record) => {
+  return [].concat(indexFn(record)).filter(value => value !== undefined && value !== null && value !== '');
+};
+
+const createTableState = (table) => ({
+  rows: new Map(),
+  nextSeq: 1,
+  indexes: Object.fromEntries(Object.keys(TABLE_SCHEMAS[table].indexes).map(name => [name, new Map()])),
+});
+
+const unindexRow = (table, state, key) => {
+  const row = state.rows.get(key);
+  if (!row) {
+    return;
+  }
+  
+  Object.entries(TABLE_SCHEMAS[table].indexes).forEach(([name, indexFn]) => {
+    getIndexValues(indexFn, row.record).forEach(value => {
+      const keys = state.indexes[name].get(value);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        state.indexes[name].delete(value);
+      }
+    });
+  });
+  state.rows.delete(key);
+};
+
+const indexRow = (table, state, row) => {
+  const key = getRecordKey(table, row.record);
+  unindexRow(table, state, key);
+  
+  state.rows.set(key, row);
+  state.nextSeq = Math.max(state.nextSeq, row.seq + 1);
+  Object.entries(TABLE_SCHEMAS[table].indexes).forEach(([name, indexFn]) => {
+    getIndexValues(indexFn, row.record).forEach(value => {
+      if (!state.indexes[name].has(value)) {
+        state.indexes[name].set(value, new Set());
+      }
+      state.indexes[name].get(value).add(key);
+    });
+  });
+};
+
+// Tell the subscribers which tables a commit changed
+const notifyCommit = (tables) => {
+  commitListeners.forEach(listener => {
+    try {
+      listener(tables);
+    } catch (error) {
+      console.error('Error in database listener:', error);
+    }
+  });
+};
+
+// Rows in the table's order, as records
+const toRecords = (table, rows) => {
+  const { compare } = TABLE_SCHEMAS[table];
+  const records = rows.sort((a, b) => a.seq - b.seq).map(row => row.record);
+  return compare ? records.sort(compare) : records;
+};
+
+/**
+ * Encode a value for AsyncStorage
+ * @param {string} name Storage key the value is stored under
+ * @param {any} data Data to store (will be JSON stringified)
+ * @param {boolean} encrypt Whether to encrypt it
+ * @returns {Promise<string>}
+ */
+export const encodeValue = async (name, data, encrypt) => {
+  const jsonValue = JSON.stringify(data);
+  return encrypt ? JSON.stringify(await encryptValue(name, jsonValue)) : jsonValue;
+};
+
+/**
+ * Decode a value read from AsyncStorage, encrypted or not
+ * @param {string} name Storage key the value was stored under
+ * @param {string|null} storedValue The stored value
+ * @returns {Promise<any>} Parsed data or null if there was none
+ */
+export const decodeValue = async (name, storedValue) => {
+  if (!storedValue) {
+    return null;
+  }
+  
+  // Values saved before encryption was introduced are still read as plain JSON
+  const value = JSON.parse(storedValue);
+  return isEncryptedValue(value) ? JSON.parse(await decryptValue(name, value)) : value;
+};
+
+// Write a batch of items all-or-nothing: log it, apply it, clear the log
+const commitItems = async ({ sets, removes }) => {
+  if (sets.length === 0 && removes.length === 0) {
+    return;
+  }
+  
+  await AsyncStorage.setItem(COMMIT_ITEM, JSON.stringify({ sets, removes }));
+  await applyCommitLog({ sets, removes });
+  await AsyncStorage.removeItem(COMMIT_ITEM);
+};
+
+const applyCommitLog = async ({ sets, removes }) => {
+  if (sets.length > 0) {
+    await AsyncStorage.multiSet(sets);
+  }
+  if (removes.length > 0) {
+    await AsyncStorage.multiRemove(removes);
+  }
+};
+
+// Complete a commit the app was stopped in the middle of
+const finishInterruptedCommit = async () => {
+  const log = await AsyncStorage.getItem(COMMIT_ITEM);
+  if (!log) {
+    return;
+  }
+  
+  await applyCommitLog(JSON.parse(log));
+  await AsyncStorage.removeItem(COMMIT_ITEM);
+  console.log('[Database] Completed an interrupted commit');
+};
+
+// Store records in a table that isn't loaded yet (migrations only)
+const importRecords = async (table, records) => {
+  for (let start = 0; start < records.length; start += MAX_COMMIT_RECORDS) {
+    const sets = [];
+    for (const [offset, record] of records.slice(start, start + MAX_COMMIT_RECORDS).entries()) {
+      const item = recordItem(table, getRecordKey(table, record));
+      sets.push([item, await encodeValue(item, { seq: start + offset + 1, record }, true)]);
+    }
+    await commitItems({ sets, removes: [] });
+  }
+};
+
+// Read a value stored under a pre-database storage key
+const readLegacyItem = async (item) => {
+  return decodeValue(item, await AsyncStorage.getItem(item));
+};
+
+// Apply a conversion to each entry of a stored list
+const mapList = (convert) => (list) => (Array.isArray(list) ? list.map(convert) : list);
+
+// Steps from each schema version to the next, indexed by the version they
+// start from. Version 0 is the data of app versions before this database.
+const MIGRATIONS = [
+  // 0 -> 1: move the customer cache, the transaction cache and the pending
+  // queue out of their JSON arrays into tables
+  async () => {
+    const legacyItems = [
+      ['offline_customers', TABLES.CUSTOMERS],
+      ['offline_transactions', TABLES.TRANSACTIONS],
+      ['pending_transactions', TABLES.PENDING],
+    ];
+    
+    for (const [item, table] of legacyItems) {
+      const records = await readLegacyItem(item);
+      if (Array.isArray(records)) {
+        await importRecords(table, records.filter(record => TABLE_SCHEMAS[table].key(record) != null));
+      }
+    }
+    // Only once everything has been copied, so an interrupted migration
+    // simply runs again
+    await AsyncStorage.multiRemove(legacyItems.map(([item]) => item));
+  },
+  
+  // 1 -> 2: amounts become integer minor units instead of decimal pesos
+  // (see money.js). The journal keeps its entries as they were written,
+  // since rewriting them would break its hash chain.
+  async () => {
+    const tables = [
+      [TABLES.CUSTOMERS, convertLegacyCustomer],
+      [TABLES.TRANSACTIONS, convertLegacyTransaction],
+      [TABLES.PENDING, convertLegacyTransaction],
+    ];
+    const items = [
+      ['offline_products', mapList(convertLegacyProduct)],
+      ['offline_allowances', mapList(convertLegacyAllowance)],
+      ['overspend_reports', mapList(convertLegacyOverspendReport)],
+      ['sync_conflicts', mapList(convertLegacyConflict)],
+      ['shift_reports', mapList(convertLegacyShiftReport)],
+      ['daily_spend', convertLegacyDailySpend],
+    ];
+    
+    // Converting a record twice would multiply it again, so each commit
+    // also records the last item it converted, and an interrupted migration
+    // carries on after it
+    const progress = JSON.parse(await AsyncStorage.getItem(MIGRATION_PROGRESS_ITEM)) || {};
+    const allItems = await AsyncStorage.getAllKeys();
+    
+    for (const [table, convert] of tables) {
+      const tableItems = allItems
+        .filter(item => item.startsWith(tablePrefix(table)))
+        .sort()
+        .filter(item => !progress[table] || item > progress[table]);
+      
+      for (let start = 0; start < tableItems.length; start += MAX_COMMIT_RECORDS) {
+        const chunk = tableItems.slice(start, start + MAX_COMMIT_RECORDS);
+        const sets = [];
+        for (const [item, storedValue] of await AsyncStorage.multiGet(chunk)) {
+          const row = await decodeValue(item, storedValue);
+          if (row) {
+            sets.push([item, await encodeValue(item, { ...row, record: convert(row.record) }, true)]);
+          }
+        }
+        progress[table] = chunk[chunk.length - 1];
+        sets.push([MIGRATION_PROGRESS_ITEM, JSON.stringify(progress)]);
+        await commitItems({ sets, removes: [] });
+      }
+    }
+    
+    // The other items go in one last commit, which also moves the schema
+    // version on so none of this runs again
+    const sets = [[VERSION_ITEM, '2']];
+    for (const [item, convert] of items) {
+      const storedValue = await AsyncStorage.getItem(item);
+      const data = await decodeValue(item, storedValue);
+      if (data != null) {
+        sets.push([item, await encodeValue(item, convert(data), isEncryptedValue(JSON.parse(storedValue)))]);
+      }
+    }
+    await commitItems({ sets, removes: [MIGRATION_PROGRESS_ITEM] });
+  },
+];
+
+/**
+ * Open the database: complete any interrupted commit and migrate data
+ * stored by earlier app versions. Everything else here opens it on first
+ * use, so calling this is only needed to do the work up front.
+ * @returns {Promise<void>}
+ */
+export const openDatabase = () => {
+  if (!opening) {
+    opening = (async () => {
+      await finishInterruptedCommit();
+      
+      let version = Number(await AsyncStorage.getItem(VERSION_ITEM)) || 0;
+      while (version < SCHEMA_VERSION) {
+        await MIGRATIONS[version]();
+        version += 1;
+        await AsyncStorage.setItem(VERSION_ITEM, String(version));
+        console.log(`[Database] Migrated local data to schema version ${version}`);
+      }
+    })().catch(error => {
+      opening = null;
+      console.error('Error opening database:', error);
+      throw error;
+    });
+  }
+  return opening;
+};
+
+const loadTable = async (table) => {
+  await openDatabase();
+  
+  const prefix = tablePrefix(table);
+  const items = (await AsyncStorage.getAllKeys()).filter(item => item.startsWith(prefix));
+  const state = createTableState(table);
+  const rows = [];
+  for (const [item, storedValue] of await AsyncStorage.multiGet(items)) {
+    const row = await decodeValue(item, storedValue);
+    if (row) {
+      rows.push(row);
+    }
+  }
+  rows.sort((a, b) => a.seq - b.seq).forEach(row => indexRow(table, state, row));
+  return state;
+};
+
+// The table's in-memory state, loading it on first use
+const getTable = (table) => {
+  if (!TABLE_SCHEMAS[table]) {
+    return Promise.reject(new Error(`Unknown table: ${table}`));
+  }
+  if (!tableLoads[table]) {
+    tableLoads[table] = loadTable(table).catch(error => {
+      delete tableLoads[table];
+      console.error(`Error loading table ${table}:`, error);
+      throw error;
+    });
+  }
+  return tableLoads[table];
+};
+
+// Encode a transaction's writes and commit them, then update the tables
+// in memory to match
+const commitWrites = async (writes) => {
+  // Later writes to the same item replace earlier ones
+  const byItem = new Map();
+  for (const write of writes) {
+    const item = write.table
+      ? recordItem(write.table, write.key ?? getRecordKey(write.table, write.record))
+      : write.name;
+    byItem.delete(item);
+    byItem.set(item, write);
+  }
+  
+  const sets = [];
+  const removes = [];
+  const rows = [];
+  for (const [item, write] of byItem) {
+    if (write.table && write.record) {
+      const state = await getTable(write.table);
+      const existing = state.rows.get(getRecordKey(write.table, write.record));
+      const row = { seq: existing ? existing.seq : state.nextSeq++, record: write.record };
+      sets.push([item, await encodeValue(item, row, true)]);
+      rows.push({ table: write.table, row });
+    } else if (write.table) {
+      await getTable(write.table);
+      removes.push(item);
+      rows.push({ table: write.table, key: write.key });
+    } else if (write.remove) {
+      removes.push(item);
+    } else {
+      sets.push([item, await encodeValue(item, write.data, write.encrypt)]);
+    }
+  }
+  
+  await commitItems({ sets, removes });
+  
+  for (const { table, row, key } of rows) {
+    const state = await getTable(table);
+    if (row) {
+      indexRow(table, state, row);
+    } else {
+      unindexRow(table, state, key);
+    }
+  }
+  
+  if (rows.length > 0) {
+    notifyCommit([...new Set(rows.map(({ table }) => table))]);
+  }
+};
+
+// Run work after every transaction already queued
+const enqueue = (work) => {
+  const run = commitQueue.then(work);
+  
+  // A failed transaction doesn't hold up the ones after it
+  commitQueue = run.catch(() => {});
+  return run;
+};
+
+/**
+ * Run a set of writes as one atomic commit. `work` is called with a
+ * transaction to record the writes on; nothing is written until it
+ * returns, and then everything is. Reads inside `work` (getRecord and the
+ * like) see every transaction committed before this one. Don't start
+ * another transaction from inside `work`: it would wait for this one.
+ * clear(table) removes every record the table held before this transaction.
+ * @param {function} work Receives { put(table, record), remove(table, key), clear(table), setItem(name, data, encrypt), removeItem(name) }
+ * @returns {Promise<any>} Whatever `work` returned
+ */
+export const runTransaction = (work) => {
+  return enqueue(async () => {
+    await openDatabase();
+    
+    const writes = [];
+    const tx = {
+      put: (table, record) => writes.push({ table, record }),
+      remove: (table, key) => writes.push({ table, key }),
+      clear: (table) => writes.push({ table, clear: true }),
+      setItem: (name, data, encrypt = false) => writes.push({ name, data, encrypt }),
+      removeItem: (name) => writes.push({ name, remove: true }),
+    };
+    
+    const result = await work(tx);
+    
+    // A cleared table is a removal of each of its records
+    const expanded = [];
+    for (const write of writes) {
+      if (write.clear) {
+        const state = await getTable(write.table);
+        for (const key of state.rows.keys()) {
+          expanded.push({ table: write.table, key });
+        }
+      } else {
+        expanded.push(write);
+      }
+    }
+    
+    await commitWrites(expanded);
+    return result;
+  });
+};
+
+/**
+ * Subscribe to committed changes
+ * @param {function} listener Called after each commit with the names of the tables it changed
+ * @returns {function} Unsubscribe function
+ */
+export const subscribeCommits = (listener) => {
+  commitListeners.add(listener);
+  return () => {
+    commitListeners.delete(listener);
+  };
+};
+
+/**
+ * Get a record by key
+ * @param {string} table One of TABLES
+ * @param {any} key The record's key
+ * @returns {Promise<Object|null>} The record or null if there is none
+ */
+export const getRecord = async (table, key) => {
+  const state = await getTable(table);
+  return state.rows.get(key)?.record ?? null;
+};
+
+/**
+ * Get every record in a table
+ * @param {string} table One of TABLES
+ * @returns {Promise<Array>} Records in the table's order
+ */
+export const getAllRecords = async (table) => {
+  const state = await getTable(table);
+  return toRecords(table, [...state.rows.values()]);
+};
+
+/**
+ * Find the records an index holds under a value
+ * @param {string} table One of TABLES
+ * @param {string} index Index name (see TABLE_SCHEMAS)
+ * @param {any} value Value to look up
+ * @returns {Promise<Array>} Matching records in the table's order
+ */
+export const findRecords = async (table, index, value) => {
+  const state = await getTable(table);
+  const keys = state.indexes[index]?.get(value) || [];
+  return toRecords(table, [...keys].map(key => state.rows.get(key)));
+};
+
+/**
+ * Find the records an index holds under values in a range
+ * @param {string} table One of TABLES
+ * @param {string} index Index name (see TABLE_SCHEMAS)
+ * @param {string|null} from Lowest value, inclusive (null for no limit)
+ * @param {string|null} to Highest value, inclusive (null for no limit)
+ * @returns {Promise<Array>} Matching records in the table's order
+ */
+export const findRecordsInRange = async (table, index, from, to) => {
+  const state = await getTable(table);
+  const rows = [];
+  state.indexes[index]?.forEach((keys, value) => {
+    if ((from === null || value >= from) && (to === null || value <= to)) {
+      keys.forEach(key => rows.push(state.rows.get(key)));
+    }
+  });
+  return toRecords(table, rows);
+};
+
+/**
+ * Replace everything in a table. Large tables are written in several
+ * commits, so an interruption can leave a mix of old and new records; use
+ * this for caches that the next refresh overwrites again.
+ * @param {string} table One of TABLES
+ * @param {Array} records The new contents
+ * @returns {Promise<void>}
+ */
+export const replaceTable = (table, records) => {
+  return enqueue(async () => {
+    const state = await getTable(table);
+    const newKeys = new Set(records.map(record => getRecordKey(table, record)));
+    const writes = [
+      ...records.map(record => ({ table, record })),
+      ...[...state.rows.keys()].filter(key => !newKeys.has(key)).map(key => ({ table, key })),
+    ];
+    
+    for (let start = 0; start < writes.length; start += MAX_COMMIT_RECORDS) {
+      await commitWrites(writes.slice(start, start + MAX_COMMIT_RECORDS));
+    }
+  });
+};
+
+/**
+ * Remove records from a table, in commits of a bounded size
+ * @param {string} table One of TABLES
+ * @param {Array} records The records to remove
+ * @returns {Promise<void>}
+ */
+export const removeRecords = (table, records) => {
+  return enqueue(async () => {
+    const writes = records.map(record => ({ table, key: getRecordKey(table, record) }));
+    for (let start = 0; start < writes.length; start += MAX_COMMIT_RECORDS) {
+      await commitWrites(writes.slice(start, start + MAX_COMMIT_RECORDS));
+    }
+  });
+};
+
+/**
+ * Write every record again, encrypting it with the current storage key
+ * @returns {Promise<number>} How many records were written
+ */
+export const reencryptRecords = () => {
+  return enqueue(async () => {
+    let count = 0;
+    for (const table of Object.values(TABLES)) {
+      const state = await getTable(table);
+      const writes = [...state.rows.values()].map(row => ({ table, record: row.record }));
+      for (let start = 0; start < writes.length; start += MAX_COMMIT_RECORDS) {
+        await commitWrites(writes.slice(start, start + MAX_COMMIT_RECORDS));
+      }
+      count += writes.length;
+    }
+    return count;
+  });
+};
+
+/**
+ * Forget the tables held in memory, after AsyncStorage has been cleared.
+ * The database opens again, empty, on next use.
+ */
+export const resetDatabase = () => {
+  Object.keys(tableLoads).forEach(table => {
+    delete tableLoads[table];
+  });
+  opening = null;
+  notifyCommit(Object.values(TABLES));
+};
@@ -0,0 +1,98 @@
+/**
+ * ESC/POS rendering for thermal receipt printers
+ *
+ * Turns a receipt, or any other laid-out printout such as a Z-report, into
+ * the byte stream ESC/POS printers take over TCP (port 9100), USB or
+ * Bluetooth: the same lines as the plain-text version, with the printer
+ * doing the alignment, bold and double-size text, and a paper cut at the
+ * end. Text is sent as ASCII, since printers' default code pages have no
+ * peso sign.
+ */
+import { layoutReceipt, RECEIPT_WIDTH } from './receipt';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export const ESCPOS = {
+  INIT: [ESC, 0x40],
+  ALIGN_LEFT: [ESC, 0x61, 0x00],
+  ALIGN_CENTER: [ESC, 0x61, 0x01],
+  ALIGN_RIGHT: [ESC, 0x61, 0x02],
+  BOLD_ON: [ESC, 0x45, 0x01],
+  BOLD_OFF: [ESC, 0x45, 0x00],
+  // Double width and height
+  SIZE_LARGE: [GS, 0x21, 0x11],
+  SIZE_NORMAL: [GS, 0x21, 0x00],
+  // Feed to the cutter, then partial cut
+  CUT: [GS, 0x56, 0x42, 0x00],
+};
+
+const ALIGNMENT = {
+  left: ESCPOS.ALIGN_LEFT,
+  center: ESCPOS.ALIGN_CENTER,
+  right: ESCPOS.ALIGN_RIGHT,
+};
+
+/**
+ * Encode text for the printer's default code page: the peso sign becomes
+ * "P" (keeping the columns lined up) and anything else outside printable
+ * ASCII becomes "?"
+ * @param {string} text Text to print
+ * @returns {Array<number>} Bytes
+ */
+export const encodePrinterText = (text) => {
+  return Array.from(text.replace(/₱/g, 'P'), char => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code < 0x7f ? code : 0x3f;
+  });
+};
+
+/**
+ * Render laid-out lines as an ESC/POS byte stream
+ * @param {Array<Object>} lines Lines from layoutReceipt (or another layout)
+ * @param {Object} [options]
+ * @param {boolean} [options.cut] Cut the paper after the last line
+ * @returns {Uint8Array}
+ */
+export const renderLinesEscPos = (lines, { cut = true } = {}) => {
+  const bytes = [...ESCPOS.INIT];
+  
+  lines.forEach(line => {
+    bytes.push(...ALIGNMENT[line.align]);
+    if (line.bold) {
+      bytes.push(...ESCPOS.BOLD_ON);
+    }
+    if (line.large) {
+      bytes.push(...ESCPOS.SIZE_LARGE);
+    }
+    
+    bytes.push(...encodePrinterText(line.text), LF);
+    
+    if (line.large) {
+      bytes.push(...ESCPOS.SIZE_NORMAL);
+    }
+    if (line.bold) {
+      bytes.push(...ESCPOS.BOLD_OFF);
+    }
+  });
+  
+  bytes.push(...ESCPOS.ALIGN_LEFT, LF, LF, LF);
+  if (cut) {
+    bytes.push(...ESCPOS.CUT);
+  }
+  
+  return Uint8Array.from(bytes);
+};
+
+/**
+ * Render a receipt as an ESC/POS byte stream
+ * @param {Object} receipt Receipt from buildReceipt
+ * @param {Object} [options]
+ * @param {number} [options.width] Characters per line at normal size
+ * @param {boolean} [options.cut] Cut the paper after the receipt
+ * @returns {Uint8Array}
+ */
+export const renderReceiptEscPos = (receipt, { width = RECEIPT_WIDTH, cut = true } = {}) => {
+  return renderLinesEscPos(layoutReceipt(receipt, width), { cut });
+};
@@ -1,25 +1,46 @@
+import { configureMoney, formatMoney, DEFAULT_LOCALE } from './money';
+
+// Locale and time zone dates are shown in. The time zone defaults to the
+// device's.
+let dateSettings = {
+  locale: DEFAULT_LOCALE,
+  timeZone: undefined
+};
+
 /**
- * Format a number as currency (PHP)
- * @param {number} amount The amount to format
+ * Apply the terminal's regional settings: the currency amounts are in, and
+ * the locale and time zone amounts and dates are shown in
+ * @param {Object} settings User settings
+ * @param {string} [settings.currency] ISO 4217 code (e.g. "PHP")
+ * @param {string} [settings.locale] BCP 47 locale (e.g. "en-PH")
+ * @param {string} [settings.timeZone] IANA time zone (e.g. "Asia/Manila")
+ */
+export function configureFormatting({ currency, locale, timeZone } = {}) {
+  configureMoney({ currency, locale });
+  dateSettings = {
+    locale: locale || DEFAULT_LOCALE,
+    timeZone: timeZone || undefined
+  };
+}
+
+/**
+ * Format an amount as currency in the terminal's currency and locale
+ * @param {number} amount The amount in minor units (centavos)
  * @returns {string} Formatted currency string (e.g. "₱1,000.00")
  */
 export function formatCurrency(amount) {
-  return new Intl.NumberFormat('en-PH', {
-    style: 'currency',
-    currency: 'PHP',
-    minimumFractionDigits: 2
-  }).format(amount);
+  return formatMoney(amount);
 }
 
 /**
- * Format a date into a readable string
- * @param {string|Date} date The date to format
- * @returns {string} Formatted date string (e.g. "Jan 1, 2023 12:00 PM")
+ * Format a date into a readable string in the terminal's locale and time zone
+ * @param {string|number|Date} date The date to format
+ * @returns {string} Formatted date string (e.g. "Jan 1, 2023, 12:00 PM")
  */
 export function formatDate(date) {
   if (!date) return 'N/A';
   
-  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  const dateObj = date instanceof Date ? date : new Date(date);
   
   if (isNaN(dateObj.getTime())) return 'Invalid Date';
   
@@ -28,10 +49,35 @@ export function formatDate(date) {
     month: 'short',
     day: 'numeric',
     hour: '2-digit',
-    minute: '2-digit'
+    minute: '2-digit',
+    timeZone: dateSettings.timeZone
   };
   
-  return dateObj.toLocaleDateString('en-US', options);
+  try {
+    return dateObj.toLocaleDateString(dateSettings.locale, options);
+  } catch (error) {
+    // An unknown locale or time zone in the settings
+    return dateObj.toLocaleDateString(DEFAULT_LOCALE, { ...options, timeZone: undefined });
+  }
+}
+
+/**
+ * Format the time of day in the terminal's locale and time zone
+ * @param {string|number|Date} date The date to format
+ * @returns {string} Formatted time string (e.g. "12:00 PM")
+ */
+export function formatTime(date) {
+  const dateObj = date instanceof Date ? date : new Date(date);
+  
+  if (isNaN(dateObj.getTime())) return 'Invalid Date';
+  
+  const options = { hour: '2-digit', minute: '2-digit', timeZone: dateSettings.timeZone };
+  
+  try {
+    return dateObj.toLocaleTimeString(dateSettings.locale, options);
+  } catch (error) {
+    return dateObj.toLocaleTimeString(DEFAULT_LOCALE, { ...options, timeZone: undefined });
+  }
 }
 
 /**
@@ -48,12 +94,12 @@ export function normalizeCardId(cardId) {
   // Convert to uppercase
   normalized = normalized.toUpperCase();
   
-  // Add the CARD- prefix if not already present
-  if (!normalized.startsWith('CARD-')) {
-    normalized = `CARD-${normalized}`;
-  }
+  // Drop a CARD prefix that is already there (its dash went with the other
+  // separators), so it isn't doubled. UIDs are hex or decimal, so never
+  // start with CARD themselves.
+  normalized = normalized.replace(/^CARD/, '');
   
-  return normalized;
+  return `CARD-${normalized}`;
 }
 
 /**
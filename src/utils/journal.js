@@ -0,0 +1,318 @@
+/**
+ * Tamper-evident transaction journal
+ *
+ * Every offline payment, reload, refund and void, and what the server made
+ * of each at sync, is appended to a local journal that is never edited.
+ * Each entry carries the hash of the entry before it and an HMAC of its own
+ * hash keyed with this terminal's device key, so editing, deleting or
+ * reordering an entry breaks the chain from that point on. The pending
+ * queue can still change; the journal keeps the trace.
+ *
+ * The device key is generated on the terminal and registered with the
+ * server on the first journal upload. From then on the server checks that
+ * every upload is signed with it and continues the chain it already holds.
+ * verifyJournal runs the same checks locally, and also catches entries
+ * removed after they were uploaded.
+ *
+ * Entries with an amount say what it is in: amountUnit 'minor' and the
+ * currency. Entries written before amounts became minor units have neither
+ * and hold decimal pesos; they can't be rewritten without breaking the
+ * chain, so the server has to tell them apart by these fields.
+ */
+import { sha256Hex, hmacSha256, signaturesMatch, randomHex } from './crypto';
+import { getCurrentOperator } from './operators';
+import { getMoneySettings } from './money';
+import {
+  loadJournal,
+  appendJournalEntry,
+  loadJournalUploadState,
+  saveJournalUploadState,
+  getDeviceKey,
+  saveDeviceKey,
+  getTerminalId
+} from './storage';
+
+export const JOURNAL_ENTRY_TYPES = {
+  PAYMENT: 'payment',
+  RELOAD: 'reload',
+  REFUND: 'refund',
+  VOID: 'void',
+  SYNC_ACK: 'sync_ack',
+  SYNC_REJECT: 'sync_reject',
+  WRITE_OFF: 'write_off',
+};
+
+// Queued records whose sync outcome is journaled
+const JOURNALED_TYPES = [
+  JOURNAL_ENTRY_TYPES.PAYMENT,
+  JOURNAL_ENTRY_TYPES.RELOAD,
+  JOURNAL_ENTRY_TYPES.REFUND,
+];
+
+// Problems verifyJournal can find
+export const JOURNAL_ISSUES = {
+  GAP: 'gap',
+  BROKEN_LINK: 'broken_link',
+  MODIFIED: 'modified',
+  BAD_SIGNATURE: 'bad_signature',
+  TRUNCATED: 'truncated',
+};
+
+// amountUnit of entries whose amounts are integer minor units
+const MINOR_UNIT = 'minor';
+
+// prevHash of the first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+// JSON with object keys sorted, so the server hashes exactly the same text
+const canonicalJson = (value) => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// Hash of everything in an entry except its hash and signature
+const hashEntry = (entry) => sha256Hex([
+  entry.seq,
+  entry.type,
+  entry.terminalId,
+  entry.recordedAt,
+  entry.operatorId ?? '',
+  entry.prevHash,
+  canonicalJson(entry.data)
+].join('|'));
+
+// Get the device key, generating it before the first entry is signed
+const getOrCreateDeviceKey = async () => {
+  const existingKey = await getDeviceKey();
+  if (existingKey) {
+    return existingKey;
+  }
+  
+  const deviceKey = randomHex(32);
+  await saveDeviceKey(deviceKey);
+  return deviceKey;
+};
+
+// "Entry 3 is" or "Entries 3 to 5 are"
+const describeEntries = (from, to) => {
+  return from === to ? `Entry ${from} is` : `Entries ${from} to ${to} are`;
+};
+
+// An amount with the unit and currency it is in
+const getAmountData = (amount) => ({
+  amount: Number(amount) || 0,
+  amountUnit: MINOR_UNIT,
+  currency: getMoneySettings().currency,
+});
+
+// What the journal keeps of a transaction
+const getTransactionData = (transaction) => ({
+  transactionId: transaction.transactionId,
+  originalTransactionId: transaction.originalTransactionId ?? null,
+  customerId: transaction.customerId ?? null,
+  cardId: transaction.cardId ?? null,
+  ...getAmountData(transaction.amount),
+  idempotencyKey: transaction.idempotencyKey ?? null,
+  sequenceNumber: transaction.sequenceNumber ?? null,
+});
+
+// Builds an entry chained to the previous one and signed with the device
+// key, for appendJournalEntry
+const createEntry = (type, data) => async (previous) => {
+  const entry = {
+    seq: previous ? previous.seq + 1 : 1,
+    type,
+    terminalId: await getTerminalId(),
+    recordedAt: new Date().toISOString(),
+    operatorId: getCurrentOperator()?.id ?? null,
+    data,
+    prevHash: previous ? previous.hash : GENESIS_HASH,
+  };
+  entry.hash = await hashEntry(entry);
+  entry.signature = await hmacSha256(await getOrCreateDeviceKey(), entry.hash);
+  return entry;
+};
+
+/**
+ * Append an entry to the journal, chained to the last one and signed with
+ * the device key. Appends are database commits, so they wait for each other
+ * and two entries never claim the same place.
+ * @param {string} type One of JOURNAL_ENTRY_TYPES
+ * @param {Object} data What the entry records
+ * @returns {Promise<Object>} The entry
+ */
+export const recordJournalEntry = (type, data) => {
+  return appendJournalEntry(createEntry(type, data));
+};
+
+/**
+ * Build the journal entry for an offline transaction, for a commit that
+ * appends it together with the transaction (addOfflineTransaction)
+ * @param {Object} transaction The transaction
+ * @returns {function} Builds the entry from the previous one
+ */
+export const createTransactionEntry = (transaction) => {
+  return createEntry(transaction.type, getTransactionData(transaction));
+};
+
+/**
+ * Journal an offline payment, reload or refund, or a void
+ * @param {Object} transaction The transaction
+ * @returns {Promise<Object>} The entry
+ */
+export const journalTransaction = (transaction) => {
+  return appendJournalEntry(createTransactionEntry(transaction));
+};
+
+/**
+ * Journal what the server made of a queued transaction
+ * @param {Object} item The queued record
+ * @param {Object} result Sync result ({ status: 'accepted' | 'duplicate' | 'rejected', ... })
+ * @returns {Promise<Object|null>} The entry, or null for records the journal doesn't cover
+ */
+export const journalSyncOutcome = async (item, result) => {
+  if (!JOURNALED_TYPES.includes(item.type)) {
+    return null;
+  }
+  
+  const rejected = result.status === 'rejected';
+  return recordJournalEntry(rejected ? JOURNAL_ENTRY_TYPES.SYNC_REJECT : JOURNAL_ENTRY_TYPES.SYNC_ACK, {
+    transactionId: item.transactionId,
+    idempotencyKey: item.idempotencyKey ?? null,
+    status: result.status,
+    reason: rejected ? result.reason ?? null : null,
+  });
+};
+
+/**
+ * Journal the write-off of a rejected transaction
+ * @param {Object} conflict The sync conflict
+ * @param {string} note Why it was written off
+ * @returns {Promise<Object|null>} The entry, or null for records the journal doesn't cover
+ */
+export const journalWriteOff = async (conflict, note) => {
+  if (!JOURNALED_TYPES.includes(conflict.transaction.type)) {
+    return null;
+  }
+  
+  return recordJournalEntry(JOURNAL_ENTRY_TYPES.WRITE_OFF, {
+    transactionId: conflict.transaction.transactionId,
+    ...getAmountData(conflict.transaction.amount),
+    note: note || null,
+  });
+};
+
+/**
+ * Check the whole journal: entry numbers, links, hashes and signatures, and
+ * that nothing the server has already received is missing or changed
+ * @returns {Promise<{valid: boolean, entryCount: number, headSeq: number, uploadedSeq: number, rejection: Object|null, issues: Array<{seq: number, problem: string, message: string}>}>}
+ */
+export const verifyJournal = async () => {
+  const entries = await loadJournal();
+  const deviceKey = await getDeviceKey();
+  const upload = await loadJournalUploadState();
+  const issues = [];
+  const addIssue = (seq, problem, message) => issues.push({ seq, problem, message });
+  
+  let previous = null;
+  for (const entry of entries) {
+    const expectedSeq = previous ? previous.seq + 1 : 1;
+    
+    if (entry.seq !== expectedSeq) {
+      addIssue(entry.seq, JOURNAL_ISSUES.GAP, entry.seq > expectedSeq
+        ? `${describeEntries(expectedSeq, entry.seq - 1)} missing`
+        : `Entry ${entry.seq} is out of order`);
+    } else if (entry.prevHash !== (previous ? previous.hash : GENESIS_HASH)) {
+      addIssue(entry.seq, JOURNAL_ISSUES.BROKEN_LINK, `Entry ${entry.seq} doesn't follow on from the entry before it`);
+    }
+    
+    if (await hashEntry(entry) !== entry.hash) {
+      addIssue(entry.seq, JOURNAL_ISSUES.MODIFIED, `Entry ${entry.seq} has been changed since it was recorded`);
+    } else if (!deviceKey || !signaturesMatch(await hmacSha256(deviceKey, entry.hash), entry.signature)) {
+      addIssue(entry.seq, JOURNAL_ISSUES.BAD_SIGNATURE, `Entry ${entry.seq} isn't signed by this terminal`);
+    }
+    
+    previous = entry;
+  }
+  
+  // Entries already uploaded can't disappear or change without the server noticing
+  const headSeq = previous ? previous.seq : 0;
+  if (upload.headSeq > headSeq) {
+    addIssue(headSeq + 1, JOURNAL_ISSUES.TRUNCATED,
+      `${describeEntries(headSeq + 1, upload.headSeq)} on the server but missing here`);
+  } else if (upload.headHash) {
+    const uploadedHead = entries.find(entry => entry.seq === upload.headSeq);
+    if (uploadedHead && uploadedHead.hash !== upload.headHash) {
+      addIssue(upload.headSeq, JOURNAL_ISSUES.MODIFIED,
+        `Entry ${upload.headSeq} differs from the copy the server received`);
+    }
+  }
+  
+  return {
+    valid: issues.length === 0,
+    entryCount: entries.length,
+    headSeq,
+    uploadedSeq: upload.headSeq,
+    rejection: upload.rejection,
+    issues
+  };
+};
+
+/**
+ * Get the journal entries the server hasn't received yet, as an upload
+ * request. The device key goes along until the server has registered it.
+ * @returns {Promise<Object|null>} { terminalId, deviceKey?, entries }, or null if there is nothing to send
+ */
+export const getPendingJournalUpload = async () => {
+  const upload = await loadJournalUploadState();
+  const entries = (await loadJournal()).filter(entry => entry.seq > upload.headSeq);
+  if (entries.length === 0) {
+    return null;
+  }
+  
+  return {
+    terminalId: await getTerminalId(),
+    deviceKey: upload.keyRegistered ? undefined : await getOrCreateDeviceKey(),
+    entries
+  };
+};
+
+/**
+ * Record that the server has accepted the journal up to an entry
+ * @param {Object} result { headSeq, headHash } from the server
+ * @returns {Promise<void>}
+ */
+export const markJournalUploaded = async ({ headSeq, headHash }) => {
+  await saveJournalUploadState({
+    headSeq,
+    headHash,
+    keyRegistered: true,
+    uploadedAt: new Date().toISOString(),
+    rejection: null
+  });
+};
+
+/**
+ * Record that the server refused a journal upload because the chain didn't
+ * check out, for the journal check in settings
+ * @param {Error} error The JournalChainError
+ * @returns {Promise<void>}
+ */
+export const markJournalRejected = async (error) => {
+  await saveJournalUploadState({
+    rejection: {
+      message: error.message,
+      seq: error.brokenAtSeq ?? null,
+      rejectedAt: new Date().toISOString()
+    }
+  });
+};
@@ -0,0 +1,140 @@
+/**
+ * Local balance ledger for offline operation
+ *
+ * A customer's balance while offline is projected from two persisted sources:
+ * - the last server-confirmed balance, kept in the cached customer record
+ * - the signed deltas of that customer's transactions still in the pending queue
+ *
+ * Nothing here mutates a balance in place. Spending a cached balance adds a
+ * pending payment, which lowers every later projection, so the same cached
+ * balance cannot be spent twice on one terminal. When sync confirms a
+ * transaction its delta moves from the queue into the confirmed balance;
+ * when the server rejects one, it leaves the queue and its delta disappears.
+ * Balances and deltas are integer minor units (see money.js).
+ */
+import { addMoney, sumMoney } from './money';
+import {
+  loadPendingTransactions,
+  findCachedCustomerByCardId,
+  getCachedCustomer,
+  confirmPendingTransaction
+} from './storage';
+
+/**
+ * Get the signed balance effect of a transaction
+ * @param {Object} transaction Transaction data
+ * @returns {number} Minor units; negative for payments, positive for
+ *   reloads, refunds and the initial balance of offline registrations
+ */
+export const getTransactionDelta = (transaction) => {
+  const amount = Number(transaction.amount) || 0;
+  
+  switch (transaction.type) {
+    case 'payment':
+      return -amount;
+    case 'reload':
+    case 'refund':
+    case 'registration':
+      return amount;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Check whether a transaction belongs to a customer
+ * @param {Object} transaction Transaction data
+ * @param {Object} customer Customer data
+ * @returns {boolean}
+ */
+const belongsToCustomer = (transaction, customer) => {
+  if (customer.id !== undefined && transaction.customerId === customer.id) {
+    return true;
+  }
+  
+  const cardIds = [
+    customer.cardId,
+    ...(customer.cards || []).map(card => card.cardId)
+  ].filter(Boolean);
+  
+  return cardIds.includes(transaction.cardId);
+};
+
+/**
+ * Sum the pending deltas for a customer
+ * @param {Object} customer Customer data
+ * @param {Array} [pendingTransactions] Pending queue (loaded if omitted)
+ * @returns {Promise<number>} Net pending balance change
+ */
+export const getPendingDelta = async (customer, pendingTransactions) => {
+  const pending = pendingTransactions || await loadPendingTransactions();
+  
+  return sumMoney(pending
+    .filter(t => belongsToCustomer(t, customer))
+    .map(getTransactionDelta));
+};
+
+/**
+ * Project a customer's balance from the confirmed balance plus pending deltas.
+ * Safe to call on an already projected customer: the projection always starts
+ * from `confirmedBalance`, never from a previously projected `balance`.
+ * @param {Object} customer Customer data (cached or from the server)
+ * @param {Array} [pendingTransactions] Pending queue (loaded if omitted)
+ * @returns {Promise<Object>} Customer with projected `balance`, `confirmedBalance` and `pendingDelta`
+ */
+export const projectCustomerBalance = async (customer, pendingTransactions) => {
+  if (!customer) {
+    return customer;
+  }
+  
+  const confirmedBalance = customer.confirmedBalance !== undefined 
+    ? customer.confirmedBalance 
+    : Number(customer.balance) || 0;
+  const pendingDelta = await getPendingDelta(customer, pendingTransactions);
+  
+  return {
+    ...customer,
+    balance: addMoney(confirmedBalance, pendingDelta),
+    confirmedBalance,
+    pendingDelta
+  };
+};
+
+/**
+ * Find a cached customer by card ID with their projected balance
+ * @param {string} cardId The card ID to search for
+ * @returns {Promise<Object|null>} The projected customer or null if not found
+ */
+export const findProjectedCustomerByCardId = async (cardId) => {
+  const customer = await findCachedCustomerByCardId(cardId);
+  return customer ? await projectCustomerBalance(customer) : null;
+};
+
+/**
+ * Move a synced transaction's delta into the cached confirmed balance and
+ * take it off the pending queue, in one commit, so the delta is never
+ * counted twice or lost. If the server reported the customer's new
+ * balance, that value wins.
+ * @param {Object} transaction The transaction the server accepted
+ * @param {Object} [serverResult] The sync response
+ * @returns {Promise<void>}
+ */
+export const confirmLedgerTransaction = async (transaction, serverResult = {}) => {
+  const customer = (transaction.customerId != null && await getCachedCustomer(transaction.customerId)) ||
+    (transaction.cardId && await findCachedCustomerByCardId(transaction.cardId));
+  
+  if (!customer) {
+    await confirmPendingTransaction(transaction, null);
+    return;
+  }
+  
+  const serverBalance = serverResult.customer?.balance;
+  const balance = typeof serverBalance === 'number'
+    ? serverBalance
+    : addMoney(Number(customer.balance) || 0, getTransactionDelta(transaction));
+  
+  await confirmPendingTransaction(transaction, customer.id, { 
+    balance, 
+    balanceConfirmedAt: new Date().toISOString() 
+  });
+};
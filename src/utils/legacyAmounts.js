@@ -0,0 +1,135 @@
+/**
+ * Converting data stored with decimal amounts
+ *
+ * App versions before money.js kept amounts as decimal pesos (floats).
+ * These functions turn records of that era into the same records with
+ * every amount in integer minor units. The database migration runs them
+ * over everything stored on the terminal, and backup imports run them over
+ * bundles exported by those versions. Amounts that are missing or null
+ * stay that way.
+ */
+import { toMinorUnits } from './money';
+
+const SECURITY_FIELDS = ['pinThreshold', 'transactionLimit', 'dailyLimit'];
+
+const SHIFT_TOTAL_FIELDS = ['payments', 'reloads', 'refunds', 'voids'];
+
+// Copy an object with the given amount fields in minor units
+const convertFields = (object, fields) => {
+  if (!object || typeof object !== 'object') {
+    return object;
+  }
+  
+  const converted = { ...object };
+  fields.forEach(field => {
+    if (converted[field] != null) {
+      converted[field] = toMinorUnits(converted[field]);
+    }
+  });
+  return converted;
+};
+
+// Copy an object with its nested `security` limits in minor units
+const convertSecurity = (object) => {
+  return object?.security
+    ? { ...object, security: convertFields(object.security, SECURITY_FIELDS) }
+    : object;
+};
+
+/**
+ * Convert a customer's balance and card limits
+ * @param {Object} customer Cached customer
+ * @returns {Object}
+ */
+export const convertLegacyCustomer = (customer) => {
+  return convertSecurity(convertFields(customer, ['balance', 'confirmedBalance', 'pendingDelta']));
+};
+
+/**
+ * Convert a Z-report's totals
+ * @param {Object} report Shift report
+ * @returns {Object}
+ */
+export const convertLegacyShiftReport = (report) => {
+  const converted = convertFields(report, ['netSales']);
+  SHIFT_TOTAL_FIELDS.forEach(key => {
+    if (converted?.[key]) {
+      converted[key] = convertFields(converted[key], ['amount']);
+    }
+  });
+  return converted;
+};
+
+/**
+ * Convert a transaction, or any record in the pending queue: its amount and
+ * line items, and what registrations, customer updates and shift reports
+ * carry with them
+ * @param {Object} transaction Transaction or pending record
+ * @returns {Object}
+ */
+export const convertLegacyTransaction = (transaction) => {
+  const converted = convertFields(transaction, ['amount']);
+  
+  if (Array.isArray(converted.items)) {
+    converted.items = converted.items.map(item => convertFields(item, ['amount']));
+  }
+  if (converted.customerData) {
+    converted.customerData = convertSecurity(convertFields(converted.customerData, ['initialBalance']));
+  }
+  if (converted.changes) {
+    converted.changes = convertSecurity(converted.changes);
+  }
+  if (converted.report) {
+    converted.report = convertLegacyShiftReport(converted.report);
+  }
+  return converted;
+};
+
+/**
+ * Convert a product's price
+ * @param {Object} product Cached product
+ * @returns {Object}
+ */
+export const convertLegacyProduct = (product) => convertFields(product, ['price']);
+
+/**
+ * Convert a card's offline allowance
+ * @param {Object} allowance Offline allowance
+ * @returns {Object}
+ */
+export const convertLegacyAllowance = (allowance) => convertFields(allowance, ['amount']);
+
+/**
+ * Convert an overspend report and the transactions it lists
+ * @param {Object} report Overspend report
+ * @returns {Object}
+ */
+export const convertLegacyOverspendReport = (report) => {
+  const converted = convertFields(report, ['overdrawnBy']);
+  if (Array.isArray(converted?.transactions)) {
+    converted.transactions = converted.transactions.map(t => convertFields(t, ['amount']));
+  }
+  return converted;
+};
+
+/**
+ * Convert a sync conflict's transaction
+ * @param {Object} conflict Sync conflict
+ * @returns {Object}
+ */
+export const convertLegacyConflict = (conflict) => {
+  return conflict?.transaction
+    ? { ...conflict, transaction: convertLegacyTransaction(conflict.transaction) }
+    : conflict;
+};
+
+/**
+ * Convert the per-customer daily spend records
+ * @param {Object} spend { [customerId]: { date, amount } }
+ * @returns {Object}
+ */
+export const convertLegacyDailySpend = (spend) => {
+  return Object.fromEntries(
+    Object.entries(spend || {}).map(([customerId, record]) => [customerId, convertFields(record, ['amount'])])
+  );
+};
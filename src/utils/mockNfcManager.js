@@ -0,0 +1,151 @@
+/**
+ * In-memory stand-in for react-native-nfc-manager
+ *
+ * Emulates the parts of the NfcManager API the app uses, backed by virtual
+ * tags that each have their own NDEF memory, so reading and writing card
+ * records can be exercised without NFC hardware. A tag is put on the reader
+ * with tapTag and stays there until removeTag, like a card resting on the
+ * terminal: scans see it through the DiscoverTag listener, and technology
+ * requests for writes resolve while it is present.
+ */
+import { Ndef, NfcEvents } from 'react-native-nfc-manager';
+
+// User memory of an NTAG215, the most common stored-value sticker/card
+const DEFAULT_CAPACITY = 496;
+
+// Random 7-byte UID in hex, like an NTAG's
+const createTagId = () => {
+  return Array.from({ length: 7 }, () =>
+    Math.floor(Math.random() * 256).toString(16).padStart(2, '0')
+  ).join('').toUpperCase();
+};
+
+/**
+ * Create a mock NfcManager
+ * @param {Object} [options]
+ * @param {boolean} [options.supported] Whether the emulated device has NFC
+ * @returns {Object} NfcManager-compatible object plus emulator controls
+ *   (addTag, tapTag, removeTag, getTagMemory)
+ */
+export const createMockNfcManager = ({ supported = true } = {}) => {
+  const tags = new Map();
+  const listeners = {};
+  let isRegistered = false;
+  let presentTagId = null;
+  let pendingTechRequest = null;
+  
+  // What the native module reports for a tag
+  const toTagEvent = (tag) => ({
+    id: tag.id,
+    techTypes: ['android.nfc.tech.Ndef'],
+    maxSize: tag.capacity,
+    ndefMessage: tag.ndefMessage.map(record => ({ ...record }))
+  });
+  
+  const getPresentTag = () => {
+    const tag = presentTagId && tags.get(presentTagId);
+    if (!tag) {
+      throw new Error('No tag on the reader');
+    }
+    return tag;
+  };
+  
+  return {
+    isSupported: async () => supported,
+    isEnabled: async () => supported,
+    start: async () => {},
+    
+    registerTagEvent: async () => {
+      isRegistered = true;
+    },
+    
+    unregisterTagEvent: async () => {
+      isRegistered = false;
+    },
+    
+    setEventListener: (name, callback) => {
+      listeners[name] = callback;
+    },
+    
+    requestTechnology: (tech) => new Promise((resolve, reject) => {
+      if (presentTagId) {
+        resolve(tech);
+        return;
+      }
+      pendingTechRequest = { resolve: () => resolve(tech), reject };
+    }),
+    
+    cancelTechnologyRequest: async () => {
+      if (pendingTechRequest) {
+        pendingTechRequest.reject(new Error('Technology request cancelled'));
+        pendingTechRequest = null;
+      }
+    },
+    
+    getTag: async () => (presentTagId ? toTagEvent(getPresentTag()) : null),
+    
+    ndefHandler: {
+      getNdefMessage: async () => toTagEvent(getPresentTag()),
+      
+      writeNdefMessage: async (bytes) => {
+        const tag = getPresentTag();
+        if (bytes.length > tag.capacity) {
+          throw new Error(`NDEF message of ${bytes.length} bytes does not fit in ${tag.capacity} bytes`);
+        }
+        tag.ndefMessage = Ndef.decodeMessage(bytes);
+      },
+    },
+    
+    /**
+     * Create a virtual tag
+     * @param {Object} [tag]
+     * @param {string} [tag.id] UID in hex (random if omitted)
+     * @param {Array} [tag.ndefMessage] Initial NDEF records
+     * @param {number} [tag.capacity] NDEF memory in bytes
+     * @returns {string} The tag's UID
+     */
+    addTag: ({ id = createTagId(), ndefMessage = [], capacity = DEFAULT_CAPACITY } = {}) => {
+      tags.set(id, { id, ndefMessage, capacity });
+      return id;
+    },
+    
+    /**
+     * Put a tag on the reader: scan listeners see it and a waiting
+     * technology request resolves
+     * @param {string} id UID of a tag created with addTag
+     */
+    tapTag: (id) => {
+      const tag = tags.get(id);
+      if (!tag) {
+        throw new Error(`Unknown tag ${id}`);
+      }
+      presentTagId = id;
+      
+      if (isRegistered && listeners[NfcEvents.DiscoverTag]) {
+        listeners[NfcEvents.DiscoverTag](toTagEvent(tag));
+      }
+      if (pendingTechRequest) {
+        pendingTechRequest.resolve();
+        pendingTechRequest = null;
+      }
+    },
+    
+    /** Take the current tag off the reader */
+    removeTag: () => {
+      presentTagId = null;
+    },
+    
+    /**
+     * Read a tag's NDEF memory directly, e.g. to copy it onto another tag
+     * @param {string} id Tag UID
+     * @returns {Array|null} NDEF records on the tag
+     */
+    getTagMemory: (id) => {
+      const tag = tags.get(id);
+      return tag ? tag.ndefMessage.map(record => ({ ...record })) : null;
+    },
+  };
+};
+
+// Shared instance behind simulated scans
+export const mockNfcManager = createMockNfcManager();
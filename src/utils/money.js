@@ -0,0 +1,238 @@
+/**
+ * Money
+ *
+ * Every amount in the app is an integer number of the currency's minor
+ * unit (centavos for PHP): balances, prices, limits and transaction
+ * amounts, in state, on the device and in every request and response. Most
+ * decimal amounts have no exact float, so adding floats drifts by fractions
+ * of a centavo; whole centavos add up exactly. Amounts become decimals only
+ * for display (formatMoney) and are only read from decimals at input
+ * (parseMoney) or when converting data stored before this (toMinorUnits).
+ *
+ * Arithmetic goes through addMoney, subtractMoney and multiplyMoney, which
+ * refuse anything that isn't a whole number of minor units and round
+ * products explicitly (see ROUNDING), so a stray float can't creep back in.
+ *
+ * The currency and the locale amounts are shown in come from the terminal
+ * settings (configureMoney). How many digits each currency's minor unit has
+ * is worked out in shared/money.ts, which the web app uses too.
+ */
+import { DEFAULT_CURRENCY, getCurrencyMinorDigits } from '../../shared/money';
+
+export { DEFAULT_CURRENCY };
+export const DEFAULT_LOCALE = 'en-PH';
+
+// How a value between two minor units is rounded
+export const ROUNDING = {
+  // Halves away from zero (0.5 -> 1, -0.5 -> -1); the default
+  HALF_UP: 'half_up',
+  // Halves to the even neighbour (0.5 -> 0, 1.5 -> 2)
+  HALF_EVEN: 'half_even',
+  // Towards zero
+  DOWN: 'down',
+  // Away from zero
+  UP: 'up',
+};
+
+let moneySettings = {
+  currency: DEFAULT_CURRENCY,
+  locale: DEFAULT_LOCALE,
+};
+
+// Check that Intl can format amounts with a currency and locale
+const canFormat = (currency, locale) => {
+  try {
+    new Intl.NumberFormat(locale, { style: 'currency', currency });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Set the currency and locale amounts are handled and shown in. An unknown
+ * currency or locale (say, one still being typed in settings) falls back
+ * to the default.
+ * @param {Object} settings
+ * @param {string} [settings.currency] ISO 4217 code (e.g. "PHP")
+ * @param {string} [settings.locale] BCP 47 locale (e.g. "en-PH")
+ */
+export const configureMoney = ({ currency, locale } = {}) => {
+  const code = (currency || DEFAULT_CURRENCY).toUpperCase();
+  moneySettings = {
+    currency: /^[A-Z]{3}$/.test(code) && canFormat(code, DEFAULT_LOCALE) ? code : DEFAULT_CURRENCY,
+    locale: locale && canFormat(DEFAULT_CURRENCY, locale) ? locale : DEFAULT_LOCALE,
+  };
+};
+
+/**
+ * Get the currency and locale in use
+ * @returns {{currency: string, locale: string}}
+ */
+export const getMoneySettings = () => moneySettings;
+
+/**
+ * Get how many digits a currency's minor unit has (2 for PHP, 0 for JPY)
+ * @param {string} [currency] ISO 4217 code (defaults to the configured one)
+ * @returns {number}
+ */
+export const getMinorDigits = (currency = moneySettings.currency) => getCurrencyMinorDigits(currency);
+
+/**
+ * Check whether a value is an amount: a safe integer number of minor units
+ * @param {any} value
+ * @returns {boolean}
+ */
+export const isMoney = (value) => Number.isSafeInteger(value);
+
+// Refuse values that aren't whole minor units
+const assertMoney = (value) => {
+  if (!isMoney(value)) {
+    throw new TypeError(`Not an amount in minor units: ${value}`);
+  }
+  return value;
+};
+
+/**
+ * Round a value to a whole number of minor units
+ * @param {number} value Minor units, possibly fractional
+ * @param {string} [rounding] One of ROUNDING
+ * @returns {number}
+ */
+export const roundMoney = (value, rounding = ROUNDING.HALF_UP) => {
+  // Drop float noise first, so 1.005 * 100 (100.49999999999999) rounds as 100.5
+  const clean = Number(value.toPrecision(15));
+  const sign = clean < 0 ? -1 : 1;
+  const magnitude = Math.abs(clean);
+  const whole = Math.floor(magnitude);
+  const fraction = magnitude - whole;
+  
+  let rounded;
+  switch (rounding) {
+    case ROUNDING.DOWN:
+      rounded = whole;
+      break;
+    case ROUNDING.UP:
+      rounded = fraction > 0 ? whole + 1 : whole;
+      break;
+    case ROUNDING.HALF_EVEN:
+      rounded = fraction > 0.5 || (fraction === 0.5 && whole % 2 === 1) ? whole + 1 : whole;
+      break;
+    default:
+      rounded = fraction >= 0.5 ? whole + 1 : whole;
+  }
+  return sign * rounded || 0;
+};
+
+/**
+ * Convert a decimal amount (pesos) to minor units (centavos). Only for
+ * amounts that arrive as decimals: data stored before amounts were kept in
+ * minor units, and signed card records of that era.
+ * @param {number|string} major Decimal amount
+ * @param {string} [rounding] One of ROUNDING
+ * @returns {number}
+ */
+export const toMinorUnits = (major, rounding = ROUNDING.HALF_UP) => {
+  return roundMoney((Number(major) || 0) * 10 ** getMinorDigits(), rounding);
+};
+
+/**
+ * Convert minor units to a decimal amount, for display and formatting only
+ * @param {number} amount Minor units
+ * @returns {number}
+ */
+export const toMajorUnits = (amount) => assertMoney(amount) / 10 ** getMinorDigits();
+
+/**
+ * Add amounts
+ * @param {...number} amounts Minor units
+ * @returns {number}
+ */
+export const addMoney = (...amounts) => {
+  return assertMoney(amounts.reduce((total, amount) => total + assertMoney(amount), 0));
+};
+
+/**
+ * Sum a list of amounts
+ * @param {Array<number>} amounts Minor units
+ * @returns {number}
+ */
+export const sumMoney = (amounts) => addMoney(...amounts);
+
+/**
+ * Subtract one amount from another
+ * @param {number} amount Minor units
+ * @param {number} subtrahend Minor units
+ * @returns {number}
+ */
+export const subtractMoney = (amount, subtrahend) => {
+  return assertMoney(assertMoney(amount) - assertMoney(subtrahend));
+};
+
+/**
+ * Multiply an amount by a quantity or rate, rounding the result
+ * @param {number} amount Minor units
+ * @param {number} factor Quantity or rate
+ * @param {string} [rounding] One of ROUNDING
+ * @returns {number}
+ */
+export const multiplyMoney = (amount, factor, rounding = ROUNDING.HALF_UP) => {
+  return assertMoney(roundMoney(assertMoney(amount) * factor, rounding));
+};
+
+/**
+ * Compare two amounts
+ * @param {number} a Minor units
+ * @param {number} b Minor units
+ * @returns {number} -1, 0 or 1
+ */
+export const compareMoney = (a, b) => Math.sign(assertMoney(a) - assertMoney(b));
+
+/**
+ * Read an amount typed by the operator. Works on the digits, not on a
+ * float, so "0.29" is exactly 29 centavos; digits past the minor unit are
+ * rounded half up.
+ * @param {string} text Typed amount (e.g. "1,250.50")
+ * @returns {number|null} Minor units, or null if there is no amount
+ */
+export const parseMoney = (text) => {
+  const match = String(text ?? '').replace(/[^0-9.]/g, '').match(/^(\d*)(?:\.(\d*))?/);
+  const [, whole = '', fraction = ''] = match || [];
+  if (!whole && !fraction) {
+    return null;
+  }
+  
+  const digits = getMinorDigits();
+  const kept = fraction.slice(0, digits).padEnd(digits, '0');
+  const amount = Number(`${whole || '0'}${kept}`);
+  const roundUp = fraction.length > digits && Number(fraction[digits]) >= 5;
+  return isMoney(amount) ? amount + (roundUp ? 1 : 0) : null;
+};
+
+/**
+ * Format an amount as currency in the configured locale
+ * @param {number} amount Minor units
+ * @returns {string} e.g. "₱1,000.00"
+ */
+export const formatMoney = (amount) => {
+  const { currency, locale } = moneySettings;
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(toMajorUnits(amount));
+};
+
+/**
+ * Get the configured currency's symbol in the configured locale, for labels
+ * next to amount inputs
+ * @returns {string} e.g. "₱"
+ */
+export const getCurrencySymbol = () => {
+  const { currency, locale } = moneySettings;
+  const parts = new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value || currency;
+};
+
+/**
+ * Write an amount the way it is typed, for pre-filling inputs
+ * @param {number} amount Minor units
+ * @returns {string} e.g. "1250.50"
+ */
+export const formatMoneyInput = (amount) => toMajorUnits(amount).toFixed(getMinorDigits());
@@ -7,16 +7,151 @@
  *
  * Key features:
  * - Real-time network connectivity monitoring
- * - Deep internet access verification (beyond simple connected status)
- * - Offline mode determination with fallback mechanisms
- * - Connection resilience through retry mechanisms
+ * - Backend reachability checks against the configured API's health endpoint
+ *   (so a LAN-only deployment works, and "online" means our own server answers)
+ * - Short-lived caching of probe results, with concurrent checks sharing one probe
+ * - A circuit breaker that flips to offline after repeated request failures and
+ *   half-opens after a cooldown to test whether the backend is back
+ * - A single observable connectivity state for the UI
  * - Network status persistence for consistent app behavior
  *
  * The utilities here are critical for the app's ability to function in areas with poor
  * connectivity while maintaining data integrity and ensuring transactions can continue.
  */
 import NetInfo from '@react-native-community/netinfo';
-import { saveNetworkStatus, getNetworkStatus } from './storage';
+import { saveNetworkStatus, getUserSettings } from './storage';
+
+// How long a probe result is trusted before the backend is checked again
+const PROBE_CACHE_TTL_MS = 15000;
+// Timeout for a single health probe
+const PROBE_TIMEOUT_MS = 3000;
+// Consecutive request failures that open the circuit
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+// How long the circuit stays open before a half-open retry
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+// Probe configuration, set by the API module once user settings are loaded
+let probeConfig = {
+  baseUrl: null,
+  simulated: false,
+};
+
+// Last probe result and the probe currently in flight (if any)
+let lastProbe = null;
+let inFlightProbe = null;
+
+// Circuit breaker bookkeeping
+let consecutiveFailures = 0;
+let circuitOpenedAt = null;
+
+// Observable connectivity state
+let connectivityState = {
+  isConnected: true,          // device has a network interface up (NetInfo)
+  backendReachable: true,     // last known result of the backend health probe
+  circuitState: 'closed',     // 'closed' | 'open' | 'half_open'
+  isOffline: false,           // what the rest of the app should act on
+  lastCheckedAt: null,
+};
+const listeners = new Set();
+
+/**
+ * Update the connectivity state and notify subscribers if it changed
+ * @param {Object} changes Fields to merge into the state
+ */
+const updateConnectivityState = (changes) => {
+  const nextState = { ...connectivityState, ...changes };
+  nextState.isOffline = !nextState.isConnected
+    || !nextState.backendReachable
+    || nextState.circuitState === 'open';
+  
+  const changed = Object.keys(nextState).some(key => nextState[key] !== connectivityState[key]);
+  connectivityState = nextState;
+  
+  if (changed) {
+    listeners.forEach(listener => {
+      try {
+        listener(connectivityState);
+      } catch (error) {
+        console.error('Connectivity listener failed:', error);
+      }
+    });
+  }
+};
+
+/**
+ * Get the current connectivity state
+ * @returns {{isConnected: boolean, backendReachable: boolean, circuitState: string, isOffline: boolean, lastCheckedAt: number|null}}
+ */
+export const getConnectivityState = () => connectivityState;
+
+/**
+ * Subscribe to connectivity state changes
+ * @param {function} listener Called with the new state on every change
+ * @returns {function} Unsubscribe function
+ */
+export const subscribeConnectivity = (listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Configure the backend health probe
+ * @param {Object} config Probe configuration
+ * @param {string} config.baseUrl API base URL (the probe requests `${baseUrl}/health`)
+ * @param {boolean} [config.simulated] Whether the simulated API is in use (no backend to probe)
+ */
+export const configureConnectivityProbe = ({ baseUrl, simulated = false }) => {
+  probeConfig = { baseUrl, simulated };
+  
+  // Results for a different backend no longer apply
+  lastProbe = null;
+};
+
+/**
+ * Resolve the API base URL to probe
+ * @returns {Promise<string|null>}
+ */
+const getProbeBaseUrl = async () => {
+  if (probeConfig.baseUrl) {
+    return probeConfig.baseUrl;
+  }
+  
+  const settings = await getUserSettings();
+  return settings.apiUrl || null;
+};
+
+/**
+ * Run a single health probe against the backend
+ * @returns {Promise<boolean>} Whether the backend answered healthy
+ */
+const probeBackend = async () => {
+  if (probeConfig.simulated) {
+    return true;
+  }
+  
+  const baseUrl = await getProbeBaseUrl();
+  if (!baseUrl) {
+    return false;
+  }
+  
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/health`, {
+      method: 'GET',
+      signal: controller.signal,
+    });
+    return response.ok;
+  } catch (error) {
+    console.log('Backend health check failed:', error.message);
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
 
 /**
  * Initialize network monitoring
@@ -24,18 +159,48 @@ import { saveNetworkStatus, getNetworkStatus } from './storage';
  * @returns {function} Unsubscribe function
  */
 export const initNetworkMonitoring = (onConnectionChange) => {
-  // Set up network state change subscription
-  const unsubscribe = NetInfo.addEventListener(state => {
-    // Save connection state to storage
-    saveNetworkStatus(state.isConnected);
+  let wasOffline = connectivityState.isOffline;
+  
+  return subscribeConnectivity(state => {
+    if (state.isOffline === wasOffline) {
+      return;
+    }
+    wasOffline = state.isOffline;
     
     // Call callback if provided
     if (onConnectionChange) {
-      onConnectionChange(state.isConnected);
+      onConnectionChange(!state.isOffline);
     }
   });
+};
+
+/**
+ * Start feeding NetInfo events into the connectivity state. A network change
+ * invalidates the cached probe and checks the backend again. Call once, at
+ * app start.
+ * @returns {function} Unsubscribe function
+ */
+export const startConnectivityMonitoring = () => {
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    const deviceConnected = !!state.isConnected;
+    
+    lastProbe = null;
+    updateConnectivityState({ isConnected: deviceConnected });
+    
+    if (deviceConnected) {
+      hasInternetAccess().catch(() => {});
+    }
+  });
+  
+  // Save the resolved state to storage for components that read it from there
+  const unsubscribeState = subscribeConnectivity(state => {
+    saveNetworkStatus(!state.isOffline);
+  });
   
-  return unsubscribe;
+  return () => {
+    unsubscribeNetInfo();
+    unsubscribeState();
+  };
 };
 
 /**
@@ -48,26 +213,94 @@ export const isConnected = async () => {
 };
 
 /**
- * Check if the device has internet access
- * This does a deeper check than isConnected by testing for actual internet access
- * @returns {Promise<boolean>} Whether the device has internet access
+ * Check if our backend is reachable
+ *
+ * Probes the configured API's health endpoint. A result is reused for a few
+ * seconds, and concurrent callers share the probe already in flight instead
+ * of each starting their own.
+ *
+ * @param {Object} [options]
+ * @param {boolean} [options.force] Ignore the cached result and probe now
+ * @returns {Promise<boolean>} Whether the backend is reachable
  */
-export const hasInternetAccess = async () => {
-  try {
-    // Try to fetch a small resource to check for actual internet access
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-    
-    const response = await fetch('https://www.google.com/generate_204', {
-      method: 'HEAD',
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
-    return response.status === 204;
-  } catch (error) {
-    console.log('Internet access check failed:', error.message);
-    return false;
+export const hasInternetAccess = async ({ force = false } = {}) => {
+  if (!force && lastProbe && Date.now() - lastProbe.at < PROBE_CACHE_TTL_MS) {
+    return lastProbe.reachable;
+  }
+  
+  if (!inFlightProbe) {
+    inFlightProbe = probeBackend()
+      .then(reachable => {
+        lastProbe = { reachable, at: Date.now() };
+        
+        // A probe is the half-open trial request for the circuit breaker
+        if (connectivityState.circuitState === 'half_open') {
+          if (reachable) {
+            closeCircuit();
+          } else {
+            openCircuit();
+          }
+        }
+        
+        updateConnectivityState({ backendReachable: reachable, lastCheckedAt: lastProbe.at });
+        return reachable;
+      })
+      .finally(() => {
+        inFlightProbe = null;
+      });
+  }
+  
+  return inFlightProbe;
+};
+
+/**
+ * Open the circuit: treat the backend as unreachable until the cooldown ends
+ */
+const openCircuit = () => {
+  circuitOpenedAt = Date.now();
+  updateConnectivityState({ circuitState: 'open' });
+  console.log('Circuit breaker opened - switching to offline mode');
+};
+
+/**
+ * Close the circuit: the backend is answering again
+ */
+const closeCircuit = () => {
+  consecutiveFailures = 0;
+  circuitOpenedAt = null;
+  updateConnectivityState({ circuitState: 'closed' });
+};
+
+/**
+ * Move an open circuit to half-open once its cooldown has passed
+ * @returns {string} Current circuit state
+ */
+const refreshCircuitState = () => {
+  if (connectivityState.circuitState === 'open'
+      && Date.now() - circuitOpenedAt >= CIRCUIT_COOLDOWN_MS) {
+    updateConnectivityState({ circuitState: 'half_open' });
+  }
+  return connectivityState.circuitState;
+};
+
+/**
+ * Record a failed backend request (network error or 5xx)
+ */
+export const reportRequestFailure = () => {
+  consecutiveFailures++;
+  
+  if (connectivityState.circuitState === 'half_open'
+      || consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    openCircuit();
+  }
+};
+
+/**
+ * Record a successful backend request
+ */
+export const reportRequestSuccess = () => {
+  if (connectivityState.circuitState !== 'closed' || consecutiveFailures > 0) {
+    closeCircuit();
   }
 };
 
@@ -81,7 +314,7 @@ export const waitForConnectivity = async (maxRetries = 5, retryDelay = 2000) =>
   let retries = 0;
   
   while (retries < maxRetries) {
-    const connected = await hasInternetAccess();
+    const connected = await hasInternetAccess({ force: true });
     
     if (connected) {
       return true;
@@ -106,35 +339,44 @@ export const getConnectionType = async () => {
 
 /**
  * Determine if the app should operate in offline mode
- * 
+ *
  * This function is a critical decision point for the application's behavior.
  * It implements a multi-layer approach to network detection:
- * 1. First checks basic connectivity status (wifi/cellular connection)
- * 2. Then performs a real internet access test by attempting to reach an external endpoint
- * 3. Uses a conservative approach - defaults to offline mode unless connectivity is confirmed
- * 
+ * 1. An open circuit breaker means offline, without touching the network
+ * 2. Then checks basic connectivity status (wifi/cellular connection)
+ * 3. Then checks that our backend answers its health endpoint (cached briefly,
+ *    so this is cheap to call before every API request)
+ * 4. Uses a conservative approach - defaults to offline mode unless connectivity is confirmed
+ *
  * In areas with erratic internet, this ensures the app can still process transactions
  * by defaulting to offline mode whenever connectivity is questionable. This prevents
  * transaction failures and provides a seamless experience in challenging environments.
- * 
+ *
  * @returns {Promise<boolean>} Whether the app should operate in offline mode
  */
 export const shouldOperateOffline = async () => {
+  const circuitState = refreshCircuitState();
+  if (circuitState === 'open') {
+    return true;
+  }
+  
   // First check current network status
   const currentlyConnected = await isConnected();
+  updateConnectivityState({ isConnected: !!currentlyConnected });
   
   if (currentlyConnected) {
-    // Double-check with actual internet access test
-    // This is important because sometimes devices show as "connected" 
-    // but actually have no internet access (e.g., connected to WiFi with no internet)
-    const hasInternet = await hasInternetAccess();
-    if (hasInternet) {
-      return false; // We have confirmed internet, no need for offline mode
+    // Double-check that our backend actually answers
+    // This is important because sometimes devices show as "connected"
+    // but can't reach the server (e.g., connected to WiFi with no uplink).
+    // A half-open circuit always gets a fresh probe as its trial request.
+    const reachable = await hasInternetAccess({ force: circuitState === 'half_open' });
+    if (reachable) {
+      return false; // Backend confirmed, no need for offline mode
     }
   }
   
   // Default to offline mode when connectivity is uncertain
   // This conservative approach ensures transactions can still be processed
   // even when internet connectivity is questionable
-  return true; 
-};
\ No newline at end of file
+  return true;
+};
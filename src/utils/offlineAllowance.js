@@ -0,0 +1,106 @@
+/**
+ * Per-card offline spending allowances
+ *
+ * A cached balance can be spent on every terminal that is offline at the
+ * same time. To cap that exposure, the server issues each terminal an
+ * allowance per card on every refresh: the most the card may spend offline
+ * on that terminal until it syncs again. Payments still in this terminal's
+ * pending queue count against it. Cards without an allowance, and cards
+ * whose allowance has expired, can't pay offline.
+ *
+ * If offline sales from several terminals still overspend a card, the
+ * server reports it in a sync response. The card is then flagged here, so
+ * it is refused offline, and the report is kept for review in offline
+ * settings.
+ */
+import {
+  getOfflineAllowance,
+  flagOfflineAllowance,
+  saveOverspendReport,
+  loadPendingTransactions
+} from './storage';
+import { formatCurrency } from './formatters';
+import { sumMoney, subtractMoney, compareMoney } from './money';
+
+/**
+ * Sum what a card has spent offline on this terminal that hasn't synced yet
+ * @param {string} cardId The card
+ * @param {Array} pending Pending queue
+ * @returns {number}
+ */
+export const getAllowanceUsage = (cardId, pending) => {
+  return sumMoney(pending
+    .filter(t => t.type === 'payment' && t.cardId === cardId)
+    .map(t => Number(t.amount) || 0));
+};
+
+/**
+ * Find why an offline payment is over the card's allowance
+ * @param {Object|null} allowance The card's allowance
+ * @param {number} amount Payment amount
+ * @param {number} used What the card has spent offline against the allowance
+ * @param {Date} [now] Current time
+ * @returns {{reason: 'none'|'flagged'|'expired'|'exceeded', remaining: number}|null}
+ */
+export const findAllowanceViolation = (allowance, amount, used, now = new Date()) => {
+  if (!allowance) {
+    return { reason: 'none', remaining: 0 };
+  }
+  if (allowance.flagged) {
+    return { reason: 'flagged', remaining: 0 };
+  }
+  if (allowance.expiresAt && new Date(allowance.expiresAt) <= now) {
+    return { reason: 'expired', remaining: 0 };
+  }
+  
+  const remaining = Math.max(0, subtractMoney(Number(allowance.amount) || 0, used));
+  if (compareMoney(amount, remaining) > 0) {
+    return { reason: 'exceeded', remaining };
+  }
+  return null;
+};
+
+/**
+ * Describe an allowance violation for the operator
+ * @param {Object} violation From findAllowanceViolation
+ * @returns {string}
+ */
+export const describeAllowanceViolation = (violation) => {
+  switch (violation.reason) {
+    case 'flagged':
+      return 'This card has been flagged for overspending across terminals and cannot pay offline';
+    case 'none':
+    case 'expired':
+      return 'This card has no offline allowance on this terminal. Reconnect to take the payment.';
+    default:
+      return `Offline payments on this card are limited to ${formatCurrency(violation.remaining)} more until the terminal syncs`;
+  }
+};
+
+/**
+ * Check an offline payment against the card's allowance on this terminal
+ * @param {string} cardId The paying card
+ * @param {number} amount Payment amount
+ * @returns {Promise<Object|null>} The violation (see findAllowanceViolation) or null if allowed
+ */
+export const checkOfflineAllowance = async (cardId, amount) => {
+  const allowance = await getOfflineAllowance(cardId);
+  const used = getAllowanceUsage(cardId, await loadPendingTransactions());
+  return findAllowanceViolation(allowance, amount, used);
+};
+
+/**
+ * Keep an overspend the server reported and flag the card on this terminal
+ * @param {Object} overspend The server's report ({ cardId, customerId, overdrawnBy, transactions })
+ * @returns {Promise<Object>} The saved report
+ */
+export const recordOverspend = async (overspend) => {
+  const report = await saveOverspendReport(overspend);
+  await flagOfflineAllowance(overspend.cardId, overspend.customerId);
+  
+  console.warn(
+    `Card ${overspend.cardId} overspent by ${overspend.overdrawnBy} across terminals: ` +
+      overspend.transactions.map(t => `${t.terminalId || '?'}#${t.sequenceNumber ?? '?'}`).join(', ')
+  );
+  return report;
+};
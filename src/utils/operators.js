@@ -0,0 +1,204 @@
+/**
+ * Operators, roles and the signed-in session
+ *
+ * Every action on a terminal is taken by a signed-in operator. Operator
+ * accounts come from the server and are cached with their salted PIN
+ * hashes, so operators can sign in offline; the PIN itself is never stored.
+ *
+ * Roles are ranked: a supervisor can do everything a cashier can, and an
+ * admin everything a supervisor can. REQUIRED_ROLES lists the lowest role
+ * allowed to do each thing.
+ *
+ * The session lives in memory only, so restarting the app signs the
+ * operator out.
+ */
+import { hashPin, MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS } from './cardSecurity';
+import {
+  getCachedOperators,
+  loadOperatorPinAttempts,
+  saveOperatorPinAttempts
+} from './storage';
+
+export const ROLES = {
+  CASHIER: 'cashier',
+  SUPERVISOR: 'supervisor',
+  ADMIN: 'admin',
+};
+
+const ROLE_RANK = {
+  [ROLES.CASHIER]: 1,
+  [ROLES.SUPERVISOR]: 2,
+  [ROLES.ADMIN]: 3,
+};
+
+export const ROLE_LABELS = {
+  [ROLES.CASHIER]: 'Cashier',
+  [ROLES.SUPERVISOR]: 'Supervisor',
+  [ROLES.ADMIN]: 'Admin',
+};
+
+export const PERMISSIONS = {
+  PAYMENT: 'payment',
+  VOID: 'void',
+  CLOSE_SHIFT: 'close_shift',
+  RELOAD: 'reload',
+  REFUND: 'refund',
+  REGISTRATION: 'registration',
+  CUSTOMER_UPDATE: 'customer_update',
+  CARD_REPLACEMENT: 'card_replacement',
+  SYNC_CONFLICTS: 'sync_conflicts',
+  SHIFT_OVERRIDE: 'shift_override',
+  SETTINGS: 'settings',
+};
+
+// Lowest role allowed to do each thing
+const REQUIRED_ROLES = {
+  [PERMISSIONS.PAYMENT]: ROLES.CASHIER,
+  [PERMISSIONS.VOID]: ROLES.CASHIER,
+  [PERMISSIONS.CLOSE_SHIFT]: ROLES.CASHIER,
+  [PERMISSIONS.RELOAD]: ROLES.SUPERVISOR,
+  [PERMISSIONS.REFUND]: ROLES.SUPERVISOR,
+  [PERMISSIONS.REGISTRATION]: ROLES.SUPERVISOR,
+  [PERMISSIONS.CUSTOMER_UPDATE]: ROLES.SUPERVISOR,
+  [PERMISSIONS.CARD_REPLACEMENT]: ROLES.SUPERVISOR,
+  [PERMISSIONS.SYNC_CONFLICTS]: ROLES.SUPERVISOR,
+  [PERMISSIONS.SHIFT_OVERRIDE]: ROLES.SUPERVISOR,
+  [PERMISSIONS.SETTINGS]: ROLES.ADMIN,
+};
+
+// How each permission reads in "<action> needs a supervisor"
+const PERMISSION_LABELS = {
+  [PERMISSIONS.PAYMENT]: 'Taking payments',
+  [PERMISSIONS.VOID]: 'Voiding transactions',
+  [PERMISSIONS.CLOSE_SHIFT]: 'Closing the shift',
+  [PERMISSIONS.RELOAD]: 'Reloading balances',
+  [PERMISSIONS.REFUND]: 'Refunding payments',
+  [PERMISSIONS.REGISTRATION]: 'Registering customers',
+  [PERMISSIONS.CUSTOMER_UPDATE]: 'Changing customer details',
+  [PERMISSIONS.CARD_REPLACEMENT]: 'Replacing cards',
+  [PERMISSIONS.SYNC_CONFLICTS]: 'Resolving sync conflicts',
+  [PERMISSIONS.SHIFT_OVERRIDE]: 'Overriding open conflicts',
+  [PERMISSIONS.SETTINGS]: 'Changing settings',
+};
+
+let currentOperator = null;
+const listeners = new Set();
+
+/**
+ * Get the lowest role allowed a permission
+ * @param {string} permission One of PERMISSIONS
+ * @returns {string} One of ROLES
+ */
+export const getRequiredRole = (permission) => REQUIRED_ROLES[permission] || ROLES.ADMIN;
+
+/**
+ * Check whether an operator's role allows a permission
+ * @param {Object|null} operator Operator (the signed-in one, usually)
+ * @param {string} permission One of PERMISSIONS
+ * @returns {boolean}
+ */
+export const hasPermission = (operator, permission) => {
+  if (!operator) {
+    return false;
+  }
+  return (ROLE_RANK[operator.role] || 0) >= ROLE_RANK[getRequiredRole(permission)];
+};
+
+/**
+ * Explain why an operator can't do something
+ * @param {string} permission One of PERMISSIONS
+ * @returns {string}
+ */
+export const describeMissingPermission = (permission) => {
+  const role = ROLE_LABELS[getRequiredRole(permission)].toLowerCase();
+  return `${PERMISSION_LABELS[permission] || 'This'} needs a ${role} or above`;
+};
+
+/**
+ * Get the signed-in operator
+ * @returns {Object|null} The operator, or null if nobody is signed in
+ */
+export const getCurrentOperator = () => currentOperator;
+
+/**
+ * Subscribe to sign-ins and sign-outs
+ * @param {function} listener Called with the operator (or null)
+ * @returns {function} Unsubscribe function
+ */
+export const subscribeOperator = (listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Change the session and tell the subscribers
+const setCurrentOperator = (operator) => {
+  currentOperator = operator;
+  listeners.forEach(listener => {
+    try {
+      listener(operator);
+    } catch (error) {
+      console.error('Error in operator listener:', error);
+    }
+  });
+};
+
+/**
+ * Sign an operator in with their PIN, checked against the cached hash. The
+ * operator is locked out on this terminal for PIN_LOCKOUT_MS after
+ * MAX_PIN_ATTEMPTS wrong PINs in a row; a right PIN clears the count.
+ * @param {number|string} operatorId Operator ID
+ * @param {string} pin PIN as entered
+ * @returns {Promise<{valid: boolean, attemptsRemaining: number, lockedUntil: Date|null, operator?: Object}>}
+ */
+export const signIn = async (operatorId, pin) => {
+  const operator = (await getCachedOperators()).find(o => o.id === operatorId);
+  if (!operator || operator.active === false) {
+    throw new Error('This operator account is not available on this terminal');
+  }
+  
+  const previous = await loadOperatorPinAttempts(operator.id);
+  if (previous.lockedUntil && new Date(previous.lockedUntil) > new Date()) {
+    return { valid: false, attemptsRemaining: 0, lockedUntil: new Date(previous.lockedUntil) };
+  }
+  
+  const valid = (await hashPin(pin, operator.pinSalt)) === operator.pinHash;
+  
+  if (valid) {
+    await saveOperatorPinAttempts(operator.id, null);
+    
+    // Only what the session needs; the PIN hash stays in the cache
+    const { pinHash, pinSalt, ...sessionOperator } = operator;
+    setCurrentOperator(sessionOperator);
+    console.log(`[Operators] ${operator.name} signed in as ${operator.role}`);
+    return { valid: true, attemptsRemaining: MAX_PIN_ATTEMPTS, lockedUntil: null, operator: sessionOperator };
+  }
+  
+  // A lockout that has run out starts a fresh count
+  const failures = (previous.lockedUntil ? 0 : previous.failures) + 1;
+  const lockedUntil = failures >= MAX_PIN_ATTEMPTS
+    ? new Date(Date.now() + PIN_LOCKOUT_MS)
+    : null;
+  
+  await saveOperatorPinAttempts(operator.id, {
+    failures,
+    lockedUntil: lockedUntil ? lockedUntil.toISOString() : null
+  });
+  
+  return {
+    valid: false,
+    attemptsRemaining: Math.max(0, MAX_PIN_ATTEMPTS - failures),
+    lockedUntil
+  };
+};
+
+/**
+ * Sign the current operator out
+ */
+export const signOut = () => {
+  if (currentOperator) {
+    console.log(`[Operators] ${currentOperator.name} signed out`);
+  }
+  setCurrentOperator(null);
+};
@@ -0,0 +1,197 @@
+/**
+ * Receipt printer transports
+ *
+ * A transport sends one print job (the ESC/POS bytes of a receipt or a
+ * Z-report) somewhere:
+ *
+ *   { name: string, send(bytes: Uint8Array): Promise<void> }
+ *
+ * - TCP: a network printer's raw port (9100). Any socket module with
+ *   createConnection(options, onConnect) works, so Node's `net` or a local
+ *   listener such as `nc -l 9100` can stand in for the printer.
+ * - File: every job is saved to its own file, to check the output without
+ *   a printer.
+ * - Memory: jobs are kept in an array, to look at the bytes without a
+ *   printer or a file system.
+ *
+ * The "Printer address" in Offline Settings picks one: host[:port] prints
+ * over TCP, empty saves the jobs to files on the device.
+ */
+import TcpSocket from 'react-native-tcp-socket';
+import * as FileSystem from 'expo-file-system';
+import { renderReceiptEscPos, renderLinesEscPos } from './escpos';
+import { layoutShiftReport } from './shift';
+import { getUserSettings } from './storage';
+
+// Raw printing port of network receipt printers
+export const DEFAULT_PRINTER_PORT = 9100;
+
+const PRINT_TIMEOUT_MS = 10000;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64-encode bytes (React Native has no Buffer)
+const bytesToBase64 = (bytes) => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return output;
+};
+
+/**
+ * Parse a printer address
+ * @param {string} address "host" or "host:port"
+ * @returns {{host: string, port: number}|null} null when no address is set
+ */
+export const parsePrinterAddress = (address) => {
+  const trimmed = (address || '').trim();
+  if (!trimmed) {
+    return null;
+  }
+  
+  const [host, port] = trimmed.split(':');
+  const portNumber = port ? parseInt(port, 10) : DEFAULT_PRINTER_PORT;
+  if (!host || !Number.isInteger(portNumber) || portNumber <= 0 || portNumber > 65535) {
+    throw new Error(`Invalid printer address "${address}". Use host or host:port.`);
+  }
+  return { host, port: portNumber };
+};
+
+/**
+ * Create a transport that prints over a raw TCP connection
+ * @param {Object} options
+ * @param {string} options.host Printer host name or IP
+ * @param {number} [options.port] Printer port
+ * @param {number} [options.timeoutMs] How long a job may take
+ * @param {Object} [options.socketModule] Socket implementation (defaults to
+ *   react-native-tcp-socket; Node's `net` has the same API)
+ * @returns {Object} Printer transport
+ */
+export const createTcpPrinterTransport = ({
+  host,
+  port = DEFAULT_PRINTER_PORT,
+  timeoutMs = PRINT_TIMEOUT_MS,
+  socketModule = TcpSocket
+}) => ({
+  name: `${host}:${port}`,
+  
+  send: (bytes) => new Promise((resolve, reject) => {
+    let socket = null;
+    let settled = false;
+    
+    const finish = (error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      
+      if (error) {
+        socket?.destroy();
+        reject(error);
+      } else {
+        socket.end();
+        resolve();
+      }
+    };
+    
+    const timer = setTimeout(
+      () => finish(new Error(`Printer at ${host}:${port} did not respond`)),
+      timeoutMs
+    );
+    
+    socket = socketModule.createConnection({ host, port }, () => {
+      socket.write(bytes, undefined, (error) => finish(error || undefined));
+    });
+    socket.on('error', (error) => finish(new Error(`Printer at ${host}:${port}: ${error.message}`)));
+  }),
+});
+
+/**
+ * Create a transport that saves each job to its own file
+ * @param {Object} [options]
+ * @param {string} [options.directory] Directory URI for the jobs
+ * @param {Object} [options.fileSystem] File system implementation (expo-file-system)
+ * @returns {Object} Printer transport
+ */
+export const createFilePrinterTransport = ({
+  directory = `${FileSystem.documentDirectory}receipts/`,
+  fileSystem = FileSystem
+} = {}) => ({
+  name: directory,
+  
+  send: async (bytes) => {
+    await fileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    const uri = `${directory}receipt_${Date.now()}_${Math.random().toString(36).substr(2, 5)}.bin`;
+    await fileSystem.writeAsStringAsync(uri, bytesToBase64(bytes), {
+      encoding: FileSystem.EncodingType.Base64
+    });
+    console.log(`[Printer] Saved print job to ${uri}`);
+  },
+});
+
+/**
+ * Create a transport that keeps jobs in memory
+ * @returns {Object} Printer transport, plus the `jobs` it has received
+ */
+export const createMemoryPrinterTransport = () => {
+  const jobs = [];
+  return {
+    name: 'memory',
+    jobs,
+    send: async (bytes) => {
+      jobs.push(bytes);
+    },
+  };
+};
+
+/**
+ * Get the transport for the printer configured in settings
+ * @returns {Promise<Object>} Printer transport
+ */
+export const getPrinterTransport = async () => {
+  const settings = await getUserSettings();
+  const address = parsePrinterAddress(settings.printerAddress);
+  return address ? createTcpPrinterTransport(address) : createFilePrinterTransport();
+};
+
+/**
+ * Print a receipt
+ * @param {Object} receipt Receipt from buildReceipt
+ * @param {Object} [transport] Where to send it (the configured printer if omitted)
+ * @returns {Promise<string>} Name of the transport it was sent to
+ */
+export const printReceipt = async (receipt, transport) => {
+  try {
+    const printer = transport || await getPrinterTransport();
+    await printer.send(renderReceiptEscPos(receipt));
+    console.log(`[Printer] Printed receipt ${receipt.transactionId} on ${printer.name}`);
+    return printer.name;
+  } catch (error) {
+    console.error('Error printing receipt:', error);
+    throw error;
+  }
+};
+
+/**
+ * Print a Z-report
+ * @param {Object} report The Z-report
+ * @param {Object} [transport] Where to send it (the configured printer if omitted)
+ * @returns {Promise<string>} Name of the transport it was sent to
+ */
+export const printShiftReport = async (report, transport) => {
+  try {
+    const settings = await getUserSettings();
+    const printer = transport || await getPrinterTransport();
+    await printer.send(renderLinesEscPos(layoutShiftReport(report, { merchantName: settings.merchantName })));
+    console.log(`[Printer] Printed Z-report ${report.reportId} on ${printer.name}`);
+    return printer.name;
+  } catch (error) {
+    console.error('Error printing Z-report:', error);
+    throw error;
+  }
+};
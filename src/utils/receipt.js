@@ -0,0 +1,295 @@
+/**
+ * Receipts
+ *
+ * A receipt is built once from a transaction into a plain structure, with
+ * every amount already formatted, and then rendered for wherever it goes:
+ * - renderReceiptText: plain text for SMS, email or the share sheet
+ * - renderReceiptHtml: a standalone HTML page for sharing or printing
+ * - renderReceiptEscPos (escpos.js): bytes for a thermal receipt printer
+ *
+ * The text and ESC/POS renderers share one line layout (layoutReceipt), so a
+ * printed receipt reads exactly like a texted one.
+ */
+import { formatCurrency, formatDate } from './formatters';
+import { getLineTotal } from './cart';
+import { getUserSettings, getTerminalId } from './storage';
+
+// Characters per line on a 58 mm thermal printer
+export const RECEIPT_WIDTH = 32;
+
+export const DEFAULT_MERCHANT_NAME = 'NFC Pay';
+
+const OFFLINE_MARKER = 'OFFLINE - pending sync';
+
+// Heading and total label for each kind of transaction
+const RECEIPT_TYPES = {
+  payment: { title: 'Payment', totalLabel: 'Total' },
+  reload: { title: 'Reload', totalLabel: 'Amount reloaded' },
+  refund: { title: 'Refund', totalLabel: 'Amount refunded' },
+  void: { title: 'Void', totalLabel: 'Amount voided' },
+};
+
+/**
+ * Build a receipt from a transaction
+ * @param {Object} transaction The transaction (payment, reload, refund or void)
+ * @param {Object} [options]
+ * @param {Object} [options.customer] The customer after the transaction, for the balance
+ * @param {Object} [options.merchant] { name, address, phone, footer }
+ * @param {string} [options.terminalId] Terminal printing the receipt
+ * @returns {Object} The receipt, with every amount formatted
+ */
+export const buildReceipt = (transaction, { customer, merchant = {}, terminalId } = {}) => {
+  const type = RECEIPT_TYPES[transaction.type] || RECEIPT_TYPES.payment;
+  
+  // Payments without a cart are a single line
+  const items = transaction.items?.length > 0
+    ? transaction.items
+    : [{ description: transaction.description || type.title, amount: transaction.amount, quantity: 1 }];
+  
+  return {
+    merchant: {
+      name: merchant.name || DEFAULT_MERCHANT_NAME,
+      address: merchant.address || null,
+      phone: merchant.phone || null,
+    },
+    title: type.title,
+    transactionId: transaction.transactionId,
+    date: formatDate(transaction.createdAt),
+    terminalId: transaction.terminalId || terminalId || null,
+    customerName: transaction.customerName || null,
+    cardId: transaction.cardId || null,
+    lines: items.map(item => ({
+      description: item.description,
+      quantity: item.quantity || 1,
+      unitAmount: formatCurrency(Number(item.amount) || 0),
+      amount: formatCurrency(getLineTotal(item)),
+    })),
+    totalLabel: type.totalLabel,
+    total: formatCurrency(Number(transaction.amount) || 0),
+    balanceAfter: customer ? formatCurrency(Number(customer.balance) || 0) : null,
+    originalTransactionId: transaction.originalTransactionId || null,
+    reason: transaction.reason || null,
+    pendingSync: !!transaction.pendingSync,
+    footer: merchant.footer || 'Thank you!',
+  };
+};
+
+/**
+ * Build a receipt with the merchant details from settings and this terminal's ID
+ * @param {Object} transaction The transaction
+ * @param {Object} [customer] The customer after the transaction
+ * @returns {Promise<Object>} The receipt
+ */
+export const createReceipt = async (transaction, customer) => {
+  const settings = await getUserSettings();
+  
+  return buildReceipt(transaction, {
+    customer,
+    merchant: {
+      name: settings.merchantName,
+      address: settings.merchantAddress,
+      phone: settings.merchantPhone,
+      footer: settings.receiptFooter,
+    },
+    terminalId: await getTerminalId(),
+  });
+};
+
+/**
+ * Put two texts at either end of a line, moving the right one to a line of
+ * its own if they don't fit together
+ * @param {string} left Text on the left
+ * @param {string} right Text on the right
+ * @param {number} width Characters per line
+ * @returns {Array<string>} One or two lines
+ */
+export const formatColumns = (left, right, width) => {
+  const gap = width - left.length - right.length;
+  if (gap >= 1) {
+    return [`${left}${' '.repeat(gap)}${right}`];
+  }
+  return [left, right.padStart(width)];
+};
+
+/**
+ * Lay a receipt out line by line for a printer `width` characters wide
+ * @param {Object} receipt Receipt from buildReceipt
+ * @param {number} [width] Characters per line
+ * @returns {Array<{text: string, align: 'left'|'center'|'right', bold?: boolean, large?: boolean}>}
+ */
+export const layoutReceipt = (receipt, width = RECEIPT_WIDTH) => {
+  const lines = [];
+  const add = (text, align = 'left', style = {}) => lines.push({ text, align, ...style });
+  const addColumns = (left, right, style) => {
+    formatColumns(left, right, width).forEach(text => add(text, 'left', style));
+  };
+  const rule = () => add('-'.repeat(width));
+  
+  add(receipt.merchant.name, 'center', { bold: true, large: true });
+  if (receipt.merchant.address) {
+    add(receipt.merchant.address, 'center');
+  }
+  if (receipt.merchant.phone) {
+    add(receipt.merchant.phone, 'center');
+  }
+  rule();
+  
+  add(receipt.title.toUpperCase(), 'center', { bold: true });
+  add(receipt.date);
+  add(`Txn: ${receipt.transactionId}`);
+  if (receipt.terminalId) {
+    add(`Terminal: ${receipt.terminalId}`);
+  }
+  if (receipt.customerName) {
+    add(`Customer: ${receipt.customerName}`);
+  }
+  if (receipt.cardId) {
+    add(`Card: ${receipt.cardId}`);
+  }
+  if (receipt.originalTransactionId) {
+    add(`Original txn: ${receipt.originalTransactionId}`);
+  }
+  if (receipt.reason) {
+    add(`Reason: ${receipt.reason}`);
+  }
+  rule();
+  
+  receipt.lines.forEach(line => {
+    addColumns(`${line.quantity} x ${line.description}`, line.amount);
+    if (line.quantity > 1) {
+      add(`    ${line.unitAmount} each`);
+    }
+  });
+  rule();
+  
+  addColumns(receipt.totalLabel.toUpperCase(), receipt.total, { bold: true });
+  if (receipt.balanceAfter) {
+    addColumns('Balance after', receipt.balanceAfter);
+  }
+  
+  if (receipt.pendingSync) {
+    rule();
+    add(`*** ${OFFLINE_MARKER} ***`, 'center', { bold: true });
+  }
+  
+  add('');
+  add(receipt.footer, 'center');
+  
+  return lines;
+};
+
+// Align a laid-out line within the receipt width
+const alignLine = (line, width) => {
+  const padding = Math.max(0, width - line.text.length);
+  switch (line.align) {
+    case 'center':
+      return `${' '.repeat(Math.floor(padding / 2))}${line.text}`;
+    case 'right':
+      return line.text.padStart(width);
+    default:
+      return line.text;
+  }
+};
+
+/**
+ * Render laid-out lines as plain text
+ * @param {Array<Object>} lines Lines from layoutReceipt (or another layout)
+ * @param {number} [width] Characters per line
+ * @returns {string}
+ */
+export const renderLinesText = (lines, width = RECEIPT_WIDTH) => {
+  return lines
+    .map(line => alignLine(line, width).trimEnd())
+    .join('\n');
+};
+
+/**
+ * Render a receipt as plain text, for SMS, email or sharing
+ * @param {Object} receipt Receipt from buildReceipt
+ * @param {Object} [options]
+ * @param {number} [options.width] Characters per line
+ * @returns {string}
+ */
+export const renderReceiptText = (receipt, { width = RECEIPT_WIDTH } = {}) => {
+  return renderLinesText(layoutReceipt(receipt, width), width);
+};
+
+// Escape text for HTML
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Render a receipt as a standalone HTML page, for sharing or printing
+ * @param {Object} receipt Receipt from buildReceipt
+ * @returns {string}
+ */
+export const renderReceiptHtml = (receipt) => {
+  const row = (label, value) =>
+    `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+  
+  const details = [
+    row('Date', receipt.date),
+    row('Transaction', receipt.transactionId),
+    receipt.terminalId && row('Terminal', receipt.terminalId),
+    receipt.customerName && row('Customer', receipt.customerName),
+    receipt.cardId && row('Card', receipt.cardId),
+    receipt.originalTransactionId && row('Original transaction', receipt.originalTransactionId),
+    receipt.reason && row('Reason', receipt.reason),
+  ].filter(Boolean).join('\n');
+  
+  const lines = receipt.lines.map(line => `<tr>
+  <td>${line.quantity} &times; ${escapeHtml(line.description)}${
+    line.quantity > 1 ? `<div class="each">${escapeHtml(line.unitAmount)} each</div>` : ''
+  }</td>
+  <td class="amount">${escapeHtml(line.amount)}</td>
+</tr>`).join('\n');
+  
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(receipt.merchant.name)} - ${escapeHtml(receipt.title)} ${escapeHtml(receipt.transactionId)}</title>
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #333; max-width: 360px; margin: 24px auto; padding: 0 16px; }
+  header, footer { text-align: center; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; text-transform: uppercase; text-align: center; margin: 16px 0 8px; }
+  p { margin: 2px 0; color: #666; font-size: 14px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th { text-align: left; font-weight: normal; color: #666; padding: 2px 8px 2px 0; }
+  td { padding: 4px 0; vertical-align: top; }
+  .items { border-top: 1px dashed #999; border-bottom: 1px dashed #999; margin: 12px 0; }
+  .amount { text-align: right; white-space: nowrap; }
+  .each { color: #666; font-size: 12px; }
+  .total td { font-weight: bold; font-size: 16px; }
+  .offline { margin: 16px 0; padding: 8px; border: 1px solid #DD6B20; color: #DD6B20; text-align: center; font-weight: bold; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(receipt.merchant.name)}</h1>
+  ${receipt.merchant.address ? `<p>${escapeHtml(receipt.merchant.address)}</p>` : ''}
+  ${receipt.merchant.phone ? `<p>${escapeHtml(receipt.merchant.phone)}</p>` : ''}
+</header>
+<h2>${escapeHtml(receipt.title)}</h2>
+<table>
+${details}
+</table>
+<table class="items">
+${lines}
+</table>
+<table>
+<tr class="total"><td>${escapeHtml(receipt.totalLabel)}</td><td class="amount">${escapeHtml(receipt.total)}</td></tr>
+${receipt.balanceAfter ? `<tr><td>Balance after</td><td class="amount">${escapeHtml(receipt.balanceAfter)}</td></tr>` : ''}
+</table>
+${receipt.pendingSync ? `<div class="offline">${OFFLINE_MARKER}</div>` : ''}
+<footer><p>${escapeHtml(receipt.footer)}</p></footer>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,123 @@
+/**
+ * Refund and void helpers
+ *
+ * Reversals are recorded as their own history entries, linked to the
+ * transaction they reverse through `originalTransactionId`:
+ * - a refund ('refund') credits part or all of a synced payment back to the
+ *   customer, and is queued for sync like any other transaction
+ * - a void ('void') cancels a transaction that never left this terminal's
+ *   sync queue; the original is marked 'voided' and nothing is sent
+ */
+import { formatCurrency } from './formatters';
+import { sumMoney, subtractMoney, compareMoney } from './money';
+
+/**
+ * Check whether a transaction is a refund or void entry
+ * @param {Object} transaction Transaction data
+ * @returns {boolean}
+ */
+export const isReversal = (transaction) => {
+  return transaction.type === 'refund' || transaction.type === 'void';
+};
+
+/**
+ * Check whether a transaction adds to the customer's balance. Entries from
+ * older caches have no type, so reloads are recognised by description.
+ * @param {Object} transaction Transaction data
+ * @returns {boolean}
+ */
+export const isCreditTransaction = (transaction) => {
+  if (transaction.type) {
+    return transaction.type === 'reload' || transaction.type === 'refund';
+  }
+  return (transaction.description || '').toLowerCase().includes('reload');
+};
+
+/**
+ * Get the reversal entries linked to a transaction
+ * @param {Object} transaction The original transaction
+ * @param {Array} history Transaction history to search
+ * @returns {Array} Refunds and voids referencing the transaction
+ */
+export const getReversalsFor = (transaction, history = []) => {
+  return history.filter(t =>
+    isReversal(t) && t.originalTransactionId === transaction.transactionId
+  );
+};
+
+/**
+ * Get how much of a payment has already been refunded
+ * @param {Object} transaction The original payment
+ * @param {Array} history Transaction history (including pending refunds)
+ * @returns {number} Total refunded so far
+ */
+export const getRefundedAmount = (transaction, history = []) => {
+  return sumMoney(getReversalsFor(transaction, history)
+    .filter(t => t.type === 'refund' && t.status !== 'voided')
+    .map(t => Number(t.amount) || 0));
+};
+
+/**
+ * Get how much of a payment can still be refunded
+ * @param {Object} transaction The original payment
+ * @param {Array} history Transaction history (including pending refunds)
+ * @returns {number} Refundable amount (0 for voided or non-payment entries)
+ */
+export const getRefundableAmount = (transaction, history = []) => {
+  if (transaction.type !== 'payment' || transaction.status === 'voided') {
+    return 0;
+  }
+  
+  const remaining = subtractMoney(Number(transaction.amount) || 0, getRefundedAmount(transaction, history));
+  return Math.max(0, remaining);
+};
+
+/**
+ * Check whether a transaction can be voided: it is a payment, reload or
+ * refund that is still waiting in this terminal's sync queue
+ * @param {Object} transaction Transaction data
+ * @returns {boolean}
+ */
+export const canVoid = (transaction) => {
+  return ['payment', 'reload', 'refund'].includes(transaction.type)
+    && !!transaction.pendingSync
+    && transaction.status !== 'voided';
+};
+
+/**
+ * Check whether a payment can be refunded: it has reached the server and
+ * is not fully refunded yet
+ * @param {Object} transaction Transaction data
+ * @param {Array} history Transaction history (including pending refunds)
+ * @returns {boolean}
+ */
+export const canRefund = (transaction, history = []) => {
+  return !transaction.pendingSync && getRefundableAmount(transaction, history) > 0;
+};
+
+/**
+ * Describe how a history entry is linked to its reversals, for display
+ * under the entry
+ * @param {Object} transaction History entry
+ * @param {Array} history Transaction history
+ * @returns {string|null} e.g. "Refund of trans_123", "Voided", "Refunded ₱50.00"
+ */
+export const describeReversalStatus = (transaction, history = []) => {
+  if (transaction.type === 'refund') {
+    return `Refund of ${transaction.originalTransactionId}`;
+  }
+  if (transaction.type === 'void') {
+    return `Void of ${transaction.originalTransactionId}`;
+  }
+  if (transaction.status === 'voided') {
+    return 'Voided';
+  }
+  
+  const refunded = getRefundedAmount(transaction, history);
+  if (refunded <= 0) {
+    return null;
+  }
+  return compareMoney(refunded, Number(transaction.amount) || 0) >= 0
+    ? 'Fully refunded'
+    : `Refunded ${formatCurrency(refunded)}`;
+};
@@ -0,0 +1,276 @@
+/**
+ * End-of-shift settlement (Z-reports)
+ *
+ * Closing a shift totals everything this terminal took since the last close:
+ * payments, reloads (cash taken in), refunds and voids, and how much of it
+ * has reached the server versus how much is still waiting in the offline
+ * queue. The result is a numbered Z-report. It is stored on the terminal,
+ * never changed afterwards, and queued for upload like any other offline
+ * record.
+ *
+ * A shift can't be closed while sync conflicts are open, since those
+ * transactions may still be retried or written off. A signed-in supervisor
+ * can override that; the override is recorded on the report.
+ */
+import { formatCurrency, formatDate } from './formatters';
+import { addMoney, subtractMoney } from './money';
+import { formatColumns, renderLinesText, RECEIPT_WIDTH, DEFAULT_MERCHANT_NAME } from './receipt';
+import {
+  getCachedTransactionsBetween,
+  loadPendingTransactions,
+  getLastSyncTimestamp,
+  getOpenSyncConflicts,
+  getTerminalId,
+  getLastShiftReport,
+  saveShiftReport,
+  savePendingTransaction
+} from './storage';
+import { createSyncMetadata, assertPermission, UnresolvedConflictsError } from '../api/api';
+import { PERMISSIONS } from './operators';
+
+// Which total each kind of transaction counts towards
+const TOTAL_KEYS = {
+  payment: 'payments',
+  reload: 'reloads',
+  refund: 'refunds',
+  void: 'voids',
+};
+
+// Count a transaction towards a { count, amount } total
+const addToTotal = (total, transaction) => {
+  total.count += 1;
+  total.amount = addMoney(total.amount, Number(transaction.amount) || 0);
+};
+
+/**
+ * Format a Z-report number for display
+ * @param {number} reportNumber Report number on this terminal
+ * @returns {string} e.g. "Z-0042"
+ */
+export const formatReportNumber = (reportNumber) => {
+  return `Z-${String(reportNumber).padStart(4, '0')}`;
+};
+
+/**
+ * Collect the transactions a shift covers from the cached history and the
+ * pending queue (offline transactions are in both; each is counted once).
+ * History from the server that doesn't say which terminal took a
+ * transaction is counted as this terminal's.
+ * @param {Array} cached Cached transaction history
+ * @param {Array} pending Pending queue
+ * @param {Object} shift
+ * @param {string} shift.terminalId This terminal
+ * @param {string|null} shift.openedAt Start of the shift (null for everything before closedAt)
+ * @param {string} shift.closedAt End of the shift
+ * @returns {Array} The shift's transactions
+ */
+export const collectShiftTransactions = (cached, pending, { terminalId, openedAt, closedAt }) => {
+  const from = openedAt ? new Date(openedAt).getTime() : -Infinity;
+  const to = new Date(closedAt).getTime();
+  
+  const cachedIds = new Set(cached.map(t => t.transactionId));
+  const queuedOnly = pending.filter(t => t.transactionId && !cachedIds.has(t.transactionId));
+  
+  return [...cached, ...queuedOnly].filter(t => {
+    const takenAt = new Date(t.createdAt).getTime();
+    return TOTAL_KEYS[t.type || 'payment'] &&
+      (!t.terminalId || t.terminalId === terminalId) &&
+      takenAt > from && takenAt <= to;
+  });
+};
+
+/**
+ * Total a shift's transactions
+ * @param {Array} transactions Transactions from collectShiftTransactions
+ * @param {Set<string>} pendingIds Transaction IDs still in the pending queue
+ * @returns {Object} { payments, reloads, refunds, voids, netSales, onlineCount, pendingCount }
+ */
+export const summarizeShift = (transactions, pendingIds) => {
+  const totals = {
+    payments: { count: 0, amount: 0 },
+    reloads: { count: 0, amount: 0 },
+    refunds: { count: 0, amount: 0 },
+    voids: { count: 0, amount: 0 },
+  };
+  let onlineCount = 0;
+  let pendingCount = 0;
+  
+  transactions.forEach(transaction => {
+    const type = transaction.type || 'payment';
+    
+    // A voided transaction was taken back before it synced; only its void
+    // entry counts
+    if (type !== 'void' && transaction.status === 'voided') {
+      return;
+    }
+    
+    addToTotal(totals[TOTAL_KEYS[type]], transaction);
+    
+    // Void entries stay on the terminal, so they are neither synced nor pending
+    if (type === 'void') {
+      return;
+    }
+    if (pendingIds.has(transaction.transactionId)) {
+      pendingCount += 1;
+    } else {
+      onlineCount += 1;
+    }
+  });
+  
+  return {
+    ...totals,
+    netSales: subtractMoney(totals.payments.amount, totals.refunds.amount),
+    onlineCount,
+    pendingCount,
+  };
+};
+
+/**
+ * Total the shift that is currently open on this terminal
+ * @param {string} [closedAt] Where the shift ends (defaults to now)
+ * @returns {Promise<Object>} Everything a Z-report holds, except its ID and override
+ */
+export const getShiftSummary = async (closedAt = new Date().toISOString()) => {
+  const terminalId = await getTerminalId();
+  const lastReport = await getLastShiftReport();
+  const openedAt = lastReport?.closedAt || null;
+  
+  const cached = await getCachedTransactionsBetween(openedAt, closedAt);
+  const pending = await loadPendingTransactions();
+  const transactions = collectShiftTransactions(cached, pending, { terminalId, openedAt, closedAt });
+  const pendingIds = new Set(pending.map(t => t.transactionId).filter(Boolean));
+  
+  const lastSync = await getLastSyncTimestamp();
+  const openConflicts = await getOpenSyncConflicts();
+  
+  return {
+    reportNumber: (lastReport?.reportNumber || 0) + 1,
+    terminalId,
+    openedAt,
+    closedAt,
+    lastSyncAt: lastSync ? new Date(lastSync).toISOString() : null,
+    ...summarizeShift(transactions, pendingIds),
+    openConflicts: openConflicts.length,
+  };
+};
+
+/**
+ * Close the shift as the signed-in operator: store its Z-report and queue it
+ * for upload
+ * @param {Object} [options]
+ * @param {Object} [options.supervisorOverride] { reason } to close with sync
+ *   conflicts still open (the signed-in operator must be a supervisor)
+ * @returns {Promise<Object>} The Z-report
+ */
+export const closeShift = async ({ supervisorOverride } = {}) => {
+  try {
+    const operator = assertPermission(PERMISSIONS.CLOSE_SHIFT);
+    const summary = await getShiftSummary();
+    
+    if (summary.openConflicts > 0) {
+      if (!supervisorOverride) {
+        throw new UnresolvedConflictsError(
+          `${summary.openConflicts} sync conflict(s) still need a decision. Resolve them or have a supervisor override.`,
+          { conflictCount: summary.openConflicts }
+        );
+      }
+      assertPermission(PERMISSIONS.SHIFT_OVERRIDE);
+    }
+    
+    const report = {
+      reportId: `${summary.terminalId}-${formatReportNumber(summary.reportNumber)}`,
+      ...summary,
+      closedBy: { operatorId: operator.id, name: operator.name },
+      supervisorOverride: summary.openConflicts > 0
+        ? { supervisorId: operator.id, supervisorName: operator.name, reason: supervisorOverride.reason?.trim() || null }
+        : null,
+    };
+    
+    await saveShiftReport(report);
+    
+    const syncMetadata = await createSyncMetadata();
+    await savePendingTransaction({
+      type: 'shift_report',
+      reportId: report.reportId,
+      report,
+      status: 'pending_sync',
+      createdAt: report.closedAt,
+      operatorId: operator.id,
+      ...syncMetadata
+    });
+    
+    console.log(`Closed shift ${report.reportId}`);
+    return report;
+  } catch (error) {
+    console.error('Error closing shift:', error);
+    throw error;
+  }
+};
+
+/**
+ * Lay a Z-report out line by line for a printer `width` characters wide
+ * @param {Object} report The Z-report
+ * @param {Object} [options]
+ * @param {string} [options.merchantName] Printed at the top
+ * @param {number} [options.width] Characters per line
+ * @returns {Array<{text: string, align: 'left'|'center'|'right', bold?: boolean, large?: boolean}>}
+ */
+export const layoutShiftReport = (report, { merchantName, width = RECEIPT_WIDTH } = {}) => {
+  const lines = [];
+  const add = (text, align = 'left', style = {}) => lines.push({ text, align, ...style });
+  const addColumns = (left, right, style) => {
+    formatColumns(left, right, width).forEach(text => add(text, 'left', style));
+  };
+  const addTotal = (label, total) => {
+    addColumns(`${label} (${total.count})`, formatCurrency(total.amount));
+  };
+  const rule = () => add('-'.repeat(width));
+  
+  add(merchantName || DEFAULT_MERCHANT_NAME, 'center', { bold: true, large: true });
+  add(`Z-REPORT ${formatReportNumber(report.reportNumber)}`, 'center', { bold: true });
+  add(`Terminal: ${report.terminalId}`);
+  add(`Opened: ${report.openedAt ? formatDate(report.openedAt) : 'First shift'}`);
+  add(`Closed: ${formatDate(report.closedAt)}`);
+  if (report.closedBy) {
+    add(`Closed by: ${report.closedBy.name}`);
+  }
+  add(`Last sync: ${report.lastSyncAt ? formatDate(report.lastSyncAt) : 'Never'}`);
+  rule();
+  
+  addTotal('Payments', report.payments);
+  addTotal('Refunds', report.refunds);
+  addColumns('NET SALES', formatCurrency(report.netSales), { bold: true });
+  rule();
+  
+  addTotal('Reloads (cash in)', report.reloads);
+  addTotal('Voids', report.voids);
+  rule();
+  
+  addColumns('Synced', String(report.onlineCount));
+  addColumns('Pending sync', String(report.pendingCount));
+  
+  if (report.supervisorOverride) {
+    rule();
+    add('SUPERVISOR OVERRIDE', 'center', { bold: true });
+    add(`${report.openConflicts} open sync conflict(s)`);
+    add(`By: ${report.supervisorOverride.supervisorName}`);
+    if (report.supervisorOverride.reason) {
+      add(`Reason: ${report.supervisorOverride.reason}`);
+    }
+  }
+  
+  add('');
+  add(`Report ID: ${report.reportId}`, 'center');
+  
+  return lines;
+};
+
+/**
+ * Render a Z-report as plain text, for viewing or sharing
+ * @param {Object} report The Z-report
+ * @param {Object} [options] Same as layoutShiftReport
+ * @returns {string}
+ */
+export const renderShiftReportText = (report, { merchantName, width = RECEIPT_WIDTH } = {}) => {
+  return renderLinesText(layoutShiftReport(report, { merchantName, width }), width);
+};
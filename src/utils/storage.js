@@ -1,15 +1,99 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isEncryptedValue } from './vault';
+import { addMoney, DEFAULT_CURRENCY } from './money';
+import {
+  TABLES,
+  encodeValue,
+  decodeValue,
+  runTransaction,
+  MAX_COMMIT_RECORDS,
+  getRecord,
+  getAllRecords,
+  findRecords,
+  findRecordsInRange,
+  replaceTable,
+  removeRecords,
+  reencryptRecords,
+  resetDatabase,
+  subscribeCommits,
+  getLocalDateKey
+} from './database';
 
-// Keys for different data types
+// Keys for different data types. The pending queue and the customer and
+// transaction caches are tables in the local database (database.js).
 const STORAGE_KEYS = {
-  PENDING_TRANSACTIONS: 'pending_transactions',
-  OFFLINE_CUSTOMERS: 'offline_customers',
-  OFFLINE_TRANSACTIONS: 'offline_transactions',
+  OFFLINE_PRODUCTS: 'offline_products',
   LAST_SYNC_TIMESTAMP: 'last_sync_timestamp',
+  SYNC_TOKENS: 'sync_tokens',
   NETWORK_STATUS: 'network_status',
   USER_SETTINGS: 'user_settings',
+  SYNC_CONFLICTS: 'sync_conflicts',
+  TERMINAL_ID: 'terminal_id',
+  TERMINAL_SEQUENCE: 'terminal_sequence',
+  DAILY_SPEND: 'daily_spend',
+  PIN_ATTEMPTS: 'pin_attempts',
+  CARD_COUNTERS: 'card_counters',
+  BLOCKED_CARDS: 'blocked_cards',
+  BLOCKED_TAPS: 'blocked_taps',
+  SHIFT_REPORTS: 'shift_reports',
+  OPERATORS: 'operators',
+  OPERATOR_PIN_ATTEMPTS: 'operator_pin_attempts',
+  JOURNAL: 'transaction_journal',
+  JOURNAL_UPLOAD: 'journal_upload',
+  DEVICE_KEY: 'device_key',
+  TERMINAL_REGISTRATION: 'terminal_registration',
+  OFFLINE_ALLOWANCES: 'offline_allowances',
+  OVERSPEND_REPORTS: 'overspend_reports',
+  USED_CARD_TOKENS: 'used_card_tokens',
 };
 
+// Keys holding customer data, money movements or credentials. Their values
+// are encrypted at rest (see vault.js); everything else is plain JSON.
+const SENSITIVE_KEYS = [
+  STORAGE_KEYS.SYNC_CONFLICTS,
+  STORAGE_KEYS.DAILY_SPEND,
+  STORAGE_KEYS.BLOCKED_CARDS,
+  STORAGE_KEYS.BLOCKED_TAPS,
+  STORAGE_KEYS.SHIFT_REPORTS,
+  STORAGE_KEYS.OPERATORS,
+  STORAGE_KEYS.JOURNAL,
+  STORAGE_KEYS.DEVICE_KEY,
+  STORAGE_KEYS.OFFLINE_ALLOWANCES,
+  STORAGE_KEYS.OVERSPEND_REPORTS,
+];
+
+// Keys that commits read and write together with the tables (a payment
+// updates the daily spend and stock, uses up its card QR code and is
+// journaled with the queue), and logs that are appended to. They are only
+// written through runTransaction, so a write can't land between another
+// commit's read and its write and be lost.
+const COMMITTED_KEYS = [
+  STORAGE_KEYS.DAILY_SPEND,
+  STORAGE_KEYS.OFFLINE_PRODUCTS,
+  STORAGE_KEYS.USED_CARD_TOKENS,
+  STORAGE_KEYS.JOURNAL,
+  STORAGE_KEYS.SYNC_CONFLICTS,
+];
+
+// Cached copies of server data, purged (along with the customer and
+// transaction tables) when the terminal hasn't synced for too long. The
+// pending queue, conflicts and journal are kept: they are the only record
+// of sales the server hasn't received. The sync tokens go too, so the next
+// refresh pulls everything again.
+const PURGEABLE_KEYS = [
+  STORAGE_KEYS.DAILY_SPEND,
+  STORAGE_KEYS.BLOCKED_TAPS,
+  STORAGE_KEYS.SYNC_TOKENS,
+  STORAGE_KEYS.OFFLINE_ALLOWANCES,
+];
+
+// How much transaction history is cached. Older transactions, and the
+// oldest beyond the count, are dropped unless they still await sync.
+const TRANSACTION_CACHE_MAX_AGE_DAYS = 90;
+const TRANSACTION_CACHE_MAX_COUNT = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Save data to AsyncStorage
  * @param {string} key Storage key
@@ -18,8 +102,10 @@ const STORAGE_KEYS = {
  */
 export const saveData = async (key, data) => {
   try {
-    const jsonValue = JSON.stringify(data);
-    await AsyncStorage.setItem(key, jsonValue);
+    if (COMMITTED_KEYS.includes(key)) {
+      throw new Error(`${key} can only be written in a database transaction`);
+    }
+    await AsyncStorage.setItem(key, await encodeValue(key, data, SENSITIVE_KEYS.includes(key)));
   } catch (error) {
     console.error(`Error saving data for key ${key}:`, error);
     throw error;
@@ -33,14 +119,111 @@ export const saveData = async (key, data) => {
  */
 export const loadData = async (key) => {
   try {
-    const jsonValue = await AsyncStorage.getItem(key);
-    return jsonValue ? JSON.parse(jsonValue) : null;
+    return await decodeValue(key, await AsyncStorage.getItem(key));
   } catch (error) {
     console.error(`Error loading data for key ${key}:`, error);
     throw error;
   }
 };
 
+// Stage a value as part of a database transaction, encrypting it like saveData
+const stageData = (tx, key, data) => {
+  tx.setItem(key, data, SENSITIVE_KEYS.includes(key));
+};
+
+/**
+ * Encrypt sensitive values with the current storage key: those still in
+ * plain JSON, or all of them (database records included) after a key
+ * rotation
+ * @param {Object} [options]
+ * @param {boolean} [options.reencrypt] Also re-encrypt values that are already encrypted
+ * @returns {Promise<number>} How many values were (re-)encrypted
+ */
+export const encryptSensitiveData = async ({ reencrypt = false } = {}) => {
+  try {
+    let count = 0;
+    for (const key of SENSITIVE_KEYS) {
+      // Read and written back in one commit, so a journal entry or conflict
+      // appended meanwhile isn't overwritten with the old value
+      const encrypted = await runTransaction(async (tx) => {
+        const jsonValue = await AsyncStorage.getItem(key);
+        if (!jsonValue || (!reencrypt && isEncryptedValue(JSON.parse(jsonValue)))) {
+          return false;
+        }
+        stageData(tx, key, await loadData(key));
+        return true;
+      });
+      if (encrypted) {
+        count += 1;
+      }
+    }
+    if (reencrypt) {
+      count += await reencryptRecords();
+    }
+    return count;
+  } catch (error) {
+    console.error('Error encrypting stored data:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove the cached customers and transaction history, in one commit
+ * @returns {Promise<void>}
+ */
+export const purgeCachedData = async () => {
+  try {
+    await runTransaction((tx) => {
+      tx.clear(TABLES.CUSTOMERS);
+      tx.clear(TABLES.TRANSACTIONS);
+      PURGEABLE_KEYS.forEach(key => tx.removeItem(key));
+    });
+  } catch (error) {
+    console.error('Error purging cached data:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove everything the app has stored on this device
+ * @returns {Promise<void>}
+ */
+export const clearAllData = async () => {
+  try {
+    await AsyncStorage.clear();
+    resetDatabase();
+  } catch (error) {
+    console.error('Error clearing stored data:', error);
+    throw error;
+  }
+};
+
+// IDs of pending transactions currently being sent to the server. Kept in
+// memory only: after a restart nothing is in flight.
+const inFlightTransactionIds = new Set();
+
+/**
+ * Mark a pending transaction as being sent to the server (or done sending)
+ * @param {string} transactionId Pending transaction ID
+ * @param {boolean} inFlight Whether a sync request for it is outstanding
+ */
+export const setPendingTransactionInFlight = (transactionId, inFlight) => {
+  if (inFlight) {
+    inFlightTransactionIds.add(transactionId);
+  } else {
+    inFlightTransactionIds.delete(transactionId);
+  }
+};
+
+/**
+ * Check whether a pending transaction is being sent to the server
+ * @param {string} transactionId Pending transaction ID
+ * @returns {boolean}
+ */
+export const isPendingTransactionInFlight = (transactionId) => {
+  return inFlightTransactionIds.has(transactionId);
+};
+
 /**
  * Save a pending transaction for later sync
  * @param {Object} transaction Transaction data
@@ -52,14 +235,7 @@ export const savePendingTransaction = async (transaction) => {
     const localId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const transactionWithId = { ...transaction, id: localId, pendingSync: true };
     
-    // Get existing pending transactions
-    const existingTransactions = await loadPendingTransactions();
-    
-    // Add new transaction to the list
-    const updatedTransactions = [...existingTransactions, transactionWithId];
-    
-    // Save updated list
-    await saveData(STORAGE_KEYS.PENDING_TRANSACTIONS, updatedTransactions);
+    await runTransaction(tx => tx.put(TABLES.PENDING, transactionWithId));
     
     return localId;
   } catch (error) {
@@ -69,19 +245,43 @@ export const savePendingTransaction = async (transaction) => {
 };
 
 /**
- * Load all pending transactions
+ * Load all pending transactions. Throws if the queue can't be read (the
+ * vault is locked, say) rather than passing it off as empty.
  * @returns {Promise<Array>} List of pending transactions
  */
 export const loadPendingTransactions = async () => {
   try {
-    const transactions = await loadData(STORAGE_KEYS.PENDING_TRANSACTIONS);
-    return transactions || [];
+    return await getAllRecords(TABLES.PENDING);
   } catch (error) {
     console.error('Error loading pending transactions:', error);
-    return [];
+    throw error;
   }
 };
 
+/**
+ * Check whether a record is still in the pending queue. The check waits
+ * for commits already queued (a void under way, say), so it sees their
+ * outcome.
+ * @param {string} transactionId Pending transaction ID
+ * @returns {Promise<boolean>}
+ */
+export const isPendingTransactionQueued = (transactionId) => {
+  return runTransaction(async () => (await getRecord(TABLES.PENDING, transactionId)) !== null);
+};
+
+/**
+ * Subscribe to changes to the pending queue
+ * @param {function} listener Called after each commit that adds, changes or removes queued records
+ * @returns {function} Unsubscribe function
+ */
+export const subscribePendingTransactions = (listener) => {
+  return subscribeCommits(tables => {
+    if (tables.includes(TABLES.PENDING)) {
+      listener();
+    }
+  });
+};
+
 /**
  * Remove a pending transaction by ID
  * @param {string} transactionId Transaction ID to remove
@@ -89,9 +289,7 @@ export const loadPendingTransactions = async () => {
  */
 export const removePendingTransaction = async (transactionId) => {
   try {
-    const existingTransactions = await loadPendingTransactions();
-    const updatedTransactions = existingTransactions.filter(t => t.id !== transactionId);
-    await saveData(STORAGE_KEYS.PENDING_TRANSACTIONS, updatedTransactions);
+    await runTransaction(tx => tx.remove(TABLES.PENDING, transactionId));
   } catch (error) {
     console.error(`Error removing pending transaction ${transactionId}:`, error);
     throw error;
@@ -99,13 +297,33 @@ export const removePendingTransaction = async (transactionId) => {
 };
 
 /**
- * Cache customer data for offline access
+ * Update a pending transaction by ID
+ * @param {string} transactionId Transaction ID to update
+ * @param {Object} changes Fields to merge into the transaction
+ * @returns {Promise<void>}
+ */
+export const updatePendingTransaction = async (transactionId, changes) => {
+  try {
+    await runTransaction(async (tx) => {
+      const existing = await getRecord(TABLES.PENDING, transactionId);
+      if (existing) {
+        tx.put(TABLES.PENDING, { ...existing, ...changes });
+      }
+    });
+  } catch (error) {
+    console.error(`Error updating pending transaction ${transactionId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Cache customer data for offline access, replacing the cached customers
  * @param {Array} customers List of customers
  * @returns {Promise<void>}
  */
 export const cacheCustomers = async (customers) => {
   try {
-    await saveData(STORAGE_KEYS.OFFLINE_CUSTOMERS, customers);
+    await replaceTable(TABLES.CUSTOMERS, customers);
   } catch (error) {
     console.error('Error caching customers:', error);
     throw error;
@@ -118,14 +336,27 @@ export const cacheCustomers = async (customers) => {
  */
 export const getCachedCustomers = async () => {
   try {
-    const customers = await loadData(STORAGE_KEYS.OFFLINE_CUSTOMERS);
-    return customers || [];
+    return await getAllRecords(TABLES.CUSTOMERS);
   } catch (error) {
     console.error('Error getting cached customers:', error);
     return [];
   }
 };
 
+/**
+ * Get a cached customer by ID
+ * @param {number|string} customerId Customer ID
+ * @returns {Promise<Object|null>} The customer or null if not found
+ */
+export const getCachedCustomer = async (customerId) => {
+  try {
+    return await getRecord(TABLES.CUSTOMERS, customerId);
+  } catch (error) {
+    console.error(`Error getting cached customer ${customerId}:`, error);
+    return null;
+  }
+};
+
 /**
  * Find a cached customer by card ID
  * @param {string} cardId The card ID to search for
@@ -133,18 +364,11 @@ export const getCachedCustomers = async () => {
  */
 export const findCachedCustomerByCardId = async (cardId) => {
   try {
-    const customers = await getCachedCustomers();
-    
-    // First check for direct cardId property match (simpler model)
-    const directMatch = customers.find(customer => customer.cardId === cardId);
-    if (directMatch) {
-      return directMatch;
-    }
+    const customers = await findRecords(TABLES.CUSTOMERS, 'cardId', cardId);
     
-    // Then check for nested cards array (more complex model)
-    return customers.find(customer => 
-      customer.cards && customer.cards.some(card => card.cardId === cardId)
-    ) || null;
+    // A direct cardId property match (simpler model) comes before a match
+    // in the nested cards array (more complex model)
+    return customers.find(customer => customer.cardId === cardId) || customers[0] || null;
   } catch (error) {
     console.error(`Error finding cached customer for card ${cardId}:`, error);
     return null;
@@ -152,114 +376,1534 @@ export const findCachedCustomerByCardId = async (cardId) => {
 };
 
 /**
- * Cache transaction data for offline access
- * @param {Array} transactions List of transactions
+ * Add a customer to the offline cache
+ * @param {Object} customer Customer data
  * @returns {Promise<void>}
  */
-export const cacheTransactions = async (transactions) => {
+export const addCachedCustomer = async (customer) => {
   try {
-    await saveData(STORAGE_KEYS.OFFLINE_TRANSACTIONS, transactions);
+    await runTransaction(tx => tx.put(TABLES.CUSTOMERS, customer));
   } catch (error) {
-    console.error('Error caching transactions:', error);
+    console.error('Error adding cached customer:', error);
     throw error;
   }
 };
 
 /**
- * Get cached transactions
- * @returns {Promise<Array>} Cached transactions or empty array
+ * Generate a provisional ID for a customer registered while offline
+ * @returns {string} Provisional customer ID
  */
-export const getCachedTransactions = async () => {
+export const createProvisionalCustomerId = () => {
+  return `provisional_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Check whether a customer ID is a provisional (not yet registered) ID
+ * @param {number|string} customerId Customer ID
+ * @returns {boolean}
+ */
+export const isProvisionalCustomerId = (customerId) => {
+  return typeof customerId === 'string' && customerId.startsWith('provisional_');
+};
+
+/**
+ * Replace a provisional customer with the server's record everywhere it is
+ * referenced: the customer cache, the pending queue, the transaction cache
+ * and the card blocklist. Everything changes in one commit.
+ * @param {string} provisionalId The provisional customer ID
+ * @param {Object} customer The customer as registered on the server
+ * @returns {Promise<void>}
+ */
+export const remapProvisionalCustomer = async (provisionalId, customer) => {
   try {
-    const transactions = await loadData(STORAGE_KEYS.OFFLINE_TRANSACTIONS);
-    return transactions || [];
+    const remap = (record) => 
+      record.customerId === provisionalId ? { ...record, customerId: customer.id } : record;
+    
+    await runTransaction(async (tx) => {
+      tx.remove(TABLES.CUSTOMERS, provisionalId);
+      tx.put(TABLES.CUSTOMERS, customer);
+      
+      for (const table of [TABLES.PENDING, TABLES.TRANSACTIONS]) {
+        const records = await findRecords(table, 'customerId', provisionalId);
+        records.forEach(record => tx.put(table, remap(record)));
+      }
+      
+      const blockedCards = await getCachedBlockedCards();
+      stageData(tx, STORAGE_KEYS.BLOCKED_CARDS, blockedCards.map(remap));
+      
+      // Spend and PIN attempt tracking is keyed by customer ID as well
+      for (const key of [STORAGE_KEYS.DAILY_SPEND, STORAGE_KEYS.PIN_ATTEMPTS]) {
+        const records = (await loadData(key)) || {};
+        if (records[provisionalId]) {
+          const { [provisionalId]: record, ...rest } = records;
+          stageData(tx, key, { ...rest, [customer.id]: record });
+        }
+      }
+    });
   } catch (error) {
-    console.error('Error getting cached transactions:', error);
+    console.error(`Error remapping provisional customer ${provisionalId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Update a cached customer by ID
+ * @param {number|string} customerId Customer ID to update
+ * @param {Object} changes Fields to merge into the customer
+ * @returns {Promise<void>}
+ */
+export const updateCachedCustomer = async (customerId, changes) => {
+  try {
+    await runTransaction(async (tx) => {
+      const customer = await getRecord(TABLES.CUSTOMERS, customerId);
+      if (customer) {
+        tx.put(TABLES.CUSTOMERS, { ...customer, ...changes });
+      }
+    });
+  } catch (error) {
+    console.error(`Error updating cached customer ${customerId}:`, error);
+    throw error;
+  }
+};
+
+// Spend records with a payment added (or a voided one taken off), or null
+// if the payment was made on an earlier day and doesn't count
+const addToDailySpend = (spend, customerId, amount, date) => {
+  const today = getLocalDateKey();
+  if (getLocalDateKey(date) !== today) {
+    return null;
+  }
+  
+  const current = spend[customerId]?.date === today ? spend[customerId].amount : 0;
+  return { ...spend, [customerId]: { date: today, amount: Math.max(0, addMoney(current, amount)) } };
+};
+
+/**
+ * Get how much a customer has spent today on this terminal
+ * @param {number|string} customerId Customer ID
+ * @returns {Promise<number>} Today's spend (0 once the day has rolled over)
+ */
+export const getDailySpend = async (customerId) => {
+  try {
+    const spend = (await loadData(STORAGE_KEYS.DAILY_SPEND)) || {};
+    const record = spend[customerId];
+    return record && record.date === getLocalDateKey() ? record.amount : 0;
+  } catch (error) {
+    console.error(`Error getting daily spend for customer ${customerId}:`, error);
+    return 0;
+  }
+};
+
+/**
+ * Add to (or, for voided payments, take off) a customer's spend for the day
+ * the payment was made. Payments from an earlier day don't count.
+ * @param {number|string} customerId Customer ID
+ * @param {number} amount Amount spent (negative to take a voided payment off)
+ * @param {Date|string} [date] When the payment was made (defaults to now)
+ * @returns {Promise<void>}
+ */
+export const recordDailySpend = async (customerId, amount, date = new Date()) => {
+  try {
+    await runTransaction(async (tx) => {
+      const spend = addToDailySpend((await loadData(STORAGE_KEYS.DAILY_SPEND)) || {}, customerId, amount, date);
+      if (spend) {
+        stageData(tx, STORAGE_KEYS.DAILY_SPEND, spend);
+      }
+    });
+  } catch (error) {
+    console.error(`Error recording daily spend for customer ${customerId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Get a customer's failed PIN attempts on this terminal
+ * @param {number|string} customerId Customer ID
+ * @returns {Promise<{failures: number, lockedUntil: string|null}>}
+ */
+export const loadPinAttempts = async (customerId) => {
+  try {
+    const attempts = (await loadData(STORAGE_KEYS.PIN_ATTEMPTS)) || {};
+    return attempts[customerId] || { failures: 0, lockedUntil: null };
+  } catch (error) {
+    console.error(`Error loading PIN attempts for customer ${customerId}:`, error);
+    return { failures: 0, lockedUntil: null };
+  }
+};
+
+/**
+ * Save a customer's failed PIN attempts (null clears them)
+ * @param {number|string} customerId Customer ID
+ * @param {Object|null} record { failures, lockedUntil } or null
+ * @returns {Promise<void>}
+ */
+export const savePinAttempts = async (customerId, record) => {
+  try {
+    const attempts = (await loadData(STORAGE_KEYS.PIN_ATTEMPTS)) || {};
+    if (record) {
+      attempts[customerId] = record;
+    } else {
+      delete attempts[customerId];
+    }
+    await saveData(STORAGE_KEYS.PIN_ATTEMPTS, attempts);
+  } catch (error) {
+    console.error(`Error saving PIN attempts for customer ${customerId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Cache the operator accounts (with their PIN hashes) for offline sign-in
+ * @param {Array} operators Operator accounts
+ * @returns {Promise<void>}
+ */
+export const cacheOperators = async (operators) => {
+  try {
+    await saveData(STORAGE_KEYS.OPERATORS, operators);
+  } catch (error) {
+    console.error('Error caching operators:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the cached operator accounts
+ * @returns {Promise<Array>} Cached operators or empty array
+ */
+export const getCachedOperators = async () => {
+  try {
+    const operators = await loadData(STORAGE_KEYS.OPERATORS);
+    return operators || [];
+  } catch (error) {
+    console.error('Error getting cached operators:', error);
     return [];
   }
 };
 
 /**
- * Add a transaction to the offline cache (both pending and regular cache)
- * @param {Object} transaction Transaction data
+ * Get an operator's failed sign-in attempts on this terminal
+ * @param {number|string} operatorId Operator ID
+ * @returns {Promise<{failures: number, lockedUntil: string|null}>}
+ */
+export const loadOperatorPinAttempts = async (operatorId) => {
+  try {
+    const attempts = (await loadData(STORAGE_KEYS.OPERATOR_PIN_ATTEMPTS)) || {};
+    return attempts[operatorId] || { failures: 0, lockedUntil: null };
+  } catch (error) {
+    console.error(`Error loading PIN attempts for operator ${operatorId}:`, error);
+    return { failures: 0, lockedUntil: null };
+  }
+};
+
+/**
+ * Save an operator's failed sign-in attempts (null clears them)
+ * @param {number|string} operatorId Operator ID
+ * @param {Object|null} record { failures, lockedUntil } or null
  * @returns {Promise<void>}
  */
-export const addOfflineTransaction = async (transaction) => {
+export const saveOperatorPinAttempts = async (operatorId, record) => {
   try {
-    // Add to pending transactions for sync
-    await savePendingTransaction(transaction);
-    
-    // Also add to regular transaction cache for display
-    const cachedTransactions = await getCachedTransactions();
-    const updatedTransactions = [transaction, ...cachedTransactions];
-    await cacheTransactions(updatedTransactions);
+    const attempts = (await loadData(STORAGE_KEYS.OPERATOR_PIN_ATTEMPTS)) || {};
+    if (record) {
+      attempts[operatorId] = record;
+    } else {
+      delete attempts[operatorId];
+    }
+    await saveData(STORAGE_KEYS.OPERATOR_PIN_ATTEMPTS, attempts);
   } catch (error) {
-    console.error('Error adding offline transaction:', error);
+    console.error(`Error saving PIN attempts for operator ${operatorId}:`, error);
     throw error;
   }
 };
 
 /**
- * Update the last sync timestamp
+ * Get the highest card record counter this terminal has seen for a card
+ * @param {string} cardId Card ID
+ * @returns {Promise<number>} Last seen counter (0 if the card is new here)
+ */
+export const getCardCounter = async (cardId) => {
+  try {
+    const counters = (await loadData(STORAGE_KEYS.CARD_COUNTERS)) || {};
+    return counters[cardId] || 0;
+  } catch (error) {
+    console.error(`Error getting card counter for ${cardId}:`, error);
+    return 0;
+  }
+};
+
+/**
+ * Remember a card record counter. Counters only move forward, so a lower
+ * value than the one already stored is ignored.
+ * @param {string} cardId Card ID
+ * @param {number} counter Counter read from or written to the card
  * @returns {Promise<void>}
  */
-export const updateLastSyncTimestamp = async () => {
+export const saveCardCounter = async (cardId, counter) => {
   try {
-    await saveData(STORAGE_KEYS.LAST_SYNC_TIMESTAMP, Date.now());
+    const counters = (await loadData(STORAGE_KEYS.CARD_COUNTERS)) || {};
+    if (counter > (counters[cardId] || 0)) {
+      counters[cardId] = counter;
+      await saveData(STORAGE_KEYS.CARD_COUNTERS, counters);
+    }
   } catch (error) {
-    console.error('Error updating last sync timestamp:', error);
+    console.error(`Error saving card counter for ${cardId}:`, error);
     throw error;
   }
 };
 
+// The card QR code nonces used on this terminal (nonce -> when the token
+// expires), without those that have expired and can't be replayed anyway
+const loadUsedCardTokens = async (now = Date.now()) => {
+  const used = (await loadData(STORAGE_KEYS.USED_CARD_TOKENS)) || {};
+  return Object.fromEntries(Object.entries(used).filter(([, expiresAt]) => expiresAt > now));
+};
+
+// Use up a card QR code as part of a database transaction
+const stageUsedCardToken = async (tx, { nonce, expiresAt }, { allowUsed = false } = {}) => {
+  const used = await loadUsedCardTokens();
+  if (used[nonce] && !allowUsed) {
+    throw new Error('This card QR code has already been used. Ask the customer to refresh it.');
+  }
+  stageData(tx, STORAGE_KEYS.USED_CARD_TOKENS, { ...used, [nonce]: expiresAt });
+};
+
 /**
- * Get the last sync timestamp
- * @returns {Promise<number|null>} Timestamp or null if never synced
+ * Check whether a card QR code has been used to pay on this terminal
+ * @param {string} nonce The card token's nonce (see cardToken.js)
+ * @param {number} [now] Current time in ms
+ * @returns {Promise<boolean>} True until the used token expires
  */
-export const getLastSyncTimestamp = async () => {
+export const isCardTokenUsed = async (nonce, now = Date.now()) => {
   try {
-    return await loadData(STORAGE_KEYS.LAST_SYNC_TIMESTAMP);
+    return Boolean((await loadUsedCardTokens(now))[nonce]);
   } catch (error) {
-    console.error('Error getting last sync timestamp:', error);
-    return null;
+    console.error('Error checking used card QR codes:', error);
+    throw error;
   }
 };
 
 /**
- * Save network status
- * @param {boolean} isConnected Whether the device is connected to the internet
+ * Remember that a payment made with a card QR code went through, so the
+ * code is refused here until it expires. Payments queued offline do this in
+ * their own commit (addOfflineTransaction).
+ * @param {Object} cardToken The token paid with
+ * @param {string} cardToken.nonce The token's nonce
+ * @param {number} cardToken.expiresAt When the token expires
  * @returns {Promise<void>}
  */
-export const saveNetworkStatus = async (isConnected) => {
+export const markCardTokenUsed = async (cardToken) => {
   try {
-    await saveData(STORAGE_KEYS.NETWORK_STATUS, { isConnected, timestamp: Date.now() });
+    // The server has already taken the payment, so a token another payment
+    // used meanwhile is not an error here
+    await runTransaction(tx => stageUsedCardToken(tx, cardToken, { allowUsed: true }));
   } catch (error) {
-    console.error('Error saving network status:', error);
+    console.error('Error saving used card QR code:', error);
     throw error;
   }
 };
 
 /**
- * Get saved network status
- * @returns {Promise<Object>} Network status object or default (disconnected)
+ * Cache the card blocklist for offline access
+ * @param {Array} blockedCards Blocked and replaced cards
+ * @returns {Promise<void>}
  */
-export const getNetworkStatus = async () => {
+export const cacheBlockedCards = async (blockedCards) => {
   try {
-    const status = await loadData(STORAGE_KEYS.NETWORK_STATUS);
-    return status || { isConnected: false, timestamp: Date.now() };
+    await saveData(STORAGE_KEYS.BLOCKED_CARDS, blockedCards);
   } catch (error) {
-    console.error('Error getting network status:', error);
-    return { isConnected: false, timestamp: Date.now() };
+    console.error('Error caching card blocklist:', error);
+    throw error;
   }
 };
 
 /**
- * Save user settings
- * @param {Object} settings User settings
+ * Get the cached card blocklist
+ * @returns {Promise<Array>} Blocked and replaced cards or empty array
+ */
+export const getCachedBlockedCards = async () => {
+  try {
+    const blockedCards = await loadData(STORAGE_KEYS.BLOCKED_CARDS);
+    return blockedCards || [];
+  } catch (error) {
+    console.error('Error getting cached card blocklist:', error);
+    return [];
+  }
+};
+
+/**
+ * Find a card on the cached blocklist
+ * @param {string} cardId The card ID to search for
+ * @returns {Promise<Object|null>} The blocklist entry or null if the card isn't blocked
+ */
+export const findBlockedCard = async (cardId) => {
+  const blockedCards = await getCachedBlockedCards();
+  return blockedCards.find(b => b.cardId === cardId) || null;
+};
+
+/**
+ * Add a card to the cached blocklist, replacing any earlier entry for it
+ * @param {Object} blockedCard Blocklist entry
  * @returns {Promise<void>}
  */
-export const saveUserSettings = async (settings) => {
+export const addBlockedCard = async (blockedCard) => {
+  try {
+    const blockedCards = await getCachedBlockedCards();
+    await cacheBlockedCards([
+      ...blockedCards.filter(b => b.cardId !== blockedCard.cardId),
+      blockedCard
+    ]);
+  } catch (error) {
+    console.error(`Error adding card ${blockedCard.cardId} to the blocklist:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Cache the offline allowances the server issued to this terminal,
+ * replacing the earlier ones
+ * @param {Array} allowances Allowances by card
+ * @returns {Promise<void>}
+ */
+export const cacheOfflineAllowances = async (allowances) => {
+  try {
+    await saveData(STORAGE_KEYS.OFFLINE_ALLOWANCES, allowances);
+  } catch (error) {
+    console.error('Error caching offline allowances:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the cached offline allowance of a card
+ * @param {string} cardId The card ID to search for
+ * @returns {Promise<Object|null>} The allowance or null if the card has none
+ */
+export const getOfflineAllowance = async (cardId) => {
   try {
+    const allowances = (await loadData(STORAGE_KEYS.OFFLINE_ALLOWANCES)) || [];
+    return allowances.find(a => a.cardId === cardId) || null;
+  } catch (error) {
+    console.error(`Error getting offline allowance for card ${cardId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Flag a card so this terminal refuses it offline until the server issues
+ * it a new allowance
+ * @param {string} cardId The card to flag
+ * @param {number|string} [customerId] The card's owner
+ * @returns {Promise<void>}
+ */
+export const flagOfflineAllowance = async (cardId, customerId = null) => {
+  try {
+    const allowances = (await loadData(STORAGE_KEYS.OFFLINE_ALLOWANCES)) || [];
+    const existing = allowances.find(a => a.cardId === cardId);
+    await saveData(STORAGE_KEYS.OFFLINE_ALLOWANCES, [
+      ...allowances.filter(a => a.cardId !== cardId),
+      {
+        ...existing,
+        cardId,
+        customerId: existing?.customerId ?? customerId,
+        amount: 0,
+        issuedAt: existing?.issuedAt ?? new Date().toISOString(),
+        flagged: true
+      }
+    ]);
+  } catch (error) {
+    console.error(`Error flagging card ${cardId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Move the cached history of a replaced card to its replacement
+ * @param {string} oldCardId The replaced card
+ * @param {string} newCardId The card that replaced it
+ * @returns {Promise<void>}
+ */
+export const remapCachedCardId = async (oldCardId, newCardId) => {
+  try {
+    await runTransaction(async (tx) => {
+      const cardTransactions = await findRecords(TABLES.TRANSACTIONS, 'cardId', oldCardId);
+      cardTransactions.forEach(t => tx.put(TABLES.TRANSACTIONS, { ...t, cardId: newCardId }));
+    });
+  } catch (error) {
+    console.error(`Error moving history from card ${oldCardId} to ${newCardId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Record a tap of a blocked card
+ * @param {Object} tap { cardId, status, action, terminalId, tappedAt }
+ * @returns {Promise<void>}
+ */
+export const logBlockedTap = async (tap) => {
+  try {
+    const taps = await loadBlockedTaps();
+    await saveData(STORAGE_KEYS.BLOCKED_TAPS, [...taps, tap]);
+  } catch (error) {
+    console.error(`Error logging blocked tap of card ${tap.cardId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Load the log of blocked card taps on this terminal
+ * @returns {Promise<Array>} Logged taps, oldest first
+ */
+export const loadBlockedTaps = async () => {
+  try {
+    const taps = await loadData(STORAGE_KEYS.BLOCKED_TAPS);
+    return taps || [];
+  } catch (error) {
+    console.error('Error loading blocked card taps:', error);
+    return [];
+  }
+};
+
+/**
+ * Load this terminal's Z-reports
+ * @returns {Promise<Array>} Z-reports, oldest first
+ */
+export const loadShiftReports = async () => {
+  try {
+    const reports = await loadData(STORAGE_KEYS.SHIFT_REPORTS);
+    return reports || [];
+  } catch (error) {
+    console.error('Error loading shift reports:', error);
+    return [];
+  }
+};
+
+/**
+ * Get the most recent Z-report on this terminal
+ * @returns {Promise<Object|null>} The last Z-report, or null before the first close
+ */
+export const getLastShiftReport = async () => {
+  const reports = await loadShiftReports();
+  return reports.length > 0 ? reports[reports.length - 1] : null;
+};
+
+/**
+ * Store a new Z-report. Reports are only ever appended: a report number
+ * that is already taken is refused rather than overwritten.
+ * @param {Object} report The Z-report
+ * @returns {Promise<void>}
+ */
+export const saveShiftReport = async (report) => {
+  try {
+    const reports = await loadShiftReports();
+    if (reports.some(r => r.reportId === report.reportId)) {
+      throw new Error(`Z-report ${report.reportId} already exists`);
+    }
+    await saveData(STORAGE_KEYS.SHIFT_REPORTS, [...reports, { ...report, uploadedAt: null }]);
+  } catch (error) {
+    console.error(`Error saving shift report ${report.reportId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Record that the server has received a Z-report. This is the only change
+ * ever made to a stored report.
+ * @param {string} reportId The Z-report
+ * @param {string} [uploadedAt] When it was accepted (defaults to now)
+ * @returns {Promise<void>}
+ */
+export const markShiftReportUploaded = async (reportId, uploadedAt = new Date().toISOString()) => {
+  try {
+    const reports = await loadShiftReports();
+    await saveData(STORAGE_KEYS.SHIFT_REPORTS, reports.map(r => 
+      r.reportId === reportId ? { ...r, uploadedAt } : r
+    ));
+  } catch (error) {
+    console.error(`Error marking shift report ${reportId} as uploaded:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Load the transaction journal
+ * @returns {Promise<Array>} Journal entries, oldest first
+ */
+export const loadJournal = async () => {
+  try {
+    const entries = await loadData(STORAGE_KEYS.JOURNAL);
+    return entries || [];
+  } catch (error) {
+    console.error('Error loading journal:', error);
+    return [];
+  }
+};
+
+// Stage a journal entry, built on the last one, as part of a database
+// transaction. Unlike loadJournal, an unreadable journal is an error here:
+// it must not be replaced by one holding only the new entry.
+const stageJournalEntry = async (tx, createEntry) => {
+  const entries = (await loadData(STORAGE_KEYS.JOURNAL)) || [];
+  const previous = entries.length > 0 ? entries[entries.length - 1] : null;
+  const entry = await createEntry(previous);
+  const lastSeq = previous ? previous.seq : 0;
+  if (entry.seq !== lastSeq + 1) {
+    throw new Error(`Journal entry ${entry.seq} does not follow entry ${lastSeq}`);
+  }
+  stageData(tx, STORAGE_KEYS.JOURNAL, [...entries, entry]);
+  return entry;
+};
+
+/**
+ * Append an entry to the transaction journal. Entries are only ever
+ * appended: an entry that doesn't follow straight on from the last one is
+ * refused.
+ * @param {function} createEntry Builds the entry from the last one (null before the first)
+ * @returns {Promise<Object>} The entry
+ */
+export const appendJournalEntry = async (createEntry) => {
+  try {
+    return await runTransaction(tx => stageJournalEntry(tx, createEntry));
+  } catch (error) {
+    console.error('Error appending journal entry:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load how far the journal has been uploaded
+ * @returns {Promise<Object>} { headSeq, headHash, keyRegistered, uploadedAt, rejection }
+ */
+export const loadJournalUploadState = async () => {
+  try {
+    const state = await loadData(STORAGE_KEYS.JOURNAL_UPLOAD);
+    return {
+      headSeq: 0,
+      headHash: null,
+      keyRegistered: false,
+      uploadedAt: null,
+      rejection: null,
+      ...(state || {})
+    };
+  } catch (error) {
+    console.error('Error loading journal upload state:', error);
+    return { headSeq: 0, headHash: null, keyRegistered: false, uploadedAt: null, rejection: null };
+  }
+};
+
+/**
+ * Update how far the journal has been uploaded
+ * @param {Object} changes Fields to change
+ * @returns {Promise<void>}
+ */
+export const saveJournalUploadState = async (changes) => {
+  try {
+    const state = await loadJournalUploadState();
+    await saveData(STORAGE_KEYS.JOURNAL_UPLOAD, { ...state, ...changes });
+  } catch (error) {
+    console.error('Error saving journal upload state:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the key this terminal signs its journal with
+ * @returns {Promise<string|null>} The key, or null before the first journal entry
+ */
+export const getDeviceKey = async () => {
+  try {
+    return await loadData(STORAGE_KEYS.DEVICE_KEY);
+  } catch (error) {
+    console.error('Error loading device key:', error);
+    throw error;
+  }
+};
+
+/**
+ * Store the key this terminal signs its journal with
+ * @param {string} key The device key
+ * @returns {Promise<void>}
+ */
+export const saveDeviceKey = async (key) => {
+  try {
+    await saveData(STORAGE_KEYS.DEVICE_KEY, key);
+  } catch (error) {
+    console.error('Error saving device key:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cache the product catalog for offline access
+ * @param {Array} products List of products
+ * @returns {Promise<void>}
+ */
+export const cacheProducts = async (products) => {
+  try {
+    await runTransaction(tx => stageData(tx, STORAGE_KEYS.OFFLINE_PRODUCTS, products));
+  } catch (error) {
+    console.error('Error caching products:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the cached product catalog
+ * @returns {Promise<Array>} Cached products or empty array
+ */
+export const getCachedProducts = async () => {
+  try {
+    const products = await loadData(STORAGE_KEYS.OFFLINE_PRODUCTS);
+    return products || [];
+  } catch (error) {
+    console.error('Error getting cached products:', error);
+    return [];
+  }
+};
+
+/**
+ * Add or remove stock for the products in a transaction.
+ * Line items without a productId, and products that don't track stock
+ * (stock is null), are left alone.
+ * @param {Array} products Cached products
+ * @param {Array} items Transaction line items ({ productId, quantity })
+ * @param {number} direction -1 to take units off, 1 to put them back
+ * @returns {Array|null} The updated products, or null if nothing changes
+ */
+const applyStockChange = (products, items, direction) => {
+  const productItems = items.filter(item => item.productId != null);
+  if (productItems.length === 0) {
+    return null;
+  }
+  
+  return products.map(product => {
+    if (product.stock == null) {
+      return product;
+    }
+    
+    const quantity = productItems
+      .filter(item => item.productId === product.id)
+      .reduce((total, item) => total + (item.quantity || 1), 0);
+    
+    return quantity > 0
+      ? { ...product, stock: Math.max(0, product.stock + direction * quantity) }
+      : product;
+  });
+};
+
+// Add or remove cached stock for the products in a transaction
+const adjustCachedStock = (items, direction) => {
+  return runTransaction(async (tx) => {
+    const products = applyStockChange(await getCachedProducts(), items, direction);
+    if (products) {
+      stageData(tx, STORAGE_KEYS.OFFLINE_PRODUCTS, products);
+    }
+  });
+};
+
+/**
+ * Decrement cached stock for the products sold in a transaction
+ * @param {Array} items Transaction line items ({ productId, quantity })
+ * @returns {Promise<void>}
+ */
+export const decrementCachedStock = async (items = []) => {
+  try {
+    await adjustCachedStock(items, -1);
+  } catch (error) {
+    console.error('Error decrementing cached stock:', error);
+    throw error;
+  }
+};
+
+/**
+ * Put back cached stock for the products of a voided sale
+ * @param {Array} items Transaction line items ({ productId, quantity })
+ * @returns {Promise<void>}
+ */
+export const restoreCachedStock = async (items = []) => {
+  try {
+    await adjustCachedStock(items, 1);
+  } catch (error) {
+    console.error('Error restoring cached stock:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cache transaction data for offline access, replacing the cached history
+ * @param {Array} transactions List of transactions
+ * @returns {Promise<void>}
+ */
+export const cacheTransactions = async (transactions) => {
+  try {
+    await replaceTable(TABLES.TRANSACTIONS, transactions);
+    await pruneCachedTransactions();
+  } catch (error) {
+    console.error('Error caching transactions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get cached transactions
+ * @returns {Promise<Array>} Cached transactions, newest first, or empty array
+ */
+export const getCachedTransactions = async () => {
+  try {
+    return await getAllRecords(TABLES.TRANSACTIONS);
+  } catch (error) {
+    console.error('Error getting cached transactions:', error);
+    return [];
+  }
+};
+
+/**
+ * Find a cached transaction by its transactionId or local ID
+ * @param {string} transactionId Transaction ID
+ * @returns {Promise<Object|null>} The transaction or null if not found
+ */
+export const findCachedTransaction = async (transactionId) => {
+  try {
+    return (await getRecord(TABLES.TRANSACTIONS, transactionId)) ||
+      (await findRecords(TABLES.TRANSACTIONS, 'id', transactionId))[0] ||
+      null;
+  } catch (error) {
+    console.error(`Error finding cached transaction ${transactionId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Get a customer's cached transactions
+ * @param {number|string} customerId Customer ID
+ * @returns {Promise<Array>} Transactions, newest first
+ */
+export const getCachedTransactionsByCustomerId = async (customerId) => {
+  try {
+    return await findRecords(TABLES.TRANSACTIONS, 'customerId', customerId);
+  } catch (error) {
+    console.error(`Error getting cached transactions for customer ${customerId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Get a card's cached transactions
+ * @param {string} cardId Card ID
+ * @returns {Promise<Array>} Transactions, newest first
+ */
+export const getCachedTransactionsByCardId = async (cardId) => {
+  try {
+    return await findRecords(TABLES.TRANSACTIONS, 'cardId', cardId);
+  } catch (error) {
+    console.error(`Error getting cached transactions for card ${cardId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Get the cached transactions made in a period
+ * @param {string|null} from Start of the period, inclusive (null for no limit)
+ * @param {string|null} to End of the period, inclusive (null for no limit)
+ * @returns {Promise<Array>} Transactions, newest first
+ */
+export const getCachedTransactionsBetween = async (from, to) => {
+  try {
+    const fromTime = from ? new Date(from).getTime() : -Infinity;
+    const toTime = to ? new Date(to).getTime() : Infinity;
+    const transactions = await findRecordsInRange(
+      TABLES.TRANSACTIONS,
+      'date',
+      from ? getLocalDateKey(from) : null,
+      to ? getLocalDateKey(to) : null
+    );
+    
+    return transactions.filter(t => {
+      const takenAt = new Date(t.createdAt).getTime();
+      return takenAt >= fromTime && takenAt <= toTime;
+    });
+  } catch (error) {
+    console.error('Error getting cached transactions for period:', error);
+    return [];
+  }
+};
+
+/**
+ * Add a transaction to the display cache only (it is not queued for sync)
+ * @param {Object} transaction Transaction data
+ * @returns {Promise<void>}
+ */
+export const addCachedTransaction = async (transaction) => {
+  try {
+    await runTransaction(tx => tx.put(TABLES.TRANSACTIONS, transaction));
+  } catch (error) {
+    console.error('Error adding cached transaction:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a cached transaction, matched by transactionId
+ * @param {string} transactionId Transaction ID to update
+ * @param {Object} changes Fields to merge into the transaction
+ * @returns {Promise<void>}
+ */
+export const updateCachedTransaction = async (transactionId, changes) => {
+  try {
+    await runTransaction(async (tx) => {
+      const transaction = await getRecord(TABLES.TRANSACTIONS, transactionId);
+      if (transaction) {
+        tx.put(TABLES.TRANSACTIONS, { ...transaction, ...changes });
+      }
+    });
+  } catch (error) {
+    console.error(`Error updating cached transaction ${transactionId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Drop cached transactions beyond the retention limits: older than
+ * TRANSACTION_CACHE_MAX_AGE_DAYS, or past the newest
+ * TRANSACTION_CACHE_MAX_COUNT. Transactions still awaiting sync are kept.
+ * @returns {Promise<number>} How many transactions were dropped
+ */
+export const pruneCachedTransactions = async () => {
+  try {
+    const cutoff = Date.now() - TRANSACTION_CACHE_MAX_AGE_DAYS * DAY_MS;
+    const transactions = await getAllRecords(TABLES.TRANSACTIONS);
+    
+    let retained = 0;
+    const expired = transactions.filter(t => {
+      if (t.pendingSync) {
+        return false;
+      }
+      retained += 1;
+      return retained > TRANSACTION_CACHE_MAX_COUNT || new Date(t.createdAt).getTime() < cutoff;
+    });
+    
+    if (expired.length > 0) {
+      await removeRecords(TABLES.TRANSACTIONS, expired);
+      console.log(`Dropped ${expired.length} cached transactions past the retention limit`);
+    }
+    return expired.length;
+  } catch (error) {
+    console.error('Error pruning cached transactions:', error);
+    return 0;
+  }
+};
+
+// Stage a payment's effect on the daily spend and cached stock: `direction`
+// is 1 when it is made and -1 when it is voided
+const stagePaymentEffects = async (tx, payment, direction) => {
+  const spend = addToDailySpend(
+    (await loadData(STORAGE_KEYS.DAILY_SPEND)) || {},
+    payment.customerId,
+    direction * (Number(payment.amount) || 0),
+    payment.createdAt
+  );
+  if (spend) {
+    stageData(tx, STORAGE_KEYS.DAILY_SPEND, spend);
+  }
+  
+  const products = applyStockChange(await getCachedProducts(), payment.items || [], -direction);
+  if (products) {
+    stageData(tx, STORAGE_KEYS.OFFLINE_PRODUCTS, products);
+  }
+};
+
+/**
+ * Add a transaction to the offline cache (both pending and regular cache).
+ * A payment also counts toward the customer's daily spend and takes its
+ * items off the cached stock, and one paid with a card QR code uses the
+ * code up. Everything changes in one commit, together with the
+ * transaction's journal entry if one is given, so the journal never records
+ * a transaction that wasn't queued.
+ * @param {Object} transaction Transaction data
+ * @param {Object} [options]
+ * @param {function} [options.createJournalEntry] Builds the journal entry (see appendJournalEntry)
+ * @returns {Promise<void>}
+ * @throws {Error} If the transaction's card QR code has already been used
+ */
+export const addOfflineTransaction = async (transaction, { createJournalEntry } = {}) => {
+  try {
+    await runTransaction(async (tx) => {
+      // Checked again here in case another payment used the code meanwhile
+      if (transaction.cardToken) {
+        await stageUsedCardToken(tx, transaction.cardToken);
+      }
+      
+      if (createJournalEntry) {
+        await stageJournalEntry(tx, createJournalEntry);
+      }
+
+      // Add to pending transactions for sync
+      const localId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      tx.put(TABLES.PENDING, { ...transaction, id: localId, pendingSync: true });
+      
+      // Also add to regular transaction cache for display
+      tx.put(TABLES.TRANSACTIONS, transaction);
+      
+      if (transaction.type === 'payment') {
+        await stagePaymentEffects(tx, transaction, 1);
+      }
+    });
+  } catch (error) {
+    console.error('Error adding offline transaction:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add records restored from a backup (see backup.js): customers and
+ * history to the caches, then queued records to the pending queue. A
+ * restored payment counts toward daily spend and cached stock as it did on
+ * the terminal it was taken on. Records are written in chunks; callers
+ * pass only records that aren't here yet, so if an import stops part way,
+ * running it again adds the rest.
+ * @param {Object} records
+ * @param {Array} [records.customers] Customers to cache
+ * @param {Array} [records.transactions] History entries to cache
+ * @param {Array} [records.pending] Records to queue for sync
+ * @returns {Promise<void>}
+ */
+export const importBackupRecords = async ({ customers = [], transactions = [], pending = [] }) => {
+  try {
+    for (let start = 0; start < customers.length; start += MAX_COMMIT_RECORDS) {
+      const chunk = customers.slice(start, start + MAX_COMMIT_RECORDS);
+      await runTransaction(tx => chunk.forEach(customer => tx.put(TABLES.CUSTOMERS, customer)));
+    }
+    
+    for (let start = 0; start < transactions.length; start += MAX_COMMIT_RECORDS) {
+      const chunk = transactions.slice(start, start + MAX_COMMIT_RECORDS);
+      await runTransaction(tx => chunk.forEach(transaction => tx.put(TABLES.TRANSACTIONS, transaction)));
+    }
+    
+    for (let start = 0; start < pending.length; start += MAX_COMMIT_RECORDS) {
+      const chunk = pending.slice(start, start + MAX_COMMIT_RECORDS);
+      await runTransaction(async (tx) => {
+        // Payments in one chunk add up before anything is staged
+        let spend = (await loadData(STORAGE_KEYS.DAILY_SPEND)) || {};
+        let products = await getCachedProducts();
+        let spendChanged = false;
+        let stockChanged = false;
+        
+        chunk.forEach(item => {
+          tx.put(TABLES.PENDING, { ...item, pendingSync: true });
+          if (item.type !== 'payment') {
+            return;
+          }
+          
+          const updatedSpend = addToDailySpend(spend, item.customerId, Number(item.amount) || 0, item.createdAt);
+          if (updatedSpend) {
+            spend = updatedSpend;
+            spendChanged = true;
+          }
+          const updatedProducts = applyStockChange(products, item.items || [], -1);
+          if (updatedProducts) {
+            products = updatedProducts;
+            stockChanged = true;
+          }
+        });
+        
+        if (spendChanged) {
+          stageData(tx, STORAGE_KEYS.DAILY_SPEND, spend);
+        }
+        if (stockChanged) {
+          stageData(tx, STORAGE_KEYS.OFFLINE_PRODUCTS, products);
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error importing backup records:', error);
+    throw error;
+  }
+};
+
+/**
+ * Void a transaction still in the pending queue: take it off the queue,
+ * mark the cached copy voided and add the void entry to the history. A
+ * payment's daily spend and stock are given back. Everything changes in
+ * one commit, which is refused if sync has taken the transaction since
+ * the caller looked at the queue.
+ * @param {Object} queued The pending transaction
+ * @param {Object} voidTransaction The void entry
+ * @returns {Promise<void>}
+ */
+export const voidPendingTransaction = async (queued, voidTransaction) => {
+  try {
+    await runTransaction(async (tx) => {
+      // Check again inside the commit: sync marks a record in flight before
+      // it reads the queue, and reads it through the commit queue, so once
+      // this check passes sync skips the record
+      if (!(await getRecord(TABLES.PENDING, queued.id))) {
+        throw new Error('This transaction has already synced. Refund it instead.');
+      }
+      if (isPendingTransactionInFlight(queued.id)) {
+        throw new Error('This transaction is being synced right now. Try again in a moment.');
+      }
+      
+      tx.remove(TABLES.PENDING, queued.id);
+      
+      // Keep the original in history, marked voided, with the linked void entry
+      const original = await getRecord(TABLES.TRANSACTIONS, queued.transactionId);
+      if (original) {
+        tx.put(TABLES.TRANSACTIONS, {
+          ...original,
+          status: 'voided',
+          pendingSync: false,
+          voidedAt: voidTransaction.createdAt
+        });
+      }
+      tx.put(TABLES.TRANSACTIONS, voidTransaction);
+      
+      if (queued.type === 'payment') {
+        await stagePaymentEffects(tx, queued, -1);
+      }
+    });
+  } catch (error) {
+    console.error(`Error voiding pending transaction ${queued.transactionId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Fold a synced transaction into a cached customer, take it off the
+ * pending queue and mark the cached copy synced, in one commit, so a crash
+ * can't count it twice
+ * @param {Object} transaction The transaction as queued
+ * @param {number|string|null} customerId Customer ID (null if the customer isn't cached)
+ * @param {Object} [changes] Fields to merge into the customer
+ * @returns {Promise<void>}
+ */
+export const confirmPendingTransaction = async (transaction, customerId, changes) => {
+  try {
+    await runTransaction(async (tx) => {
+      const customer = customerId != null ? await getRecord(TABLES.CUSTOMERS, customerId) : null;
+      if (customer) {
+        tx.put(TABLES.CUSTOMERS, { ...customer, ...changes });
+      }
+      
+      const cached = transaction.transactionId
+        ? await getRecord(TABLES.TRANSACTIONS, transaction.transactionId)
+        : null;
+      if (cached) {
+        tx.put(TABLES.TRANSACTIONS, { ...cached, pendingSync: false, status: 'success' });
+      }
+      
+      tx.remove(TABLES.PENDING, transaction.id);
+    });
+  } catch (error) {
+    console.error(`Error confirming pending transaction ${transaction.id}:`, error);
+    throw error;
+  }
+};
+
+// A server customer with an offline change still in the queue applied on top
+const applyPendingChange = (customer, item) => {
+  switch (item.type) {
+    case 'customer_update':
+      return { ...customer, ...item.changes };
+    case 'card_replacement':
+      return { ...customer, cardId: item.newCardId, cardStatus: 'active' };
+    default:
+      return customer;
+  }
+};
+
+// Merge records in commits of a bounded size. The change feed position, if
+// given, is saved with the last commit, so it only moves on once the whole
+// page is in.
+const mergeInChunks = async (records, deletedKeys, feed, syncState, stageChunk) => {
+  const chunkCount = Math.max(1, Math.ceil((records.length + deletedKeys.length) / MAX_COMMIT_RECORDS));
+  const recordsPerChunk = Math.ceil(records.length / chunkCount);
+  const deletesPerChunk = Math.ceil(deletedKeys.length / chunkCount);
+  
+  for (let chunk = 0; chunk < chunkCount; chunk++) {
+    await runTransaction(async (tx) => {
+      await stageChunk(
+        tx,
+        records.slice(chunk * recordsPerChunk, (chunk + 1) * recordsPerChunk),
+        deletedKeys.slice(chunk * deletesPerChunk, (chunk + 1) * deletesPerChunk)
+      );
+      if (syncState && chunk === chunkCount - 1) {
+        const tokens = (await loadData(STORAGE_KEYS.SYNC_TOKENS)) || {};
+        stageData(tx, STORAGE_KEYS.SYNC_TOKENS, { ...tokens, [feed]: syncState });
+      }
+    });
+  }
+};
+
+/**
+ * Merge customers from the server into the cache. Offline changes still in
+ * the pending queue (customer updates and card replacements) are applied on
+ * top, so they aren't lost before they sync, and customers registered
+ * offline are left alone.
+ * @param {Array} customers Customers from the server
+ * @param {Array} [deletedIds] IDs of customers deleted on the server
+ * @param {Object} [syncState] Position in the customer change feed to save with the merge ({ token, cursor })
+ * @returns {Promise<void>}
+ */
+export const mergeCachedCustomers = async (customers, deletedIds = [], syncState = null) => {
+  try {
+    await mergeInChunks(customers, deletedIds, 'customers', syncState, async (tx, changed, deleted) => {
+      for (const customer of changed) {
+        const queued = await findRecords(TABLES.PENDING, 'customerId', customer.id);
+        tx.put(TABLES.CUSTOMERS, queued.reduce(applyPendingChange, customer));
+      }
+      deleted
+        .filter(id => !isProvisionalCustomerId(id))
+        .forEach(id => tx.remove(TABLES.CUSTOMERS, id));
+    });
+  } catch (error) {
+    console.error('Error merging cached customers:', error);
+    throw error;
+  }
+};
+
+/**
+ * Merge transactions from the server into the cache. The server's copy of
+ * a transaction made offline replaces the local copy (matched by
+ * idempotency key); offline transactions that haven't synced yet are left
+ * alone.
+ * @param {Array} transactions Transactions from the server
+ * @param {Array} [deletedIds] transactionIds of transactions deleted on the server
+ * @param {Object} [syncState] Position in the transaction change feed to save with the merge ({ token, cursor })
+ * @returns {Promise<void>}
+ */
+export const mergeCachedTransactions = async (transactions, deletedIds = [], syncState = null) => {
+  try {
+    await mergeInChunks(transactions, deletedIds, 'transactions', syncState, async (tx, changed, deleted) => {
+      for (const transaction of changed) {
+        if (transaction.idempotencyKey) {
+          const localCopies = await findRecords(TABLES.TRANSACTIONS, 'idempotencyKey', transaction.idempotencyKey);
+          const key = transaction.transactionId ?? transaction.id;
+          localCopies
+            .map(t => t.transactionId ?? t.id)
+            .filter(localKey => localKey !== key)
+            .forEach(localKey => tx.remove(TABLES.TRANSACTIONS, localKey));
+        }
+        tx.put(TABLES.TRANSACTIONS, transaction);
+      }
+      for (const transactionId of deleted) {
+        const cached = await getRecord(TABLES.TRANSACTIONS, transactionId);
+        if (cached && !cached.pendingSync) {
+          tx.remove(TABLES.TRANSACTIONS, transactionId);
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error merging cached transactions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get this terminal's ID, generating and persisting one on first use
+ * @returns {Promise<string>} Terminal ID
+ */
+export const getTerminalId = async () => {
+  try {
+    const existingId = await loadData(STORAGE_KEYS.TERMINAL_ID);
+    if (existingId) {
+      return existingId;
+    }
+    
+    const terminalId = `TERM-${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).substr(2, 4).toUpperCase()}`;
+    await saveData(STORAGE_KEYS.TERMINAL_ID, terminalId);
+    return terminalId;
+  } catch (error) {
+    console.error('Error getting terminal ID:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get this terminal's registration with the server
+ * @returns {Promise<Object|null>} { terminalId, registeredAt } or null if not registered yet
+ */
+export const getTerminalRegistration = async () => {
+  try {
+    return await loadData(STORAGE_KEYS.TERMINAL_REGISTRATION);
+  } catch (error) {
+    console.error('Error getting terminal registration:', error);
+    return null;
+  }
+};
+
+/**
+ * Save this terminal's registration with the server
+ * @param {Object} registration { terminalId, registeredAt }
+ * @returns {Promise<void>}
+ */
+export const saveTerminalRegistration = async (registration) => {
+  try {
+    await saveData(STORAGE_KEYS.TERMINAL_REGISTRATION, registration);
+  } catch (error) {
+    console.error('Error saving terminal registration:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reserve the next sequence number for a transaction created on this terminal
+ * @returns {Promise<number>} Sequence number (starts at 1, never reused)
+ */
+export const getNextSequenceNumber = async () => {
+  try {
+    const lastSequence = await loadData(STORAGE_KEYS.TERMINAL_SEQUENCE);
+    const nextSequence = (lastSequence || 0) + 1;
+    await saveData(STORAGE_KEYS.TERMINAL_SEQUENCE, nextSequence);
+    return nextSequence;
+  } catch (error) {
+    console.error('Error getting next sequence number:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load all sync conflicts (transactions the server rejected during sync).
+ * Throws if they can't be read, like loadPendingTransactions.
+ * @returns {Promise<Array>} List of sync conflicts
+ */
+export const loadSyncConflicts = async () => {
+  try {
+    const conflicts = await loadData(STORAGE_KEYS.SYNC_CONFLICTS);
+    return conflicts || [];
+  } catch (error) {
+    console.error('Error loading sync conflicts:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the sync conflicts that still need a supervisor's decision
+ * @returns {Promise<Array>} List of open sync conflicts
+ */
+export const getOpenSyncConflicts = async () => {
+  const conflicts = await loadSyncConflicts();
+  return conflicts.filter(c => c.status === 'open');
+};
+
+/**
+ * Record a transaction the server rejected during sync
+ * @param {Object} transaction The rejected transaction
+ * @param {Object} rejection Rejection details from the server
+ * @param {string} rejection.reason Human-readable rejection reason
+ * @param {string} [rejection.code] Machine-readable rejection code
+ * @returns {Promise<string>} The conflict ID
+ */
+export const saveSyncConflict = async (transaction, { reason, code }) => {
+  try {
+    const conflictId = `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const conflict = {
+      id: conflictId,
+      transaction,
+      reason: reason || 'Rejected by server',
+      code: code || null,
+      status: 'open',
+      attempts: 1,
+      detectedAt: new Date().toISOString(),
+    };
+    
+    await runTransaction(async (tx) => {
+      const existingConflicts = await loadSyncConflicts();
+      stageData(tx, STORAGE_KEYS.SYNC_CONFLICTS, [...existingConflicts, conflict]);
+    });
+    
+    return conflictId;
+  } catch (error) {
+    console.error('Error saving sync conflict:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a sync conflict by ID
+ * @param {string} conflictId Conflict ID to update
+ * @param {Object} changes Fields to merge into the conflict
+ * @returns {Promise<void>}
+ */
+export const updateSyncConflict = async (conflictId, changes) => {
+  try {
+    await runTransaction(async (tx) => {
+      const existingConflicts = await loadSyncConflicts();
+      const updatedConflicts = existingConflicts.map(c => 
+        c.id === conflictId ? { ...c, ...changes } : c
+      );
+      stageData(tx, STORAGE_KEYS.SYNC_CONFLICTS, updatedConflicts);
+    });
+  } catch (error) {
+    console.error(`Error updating sync conflict ${conflictId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a sync conflict by ID
+ * @param {string} conflictId Conflict ID to remove
+ * @returns {Promise<void>}
+ */
+export const removeSyncConflict = async (conflictId) => {
+  try {
+    await runTransaction(async (tx) => {
+      const existingConflicts = await loadSyncConflicts();
+      stageData(tx, STORAGE_KEYS.SYNC_CONFLICTS, existingConflicts.filter(c => c.id !== conflictId));
+    });
+  } catch (error) {
+    console.error(`Error removing sync conflict ${conflictId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Load the cross-terminal overspends reported by the server during sync
+ * @returns {Promise<Array>} Overspend reports, oldest first
+ */
+export const loadOverspendReports = async () => {
+  try {
+    const reports = await loadData(STORAGE_KEYS.OVERSPEND_REPORTS);
+    return reports || [];
+  } catch (error) {
+    console.error('Error loading overspend reports:', error);
+    return [];
+  }
+};
+
+/**
+ * Save an overspend the server reported. A report for the same card and
+ * transactions as an earlier one replaces it.
+ * @param {Object} overspend The server's report ({ cardId, customerId, overdrawnBy, transactions })
+ * @returns {Promise<Object>} The saved report
+ */
+export const saveOverspendReport = async (overspend) => {
+  try {
+    const transactionIds = overspend.transactions.map(t => t.transactionId).sort().join(',');
+    const report = {
+      ...overspend,
+      id: `overspend_${overspend.cardId}_${transactionIds}`,
+      detectedAt: new Date().toISOString()
+    };
+    
+    const existingReports = await loadOverspendReports();
+    await saveData(STORAGE_KEYS.OVERSPEND_REPORTS, [
+      ...existingReports.filter(r => r.id !== report.id),
+      report
+    ]);
+    return report;
+  } catch (error) {
+    console.error('Error saving overspend report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update the last sync timestamp
+ * @returns {Promise<void>}
+ */
+export const updateLastSyncTimestamp = async () => {
+  try {
+    await saveData(STORAGE_KEYS.LAST_SYNC_TIMESTAMP, Date.now());
+  } catch (error) {
+    console.error('Error updating last sync timestamp:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get how far a change feed has been pulled: the sync token of the last
+ * completed pull, and the cursor of a pull that was interrupted
+ * @param {string} feed 'customers' or 'transactions'
+ * @returns {Promise<{token: string|null, cursor: string|null}>}
+ */
+export const loadSyncState = async (feed) => {
+  try {
+    const tokens = (await loadData(STORAGE_KEYS.SYNC_TOKENS)) || {};
+    return { token: null, cursor: null, ...(tokens[feed] || {}) };
+  } catch (error) {
+    console.error(`Error loading sync state for ${feed}:`, error);
+    return { token: null, cursor: null };
+  }
+};
+
+/**
+ * Get the last sync timestamp
+ * @returns {Promise<number|null>} Timestamp or null if never synced
+ */
+export const getLastSyncTimestamp = async () => {
+  try {
+    return await loadData(STORAGE_KEYS.LAST_SYNC_TIMESTAMP);
+  } catch (error) {
+    console.error('Error getting last sync timestamp:', error);
+    return null;
+  }
+};
+
+/**
+ * Save network status
+ * @param {boolean} isConnected Whether the device is connected to the internet
+ * @returns {Promise<void>}
+ */
+export const saveNetworkStatus = async (isConnected) => {
+  try {
+    await saveData(STORAGE_KEYS.NETWORK_STATUS, { isConnected, timestamp: Date.now() });
+  } catch (error) {
+    console.error('Error saving network status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get saved network status
+ * @returns {Promise<Object>} Network status object or default (disconnected)
+ */
+export const getNetworkStatus = async () => {
+  try {
+    const status = await loadData(STORAGE_KEYS.NETWORK_STATUS);
+    return status || { isConnected: false, timestamp: Date.now() };
+  } catch (error) {
+    console.error('Error getting network status:', error);
+    return { isConnected: false, timestamp: Date.now() };
+  }
+};
+
+/**
+ * Check whether the terminal holds any amounts: cached customers,
+ * transactions, queued records, products, conflicts or journal entries.
+ * Amounts are minor units of the currency in the settings, so once there
+ * are any the currency can't change (see saveUserSettings).
+ * @returns {Promise<boolean>}
+ */
+export const hasStoredAmounts = async () => {
+  for (const table of [TABLES.CUSTOMERS, TABLES.TRANSACTIONS, TABLES.PENDING]) {
+    if ((await getAllRecords(table)).length > 0) {
+      return true;
+    }
+  }
+  
+  for (const key of [STORAGE_KEYS.OFFLINE_PRODUCTS, STORAGE_KEYS.SYNC_CONFLICTS, STORAGE_KEYS.JOURNAL]) {
+    const data = await loadData(key);
+    if (Array.isArray(data) && data.length > 0) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Save user settings. The currency is refused if it differs from the
+ * saved one while amounts are stored: they would be read in the new
+ * currency's minor units without being converted.
+ * @param {Object} settings User settings
+ * @returns {Promise<void>}
+ */
+export const saveUserSettings = async (settings) => {
+  try {
+    const saved = await loadData(STORAGE_KEYS.USER_SETTINGS);
+    const savedCurrency = saved?.currency || DEFAULT_CURRENCY;
+    if ((settings.currency || DEFAULT_CURRENCY) !== savedCurrency && await hasStoredAmounts()) {
+      throw new Error(`The currency can't be changed from ${savedCurrency} while amounts are stored on this terminal`);
+    }
+    
     await saveData(STORAGE_KEYS.USER_SETTINGS, settings);
   } catch (error) {
     console.error('Error saving user settings:', error);
@@ -280,6 +1924,9 @@ export const getUserSettings = async () => {
       defaultPaymentDescriptions: [],
       apiUrl: 'https://workspace.allanlucero29.repl.co/api',
       useSimulatedApi: true,
+      currency: 'PHP',
+      locale: 'en-PH',
+      cardReader: 'nfc',
     };
   } catch (error) {
     console.error('Error getting user settings:', error);
@@ -289,6 +1936,9 @@ export const getUserSettings = async () => {
       defaultPaymentDescriptions: [],
       apiUrl: 'https://workspace.allanlucero29.repl.co/api',
       useSimulatedApi: true,
+      currency: 'PHP',
+      locale: 'en-PH',
+      cardReader: 'nfc',
     };
   }
 };
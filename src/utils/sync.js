@@ -1,18 +1,215 @@
 import { 
   loadPendingTransactions, 
   removePendingTransaction, 
+  updatePendingTransaction,
+  setPendingTransactionInFlight,
+  isPendingTransactionQueued,
   updateLastSyncTimestamp,
-  cacheCustomers,
-  cacheTransactions 
+  mergeCachedCustomers,
+  mergeCachedTransactions,
+  loadSyncState,
+  pruneCachedTransactions,
+  cacheProducts,
+  cacheBlockedCards,
+  cacheOperators,
+  cacheOfflineAllowances,
+  getCachedBlockedCards,
+  loadSyncConflicts,
+  saveSyncConflict,
+  updateSyncConflict,
+  removeSyncConflict,
+  isProvisionalCustomerId,
+  remapProvisionalCustomer,
+  markShiftReportUploaded
 } from './storage';
-import { customerAPI, transactionAPI } from '../api/api';
+import {
+  customerAPI,
+  productAPI,
+  transactionAPI,
+  shiftAPI,
+  operatorAPI,
+  journalAPI,
+  terminalAPI,
+  createSyncMetadata,
+  assertPermission,
+  JournalChainError,
+  SyncTokenExpiredError
+} from '../api/api';
+import { PERMISSIONS } from './operators';
+import {
+  journalSyncOutcome,
+  journalWriteOff,
+  getPendingJournalUpload,
+  markJournalUploaded,
+  markJournalRejected
+} from './journal';
+import { confirmLedgerTransaction } from './ledger';
+import { recordOverspend } from './offlineAllowance';
+import { wipeTerminal } from './dataProtection';
 import { hasInternetAccess, waitForConnectivity } from './network';
 
+// Send one queued record to the matching sync endpoint
+const replayQueuedItem = async (item) => {
+  switch (item.type) {
+    case 'registration':
+      return await customerAPI.syncRegistration(item);
+    case 'customer_update':
+      return await customerAPI.syncUpdate(item);
+    case 'card_replacement':
+      return await customerAPI.syncCardReplacement(item);
+    case 'shift_report':
+      return await shiftAPI.syncReport(item);
+    default:
+      return await transactionAPI.syncTransaction(item);
+  }
+};
+
+// Bring local state in line with a record the server accepted
+const applyAcceptedItem = async (item, result) => {
+  switch (item.type) {
+    case 'registration':
+      // From here on the customer and everything queued against them use
+      // the server-assigned ID
+      await remapProvisionalCustomer(item.customerId, result.customer);
+      break;
+    case 'customer_update':
+    case 'card_replacement':
+      // Already applied to the cache when it was queued
+      break;
+    case 'shift_report':
+      await markShiftReportUploaded(item.reportId);
+      break;
+    default:
+      // Fold it into the confirmed balance as it leaves the queue
+      await confirmLedgerTransaction(item, result);
+  }
+};
+
+/**
+ * Replay one queued record and move it out of the pending queue
+ * @param {Object} item The queued record
+ * @param {Array} overspends Collects the cross-terminal overspends the server reports
+ * @returns {Promise<'synced'|'conflict'|'skipped'>} Outcome (throws on transient failure)
+ */
+const syncQueuedItem = async (item, overspends) => {
+  // Until the record has left the queue it can no longer be voided. This is
+  // set before the first await, so a void can't slip in between the check
+  // below and the request.
+  setPendingTransactionInFlight(item.id, true);
+  try {
+    // Skip records voided since the queue was loaded
+    if (!(await isPendingTransactionQueued(item.id))) {
+      return 'skipped';
+    }
+    
+    // Records queued before idempotency keys existed get one now.
+    // It is persisted before the first attempt so later retries reuse it.
+    if (!item.idempotencyKey) {
+      const syncMetadata = await createSyncMetadata();
+      await updatePendingTransaction(item.id, syncMetadata);
+      item = { ...item, ...syncMetadata };
+    }
+    
+    const result = await replayQueuedItem(item);
+    await journalSyncOutcome(item, result);
+    
+    // Offline sales on other terminals spent the same balance: flag the
+    // card here and keep the report
+    if (result.overspend) {
+      overspends.push(await recordOverspend(result.overspend));
+    }
+    
+    if (result.status === 'rejected') {
+      // The server refused it - park it for review instead of retrying forever.
+      // Leaving the pending queue also drops its delta from projected balances.
+      await saveSyncConflict(item, result);
+      await removePendingTransaction(item.id);
+      
+      console.warn(`Transaction ${item.id} rejected by server: ${result.reason}`);
+      return 'conflict';
+    }
+    
+    // Accepted now or already committed by an earlier attempt
+    await applyAcceptedItem(item, result);
+    await removePendingTransaction(item.id);
+    
+    console.log(`Successfully synced transaction ${item.id} (${result.status})`);
+    return 'synced';
+  } finally {
+    setPendingTransactionInFlight(item.id, false);
+  }
+};
+
+// Register this terminal's ID with the server before its first sync. A
+// failure is retried on the next sync rather than holding up the queue.
+const registerTerminal = async () => {
+  try {
+    await terminalAPI.register();
+  } catch (error) {
+    console.error('Failed to register terminal:', error);
+  }
+};
+
+// Upload the journal entries the server hasn't seen. A refused upload is
+// kept for the journal check in settings rather than failing the sync.
+const uploadJournal = async () => {
+  try {
+    const upload = await getPendingJournalUpload();
+    if (!upload) {
+      return;
+    }
+    
+    await markJournalUploaded(await journalAPI.upload(upload));
+    console.log(`Uploaded ${upload.entries.length} journal entries`);
+  } catch (error) {
+    console.error('Failed to upload transaction journal:', error);
+    if (error instanceof JournalChainError) {
+      await markJournalRejected(error);
+    }
+  }
+};
+
+// Erase the terminal if the server has flagged it as lost or stolen.
+// Checked after the queue has been sent, so nothing is lost that could
+// have reached the server.
+const checkRemoteWipe = async () => {
+  try {
+    const terminalStatus = await terminalAPI.getStatus();
+    if (terminalStatus.wipe) {
+      await wipeTerminal(terminalStatus.reason || 'Remote wipe requested by the server');
+      return true;
+    }
+  } catch (error) {
+    console.error('Failed to check terminal status:', error);
+  }
+  return false;
+};
+
 /**
  * Sync pending transactions with the server
- * @returns {Promise<{success: number, failed: number}>} Sync results
+ * 
+ * Each transaction is replayed through the dedicated sync endpoint with its
+ * idempotency key, so a retry after a timeout can never charge twice.
+ * Transactions the server rejects are moved to the conflicts queue for a
+ * supervisor to review; transient failures stay in the pending queue.
+ * 
+ * Customers registered offline are sent first. Once the server has assigned
+ * their IDs, the transactions queued against the provisional IDs are
+ * rewritten and replayed; those whose registration hasn't gone through yet
+ * stay queued for the next sync.
+ * 
+ * Afterwards the transaction journal, with the outcome of every
+ * transaction just synced, is uploaded for the server to verify, and the
+ * terminal is wiped if the server has flagged it.
+ * 
+ * If the server reports that offline sales on several terminals overspent
+ * a card, the card is flagged on this terminal and the report returned.
+ * 
+ * @param {Object} [options]
+ * @param {function} [options.onProgress] Called after each queued record with { current, total, failed, conflicts }
+ * @returns {Promise<{success: number, failed: number, conflicts: number, overspends: Array, wiped: boolean}>} Sync results
  */
-export const syncPendingTransactions = async () => {
+export const syncPendingTransactions = async ({ onProgress } = {}) => {
   // Check for internet connectivity
   const isConnected = await hasInternetAccess();
   
@@ -21,12 +218,15 @@ export const syncPendingTransactions = async () => {
     throw new Error('No internet connection available for synchronization');
   }
   
+  await registerTerminal();
+  
   // Get all pending transactions
   const pendingTransactions = await loadPendingTransactions();
   
   if (pendingTransactions.length === 0) {
     console.log('No pending transactions to sync');
-    return { success: 0, failed: 0 };
+    await uploadJournal();
+    return { success: 0, failed: 0, conflicts: 0, overspends: [], wiped: await checkRemoteWipe() };
   }
   
   console.log(`Syncing ${pendingTransactions.length} pending transactions`);
@@ -34,33 +234,189 @@ export const syncPendingTransactions = async () => {
   // Process each transaction
   let successCount = 0;
   let failedCount = 0;
+  let conflictCount = 0;
+  let processedCount = 0;
+  const overspends = [];
   
-  for (const transaction of pendingTransactions) {
-    try {
-      // Determine transaction type and send to appropriate endpoint
-      if (transaction.type === 'payment') {
-        await transactionAPI.processPayment(transaction);
-      } else if (transaction.type === 'reload') {
-        await transactionAPI.reloadBalance(transaction);
+  const reportProgress = () => {
+    processedCount++;
+    if (onProgress) {
+      onProgress({
+        current: processedCount,
+        total: pendingTransactions.length,
+        failed: failedCount,
+        conflicts: conflictCount
+      });
+    }
+  };
+  
+  const syncItems = async (items) => {
+    for (const item of items) {
+      if (item.type !== 'registration' && isProvisionalCustomerId(item.customerId)) {
+        console.log(`Holding transaction ${item.id} until its customer is registered`);
+        failedCount++;
+        reportProgress();
+        continue;
       }
       
-      // If successful, remove from pending queue
-      await removePendingTransaction(transaction.id);
-      successCount++;
-      
-      console.log(`Successfully synced transaction ${transaction.id}`);
-    } catch (error) {
-      console.error(`Failed to sync transaction ${transaction.id}:`, error);
-      failedCount++;
+      try {
+        const outcome = await syncQueuedItem(item, overspends);
+        if (outcome === 'conflict') {
+          conflictCount++;
+        } else if (outcome === 'synced') {
+          successCount++;
+        }
+      } catch (error) {
+        console.error(`Failed to sync transaction ${item.id}:`, error);
+        failedCount++;
+      }
+      reportProgress();
     }
+  };
+  
+  // Registrations first
+  await syncItems(pendingTransactions.filter(t => t.type === 'registration'));
+  
+  // Reload the queue: accepted registrations have rewritten provisional IDs
+  const remainingTransactions = await loadPendingTransactions();
+  await syncItems(remainingTransactions.filter(t => t.type !== 'registration'));
+  
+  await uploadJournal();
+  
+  // The timestamp is the clock data retention purges by, so it only moves
+  // when every queued record reached the server (rejected ones included:
+  // the server has them as conflicts)
+  if (failedCount === 0) {
+    await updateLastSyncTimestamp();
   }
+
+  console.log(`Sync completed: ${successCount} successful, ${failedCount} failed, ${conflictCount} conflicts`);
   
-  // Update last sync timestamp
-  await updateLastSyncTimestamp();
+  return {
+    success: successCount,
+    failed: failedCount,
+    conflicts: conflictCount,
+    overspends,
+    wiped: await checkRemoteWipe()
+  };
+};
+
+// Refuse to act on a conflict a supervisor has already settled. A
+// written-off transaction must never be sent (and charged) after all.
+const assertConflictOpen = (conflict) => {
+  if (conflict.status !== 'open') {
+    throw new Error(`Sync conflict has already been ${conflict.status === 'written_off' ? 'written off' : 'resolved'}`);
+  }
+};
+
+/**
+ * Retry a sync conflict, e.g. after the customer's balance has been topped up
+ * @param {string} conflictId The conflict to retry
+ * @returns {Promise<{resolved: boolean, reason?: string}>} Whether the server accepted it
+ */
+export const retrySyncConflict = async (conflictId) => {
+  assertPermission(PERMISSIONS.SYNC_CONFLICTS);
+  const conflicts = await loadSyncConflicts();
+  const conflict = conflicts.find(c => c.id === conflictId);
+  
+  if (!conflict) {
+    throw new Error('Sync conflict not found');
+  }
+  
+  assertConflictOpen(conflict);
+  
+  const isConnected = await hasInternetAccess();
+  if (!isConnected) {
+    throw new Error('No internet connection available for synchronization');
+  }
+  
+  const result = await replayQueuedItem(conflict.transaction);
+  await journalSyncOutcome(conflict.transaction, result);
+  if (result.overspend) {
+    await recordOverspend(result.overspend);
+  }
+  
+  if (result.status === 'rejected') {
+    await updateSyncConflict(conflictId, {
+      reason: result.reason || conflict.reason,
+      code: result.code || conflict.code,
+      attempts: (conflict.attempts || 1) + 1,
+      lastAttemptAt: new Date().toISOString()
+    });
+    return { resolved: false, reason: result.reason };
+  }
+  
+  await applyAcceptedItem(conflict.transaction, result);
+  await removeSyncConflict(conflictId);
+  return { resolved: true };
+};
+
+/**
+ * Write off a sync conflict. The transaction is not sent again; the record is
+ * kept with its resolution so the loss can be audited later.
+ * @param {string} conflictId The conflict to write off
+ * @param {string} [note] Supervisor's note explaining the write-off
+ * @returns {Promise<void>}
+ */
+export const writeOffSyncConflict = async (conflictId, note = '') => {
+  const operator = assertPermission(PERMISSIONS.SYNC_CONFLICTS);
+  const conflict = (await loadSyncConflicts()).find(c => c.id === conflictId);
+  if (!conflict) {
+    throw new Error('Sync conflict not found');
+  }
+  assertConflictOpen(conflict);
   
-  console.log(`Sync completed: ${successCount} successful, ${failedCount} failed`);
+  await journalWriteOff(conflict, note);
+  await updateSyncConflict(conflictId, {
+    status: 'written_off',
+    resolutionNote: note,
+    resolvedBy: operator.id,
+    resolvedAt: new Date().toISOString()
+  });
+};
+
+// Change feeds pulled into the cache on refresh
+const CHANGE_FEEDS = {
+  customers: { fetchPage: page => customerAPI.getChanges(page), merge: mergeCachedCustomers },
+  transactions: { fetchPage: page => transactionAPI.getChanges(page), merge: mergeCachedTransactions }
+};
+
+/**
+ * Pull a change feed into the cache, page by page, from the sync token of
+ * the last completed pull. Each page is merged together with the position
+ * after it, so an interrupted pull resumes from its cursor. If the server
+ * no longer knows the sync token, the feed is pulled again from the start.
+ * @param {string} feed 'customers' or 'transactions'
+ * @returns {Promise<void>}
+ */
+const pullChanges = async (feed) => {
+  const { fetchPage, merge } = CHANGE_FEEDS[feed];
+  let { token, cursor } = await loadSyncState(feed);
   
-  return { success: successCount, failed: failedCount };
+  while (true) {
+    let page;
+    try {
+      page = await fetchPage({ since: token, cursor });
+    } catch (error) {
+      if (error instanceof SyncTokenExpiredError && (token || cursor)) {
+        console.log(`Sync token for ${feed} expired, pulling everything again`);
+        token = null;
+        cursor = null;
+        continue;
+      }
+      throw error;
+    }
+    
+    const next = page.nextCursor
+      ? { token, cursor: page.nextCursor }
+      : { token: page.syncToken, cursor: null };
+    await merge(page.changes, page.deleted, next);
+    
+    if (!page.nextCursor) {
+      return;
+    }
+    cursor = page.nextCursor;
+  }
 };
 
 /**
@@ -77,13 +433,41 @@ export const refreshCachedData = async () => {
       return false;
     }
     
-    // Fetch and cache customers
-    const customers = await customerAPI.getAll();
-    await cacheCustomers(customers);
+    // Pull customer changes since the last refresh. Customers registered
+    // offline and changes still in the queue are kept by the merge.
+    await pullChanges('customers');
+    
+    // Fetch and cache the card blocklist, keeping cards replaced on this
+    // terminal whose replacement hasn't reached the server yet
+    const blockedCards = await customerAPI.getBlockedCards();
+    const pendingReplacements = (await loadPendingTransactions())
+      .filter(t => t.type === 'card_replacement');
+    const locallyReplacedCards = (await getCachedBlockedCards()).filter(b => 
+      pendingReplacements.some(t => t.cardId === b.cardId) && 
+      !blockedCards.some(server => server.cardId === b.cardId)
+    );
+    await cacheBlockedCards([...blockedCards, ...locallyReplacedCards]);
     
-    // Fetch and cache transactions
-    const transactions = await transactionAPI.getHistory();
-    await cacheTransactions(transactions);
+    // Fetch this terminal's offline allowances. They are issued against the
+    // queue just sent, so they cap what each card can spend here until the
+    // next refresh.
+    await registerTerminal();
+    await cacheOfflineAllowances(await terminalAPI.getOfflineAllowances());
+    
+    // Fetch and cache the operator accounts, so new operators and changed
+    // PINs and roles reach the terminal for offline sign-in
+    const operators = await operatorAPI.getAll();
+    await cacheOperators(operators);
+    
+    // Fetch and cache the product catalog. Stock comes back reconciled with
+    // sales still in the sync queue, replacing the locally decremented counts.
+    const products = await productAPI.getAll();
+    await cacheProducts(products);
+    
+    // Pull transaction changes since the last refresh, then drop whatever
+    // has aged out of the cache
+    await pullChanges('transactions');
+    await pruneCachedTransactions();
     
     // Update last sync timestamp
     await updateLastSyncTimestamp();
@@ -99,9 +483,11 @@ export const refreshCachedData = async () => {
 /**
  * Perform a full sync (both upload pending data and refresh cached data)
  * @param {boolean} forceSyncEvenIfOffline Try to wait for connectivity if currently offline
- * @returns {Promise<{success: boolean, transactionsSynced: number, transactionsFailed: number}>}
+ * @param {Object} [options]
+ * @param {function} [options.onProgress] Called as queued records are sent (see syncPendingTransactions)
+ * @returns {Promise<{success: boolean, transactionsSynced: number, transactionsFailed: number, transactionConflicts: number, overspends?: Array, wiped?: boolean}>}
  */
-export const performFullSync = async (forceSyncEvenIfOffline = false) => {
+export const performFullSync = async (forceSyncEvenIfOffline = false, { onProgress } = {}) => {
   try {
     // Check for internet connectivity
     let isConnected = await hasInternetAccess();
@@ -118,12 +504,24 @@ export const performFullSync = async (forceSyncEvenIfOffline = false) => {
         success: false, 
         transactionsSynced: 0, 
         transactionsFailed: 0,
+        transactionConflicts: 0,
         message: 'No internet connection' 
       };
     }
     
     // First sync pending transactions
-    const { success, failed } = await syncPendingTransactions();
+    const { success, failed, conflicts, overspends, wiped } = await syncPendingTransactions({ onProgress });
+    
+    if (wiped) {
+      return {
+        success: false,
+        transactionsSynced: success,
+        transactionsFailed: failed,
+        transactionConflicts: conflicts,
+        wiped: true,
+        message: 'This terminal has been wiped'
+      };
+    }
     
     // Then refresh cached data
     const refreshSuccess = await refreshCachedData();
@@ -132,6 +530,8 @@ export const performFullSync = async (forceSyncEvenIfOffline = false) => {
       success: refreshSuccess,
       transactionsSynced: success,
       transactionsFailed: failed,
+      transactionConflicts: conflicts,
+      overspends,
       message: 'Sync completed successfully'
     };
   } catch (error) {
@@ -140,6 +540,7 @@ export const performFullSync = async (forceSyncEvenIfOffline = false) => {
       success: false, 
       transactionsSynced: 0, 
       transactionsFailed: 0,
+      transactionConflicts: 0,
       message: `Sync failed: ${error.message}` 
     };
   }
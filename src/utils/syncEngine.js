@@ -0,0 +1,234 @@
+/**
+ * Background sync engine
+ *
+ * Owns the one sync loop of the app. Everything that shows the pending
+ * queue or sync activity (the offline indicator, the home screen, offline
+ * settings) reads it from the state kept here, and everything that wants a
+ * sync asks for one here, so only one sync ever runs at a time.
+ *
+ * Automatic syncs run when the terminal comes back online, periodically
+ * while it is online, and as retries after a sync that left records in the
+ * queue. Retries back off exponentially, with jitter so a fleet of
+ * terminals coming back online together doesn't retry in lockstep.
+ * Automatic syncs honour the "Auto-sync when online" setting; a sync the
+ * operator asks for always runs.
+ */
+import {
+  loadPendingTransactions,
+  subscribePendingTransactions,
+  getLastSyncTimestamp,
+  getUserSettings
+} from './storage';
+import { performFullSync } from './sync';
+import { getConnectivityState, subscribeConnectivity } from './network';
+
+// How often an online terminal syncs without being asked
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Delay before the first retry; it doubles with every failed retry
+const BASE_RETRY_DELAY_MS = 5000;
+// Longest delay between retries
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// Observable sync state
+let syncState = {
+  pendingCount: 0,            // records in the pending queue
+  isSyncing: false,
+  progress: null,             // { current, total, failed, conflicts } while the queue is sent
+  lastSyncAt: null,           // timestamp of the last successful sync
+  lastResult: null,           // result of the last sync (see performFullSync)
+  retryAttempt: 0,            // syncs in a row that left records behind
+  nextRetryAt: null,
+};
+const listeners = new Set();
+
+let runningSync = null;
+let retryTimer = null;
+// Until startSyncEngine runs and after it is stopped, the engine starts no
+// syncs or retries of its own. A sync running when it stops still finishes.
+let stopped = true;
+
+/**
+ * Update the sync state and notify subscribers
+ * @param {Object} changes Fields to merge into the state
+ */
+const updateSyncState = (changes) => {
+  syncState = { ...syncState, ...changes };
+  
+  listeners.forEach(listener => {
+    try {
+      listener(syncState);
+    } catch (error) {
+      console.error('Sync listener failed:', error);
+    }
+  });
+};
+
+/**
+ * Get the current sync state
+ * @returns {{pendingCount: number, isSyncing: boolean, progress: Object|null, lastSyncAt: number|null, lastResult: Object|null, retryAttempt: number, nextRetryAt: number|null}}
+ */
+export const getSyncState = () => syncState;
+
+/**
+ * Subscribe to sync state changes, including progress while a sync runs
+ * @param {function} listener Called with the new state on every change
+ * @returns {function} Unsubscribe function
+ */
+export const subscribeSync = (listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Read the length of the pending queue into the sync state
+ * @returns {Promise<number>}
+ */
+const refreshPendingCount = async () => {
+  const pending = await loadPendingTransactions();
+  updateSyncState({ pendingCount: pending.length });
+  return pending.length;
+};
+
+/**
+ * Get the delay before a retry: exponential in the attempt, capped, with
+ * the upper half jittered
+ * @param {number} attempt Retry attempt, starting at 1
+ * @returns {number} Delay in ms
+ */
+const getRetryDelay = (attempt) => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const clearRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+};
+
+// Try again later after a sync that didn't get everything through
+const scheduleRetry = () => {
+  clearRetry();
+  if (stopped) {
+    return;
+  }
+  
+  const attempt = syncState.retryAttempt + 1;
+  const delay = getRetryDelay(attempt);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    updateSyncState({ nextRetryAt: null });
+    autoSync();
+  }, delay);
+  
+  updateSyncState({ retryAttempt: attempt, nextRetryAt: Date.now() + delay });
+  console.log(`Sync retry ${attempt} in ${Math.round(delay / 1000)}s`);
+};
+
+// Run one full sync and decide whether it needs a retry
+const runSync = async (force) => {
+  clearRetry();
+  updateSyncState({ isSyncing: true, progress: null, nextRetryAt: null });
+  
+  let result;
+  try {
+    result = await performFullSync(force, {
+      onProgress: progress => updateSyncState({ progress })
+    });
+  } catch (error) {
+    console.error('Sync engine run failed:', error);
+    result = { success: false, message: error.message };
+  }
+  
+  updateSyncState({
+    isSyncing: false,
+    progress: null,
+    lastResult: result,
+    lastSyncAt: await getLastSyncTimestamp()
+  });
+  await refreshPendingCount().catch(error => console.error('Error counting pending transactions:', error));
+  
+  if (result.wiped || (result.success && !result.transactionsFailed)) {
+    updateSyncState({ retryAttempt: 0 });
+  } else {
+    scheduleRetry();
+  }
+  
+  return result;
+};
+
+/**
+ * Sync now, or join the sync already running
+ * @param {Object} [options]
+ * @param {boolean} [options.force] Wait for connectivity if currently offline
+ * @returns {Promise<Object>} The sync result (see performFullSync)
+ */
+export const requestSync = ({ force = false } = {}) => {
+  if (!runningSync) {
+    runningSync = runSync(force).finally(() => {
+      runningSync = null;
+    });
+  }
+  return runningSync;
+};
+
+// A sync the engine starts itself: only online and only if auto-sync is on
+const autoSync = async () => {
+  try {
+    if (stopped || getConnectivityState().isOffline) {
+      return;
+    }
+    
+    const settings = await getUserSettings();
+    if (settings.syncOnConnection === false) {
+      return;
+    }
+    
+    await requestSync();
+  } catch (error) {
+    console.error('Automatic sync failed:', error);
+  }
+};
+
+/**
+ * Start the engine: track the pending queue, sync on reconnect and
+ * periodically, and sync once now. Call once storage is open.
+ * @returns {function} Stop function
+ */
+export const startSyncEngine = () => {
+  stopped = false;
+  const unsubscribePending = subscribePendingTransactions(() => {
+    refreshPendingCount().catch(error => console.error('Error counting pending transactions:', error));
+  });
+  
+  let wasOffline = getConnectivityState().isOffline;
+  const unsubscribeConnectivity = subscribeConnectivity(state => {
+    const cameBackOnline = wasOffline && !state.isOffline;
+    wasOffline = state.isOffline;
+    
+    if (cameBackOnline) {
+      autoSync();
+    }
+  });
+  
+  const intervalTimer = setInterval(autoSync, SYNC_INTERVAL_MS);
+  
+  Promise.all([refreshPendingCount(), getLastSyncTimestamp()])
+    .then(([, lastSyncAt]) => {
+      updateSyncState({ lastSyncAt });
+      return autoSync();
+    })
+    .catch(error => console.error('Error starting sync engine:', error));
+  
+  return () => {
+    unsubscribePending();
+    unsubscribeConnectivity();
+    clearInterval(intervalTimer);
+    stopped = true;
+    clearRetry();
+    updateSyncState({ retryAttempt: 0, nextRetryAt: null });
+  };
+};
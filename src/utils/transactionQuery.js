@@ -0,0 +1,211 @@
+/**
+ * Transaction queries
+ *
+ * A query filters the transaction history by period, type, customer or
+ * card, amount and free text, and pages through the matches newest first.
+ * Online the server runs it; offline the same query runs here against the
+ * local transaction cache, so screens page through history the same way
+ * in both modes.
+ *
+ * Pages are keyed rather than numbered: a page's cursor names the last
+ * transaction on it, so transactions taken while the operator scrolls
+ * don't shift or repeat later pages.
+ */
+import {
+  getCachedTransactions,
+  getCachedTransactionsByCardId,
+  getCachedTransactionsByCustomerId,
+  getCachedTransactionsBetween
+} from './storage';
+
+// Periods offered as filters, by how far back they reach
+export const TRANSACTION_PERIODS = {
+  ALL: 'all',
+  TODAY: 'today',
+  WEEK: 'week',
+  MONTH: 'month'
+};
+
+/**
+ * Get the key a transaction is stored and paged under
+ * @param {Object} transaction Transaction data
+ * @returns {string}
+ */
+export const getTransactionKey = (transaction) => String(transaction.transactionId ?? transaction.id);
+
+/**
+ * Get a transaction's type, inferring it for older entries that have none
+ * @param {Object} transaction Transaction data
+ * @returns {string}
+ */
+export const getTransactionType = (transaction) => {
+  if (transaction.type) {
+    return transaction.type;
+  }
+  return (transaction.description || '').toLowerCase().includes('reload') ? 'reload' : 'payment';
+};
+
+/**
+ * Get when a period filter starts
+ * @param {string} period One of TRANSACTION_PERIODS
+ * @param {Date} [now] Current time
+ * @returns {string|undefined} ISO timestamp, or undefined for all time
+ */
+export const getPeriodStart = (period, now = new Date()) => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  
+  switch (period) {
+    case TRANSACTION_PERIODS.TODAY:
+      return start.toISOString();
+    case TRANSACTION_PERIODS.WEEK:
+      start.setDate(start.getDate() - 6);
+      return start.toISOString();
+    case TRANSACTION_PERIODS.MONTH:
+      start.setDate(start.getDate() - 29);
+      return start.toISOString();
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Build a query from the filters chosen on a history screen
+ * @param {Object} filters
+ * @param {string} [filters.type] A transaction type, or 'all'
+ * @param {string} [filters.period] One of TRANSACTION_PERIODS
+ * @param {string} [filters.search] Free text
+ * @param {Object} [base] Fixed parts of the query, such as the card
+ * @returns {Object} The query
+ */
+export const buildTransactionQuery = ({ type = 'all', period = TRANSACTION_PERIODS.ALL, search = '' }, base = {}) => {
+  const query = { ...base };
+  
+  if (type !== 'all') {
+    query.types = [type];
+  }
+  
+  const from = getPeriodStart(period);
+  if (from) {
+    query.from = from;
+  }
+  
+  if (search.trim()) {
+    query.search = search.trim();
+  }
+  return query;
+};
+
+/**
+ * Check whether a transaction matches a query's filters
+ * @param {Object} transaction Transaction data
+ * @param {Object} query The query (cursor and limit are ignored)
+ * @returns {boolean}
+ */
+export const matchesTransactionQuery = (transaction, query) => {
+  const takenAt = new Date(transaction.createdAt).getTime();
+  if (query.from && takenAt < new Date(query.from).getTime()) {
+    return false;
+  }
+  if (query.to && takenAt > new Date(query.to).getTime()) {
+    return false;
+  }
+  
+  if (query.types?.length > 0 && !query.types.includes(getTransactionType(transaction))) {
+    return false;
+  }
+  if (query.customerId != null && transaction.customerId !== query.customerId) {
+    return false;
+  }
+  if (query.cardId && transaction.cardId !== query.cardId) {
+    return false;
+  }
+  
+  const amount = Number(transaction.amount) || 0;
+  if (query.minAmount != null && amount < query.minAmount) {
+    return false;
+  }
+  if (query.maxAmount != null && amount > query.maxAmount) {
+    return false;
+  }
+  
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    const fields = [
+      transaction.description,
+      transaction.customerName,
+      transaction.cardId,
+      transaction.transactionId,
+      ...(transaction.items || []).map(item => item.description)
+    ];
+    return fields.some(field => field != null && String(field).toLowerCase().includes(search));
+  }
+  return true;
+};
+
+// Newest first; transactions taken at the same moment are ordered by key
+// so every transaction has one place in the order
+const compareNewestFirst = (a, b) => {
+  const byTime = new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  if (byTime !== 0) {
+    return byTime;
+  }
+  const keyA = getTransactionKey(a);
+  const keyB = getTransactionKey(b);
+  return keyA < keyB ? 1 : keyA > keyB ? -1 : 0;
+};
+
+const encodeCursor = (transaction) => `${transaction.createdAt}|${getTransactionKey(transaction)}`;
+
+const decodeCursor = (cursor) => {
+  const separator = cursor.indexOf('|');
+  return {
+    createdAt: cursor.slice(0, separator),
+    transactionId: cursor.slice(separator + 1)
+  };
+};
+
+/**
+ * Run a query over a list of transactions
+ * @param {Array} transactions Transactions to search
+ * @param {Object} query The query; `cursor` continues from a previous page
+ * @returns {{transactions: Array, nextCursor: string|null}} One page, newest first
+ */
+export const queryTransactions = (transactions, query = {}) => {
+  let matches = transactions
+    .filter(t => matchesTransactionQuery(t, query))
+    .sort(compareNewestFirst);
+  
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    matches = matches.filter(t => compareNewestFirst(after, t) < 0);
+  }
+  
+  const limit = query.limit || matches.length;
+  const page = matches.slice(0, limit);
+  return {
+    transactions: page,
+    nextCursor: matches.length > limit ? encodeCursor(page[page.length - 1]) : null
+  };
+};
+
+/**
+ * Run a query against the local transaction cache. The card, customer or
+ * period index narrows the search before the remaining filters apply.
+ * @param {Object} query The query
+ * @returns {Promise<{transactions: Array, nextCursor: string|null}>}
+ */
+export const runOfflineTransactionQuery = async (query = {}) => {
+  let candidates;
+  if (query.cardId) {
+    candidates = await getCachedTransactionsByCardId(query.cardId);
+  } else if (query.customerId != null) {
+    candidates = await getCachedTransactionsByCustomerId(query.customerId);
+  } else if (query.from || query.to) {
+    candidates = await getCachedTransactionsBetween(query.from, query.to);
+  } else {
+    candidates = await getCachedTransactions();
+  }
+  
+  return queryTransactions(candidates, query);
+};
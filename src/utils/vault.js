@@ -0,0 +1,297 @@
+/**
+ * Encryption at rest
+ *
+ * Sensitive storage keys (customers, transactions, the offline queue and
+ * the like; see SENSITIVE_KEYS in storage.js) are encrypted with
+ * AES-256-GCM before they reach AsyncStorage. The data keys are kept in a
+ * keyring:
+ * - on Android and iOS the keyring is stored in the platform keystore
+ *   (expo-secure-store), so the vault opens by itself
+ * - on web there is no keystore, so the keyring is encrypted with a key
+ *   derived from an operator passphrase (PBKDF2-SHA256) and stored in
+ *   AsyncStorage; the vault stays locked until the passphrase is entered
+ *
+ * Each encrypted value names the key it was encrypted with, which lets the
+ * data key be rotated: a new key is added and made current, everything is
+ * re-encrypted, and then the old keys are dropped.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { utf8ToBytes, bytesToUtf8, bytesToHex, hexToBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+
+export const VAULT_STATUS = {
+  OPENING: 'opening',
+  // Web only: waiting for the passphrase, or for one to be chosen
+  LOCKED: 'locked',
+  NEEDS_PASSPHRASE: 'needs_passphrase',
+  OPEN: 'open',
+};
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Where the keyring is kept (SecureStore on native, AsyncStorage on web)
+const KEYRING_ITEM = 'storage_keyring';
+
+const PBKDF2_ITERATIONS = 100000;
+const KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+
+const usesPassphrase = Platform.OS === 'web';
+
+// { current: number, keys: { [keyId]: hex } } while the vault is open
+let keyring = null;
+// Web only: the key derived from the passphrase, and its salt
+let passphraseKey = null;
+let passphraseSalt = null;
+let status = VAULT_STATUS.OPENING;
+let opening = null;
+const listeners = new Set();
+
+const randomBytes = (count) => Crypto.getRandomBytes(count);
+
+const createKey = () => bytesToHex(randomBytes(KEY_BYTES));
+
+// AES-256-GCM, with `context` bound in as additional data
+const seal = (key, plaintext, context) => {
+  const nonce = randomBytes(NONCE_BYTES);
+  const ciphertext = gcm(key, nonce, utf8ToBytes(context)).encrypt(utf8ToBytes(plaintext));
+  return { iv: bytesToHex(nonce), ct: bytesToHex(ciphertext) };
+};
+
+// Throws if the key is wrong or the data has been changed
+const open = (key, { iv, ct }, context) => {
+  return bytesToUtf8(gcm(key, hexToBytes(iv), utf8ToBytes(context)).decrypt(hexToBytes(ct)));
+};
+
+const derivePassphraseKey = (passphrase, salt, iterations = PBKDF2_ITERATIONS) => {
+  return pbkdf2Async(sha256, passphrase, salt, { c: iterations, dkLen: KEY_BYTES });
+};
+
+// Change the status and tell the subscribers
+const setStatus = (nextStatus) => {
+  status = nextStatus;
+  listeners.forEach(listener => {
+    try {
+      listener(nextStatus);
+    } catch (error) {
+      console.error('Error in vault listener:', error);
+    }
+  });
+};
+
+// Persist the keyring where this platform keeps it
+const saveKeyring = async () => {
+  if (!usesPassphrase) {
+    await SecureStore.setItemAsync(KEYRING_ITEM, JSON.stringify(keyring));
+    return;
+  }
+  
+  await AsyncStorage.setItem(KEYRING_ITEM, JSON.stringify({
+    salt: bytesToHex(passphraseSalt),
+    iterations: PBKDF2_ITERATIONS,
+    ...seal(passphraseKey, JSON.stringify(keyring), KEYRING_ITEM)
+  }));
+};
+
+// The open keyring. On native it is opened on first use; on web it has to
+// be unlocked with the passphrase first.
+const getKeyring = async () => {
+  if (status === VAULT_STATUS.OPENING) {
+    await openVault();
+  }
+  if (!keyring) {
+    throw new Error('Local storage is locked. Enter the passphrase to unlock it.');
+  }
+  return keyring;
+};
+
+/**
+ * Get the vault's status
+ * @returns {string} One of VAULT_STATUS
+ */
+export const getVaultStatus = () => status;
+
+/**
+ * Subscribe to vault status changes
+ * @param {function} listener Called with the new status
+ * @returns {function} Unsubscribe function
+ */
+export const subscribeVault = (listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Open the vault: on native, load the keyring from the keystore (creating
+ * it on first run); on web, find out whether a passphrase is needed
+ * @returns {Promise<string>} The resulting status
+ */
+export const openVault = async () => {
+  if (status === VAULT_STATUS.OPEN) {
+    return status;
+  }
+  if (!opening) {
+    opening = (async () => {
+      try {
+        if (usesPassphrase) {
+          const wrapped = await AsyncStorage.getItem(KEYRING_ITEM);
+          setStatus(wrapped ? VAULT_STATUS.LOCKED : VAULT_STATUS.NEEDS_PASSPHRASE);
+          return status;
+        }
+        
+        const stored = await SecureStore.getItemAsync(KEYRING_ITEM);
+        if (stored) {
+          keyring = JSON.parse(stored);
+        } else {
+          keyring = { current: 1, keys: { 1: createKey() } };
+          await saveKeyring();
+          console.log('[Vault] Created storage encryption key');
+        }
+        setStatus(VAULT_STATUS.OPEN);
+        return status;
+      } catch (error) {
+        console.error('Error opening vault:', error);
+        throw error;
+      } finally {
+        opening = null;
+      }
+    })();
+  }
+  return opening;
+};
+
+/**
+ * Choose the passphrase that protects local storage (web, first run)
+ * @param {string} passphrase The new passphrase
+ * @returns {Promise<void>}
+ */
+export const createVaultPassphrase = async (passphrase) => {
+  if (status !== VAULT_STATUS.NEEDS_PASSPHRASE) {
+    throw new Error('A passphrase has already been set on this device');
+  }
+  if ((passphrase || '').length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  
+  passphraseSalt = randomBytes(16);
+  passphraseKey = await derivePassphraseKey(passphrase, passphraseSalt);
+  keyring = { current: 1, keys: { 1: createKey() } };
+  await saveKeyring();
+  setStatus(VAULT_STATUS.OPEN);
+};
+
+/**
+ * Unlock local storage with the passphrase (web)
+ * @param {string} passphrase The passphrase as entered
+ * @returns {Promise<void>} Rejects if the passphrase is wrong
+ */
+export const unlockVault = async (passphrase) => {
+  const wrapped = JSON.parse(await AsyncStorage.getItem(KEYRING_ITEM) || 'null');
+  if (!wrapped) {
+    throw new Error('No passphrase has been set on this device');
+  }
+  
+  const salt = hexToBytes(wrapped.salt);
+  const key = await derivePassphraseKey(passphrase, salt, wrapped.iterations);
+  try {
+    keyring = JSON.parse(open(key, wrapped, KEYRING_ITEM));
+  } catch (error) {
+    throw new Error('Wrong passphrase');
+  }
+  
+  passphraseSalt = salt;
+  passphraseKey = key;
+  setStatus(VAULT_STATUS.OPEN);
+};
+
+/**
+ * Encrypt a value for storage
+ * @param {string} name Storage key the value is stored under
+ * @param {string} plaintext The value as JSON
+ * @returns {Promise<Object>} Encrypted value ({ encrypted, kid, iv, ct })
+ */
+export const encryptValue = async (name, plaintext) => {
+  const { current, keys } = await getKeyring();
+  return { encrypted: 1, kid: current, ...seal(hexToBytes(keys[current]), plaintext, name) };
+};
+
+/**
+ * Decrypt a stored value
+ * @param {string} name Storage key the value was stored under
+ * @param {Object} value Encrypted value from encryptValue
+ * @returns {Promise<string>} The value as JSON
+ */
+export const decryptValue = async (name, value) => {
+  const { keys } = await getKeyring();
+  if (!keys[value.kid]) {
+    throw new Error(`Storage key ${value.kid} for ${name} is no longer available`);
+  }
+  return open(hexToBytes(keys[value.kid]), value, name);
+};
+
+/**
+ * Check whether a stored value is encrypted
+ * @param {any} value Parsed stored value
+ * @returns {boolean}
+ */
+export const isEncryptedValue = (value) => {
+  return !!value && typeof value === 'object' && value.encrypted === 1 && typeof value.ct === 'string';
+};
+
+/**
+ * Add a new data key and make it current. Values are re-encrypted with it
+ * as they are saved; pass the returned IDs to finishKeyRotation once
+ * everything has been re-encrypted.
+ * @returns {Promise<Array<number>>} IDs of the keys being retired
+ */
+export const beginKeyRotation = async () => {
+  const { keys } = await getKeyring();
+  const retiredIds = Object.keys(keys).map(Number);
+  const nextId = Math.max(...retiredIds) + 1;
+  
+  keyring = { current: nextId, keys: { ...keys, [nextId]: createKey() } };
+  await saveKeyring();
+  return retiredIds;
+};
+
+/**
+ * Drop data keys once nothing is encrypted with them any more
+ * @param {Array<number>} keyIds IDs from beginKeyRotation
+ * @returns {Promise<void>}
+ */
+export const finishKeyRotation = async (keyIds) => {
+  const { current, keys } = await getKeyring();
+  const remaining = { ...keys };
+  keyIds.filter(id => id !== current).forEach(id => {
+    delete remaining[id];
+  });
+  
+  keyring = { current, keys: remaining };
+  await saveKeyring();
+  console.log(`[Vault] Rotated storage encryption key to ${current}`);
+};
+
+/**
+ * Forget every key, making whatever is still encrypted unreadable. Used by
+ * the remote wipe; openVault starts a fresh keyring afterwards.
+ * @returns {Promise<void>}
+ */
+export const destroyVault = async () => {
+  if (usesPassphrase) {
+    await AsyncStorage.removeItem(KEYRING_ITEM);
+  } else {
+    await SecureStore.deleteItemAsync(KEYRING_ITEM);
+  }
+  
+  keyring = null;
+  passphraseKey = null;
+  passphraseSalt = null;
+  setStatus(VAULT_STATUS.OPENING);
+};